@@ -1,15 +1,32 @@
 import express, { Express } from 'express';
 import cors from 'cors';
+import adminRoutes from './routes/admin';
 import ordersRoutes from './routes/orders';
+import paymentsRoutes from './routes/payments';
+import disputesRoutes from './routes/disputes';
+import webhooksRoutes from './routes/webhooks';
+import walletsRoutes from './routes/wallets';
+import giftCardsRoutes from './routes/giftCards';
+import ticketsRoutes from './routes/tickets';
+import { idempotencyMiddleware } from './common/middleware/idempotency.middleware';
 
 const app: Express = express();
 
 // Middleware
 app.use(cors());
+// Webhooks read their raw body for signature checks, so mount them before the JSON parser
+app.use('/webhooks', webhooksRoutes);
 app.use(express.json());
+app.use(idempotencyMiddleware());
 
 // Routes
 app.use('/orders', ordersRoutes);
+app.use('/payments', paymentsRoutes);
+app.use('/disputes', disputesRoutes);
+app.use('/wallets', walletsRoutes);
+app.use('/gift-cards', giftCardsRoutes);
+app.use('/tickets', ticketsRoutes);
+app.use('/admin', adminRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
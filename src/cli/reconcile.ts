@@ -0,0 +1,63 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { initializeDatabase } from '../config/database';
+import { parseTimestamp } from '../common/query-params';
+import { reconcileSettlementReport, reportToCsv } from '../services/reconciliationService';
+
+/**
+ * Reconcile CLI
+ * Matches a Stripe balance-transaction export against the payments table; exits 1 when
+ * there are discrepancies, 2 on errors
+ */
+
+const USAGE =
+  'Usage: npm run reconcile -- <report.csv> [--format json|csv] [--from <date>] [--to <date>] [--output <file>]';
+
+const parseArgs = (argv: string[]) => {
+  const options: Record<string, string> = {};
+  const files: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[++i];
+    } else {
+      files.push(argv[i]);
+    }
+  }
+  return { options, files };
+};
+
+const main = async (): Promise<number> => {
+  const { options, files } = parseArgs(process.argv.slice(2));
+  const format = options.format || 'json';
+  if (files.length !== 1 || !['json', 'csv'].includes(format)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  // Startup messages go to stderr so stdout carries only the report
+  await initializeDatabase(console.error);
+
+  const report = await reconcileSettlementReport(readFileSync(files[0], 'utf8'), {
+    from: parseTimestamp('--from', options.from),
+    to: parseTimestamp('--to', options.to),
+  });
+  const output = format === 'csv' ? reportToCsv(report) : `${JSON.stringify(report, null, 2)}\n`;
+  if (options.output) {
+    writeFileSync(options.output, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  const { matched, missingLocally, missingRemotely, amountMismatches } = report.summary;
+  console.error(
+    `Matched ${matched}; missing locally ${missingLocally}, missing remotely ${missingRemotely}, ` +
+      `amount mismatches ${amountMismatches}`
+  );
+  return report.discrepancies.length > 0 ? 1 : 0;
+};
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('❌ Reconciliation failed:', error.message);
+    process.exit(2);
+  });
@@ -0,0 +1,60 @@
+/**
+ * CSV
+ * Minimal RFC 4180 reading and writing for report imports and exports
+ */
+
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields containing commas,
+ * doubled quotes and line breaks; blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const escapeField = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize a header and rows to CSV with CRLF line endings
+ */
+export const toCsv = (header: string[], rows: unknown[][]): string => {
+  return [header, ...rows].map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,72 @@
+import { Response } from 'express';
+
+/**
+ * Service Errors
+ * Domain errors raised by services and translated into HTTP responses by controllers
+ */
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Request payload failed validation
+ */
+export class ValidationError extends ServiceError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 400, 'VALIDATION_ERROR', details);
+  }
+}
+
+/**
+ * Referenced resource does not exist
+ */
+export class NotFoundError extends ServiceError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 404, 'NOT_FOUND', details);
+  }
+}
+
+/**
+ * Request conflicts with the current state of the resource
+ */
+export class ConflictError extends ServiceError {
+  constructor(message: string, code: string = 'CONFLICT', details?: Record<string, unknown>) {
+    super(message, 409, code, details);
+  }
+}
+
+/**
+ * Request is well-formed but violates a business rule
+ */
+export class BusinessRuleError extends ServiceError {
+  constructor(message: string, code: string, details?: Record<string, unknown>) {
+    super(message, 422, code, details);
+  }
+}
+
+/**
+ * Too many attempts; `retryAfter` in the details says when to try again, in epoch milliseconds
+ */
+export class TooManyRequestsError extends ServiceError {
+  constructor(message: string, code: string, details?: Record<string, unknown>) {
+    super(message, 429, code, details);
+  }
+}
+
+/**
+ * Send an error response, keeping the `{ error }` shape used across the API
+ */
+export const sendError = (res: Response, err: any) => {
+  if (err instanceof ServiceError) {
+    return res.status(err.statusCode).json({ error: err.message, code: err.code, ...err.details });
+  }
+  return res.status(500).json({ error: err.message });
+};
@@ -0,0 +1,77 @@
+/**
+ * Idempotency Middleware
+ * Honors the Idempotency-Key header on mutating routes
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as idempotencyService from '../../services/idempotencyService';
+import { getRequestContext } from '../request-context';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Replays the stored response when a request is retried with the same key.
+ * Reusing a key with a different request body is rejected with 422, and a
+ * retry that arrives while the first request is still running gets 409.
+ * Server errors are not stored so that the client can retry them.
+ */
+export function idempotencyMiddleware(ttlMs: number = idempotencyService.IDEMPOTENCY_KEY_TTL_MS) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header('Idempotency-Key');
+    if (!key || !MUTATING_METHODS.includes(req.method)) {
+      return next();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+    }
+
+    const { tenantId, userId } = getRequestContext(req);
+    const requestHash = idempotencyService.hashRequest(req.method, req.originalUrl, req.body);
+    let lookup: idempotencyService.IdempotencyLookup;
+    try {
+      lookup = await idempotencyService.beginRequest(tenantId, userId || 'anonymous', key, requestHash, ttlMs);
+    } catch (error) {
+      return next(error);
+    }
+
+    switch (lookup.outcome) {
+      case 'mismatch':
+        return res.status(422).json({
+          error: 'Idempotency-Key was already used with a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        });
+      case 'in_progress':
+        return res.status(409).json({
+          error: 'A request with this Idempotency-Key is still being processed',
+          code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+        });
+      case 'replay':
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(lookup.record.responseStatus!).json(lookup.record.responseBody);
+    }
+
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    const { record } = lookup;
+    const settle = (outcome: Promise<void>) =>
+      outcome.catch((error) => console.error(`Error settling Idempotency-Key ${key}:`, error));
+    res.on('finish', () => {
+      if (res.statusCode >= 500) {
+        settle(idempotencyService.releaseRequest(record));
+      } else {
+        settle(idempotencyService.completeRequest(record, res.statusCode, responseBody));
+      }
+    });
+    res.on('close', () => {
+      if (!res.writableFinished) settle(idempotencyService.releaseRequest(record));
+    });
+
+    next();
+  };
+}
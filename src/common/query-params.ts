@@ -0,0 +1,21 @@
+import { ValidationError } from './errors';
+
+/**
+ * Query Parameters
+ * Parsing helpers shared by controllers and CLI commands
+ */
+
+export const queryString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+/**
+ * Accept epoch milliseconds or anything Date.parse understands, e.g. an ISO date
+ */
+export const parseTimestamp = (name: string, value: unknown): number | undefined => {
+  const raw = queryString(value);
+  if (raw === undefined) return undefined;
+  const timestamp = /^\d+$/.test(raw) ? parseInt(raw, 10) : Date.parse(raw);
+  if (Number.isNaN(timestamp)) throw new ValidationError(`${name} must be an epoch millisecond value or ISO date`);
+  return timestamp;
+};
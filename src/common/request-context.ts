@@ -0,0 +1,51 @@
+import { Request } from 'express';
+
+/**
+ * Request Context
+ * Resolves the tenant and user a request is made on behalf of
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      userId?: string;
+      tenantId?: string;
+    }
+  }
+}
+
+export const DEFAULT_TENANT_ID = 'default';
+
+export interface RequestContext {
+  tenantId: string;
+  userId?: string;
+}
+
+/**
+ * Prefer the identity set by the tenant middleware and fall back to the
+ * x-tenant-id / x-user-id headers set by upstream services
+ */
+export const getRequestContext = (req: Request): RequestContext => ({
+  tenantId: req.tenantId || req.header('x-tenant-id') || DEFAULT_TENANT_ID,
+  userId: req.userId || req.header('x-user-id') || undefined,
+});
+
+export interface ClientSignals {
+  ipAddress?: string;
+  ipCountry?: string;
+  accountCreatedAt?: number;
+}
+
+/**
+ * Signals about the caller used by the risk rules: the client IP, its country as resolved
+ * by the edge (x-ip-country), and when the user signed up as set by the gateway (x-user-created-at)
+ */
+export const getClientSignals = (req: Request): ClientSignals => {
+  const country = req.header('x-ip-country');
+  const createdAt = Number(req.header('x-user-created-at'));
+  return {
+    ipAddress: req.ip || undefined,
+    ipCountry: country && /^[A-Za-z]{2}$/.test(country) ? country.toUpperCase() : undefined,
+    accountCreatedAt: Number.isFinite(createdAt) && createdAt > 0 ? createdAt : undefined,
+  };
+};
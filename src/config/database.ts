@@ -1,6 +1,8 @@
-import { Pool, QueryResult } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
 import path from 'path';
 import fs from 'fs';
+import { MIGRATIONS } from '../db/migrations';
 
 /**
  * PostgreSQL Database Configuration
@@ -15,11 +17,17 @@ const USE_MEMORY = process.env.USE_MEMORY === 'true' || !process.env.DATABASE_UR
 let pool: Pool | null = null;
 
 /**
- * Initialize database connection pool
+ * Client of the transaction the current async call chain runs in, if any
  */
-export const initializeDatabase = async (): Promise<void> => {
+const transactionClient = new AsyncLocalStorage<PoolClient>();
+
+/**
+ * Initialize database connection pool. Progress messages go to `log`, e.g. console.error for
+ * commands whose stdout carries their output; failures always go to console.error.
+ */
+export const initializeDatabase = async (log: (message: string) => void = console.log): Promise<void> => {
   if (USE_MEMORY) {
-    console.log('⚠️  Using in-memory storage (DATABASE_URL not configured)');
+    log('⚠️  Using in-memory storage (DATABASE_URL not configured)');
     return;
   }
 
@@ -33,21 +41,46 @@ export const initializeDatabase = async (): Promise<void> => {
 
     // Test connection
     const client = await pool.connect();
-    console.log('✅ PostgreSQL database connected');
+    log('✅ PostgreSQL database connected');
     client.release();
-
-    // Initialize schema
-    await initializeSchema();
   } catch (error) {
     console.error('❌ Failed to connect to PostgreSQL:', error);
-    console.log('⚠️  Falling back to in-memory storage');
+    log('⚠️  Falling back to in-memory storage');
+    return;
+  }
+
+  // A failed migration stops startup: the service cannot run against tables of the old shape
+  await runMigrations(log);
+  await initializeSchema(log);
+};
+
+/**
+ * Bring tables created by earlier versions to the current shape, each migration in its own
+ * transaction
+ */
+const runMigrations = async (log: (message: string) => void): Promise<void> => {
+  if (!pool || USE_MEMORY) return;
+
+  for (const migration of MIGRATIONS) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await migration.up((text, values) => client.query(text, values));
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(`Migration "${migration.name}" failed: ${(error as Error).message}`);
+    } finally {
+      client.release();
+    }
   }
+  log('✅ Database migrations applied');
 };
 
 /**
  * Initialize database schema
  */
-const initializeSchema = async (): Promise<void> => {
+const initializeSchema = async (log: (message: string) => void): Promise<void> => {
   if (!pool || USE_MEMORY) return;
 
   try {
@@ -62,7 +95,7 @@ const initializeSchema = async (): Promise<void> => {
       }
     }
 
-    console.log('✅ Database schema initialized');
+    log('✅ Database schema initialized');
   } catch (error) {
     console.error('⚠️  Schema initialization failed:', error);
   }
@@ -73,20 +106,52 @@ const initializeSchema = async (): Promise<void> => {
  */
 export const query = async (
   text: string,
-  values?: (string | number | boolean | null)[]
+  values?: (string | number | boolean | Buffer | string[] | null | undefined)[]
 ): Promise<QueryResult> => {
   if (!pool || USE_MEMORY) {
     throw new Error('Database not initialized. Set DATABASE_URL environment variable.');
   }
 
   try {
-    return await pool.query(text, values);
+    return await (transactionClient.getStore() || pool).query(text, values);
   } catch (error) {
     console.error('Query execution error:', error);
     throw error;
   }
 };
 
+/**
+ * Whether `error` is PostgreSQL refusing a row that breaks the unique index `constraint`
+ */
+export const isUniqueViolation = (error: unknown, constraint: string): boolean => {
+  const { code, constraint: violated } = (error ?? {}) as { code?: string; constraint?: string };
+  return code === '23505' && violated === constraint;
+};
+
+/**
+ * Run `fn` in a transaction: every query it makes, through any repository, uses one client
+ * and commits or rolls back together. Nested calls join the outer transaction. In memory
+ * mode `fn` simply runs, so callers validate before writing.
+ */
+export const withTransaction = async <T>(fn: () => Promise<T>): Promise<T> => {
+  if (!pool || USE_MEMORY || transactionClient.getStore()) {
+    return fn();
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await transactionClient.run(client, fn);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
 /**
  * Get database connection status
  */
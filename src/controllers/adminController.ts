@@ -0,0 +1,586 @@
+import { Request, Response } from 'express';
+import * as reconciliationService from '../services/reconciliationService';
+import * as ledgerService from '../services/ledgerService';
+import * as feesService from '../services/feesService';
+import * as payoutsService from '../services/payoutsService';
+import * as riskService from '../services/riskService';
+import * as ordersService from '../services/ordersService';
+import * as walletService from '../services/walletService';
+import * as giftCardsService from '../services/giftCardsService';
+import * as promoCodesService from '../services/promoCodesService';
+import * as taxService from '../services/taxService';
+import * as fxService from '../services/fxService';
+import * as orderHoldsService from '../services/orderHoldsService';
+import * as ticketSettingsService from '../services/ticketSettingsService';
+import * as inventoryService from '../services/inventoryService';
+import * as purchaseRulesService from '../services/purchaseRulesService';
+import { Money } from '../models/money';
+import { sendError, ValidationError } from '../common/errors';
+import { parseTimestamp, queryString } from '../common/query-params';
+import { getRequestContext } from '../common/request-context';
+
+const REPORT_FORMATS = ['json', 'csv'];
+
+/**
+ * Timestamps in request bodies may be epoch milliseconds or ISO dates
+ */
+const bodyTimestamp = (name: string, value: unknown): number | undefined =>
+  typeof value === 'number' ? value : parseTimestamp(name, value);
+
+/**
+ * The request body is the settlement CSV; `format=csv` returns the discrepancies as CSV
+ */
+export const reconcileSettlement = async (req: Request, res: Response) => {
+  try {
+    if (typeof req.body !== 'string') {
+      return res.status(415).json({ error: 'Content-Type must be text/csv' });
+    }
+    const format = queryString(req.query.format) || 'json';
+    if (!REPORT_FORMATS.includes(format)) {
+      throw new ValidationError(`format must be one of: ${REPORT_FORMATS.join(', ')}`);
+    }
+
+    const report = await reconciliationService.reconcileSettlementReport(req.body, {
+      from: parseTimestamp('from', req.query.from),
+      to: parseTimestamp('to', req.query.to),
+    });
+    if (format === 'csv') {
+      res.type('text/csv');
+      res.set('Content-Disposition', 'attachment; filename="reconciliation.csv"');
+      return res.send(reconciliationService.reportToCsv(report));
+    }
+    res.json(report);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getLedgerAccounts = async (req: Request, res: Response) => {
+  try {
+    res.json(await ledgerService.getAccountBalances());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getLedgerAccount = async (req: Request, res: Response) => {
+  try {
+    const { accountCode } = req.params;
+    const balance = await ledgerService.getAccountBalance(accountCode);
+    res.json({ ...balance, entries: await ledgerService.getAccountEntries(accountCode) });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getOrderLedger = async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    res.json(await ledgerService.getOrderEntries(orderId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getFeeRules = async (req: Request, res: Response) => {
+  try {
+    res.json(await feesService.listFeeRules());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const createFeeRule = async (req: Request, res: Response) => {
+  try {
+    const { kind, tenantId, ticketId, percentage, fixedAmount } = req.body;
+    const rule = await feesService.createFeeRule({ kind, tenantId, ticketId, percentage, fixedAmount });
+    res.status(201).json(rule);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const updateFeeRule = async (req: Request, res: Response) => {
+  try {
+    const { ruleId } = req.params;
+    const { percentage, fixedAmount } = req.body;
+    res.json(await feesService.updateFeeRule(ruleId, { percentage, fixedAmount }));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const deleteFeeRule = async (req: Request, res: Response) => {
+  try {
+    await feesService.deleteFeeRule(req.params.ruleId);
+    res.status(204).send();
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+/**
+ * Organizer earnings per `period` (day, week or month), optionally for one organizer
+ */
+export const getOrganizerEarnings = async (req: Request, res: Response) => {
+  try {
+    const period = queryString(req.query.period) || 'month';
+    if (!(feesService.EARNINGS_PERIODS as readonly string[]).includes(period)) {
+      throw new ValidationError(`period must be one of: ${feesService.EARNINGS_PERIODS.join(', ')}`);
+    }
+    res.json(
+      await feesService.getOrganizerEarnings({
+        period: period as feesService.EarningsPeriod,
+        from: parseTimestamp('from', req.query.from),
+        to: parseTimestamp('to', req.query.to),
+        organizerId: req.params.organizerId || queryString(req.query.organizerId),
+      })
+    );
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPayoutSettings = async (req: Request, res: Response) => {
+  try {
+    const settings = await payoutsService.getPayoutSettings(req.params.organizerId);
+    if (!settings) return res.status(404).json({ error: 'Payout settings not found' });
+    res.json(settings);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const savePayoutSettings = async (req: Request, res: Response) => {
+  try {
+    const { destination, schedule, reserveDays } = req.body;
+    res.json(await payoutsService.savePayoutSettings(req.params.organizerId, { destination, schedule, reserveDays }));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getOrganizerBalance = async (req: Request, res: Response) => {
+  try {
+    res.json(await payoutsService.getOrganizerBalance(req.params.organizerId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getOrganizerPayouts = async (req: Request, res: Response) => {
+  try {
+    res.json(await payoutsService.getOrganizerPayouts(req.params.organizerId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+/**
+ * Pay the organizer's available balance now, regardless of their schedule
+ */
+export const createPayouts = async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await payoutsService.createPayouts(req.params.organizerId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPayout = async (req: Request, res: Response) => {
+  try {
+    const payout = await payoutsService.getPayout(req.params.payoutId);
+    if (!payout) return res.status(404).json({ error: 'Payout not found' });
+    res.json(payout);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getRiskRules = async (req: Request, res: Response) => {
+  try {
+    res.json(await riskService.getRiskRules(req.params.tenantId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const saveRiskRules = async (req: Request, res: Response) => {
+  try {
+    const { velocity, amount, countryMismatch, newAccount } = req.body;
+    res.json(await riskService.saveRiskRules(req.params.tenantId, { velocity, amount, countryMismatch, newAccount }));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getRiskReviews = async (req: Request, res: Response) => {
+  try {
+    res.json(await riskService.getReviewQueue());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+const REVIEW_DECISIONS = ['approve', 'reject'];
+
+/**
+ * Approve (charge) or reject a payment held for review; `{ decision, note? }`
+ */
+export const reviewPayment = async (req: Request, res: Response) => {
+  try {
+    const { decision, note } = req.body;
+    if (!REVIEW_DECISIONS.includes(decision)) {
+      throw new ValidationError(`decision must be one of: ${REVIEW_DECISIONS.join(', ')}`);
+    }
+    const reviewer = getRequestContext(req).userId || 'anonymous';
+    const result = await ordersService.reviewHeldPayment(req.params.paymentId, { decision, reviewer, note });
+    res.json(result);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+/**
+ * Grant promotional store credit to a user in the request's tenant; `{ amount, description? }`
+ */
+export const grantStoreCredit = async (req: Request, res: Response) => {
+  try {
+    const { amount, description } = req.body;
+    if (description !== undefined && typeof description !== 'string') {
+      throw new ValidationError('description must be a string');
+    }
+    const { tenantId, userId } = getRequestContext(req);
+    const transaction = await walletService.grantStoreCredit({
+      tenantId,
+      userId: req.params.userId,
+      amount: Money.fromJSON(amount),
+      description,
+      createdBy: userId || 'anonymous',
+    });
+    res.status(201).json(transaction);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+/**
+ * Issue a batch of gift cards; `{ quantity, initialValue, source, expiresAt? }`. The codes
+ * are only ever returned here, so `format=csv` gives the print run as a download.
+ */
+export const issueGiftCards = async (req: Request, res: Response) => {
+  try {
+    const format = queryString(req.query.format) || 'json';
+    if (!REPORT_FORMATS.includes(format)) {
+      throw new ValidationError(`format must be one of: ${REPORT_FORMATS.join(', ')}`);
+    }
+    const { quantity, initialValue, source, expiresAt } = req.body;
+    const { batchId, cards } = await giftCardsService.issueGiftCards({
+      quantity,
+      initialValue,
+      source,
+      expiresAt: bodyTimestamp('expiresAt', expiresAt),
+      issuedBy: getRequestContext(req).userId || 'anonymous',
+    });
+    if (format === 'csv') {
+      res.status(201).type('text/csv');
+      res.set('Content-Disposition', `attachment; filename="gift-cards-${batchId}.csv"`);
+      return res.send(giftCardsService.giftCardsToCsv(cards));
+    }
+    res.status(201).json({ batchId, cards: cards.map(giftCardsService.withoutCodeHash) });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getGiftCardBatch = async (req: Request, res: Response) => {
+  try {
+    const cards = await giftCardsService.getGiftCardBatch(req.params.batchId);
+    if (cards.length === 0) return res.status(404).json({ error: 'Gift card batch not found' });
+    res.json(cards.map(giftCardsService.withoutCodeHash));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPromoCodes = async (req: Request, res: Response) => {
+  try {
+    res.json(await promoCodesService.listPromoCodes());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPromoCode = async (req: Request, res: Response) => {
+  try {
+    res.json(await promoCodesService.getPromoCode(req.params.promoCodeId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const createPromoCode = async (req: Request, res: Response) => {
+  try {
+    const { code, tenantId, kind, percentage, amountOff, minimumSpend, ticketIds, stackable } = req.body;
+    const { maxRedemptions, maxRedemptionsPerUser, startsAt, endsAt } = req.body;
+    const promoCode = await promoCodesService.createPromoCode({
+      code,
+      tenantId,
+      kind,
+      percentage,
+      amountOff,
+      minimumSpend,
+      ticketIds,
+      maxRedemptions,
+      maxRedemptionsPerUser,
+      startsAt: bodyTimestamp('startsAt', startsAt),
+      endsAt: bodyTimestamp('endsAt', endsAt),
+      stackable,
+      createdBy: getRequestContext(req).userId || 'anonymous',
+    });
+    res.status(201).json(promoCode);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const updatePromoCode = async (req: Request, res: Response) => {
+  try {
+    const { active, startsAt, endsAt, maxRedemptions, maxRedemptionsPerUser } = req.body;
+    res.json(
+      await promoCodesService.updatePromoCode(req.params.promoCodeId, {
+        active,
+        startsAt: bodyTimestamp('startsAt', startsAt),
+        endsAt: bodyTimestamp('endsAt', endsAt),
+        maxRedemptions,
+        maxRedemptionsPerUser,
+      })
+    );
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getTaxRates = async (req: Request, res: Response) => {
+  try {
+    res.json(await taxService.listTaxRates(queryString(req.query.country)));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const createTaxRate = async (req: Request, res: Response) => {
+  try {
+    const { country, region, category, name, rate, pricingMode, effectiveFrom, effectiveTo } = req.body;
+    const taxRate = await taxService.createTaxRate({
+      country,
+      region,
+      category,
+      name,
+      rate,
+      pricingMode,
+      effectiveFrom: bodyTimestamp('effectiveFrom', effectiveFrom),
+      effectiveTo: bodyTimestamp('effectiveTo', effectiveTo),
+    });
+    res.status(201).json(taxRate);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const endTaxRate = async (req: Request, res: Response) => {
+  try {
+    const effectiveTo = bodyTimestamp('effectiveTo', req.body.effectiveTo);
+    res.json(await taxService.endTaxRate(req.params.taxRateId, effectiveTo));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getFxRates = async (req: Request, res: Response) => {
+  try {
+    res.json(await fxService.listFxRates());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const recordFxRates = async (req: Request, res: Response) => {
+  try {
+    const { rates, asOf } = req.body;
+    res.status(201).json(await fxService.recordFxRates({ rates, asOf }, 'admin'));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getOrderHoldRules = async (req: Request, res: Response) => {
+  try {
+    res.json(await orderHoldsService.listOrderHoldRules());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const createOrderHoldRule = async (req: Request, res: Response) => {
+  try {
+    const { tenantId, ticketId, holdMinutes } = req.body;
+    res.status(201).json(await orderHoldsService.createOrderHoldRule({ tenantId, ticketId, holdMinutes }));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const updateOrderHoldRule = async (req: Request, res: Response) => {
+  try {
+    res.json(await orderHoldsService.updateOrderHoldRule(req.params.ruleId, req.body.holdMinutes));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const deleteOrderHoldRule = async (req: Request, res: Response) => {
+  try {
+    await orderHoldsService.deleteOrderHoldRule(req.params.ruleId);
+    res.status(204).send();
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getAllTicketSettings = async (req: Request, res: Response) => {
+  try {
+    res.json(await ticketSettingsService.listTicketSettings());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getTicketSettings = async (req: Request, res: Response) => {
+  try {
+    res.json(await ticketSettingsService.getTicketSettings(req.params.ticketId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const saveTicketSettings = async (req: Request, res: Response) => {
+  try {
+    const { taxCategory, eventId, price } = req.body;
+    res.json(await ticketSettingsService.saveTicketSettings(req.params.ticketId, { taxCategory, eventId, price }));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getInventory = async (req: Request, res: Response) => {
+  try {
+    res.json(await inventoryService.listInventory());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getTicketInventory = async (req: Request, res: Response) => {
+  try {
+    res.json(await inventoryService.getInventory(req.params.ticketId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+/**
+ * Seats added to a ticket's supply are offered to its waitlist first
+ */
+export const setTicketSupply = async (req: Request, res: Response) => {
+  try {
+    const { ticketId } = req.params;
+    await inventoryService.setTotalSupply(ticketId, req.body.totalSupply);
+    await ordersService.offerWaitlistedSeats([ticketId]);
+    res.json(await inventoryService.getInventory(ticketId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPurchaseLimits = async (req: Request, res: Response) => {
+  try {
+    res.json(await purchaseRulesService.listPurchaseLimits());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const createPurchaseLimit = async (req: Request, res: Response) => {
+  try {
+    const { ticketId, eventId, maxQuantity } = req.body;
+    res.status(201).json(await purchaseRulesService.createPurchaseLimit({ ticketId, eventId, maxQuantity }));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const updatePurchaseLimit = async (req: Request, res: Response) => {
+  try {
+    res.json(await purchaseRulesService.updatePurchaseLimit(req.params.limitId, req.body.maxQuantity));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const deletePurchaseLimit = async (req: Request, res: Response) => {
+  try {
+    await purchaseRulesService.deletePurchaseLimit(req.params.limitId);
+    res.status(204).send();
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPresales = async (req: Request, res: Response) => {
+  try {
+    res.json(await purchaseRulesService.listPresales());
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPresale = async (req: Request, res: Response) => {
+  try {
+    res.json(await purchaseRulesService.getPresale(req.params.presaleId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const createPresale = async (req: Request, res: Response) => {
+  try {
+    const { accessCode, ticketIds, eventId, maxUses } = req.body;
+    const presale = await purchaseRulesService.createPresale({
+      accessCode,
+      ticketIds,
+      eventId,
+      maxUses,
+      startsAt: bodyTimestamp('startsAt', req.body.startsAt),
+      onSaleAt: bodyTimestamp('onSaleAt', req.body.onSaleAt),
+    });
+    res.status(201).json(presale);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const updatePresale = async (req: Request, res: Response) => {
+  try {
+    const { active, maxUses } = req.body;
+    const presale = await purchaseRulesService.updatePresale(req.params.presaleId, {
+      active,
+      maxUses,
+      startsAt: bodyTimestamp('startsAt', req.body.startsAt),
+      onSaleAt: bodyTimestamp('onSaleAt', req.body.onSaleAt),
+    });
+    res.json(presale);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
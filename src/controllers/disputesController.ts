@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import * as disputesService from '../services/disputesService';
+import { DisputeEvidenceCategory } from '../models/types';
+import { sendError } from '../common/errors';
+import { getRequestContext } from '../common/request-context';
+
+export const getDispute = async (req: Request, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+    const dispute = await disputesService.getDispute(disputeId);
+    if (!dispute) return res.status(404).json({ error: 'Dispute not found' });
+    res.json(dispute);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getPaymentDisputes = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    res.json(await disputesService.getPaymentDisputes(paymentId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const addTextEvidence = async (req: Request, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+    const { text, category } = req.body;
+    const submittedBy = getRequestContext(req).userId || 'anonymous';
+    const evidence = await disputesService.addTextEvidence(disputeId, text, submittedBy, category);
+    res.status(201).json(evidence);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+/**
+ * The request body is the file itself; its name comes from the X-File-Name header
+ */
+export const addFileEvidence = async (req: Request, res: Response) => {
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(415).json({
+        error: `Content-Type must be one of: ${disputesService.EVIDENCE_CONTENT_TYPES.join(', ')}`,
+      });
+    }
+    const { disputeId } = req.params;
+    const evidence = await disputesService.addFileEvidence(disputeId, {
+      category: (req.query.category as DisputeEvidenceCategory) || 'uncategorized',
+      fileName: req.get('X-File-Name') || '',
+      contentType: (req.get('Content-Type') || '').split(';')[0].trim(),
+      content: req.body,
+      submittedBy: getRequestContext(req).userId || 'anonymous',
+    });
+    res.status(201).json(evidence);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getEvidenceContent = async (req: Request, res: Response) => {
+  try {
+    const { disputeId, evidenceId } = req.params;
+    const { evidence, content } = await disputesService.getEvidenceContent(disputeId, evidenceId);
+    res.type(evidence.contentType!);
+    res.set('Content-Disposition', `attachment; filename="${encodeURIComponent(evidence.fileName!)}"`);
+    res.send(content);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const submitEvidence = async (req: Request, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+    res.json(await disputesService.submitDisputeEvidence(disputeId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
@@ -0,0 +1,17 @@
+import { Request, Response } from 'express';
+import * as giftCardsService from '../services/giftCardsService';
+import { sendError } from '../common/errors';
+import { getClientSignals, getRequestContext } from '../common/request-context';
+
+/**
+ * The code is sent in the body, not the URL, so it stays out of access logs
+ */
+export const checkBalance = async (req: Request, res: Response) => {
+  try {
+    const { userId } = getRequestContext(req);
+    const { ipAddress } = getClientSignals(req);
+    res.json(await giftCardsService.getGiftCardBalance(req.body.code, { userId, ipAddress }));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
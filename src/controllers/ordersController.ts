@@ -1,115 +1,281 @@
 import { Request, Response } from 'express';
 import * as ordersService from '../services/ordersService';
+import * as refundsService from '../services/refundsService';
+import * as fxService from '../services/fxService';
+import { GIFT_CARD_PAYMENT_METHOD } from '../services/giftCardsService';
+import { Order } from '../models/types';
+import { isSupportedCurrency, Money } from '../models/money';
+import { isOrderStatus, ORDER_STATUSES } from '../services/orderLifecycle';
+import { sendError, ValidationError } from '../common/errors';
+import { getClientSignals, getRequestContext } from '../common/request-context';
+import { parseTimestamp, queryString } from '../common/query-params';
 
-export const createOrder = (req: Request, res: Response) => {
+export const createOrder = async (req: Request, res: Response) => {
   try {
-    const { userId, ticketId, quantity, totalAmount } = req.body;
-    if (!userId || !ticketId || !quantity || !totalAmount) {
-      return res.status(400).json({ error: 'userId, ticketId, quantity, and totalAmount are required' });
+    const { userId, lineItems, organizerId, promoCodes, billingAddress, accessCode } = req.body;
+    if (!userId || !lineItems) {
+      return res.status(400).json({ error: 'userId and lineItems are required' });
     }
-    const order = ordersService.createOrder(userId, ticketId, quantity, totalAmount);
+    if (organizerId !== undefined && (typeof organizerId !== 'string' || !organizerId)) {
+      throw new ValidationError('organizerId must be a non-empty string');
+    }
+    const { tenantId } = getRequestContext(req);
+    const order = await ordersService.createOrder(userId, lineItems, {
+      tenantId,
+      organizerId,
+      promoCodes,
+      billingAddress,
+      accessCode,
+    });
     res.status(201).json(order);
   } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    sendError(res, err);
   }
 };
 
-export const getOrderHandler = (req: Request, res: Response) => {
+const SORT_FIELDS = ['createdAt', 'totalAmount'];
+const CAPTURE_METHODS = ['automatic', 'manual'];
+const REFUND_DESTINATIONS = ['payment_method', 'store_credit'];
+const SORT_ORDERS = ['asc', 'desc'];
+const MAX_PAGE_SIZE = 100;
+
+const parseMinorUnits = (name: string, value: unknown): number | undefined => {
+  const raw = queryString(value);
+  if (raw === undefined) return undefined;
+  if (!/^\d+$/.test(raw)) throw new ValidationError(`${name} must be an integer amount in minor units`);
+  return parseInt(raw, 10);
+};
+
+export const searchOrders = async (req: Request, res: Response) => {
+  try {
+    const { status, ticketId, userId, createdFrom, createdTo, currency, minAmount, maxAmount } = req.query;
+    const { sortBy, sortOrder, limit, cursor } = req.query;
+
+    const statuses = queryString(status)?.split(',');
+    if (statuses && !statuses.every(isOrderStatus)) {
+      throw new ValidationError(`status must be a comma-separated list of: ${ORDER_STATUSES.join(', ')}`);
+    }
+    if (currency !== undefined && !isSupportedCurrency(currency)) {
+      throw new ValidationError('currency must be a supported ISO-4217 code');
+    }
+    if (sortBy !== undefined && !SORT_FIELDS.includes(sortBy as string)) {
+      throw new ValidationError(`sortBy must be one of: ${SORT_FIELDS.join(', ')}`);
+    }
+    if (sortOrder !== undefined && !SORT_ORDERS.includes(sortOrder as string)) {
+      throw new ValidationError(`sortOrder must be one of: ${SORT_ORDERS.join(', ')}`);
+    }
+    const pageSize = limit === undefined ? undefined : Number(limit);
+    if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE)) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const page = await ordersService.searchOrders(
+      {
+        statuses: statuses as Order['status'][] | undefined,
+        ticketId: queryString(ticketId),
+        userId: queryString(userId),
+        createdFrom: parseTimestamp('createdFrom', createdFrom),
+        createdTo: parseTimestamp('createdTo', createdTo),
+        currency: queryString(currency),
+        minAmount: parseMinorUnits('minAmount', minAmount),
+        maxAmount: parseMinorUnits('maxAmount', maxAmount),
+      },
+      {
+        sortBy: sortBy as ordersService.OrderSearchQuery['sortBy'],
+        sortOrder: sortOrder as ordersService.OrderSearchQuery['sortOrder'],
+        limit: pageSize,
+        cursor: queryString(cursor),
+      }
+    );
+    res.json(page);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getOrderHandler = async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
-    const order = ordersService.getOrder(orderId);
+    const order = await ordersService.getOrder(orderId);
     if (!order) return res.status(404).json({ error: 'Order not found' });
-    res.json(order);
+    res.json(await ordersService.withBalance(order));
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 };
 
-export const getUserOrders = (req: Request, res: Response) => {
+export const getUserOrders = async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
-    const userOrders = ordersService.getUserOrders(userId);
+    const userOrders = await ordersService.getUserOrders(userId);
     res.json(userOrders);
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 };
 
-export const updateOrderStatus = (req: Request, res: Response) => {
+export const updateOrderStatus = async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
-    const { status } = req.body;
+    const { status, reason } = req.body;
     if (!status) return res.status(400).json({ error: 'status is required' });
-    const order = ordersService.updateOrderStatus(orderId, status);
+    if (!isOrderStatus(status)) {
+      return res.status(400).json({ error: `status must be one of: ${ORDER_STATUSES.join(', ')}` });
+    }
+    const actor = getRequestContext(req).userId || 'anonymous';
+    const order = await ordersService.updateOrderStatus(orderId, status, { actor, reason });
     if (!order) return res.status(404).json({ error: 'Order not found' });
     res.json(order);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const processPayment = async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { amount, paymentMethod, captureMethod, giftCardCode, presentmentCurrency } = req.body;
+    if (!amount || !paymentMethod) {
+      return res.status(400).json({ error: 'amount and paymentMethod are required' });
+    }
+    if (paymentMethod === GIFT_CARD_PAYMENT_METHOD && typeof giftCardCode !== 'string') {
+      throw new ValidationError('giftCardCode is required to pay with a gift card');
+    }
+    if (captureMethod !== undefined && !CAPTURE_METHODS.includes(captureMethod)) {
+      throw new ValidationError(`captureMethod must be one of: ${CAPTURE_METHODS.join(', ')}`);
+    }
+    const paymentAmount = Money.fromJSON(amount);
+    if (!paymentAmount.isPositive()) {
+      throw new ValidationError('amount must be greater than zero');
+    }
+    const order = await ordersService.getOrder(orderId);
+    if (!order) return res.status(404).json({ error: 'Order not found' });
+    const { tenantId } = getRequestContext(req);
+    const result = await ordersService.processPayment(order, paymentAmount, paymentMethod, {
+      tenantId,
+      captureMethod,
+      giftCardCode,
+      presentmentCurrency,
+      ...getClientSignals(req),
+    });
+
+    let status = 201;
+    if (result.payment.status === 'failed') status = 402;
+    else if (result.payment.risk?.outcome === 'review') status = 202;
+    res.status(status).json({
+      order: result.order && (await ordersService.withBalance(result.order)),
+      payment: result.payment,
+    });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getOrderPayments = async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const payments = await ordersService.getOrderPayments(orderId);
+    res.json(payments);
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 };
 
-export const processPayment = (req: Request, res: Response) => {
+/**
+ * What paying the outstanding balance in `currency` would cost at the current rate; the rate
+ * is only locked once the payment is made
+ */
+export const getFxQuote = async (req: Request, res: Response) => {
+  try {
+    const order = await ordersService.getOrder(req.params.orderId);
+    if (!order) return res.status(404).json({ error: 'Order not found' });
+    const { outstanding } = await ordersService.getOrderBalance(order);
+    const quote = await fxService.quoteFxConversion(outstanding, queryString(req.query.currency));
+    res.json({ amount: outstanding, ...quote });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const createRefund = async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
-    const { amount, currency, paymentMethod } = req.body;
-    if (!amount || !currency || !paymentMethod) {
-      return res.status(400).json({ error: 'amount, currency, and paymentMethod are required' });
+    const { paymentId, amount, lineItems, reason, destination } = req.body;
+    if (!paymentId) {
+      return res.status(400).json({ error: 'paymentId is required' });
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new ValidationError('reason must be a string');
     }
-    const order = ordersService.getOrder(orderId);
+    if (destination !== undefined && !REFUND_DESTINATIONS.includes(destination)) {
+      throw new ValidationError(`destination must be one of: ${REFUND_DESTINATIONS.join(', ')}`);
+    }
+    const refundAmount = amount === undefined ? undefined : Money.fromJSON(amount);
+    if (refundAmount && !refundAmount.isPositive()) {
+      throw new ValidationError('amount must be greater than zero');
+    }
+    const order = await ordersService.getOrder(orderId);
     if (!order) return res.status(404).json({ error: 'Order not found' });
 
-    const payment = ordersService.createPayment(orderId, amount, currency, paymentMethod);
-    // Simulate payment processing
-    ordersService.updatePaymentStatus(payment.id, 'succeeded', `charge_${payment.id.slice(0, 8)}`);
-    ordersService.updateOrderStatus(orderId, 'completed');
+    const { tenantId, userId } = getRequestContext(req);
+    const result = await refundsService.createRefund(orderId, {
+      paymentId,
+      amount: refundAmount,
+      lineItems,
+      reason,
+      destination,
+      tenantId,
+      requestedBy: userId || 'anonymous',
+    });
 
-    res.status(201).json({
-      order: ordersService.getOrder(orderId),
-      payment: ordersService.getPayment(payment.id),
+    res.status(result.refund.status === 'failed' ? 502 : 201).json({
+      refund: result.refund,
+      payment: result.payment,
+      order: result.order && (await ordersService.withBalance(result.order)),
     });
   } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    sendError(res, err);
   }
 };
 
-export const getOrderPayments = (req: Request, res: Response) => {
+export const getOrderRefunds = async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
-    const payments = ordersService.getOrderPayments(orderId);
-    res.json(payments);
+    const refunds = await refundsService.getOrderRefunds(orderId);
+    res.json(refunds);
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 };
 
-export const mintNFT = (req: Request, res: Response) => {
+export const mintNFT = async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
     const { contractAddress, recipientAddress, tokenId } = req.body;
     if (!contractAddress || !recipientAddress || !tokenId) {
       return res.status(400).json({ error: 'contractAddress, recipientAddress, and tokenId are required' });
     }
-    const order = ordersService.getOrder(orderId);
+    const order = await ordersService.getOrder(orderId);
     if (!order) return res.status(404).json({ error: 'Order not found' });
 
-    const tx = ordersService.recordNFTMintTransaction(orderId, contractAddress, recipientAddress, tokenId);
+    const tx = await ordersService.recordNFTMintTransaction(order, contractAddress, recipientAddress, tokenId);
     // Simulate NFT minting
-    ordersService.updateMintTransactionStatus(tx.id, 'minted', `0xtxhash${tx.id.slice(0, 8)}`);
-    ordersService.addNFTTokenToOrder(orderId, tokenId);
+    const minted = await ordersService.updateMintTransactionStatus(tx.id, 'minted', `0xtxhash${tx.id.slice(0, 8)}`);
+    await ordersService.addNFTTokenToOrder(orderId, tokenId);
 
     res.status(201).json({
-      order: ordersService.getOrder(orderId),
-      mintTransaction: ordersService.getMintTransaction(tx.id),
+      order: await ordersService.getOrder(orderId),
+      mintTransaction: minted,
     });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 };
 
-export const getOrderMintTransactions = (req: Request, res: Response) => {
+export const getOrderMintTransactions = async (req: Request, res: Response) => {
   try {
     const { orderId } = req.params;
-    const txs = ordersService.getOrderMintTransactions(orderId);
+    const txs = await ordersService.getOrderMintTransactions(orderId);
     res.json(txs);
   } catch (err: any) {
     res.status(500).json({ error: err.message });
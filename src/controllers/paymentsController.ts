@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import * as ordersService from '../services/ordersService';
+import { Money } from '../models/money';
+import { sendError, ValidationError } from '../common/errors';
+
+const parseOptionalAmount = (amount: unknown): Money | undefined => {
+  if (amount === undefined) return undefined;
+  const parsed = Money.fromJSON(amount);
+  if (!parsed.isPositive()) {
+    throw new ValidationError('amount must be greater than zero');
+  }
+  return parsed;
+};
+
+export const getPayment = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const payment = await ordersService.getPayment(paymentId);
+    if (!payment) return res.status(404).json({ error: 'Payment not found' });
+    res.json(payment);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const capturePayment = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const amount = parseOptionalAmount(req.body.amount);
+    const result = await ordersService.capturePayment(paymentId, amount);
+    res.json({
+      order: result.order && (await ordersService.withBalance(result.order)),
+      payment: result.payment,
+    });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const voidPayment = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const result = await ordersService.voidPayment(paymentId);
+    res.json({
+      order: result.order && (await ordersService.withBalance(result.order)),
+      payment: result.payment,
+    });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
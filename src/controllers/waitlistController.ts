@@ -0,0 +1,36 @@
+import { Request, Response } from 'express';
+import * as waitlistService from '../services/waitlistService';
+import { sendError } from '../common/errors';
+import { getRequestContext } from '../common/request-context';
+
+/**
+ * Queue a user for a sold-out ticket; offers are made in the tenant of the request
+ */
+export const joinWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { tenantId } = getRequestContext(req);
+    const { userId, quantity } = req.body;
+    const entry = await waitlistService.joinWaitlist(tenantId, req.params.ticketId, { userId, quantity });
+    res.status(201).json(entry);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getWaitlistEntry = async (req: Request, res: Response) => {
+  try {
+    const { ticketId, userId } = req.params;
+    res.json(await waitlistService.getWaitlistEntry(ticketId, userId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const leaveWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { ticketId, userId } = req.params;
+    res.json(await waitlistService.leaveWaitlist(ticketId, userId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
@@ -0,0 +1,28 @@
+import { Request, Response } from 'express';
+import * as walletService from '../services/walletService';
+import { sendError } from '../common/errors';
+import { getRequestContext } from '../common/request-context';
+
+/**
+ * A user's store credit balances in the request's tenant, one per currency
+ */
+export const getWallet = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { tenantId } = getRequestContext(req);
+    const wallets = await walletService.getWallets(tenantId, userId);
+    res.json({ tenantId, userId, balances: wallets.map((w) => w.balance) });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getWalletTransactions = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { tenantId } = getRequestContext(req);
+    res.json(await walletService.getWalletTransactions(tenantId, userId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
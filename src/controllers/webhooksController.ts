@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import * as stripeWebhookService from '../services/stripeWebhookService';
+import { sendError } from '../common/errors';
+
+export const handleStripeWebhook = async (req: Request, res: Response) => {
+  try {
+    const event = stripeWebhookService.verifyStripeEvent(req.body, req.header('stripe-signature'));
+    const outcome = await stripeWebhookService.handleStripeEvent(event);
+    res.json({ received: true, outcome });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
@@ -0,0 +1,172 @@
+import { QueryResult } from 'pg';
+import { getCurrencyExponent } from '../models/money';
+
+/**
+ * Schema Migrations
+ * schema.sql only creates tables that are missing, so tables created by an earlier version
+ * are brought to its current shape here. Every migration checks the columns it changes first:
+ * all of them run, in order and each in its own transaction, on every startup, before schema.sql.
+ */
+
+export type MigrationQuery = (text: string, values?: unknown[]) => Promise<QueryResult>;
+
+export interface Migration {
+  name: string;
+  up: (db: MigrationQuery) => Promise<void>;
+}
+
+/**
+ * The column's data type, e.g. `numeric` or `bigint`; undefined when the table or column is missing
+ */
+const columnType = async (db: MigrationQuery, table: string, column: string): Promise<string | undefined> => {
+  const result = await db(
+    `SELECT data_type FROM information_schema.columns
+     WHERE table_schema = current_schema() AND table_name = $1 AND column_name = $2`,
+    [table, column]
+  );
+  return result.rows[0]?.data_type;
+};
+
+/**
+ * SQL scaling a decimal `column` to integer minor units of the currency in `currencyColumn`,
+ * for the currencies the table holds
+ */
+const toMinorUnits = async (db: MigrationQuery, table: string, column: string, currencyColumn: string) => {
+  const result = await db(`SELECT DISTINCT ${currencyColumn} AS currency FROM ${table}`);
+  // getCurrencyExponent refuses unknown codes, so only supported ones reach the SQL
+  const cases = result.rows.map(({ currency }) => `WHEN '${currency}' THEN ${getCurrencyExponent(currency)}`);
+  const exponent = cases.length > 0 ? `CASE ${currencyColumn} ${cases.join(' ')} END` : '2';
+  return `round(${column} * power(10, ${exponent}))::BIGINT`;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // Orders had no currency of their own; they take their payments' currency, else USD
+    name: 'amounts in integer minor units',
+    up: async (db) => {
+      if ((await columnType(db, 'orders', 'total_amount')) === 'numeric') {
+        await db('ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency VARCHAR(3)');
+        await db(
+          `UPDATE orders SET currency = COALESCE(
+             (SELECT p.currency FROM payments p WHERE p.order_id = orders.id ORDER BY p.created_at LIMIT 1), 'USD')
+           WHERE currency IS NULL`
+        );
+        await db('ALTER TABLE orders ALTER COLUMN currency SET NOT NULL');
+        const total = await toMinorUnits(db, 'orders', 'total_amount', 'currency');
+        await db(`ALTER TABLE orders ALTER COLUMN total_amount TYPE BIGINT USING ${total}`);
+      }
+
+      if ((await columnType(db, 'payments', 'amount')) === 'numeric') {
+        await db(`UPDATE payments SET currency = 'USD' WHERE currency IS NULL`);
+        await db('ALTER TABLE payments ALTER COLUMN currency SET NOT NULL');
+        const amount = await toMinorUnits(db, 'payments', 'amount', 'currency');
+        await db(`ALTER TABLE payments ALTER COLUMN amount TYPE BIGINT USING ${amount}`);
+      }
+    },
+  },
+  {
+    // An order's ticket and quantity become its one line item, priced from its total
+    name: 'order line items',
+    up: async (db) => {
+      if (!(await columnType(db, 'orders', 'ticket_id')) || (await columnType(db, 'orders', 'line_items'))) return;
+
+      await db('ALTER TABLE orders ADD COLUMN line_items JSONB');
+      await db(
+        `UPDATE orders SET line_items = jsonb_build_array(jsonb_build_object(
+           'ticketId', ticket_id,
+           'quantity', quantity,
+           'unitPrice', jsonb_build_object('amount', total_amount / quantity, 'currency', currency),
+           'lineTotal', jsonb_build_object('amount', total_amount, 'currency', currency)))`
+      );
+      await db('ALTER TABLE orders ALTER COLUMN line_items SET NOT NULL');
+      await db(
+        `ALTER TABLE orders ADD CONSTRAINT orders_line_items_check
+         CHECK (jsonb_typeof(line_items) = 'array' AND jsonb_array_length(line_items) > 0)`
+      );
+      await db('ALTER TABLE orders ALTER COLUMN ticket_id DROP NOT NULL, ALTER COLUMN quantity DROP NOT NULL');
+    },
+  },
+  {
+    // Existing orders were placed without fees, discounts or tax, so the organizer nets the total
+    name: 'order, payment and mint columns',
+    up: async (db) => {
+      if (await columnType(db, 'orders', 'id')) {
+        await db(
+          `ALTER TABLE orders
+             ADD COLUMN IF NOT EXISTS organizer_id VARCHAR(255),
+             ADD COLUMN IF NOT EXISTS platform_fee BIGINT NOT NULL DEFAULT 0,
+             ADD COLUMN IF NOT EXISTS processor_fee BIGINT NOT NULL DEFAULT 0,
+             ADD COLUMN IF NOT EXISTS tax_amount BIGINT NOT NULL DEFAULT 0,
+             ADD COLUMN IF NOT EXISTS organizer_net BIGINT,
+             ADD COLUMN IF NOT EXISTS fee_rule_ids TEXT[] NOT NULL DEFAULT '{}',
+             ADD COLUMN IF NOT EXISTS discounts JSONB NOT NULL DEFAULT '[]',
+             ADD COLUMN IF NOT EXISTS billing_country VARCHAR(2),
+             ADD COLUMN IF NOT EXISTS billing_region VARCHAR(3),
+             ADD COLUMN IF NOT EXISTS tax_lines JSONB NOT NULL DEFAULT '[]',
+             ADD COLUMN IF NOT EXISTS expires_at BIGINT,
+             ADD COLUMN IF NOT EXISTS expiry_claimed_until BIGINT,
+             ADD COLUMN IF NOT EXISTS presale_id UUID,
+             ADD COLUMN IF NOT EXISTS status_history JSONB NOT NULL DEFAULT '[]'`
+        );
+        await db('UPDATE orders SET organizer_net = total_amount WHERE organizer_net IS NULL');
+        await db('ALTER TABLE orders ALTER COLUMN organizer_net SET NOT NULL');
+      }
+
+      if (await columnType(db, 'payments', 'id')) {
+        await db(
+          `ALTER TABLE payments
+             ADD COLUMN IF NOT EXISTS amount_captured BIGINT,
+             ADD COLUMN IF NOT EXISTS amount_refunded BIGINT NOT NULL DEFAULT 0,
+             ADD COLUMN IF NOT EXISTS provider VARCHAR(50),
+             ADD COLUMN IF NOT EXISTS stripe_charge_id VARCHAR(255),
+             ADD COLUMN IF NOT EXISTS error_message TEXT,
+             ADD COLUMN IF NOT EXISTS authorized_at BIGINT,
+             ADD COLUMN IF NOT EXISTS ip_address VARCHAR(45),
+             ADD COLUMN IF NOT EXISTS card_fingerprint VARCHAR(255),
+             ADD COLUMN IF NOT EXISTS risk JSONB,
+             ADD COLUMN IF NOT EXISTS fx JSONB`
+        );
+      }
+
+      if (await columnType(db, 'nft_mint_transactions', 'id')) {
+        await db(
+          `ALTER TABLE nft_mint_transactions
+             ADD COLUMN IF NOT EXISTS recipient_address VARCHAR(255),
+             ADD COLUMN IF NOT EXISTS invalidated_at BIGINT,
+             ADD COLUMN IF NOT EXISTS invalidation_reason TEXT`
+        );
+      }
+    },
+  },
+  {
+    // User ids are whatever the caller's identity provider issues, not necessarily UUIDs
+    name: 'user ids of any format',
+    up: async (db) => {
+      for (const table of ['orders', 'payments', 'nft_mint_transactions']) {
+        if ((await columnType(db, table, 'user_id')) === 'uuid') {
+          await db(`ALTER TABLE ${table} ALTER COLUMN user_id TYPE VARCHAR(255)`);
+        }
+      }
+    },
+  },
+  {
+    // Tickets saved before they had a price cannot be ordered until one is set
+    name: 'ticket prices',
+    up: async (db) => {
+      if (!(await columnType(db, 'ticket_settings', 'ticket_id'))) return;
+      await db(
+        `ALTER TABLE ticket_settings
+           ADD COLUMN IF NOT EXISTS price BIGINT,
+           ADD COLUMN IF NOT EXISTS currency VARCHAR(3)`
+      );
+    },
+  },
+  {
+    // Offers are priced from the ticket when they are made, not at a price quoted on joining
+    name: 'waitlist entries without prices',
+    up: async (db) => {
+      if (!(await columnType(db, 'waitlist_entries', 'unit_price'))) return;
+      await db('ALTER TABLE waitlist_entries DROP COLUMN unit_price, DROP COLUMN currency');
+    },
+  },
+];
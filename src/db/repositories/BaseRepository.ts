@@ -119,6 +119,13 @@ export abstract class BaseRepository<T> {
     }
   }
 
+  /**
+   * Drop undefined fields so memory-mode updates match the SQL paths, which skip them
+   */
+  protected definedFields(data: Partial<T>): Partial<T> {
+    return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+  }
+
   /**
    * Map single row
    */
@@ -0,0 +1,124 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { DisputeEvidence } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+const LISTED_COLUMNS =
+  'id, dispute_id, kind, category, text, file_name, content_type, size, submitted_by, created_at';
+
+/**
+ * Dispute Evidence Repository
+ * Stores evidence items for disputes; file contents are only loaded on request
+ */
+export class DisputeEvidenceRepository extends BaseRepository<DisputeEvidence> {
+  protected tableName = 'dispute_evidence';
+  private memoryContents = new Map<string, Buffer>();
+
+  /**
+   * Create new evidence item, with the file contents for file evidence
+   */
+  async create(data: Omit<DisputeEvidence, 'id'>, content?: Buffer): Promise<DisputeEvidence> {
+    const id = uuidv4();
+    const evidence: DisputeEvidence = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(evidence);
+      if (content) this.memoryContents.set(id, content);
+      return evidence;
+    }
+
+    try {
+      await query(
+        `INSERT INTO dispute_evidence (id, dispute_id, kind, category, text, file_name, content_type, size, content, submitted_by, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          evidence.id,
+          evidence.disputeId,
+          evidence.kind,
+          evidence.category,
+          evidence.text,
+          evidence.fileName,
+          evidence.contentType,
+          evidence.size,
+          content,
+          evidence.submittedBy,
+          evidence.createdAt,
+        ]
+      );
+      return evidence;
+    } catch (error) {
+      console.error('Error creating dispute evidence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Evidence is append-only
+   */
+  async update(): Promise<DisputeEvidence | null> {
+    throw new Error('Dispute evidence cannot be modified');
+  }
+
+  /**
+   * Find evidence by dispute ID, oldest first, without file contents
+   */
+  async findByDisputeId(disputeId: string): Promise<DisputeEvidence[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((e) => e.disputeId === disputeId);
+    }
+
+    try {
+      const result = await query(
+        `SELECT ${LISTED_COLUMNS} FROM dispute_evidence WHERE dispute_id = $1 ORDER BY created_at ASC`,
+        [disputeId]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding evidence by dispute ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load the contents of a file evidence item
+   */
+  async findContent(id: string): Promise<Buffer | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryContents.get(id) || null;
+    }
+
+    try {
+      const result = await query('SELECT content FROM dispute_evidence WHERE id = $1', [id]);
+      return result.rows.length > 0 ? result.rows[0].content : null;
+    } catch (error) {
+      console.error('Error loading evidence content:', error);
+      throw error;
+    }
+  }
+
+  clearMemoryStore(): void {
+    super.clearMemoryStore();
+    this.memoryContents.clear();
+  }
+
+  /**
+   * Map database row to DisputeEvidence object
+   */
+  protected mapRow(row: any): DisputeEvidence {
+    return {
+      id: row.id,
+      disputeId: row.dispute_id,
+      kind: row.kind,
+      category: row.category,
+      text: row.text || undefined,
+      fileName: row.file_name || undefined,
+      contentType: row.content_type || undefined,
+      size: row.size ?? undefined,
+      submittedBy: row.submitted_by,
+      createdAt: parseInt(row.created_at, 10),
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { Dispute } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Disputes Repository
+ * Handles all Dispute database operations
+ */
+export class DisputesRepository extends BaseRepository<Dispute> {
+  protected tableName = 'disputes';
+
+  /**
+   * Create new dispute
+   */
+  async create(data: Omit<Dispute, 'id'>): Promise<Dispute> {
+    const id = uuidv4();
+    const dispute: Dispute = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(dispute);
+      return dispute;
+    }
+
+    try {
+      await query(
+        `INSERT INTO disputes (id, payment_id, order_id, provider_dispute_id, reason, amount, currency, status, evidence_due_by, evidence_submitted_at, closed_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+          dispute.id,
+          dispute.paymentId,
+          dispute.orderId,
+          dispute.providerDisputeId,
+          dispute.reason,
+          dispute.amount.amount,
+          dispute.amount.currency,
+          dispute.status,
+          dispute.evidenceDueBy,
+          dispute.evidenceSubmittedAt,
+          dispute.closedAt,
+          dispute.createdAt,
+          dispute.updatedAt,
+        ]
+      );
+      return dispute;
+    } catch (error) {
+      console.error('Error creating dispute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update dispute
+   */
+  async update(id: string, data: Partial<Dispute>): Promise<Dispute | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((d) => d.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const updates: string[] = [];
+      const values: any[] = [id];
+      let paramIndex = 2;
+
+      if (data.status !== undefined) {
+        updates.push(`status = $${paramIndex}`);
+        values.push(data.status);
+        paramIndex++;
+      }
+
+      if (data.reason !== undefined) {
+        updates.push(`reason = $${paramIndex}`);
+        values.push(data.reason);
+        paramIndex++;
+      }
+
+      if (data.amount !== undefined) {
+        updates.push(`amount = $${paramIndex}`);
+        values.push(data.amount.amount);
+        paramIndex++;
+      }
+
+      if (data.evidenceDueBy !== undefined) {
+        updates.push(`evidence_due_by = $${paramIndex}`);
+        values.push(data.evidenceDueBy);
+        paramIndex++;
+      }
+
+      if (data.evidenceSubmittedAt !== undefined) {
+        updates.push(`evidence_submitted_at = $${paramIndex}`);
+        values.push(data.evidenceSubmittedAt);
+        paramIndex++;
+      }
+
+      if (data.closedAt !== undefined) {
+        updates.push(`closed_at = $${paramIndex}`);
+        values.push(data.closedAt);
+        paramIndex++;
+      }
+
+      updates.push(`updated_at = $${paramIndex}`);
+      values.push(Date.now());
+
+      const result = await query(
+        `UPDATE disputes SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating dispute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find disputes by payment ID, oldest first
+   */
+  async findByPaymentId(paymentId: string): Promise<Dispute[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((d) => d.paymentId === paymentId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM disputes WHERE payment_id = $1 ORDER BY created_at ASC', [paymentId]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding disputes by payment ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find dispute by the payment provider's dispute ID
+   */
+  async findByProviderDisputeId(providerDisputeId: string): Promise<Dispute | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((d) => d.providerDisputeId === providerDisputeId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM disputes WHERE provider_dispute_id = $1', [providerDisputeId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding dispute by provider dispute ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Dispute object
+   */
+  protected mapRow(row: any): Dispute {
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      orderId: row.order_id,
+      providerDisputeId: row.provider_dispute_id,
+      reason: row.reason,
+      amount: Money.of(parseInt(row.amount, 10), row.currency),
+      status: row.status,
+      evidenceDueBy: row.evidence_due_by ? parseInt(row.evidence_due_by, 10) : undefined,
+      evidenceSubmittedAt: row.evidence_submitted_at ? parseInt(row.evidence_submitted_at, 10) : undefined,
+      closedAt: row.closed_at ? parseInt(row.closed_at, 10) : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { FeeRule } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Fee Rules Repository
+ * Handles all FeeRule database operations
+ */
+export class FeeRulesRepository extends BaseRepository<FeeRule> {
+  protected tableName = 'fee_rules';
+
+  /**
+   * Create new fee rule
+   */
+  async create(data: Omit<FeeRule, 'id'>): Promise<FeeRule> {
+    const id = uuidv4();
+    const rule: FeeRule = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(rule);
+      return rule;
+    }
+
+    try {
+      await query(
+        `INSERT INTO fee_rules (id, kind, tenant_id, ticket_id, percentage, fixed_amount, currency, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          rule.id,
+          rule.kind,
+          rule.tenantId,
+          rule.ticketId,
+          rule.percentage,
+          rule.fixedAmount?.amount,
+          rule.fixedAmount?.currency,
+          rule.createdAt,
+          rule.updatedAt,
+        ]
+      );
+      return rule;
+    } catch (error) {
+      console.error('Error creating fee rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a rule's rates; its scope is fixed once created
+   */
+  async update(id: string, data: Partial<FeeRule>): Promise<FeeRule | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const updates: string[] = [];
+      const values: any[] = [id];
+      let paramIndex = 2;
+
+      if (data.percentage !== undefined) {
+        updates.push(`percentage = $${paramIndex}`);
+        values.push(data.percentage);
+        paramIndex++;
+      }
+
+      if (data.fixedAmount !== undefined) {
+        updates.push(`fixed_amount = $${paramIndex}, currency = $${paramIndex + 1}`);
+        values.push(data.fixedAmount.amount, data.fixedAmount.currency);
+        paramIndex += 2;
+      }
+
+      updates.push(`updated_at = $${paramIndex}`);
+      values.push(Date.now());
+
+      const result = await query(
+        `UPDATE fee_rules SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating fee rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find rules of a kind, oldest first
+   */
+  async findByKind(kind: FeeRule['kind']): Promise<FeeRule[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((r) => r.kind === kind);
+    }
+
+    try {
+      const result = await query('SELECT * FROM fee_rules WHERE kind = $1 ORDER BY created_at ASC', [kind]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding fee rules by kind:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to FeeRule object
+   */
+  protected mapRow(row: any): FeeRule {
+    return {
+      id: row.id,
+      kind: row.kind,
+      tenantId: row.tenant_id || undefined,
+      ticketId: row.ticket_id || undefined,
+      percentage: Number(row.percentage),
+      fixedAmount: row.fixed_amount !== null ? Money.of(parseInt(row.fixed_amount, 10), row.currency) : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
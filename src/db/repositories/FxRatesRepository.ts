@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { FxRate } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * FX Rates Repository
+ * Handles all FxRate database operations; quotes are only ever added
+ */
+export class FxRatesRepository extends BaseRepository<FxRate> {
+  protected tableName = 'fx_rates';
+
+  /**
+   * Create new FX rate quote
+   */
+  async create(data: Omit<FxRate, 'id'>): Promise<FxRate> {
+    const id = uuidv4();
+    const rate: FxRate = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(rate);
+      return rate;
+    }
+
+    try {
+      await query(
+        `INSERT INTO fx_rates (id, base_currency, quote_currency, mid_rate, spread, source, as_of, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          rate.id,
+          rate.baseCurrency,
+          rate.quoteCurrency,
+          rate.midRate,
+          rate.spread,
+          rate.source,
+          rate.asOf,
+          rate.createdAt,
+        ]
+      );
+      return rate;
+    } catch (error) {
+      console.error('Error creating FX rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Quotes are never changed; a newer quote for the pair supersedes them
+   */
+  async update(): Promise<FxRate | null> {
+    throw new Error('FX rates are append-only');
+  }
+
+  /**
+   * Find the most recent quote for a currency pair
+   */
+  async findLatest(baseCurrency: string, quoteCurrency: string): Promise<FxRate | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore
+        .filter((r) => r.baseCurrency === baseCurrency && r.quoteCurrency === quoteCurrency)
+        .reduce<FxRate | null>((latest, r) => (!latest || r.asOf >= latest.asOf ? r : latest), null);
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM fx_rates WHERE base_currency = $1 AND quote_currency = $2
+         ORDER BY as_of DESC, created_at DESC LIMIT 1`,
+        [baseCurrency, quoteCurrency]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding latest FX rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the most recent quote of every currency pair
+   */
+  async findLatestPerPair(): Promise<FxRate[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      const latest = new Map<string, FxRate>();
+      for (const rate of this.memoryStore) {
+        const pair = `${rate.baseCurrency}/${rate.quoteCurrency}`;
+        const current = latest.get(pair);
+        if (!current || rate.asOf >= current.asOf) latest.set(pair, rate);
+      }
+      return [...latest.values()];
+    }
+
+    try {
+      const result = await query(
+        `SELECT DISTINCT ON (base_currency, quote_currency) * FROM fx_rates
+         ORDER BY base_currency, quote_currency, as_of DESC, created_at DESC`
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding latest FX rates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to FxRate object
+   */
+  protected mapRow(row: any): FxRate {
+    return {
+      id: row.id,
+      baseCurrency: row.base_currency,
+      quoteCurrency: row.quote_currency,
+      midRate: Number(row.mid_rate),
+      spread: Number(row.spread),
+      source: row.source,
+      asOf: parseInt(row.as_of, 10),
+      createdAt: parseInt(row.created_at, 10),
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { BaseRepository } from './BaseRepository';
+import { GiftCardAttempts } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Gift Card Attempts Repository
+ * Failed code counts per user or IP address, shared by every instance so lockouts hold across them
+ */
+export class GiftCardAttemptsRepository extends BaseRepository<GiftCardAttempts> {
+  protected tableName = 'gift_card_attempts';
+
+  /**
+   * Create attempt counts, keyed by user or IP address
+   */
+  async create(data: GiftCardAttempts): Promise<GiftCardAttempts> {
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push({ ...data });
+      return data;
+    }
+
+    try {
+      await query(
+        `INSERT INTO gift_card_attempts (attempt_key, failed_count, window_start, locked_until)
+         VALUES ($1, $2, $3, $4)`,
+        [data.key, data.failedCount, data.windowStart, data.lockedUntil]
+      );
+      return data;
+    } catch (error) {
+      console.error('Error creating gift card attempts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update attempt counts or the lockout
+   */
+  async update(key: string, data: Partial<GiftCardAttempts>): Promise<GiftCardAttempts | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((a) => a.key === key);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data) };
+        return { ...this.memoryStore[index] };
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE gift_card_attempts
+         SET failed_count = COALESCE($2, failed_count), window_start = COALESCE($3, window_start),
+             locked_until = COALESCE($4, locked_until)
+         WHERE attempt_key = $1 RETURNING *`,
+        [key, data.failedCount, data.windowStart, data.lockedUntil]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating gift card attempts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count a failed code, starting a new window when the current one began more than `windowMs`
+   * before `now`; returns the counts after the failure
+   */
+  async recordFailure(key: string, now: number, windowMs: number): Promise<GiftCardAttempts> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((a) => a.key === key);
+      const current = index > -1 ? this.memoryStore[index] : undefined;
+      const attempts: GiftCardAttempts =
+        current && now - current.windowStart <= windowMs
+          ? { ...current, failedCount: current.failedCount + 1 }
+          : { ...current, key, failedCount: 1, windowStart: now };
+      if (index > -1) this.memoryStore[index] = attempts;
+      else this.memoryStore.push(attempts);
+      return { ...attempts };
+    }
+
+    try {
+      const result = await query(
+        `INSERT INTO gift_card_attempts (attempt_key, failed_count, window_start)
+         VALUES ($1, 1, $2)
+         ON CONFLICT (attempt_key) DO UPDATE SET
+           failed_count = CASE WHEN gift_card_attempts.window_start < $2 - $3 THEN 1
+                               ELSE gift_card_attempts.failed_count + 1 END,
+           window_start = CASE WHEN gift_card_attempts.window_start < $2 - $3 THEN $2
+                               ELSE gift_card_attempts.window_start END
+         RETURNING *`,
+        [key, now, windowMs]
+      );
+      return this.mapRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error recording failed gift card attempt:', error);
+      throw error;
+    }
+  }
+
+  async findByKeys(keys: string[]): Promise<GiftCardAttempts[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((a) => keys.includes(a.key));
+    }
+
+    try {
+      const result = await query('SELECT * FROM gift_card_attempts WHERE attempt_key = ANY($1)', [keys]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding gift card attempts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete counts whose window began more than `windowMs` before `now` and that hold no
+   * lockout, returning how many were removed
+   */
+  async deleteExpired(now: number, windowMs: number): Promise<number> {
+    const expired = (a: GiftCardAttempts) =>
+      a.windowStart < now - windowMs && (a.lockedUntil === undefined || a.lockedUntil <= now);
+
+    if (getDatabaseStatus().type === 'memory') {
+      const before = this.memoryStore.length;
+      this.memoryStore = this.memoryStore.filter((a) => !expired(a));
+      return before - this.memoryStore.length;
+    }
+
+    try {
+      const result = await query(
+        `DELETE FROM gift_card_attempts
+         WHERE window_start < $1 - $2 AND (locked_until IS NULL OR locked_until <= $1)`,
+        [now, windowMs]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error deleting expired gift card attempts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to GiftCardAttempts object
+   */
+  protected mapRow(row: any): GiftCardAttempts {
+    return {
+      key: row.attempt_key,
+      failedCount: parseInt(row.failed_count, 10),
+      windowStart: parseInt(row.window_start, 10),
+      lockedUntil: row.locked_until !== null ? parseInt(row.locked_until, 10) : undefined,
+    };
+  }
+}
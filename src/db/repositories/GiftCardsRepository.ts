@@ -0,0 +1,141 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { GiftCard } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Gift Cards Repository
+ * Handles all GiftCard database operations; cards are looked up by the hash of their code
+ */
+export class GiftCardsRepository extends BaseRepository<GiftCard> {
+  protected tableName = 'gift_cards';
+
+  /**
+   * Create new gift card
+   */
+  async create(data: Omit<GiftCard, 'id'>): Promise<GiftCard> {
+    const id = uuidv4();
+    const card: GiftCard = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(card);
+      return card;
+    }
+
+    try {
+      await query(
+        `INSERT INTO gift_cards (id, code_hash, code_last4, batch_id, source, initial_value, balance, currency, expires_at, issued_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [
+          card.id,
+          card.codeHash,
+          card.codeLast4,
+          card.batchId,
+          card.source,
+          card.initialValue.amount,
+          card.balance.amount,
+          card.balance.currency,
+          card.expiresAt,
+          card.issuedBy,
+          card.createdAt,
+          card.updatedAt,
+        ]
+      );
+      return card;
+    } catch (error) {
+      console.error('Error creating gift card:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Balances only change through adjustBalance
+   */
+  async update(): Promise<GiftCard | null> {
+    throw new Error('Use adjustBalance to change a gift card balance');
+  }
+
+  /**
+   * Add `delta` (negative to redeem) to the balance in one statement. Returns null, changing
+   * nothing, when the balance would go negative or above the card's initial value.
+   */
+  async adjustBalance(id: string, delta: Money): Promise<GiftCard | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((c) => c.id === id);
+      if (index === -1) return null;
+      const card = this.memoryStore[index];
+      const balance = card.balance.add(delta);
+      if (balance.isNegative() || balance.greaterThan(card.initialValue)) return null;
+      this.memoryStore[index] = { ...card, balance, updatedAt: Date.now() };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `UPDATE gift_cards SET balance = balance + $2, updated_at = $3
+         WHERE id = $1 AND currency = $4 AND balance + $2 BETWEEN 0 AND initial_value RETURNING *`,
+        [id, delta.amount, Date.now(), delta.currency]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error adjusting gift card balance:', error);
+      throw error;
+    }
+  }
+
+  async findByCodeHash(codeHash: string): Promise<GiftCard | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((c) => c.codeHash === codeHash) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM gift_cards WHERE code_hash = $1', [codeHash]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding gift card by code hash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the cards issued in one batch, in issue order
+   */
+  async findByBatchId(batchId: string): Promise<GiftCard[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((c) => c.batchId === batchId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM gift_cards WHERE batch_id = $1 ORDER BY created_at ASC, id ASC', [
+        batchId,
+      ]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding gift cards by batch ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to GiftCard object
+   */
+  protected mapRow(row: any): GiftCard {
+    return {
+      id: row.id,
+      codeHash: row.code_hash,
+      codeLast4: row.code_last4,
+      batchId: row.batch_id,
+      source: row.source,
+      initialValue: Money.of(parseInt(row.initial_value, 10), row.currency),
+      balance: Money.of(parseInt(row.balance, 10), row.currency),
+      expiresAt: row.expires_at ? parseInt(row.expires_at, 10) : undefined,
+      issuedBy: row.issued_by,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,191 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { IdempotencyRecord } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Idempotency Keys Repository
+ * Keys are unique per tenant and user, so only one request can claim a key across instances
+ */
+export class IdempotencyKeysRepository extends BaseRepository<IdempotencyRecord> {
+  protected tableName = 'idempotency_keys';
+
+  /**
+   * Create new idempotency record; a key the tenant and user already have fails on the unique index
+   */
+  async create(data: Omit<IdempotencyRecord, 'id'>): Promise<IdempotencyRecord> {
+    const record: IdempotencyRecord = { ...data, id: uuidv4() };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(record);
+      return { ...record };
+    }
+
+    try {
+      await this.insert(record, '');
+      return record;
+    } catch (error) {
+      console.error('Error creating idempotency key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a key unless the tenant and user already have it; returns null for keys in use
+   */
+  async claim(data: Omit<IdempotencyRecord, 'id'>): Promise<IdempotencyRecord | null> {
+    const record: IdempotencyRecord = { ...data, id: uuidv4() };
+
+    if (getDatabaseStatus().type === 'memory') {
+      if (this.findInMemory(data.tenantId, data.userId, data.key)) return null;
+      this.memoryStore.push(record);
+      return { ...record };
+    }
+
+    try {
+      const result = await this.insert(record, 'ON CONFLICT (tenant_id, user_id, idempotency_key) DO NOTHING');
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error claiming idempotency key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a request's outcome
+   */
+  async update(id: string, data: Partial<IdempotencyRecord>): Promise<IdempotencyRecord | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data) };
+        return { ...this.memoryStore[index] };
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE idempotency_keys
+         SET status = COALESCE($2, status), response_status = COALESCE($3, response_status),
+             response_body = COALESCE($4, response_body)
+         WHERE id = $1 RETURNING *`,
+        [
+          id,
+          data.status,
+          data.responseStatus,
+          data.responseBody !== undefined ? JSON.stringify(data.responseBody) : null,
+        ]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating idempotency key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the record of a tenant and user's key, expired or not
+   */
+  async findByKey(tenantId: string, userId: string, key: string): Promise<IdempotencyRecord | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const record = this.findInMemory(tenantId, userId, key);
+      return record ? { ...record } : null;
+    }
+
+    try {
+      const result = await query(
+        'SELECT * FROM idempotency_keys WHERE tenant_id = $1 AND user_id = $2 AND idempotency_key = $3',
+        [tenantId, userId, key]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding idempotency key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a record if it has expired by `now`, so its key can be claimed again
+   */
+  async deleteIfExpired(id: string, now: number): Promise<boolean> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id && r.expiresAt <= now);
+      if (index > -1) this.memoryStore.splice(index, 1);
+      return index > -1;
+    }
+
+    try {
+      const result = await query('DELETE FROM idempotency_keys WHERE id = $1 AND expires_at <= $2', [id, now]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting expired idempotency key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every record expired by `now`, returning how many were removed
+   */
+  async deleteExpired(now: number): Promise<number> {
+    if (getDatabaseStatus().type === 'memory') {
+      const before = this.memoryStore.length;
+      this.memoryStore = this.memoryStore.filter((r) => r.expiresAt > now);
+      return before - this.memoryStore.length;
+    }
+
+    try {
+      const result = await query('DELETE FROM idempotency_keys WHERE expires_at <= $1', [now]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error deleting expired idempotency keys:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert a record, followed by the given ON CONFLICT clause if any
+   */
+  private insert(record: IdempotencyRecord, onConflict: string) {
+    return query(
+      `INSERT INTO idempotency_keys (id, tenant_id, user_id, idempotency_key, request_hash, status, response_status, response_body, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ${onConflict}
+       RETURNING *`,
+      [
+        record.id,
+        record.tenantId,
+        record.userId,
+        record.key,
+        record.requestHash,
+        record.status,
+        record.responseStatus,
+        record.responseBody !== undefined ? JSON.stringify(record.responseBody) : null,
+        record.createdAt,
+        record.expiresAt,
+      ]
+    );
+  }
+
+  private findInMemory(tenantId: string, userId: string, key: string): IdempotencyRecord | undefined {
+    return this.memoryStore.find((r) => r.tenantId === tenantId && r.userId === userId && r.key === key);
+  }
+
+  /**
+   * Map database row to IdempotencyRecord object
+   */
+  protected mapRow(row: any): IdempotencyRecord {
+    return {
+      id: row.id,
+      key: row.idempotency_key,
+      tenantId: row.tenant_id,
+      userId: row.user_id,
+      requestHash: row.request_hash,
+      status: row.status,
+      responseStatus: row.response_status !== null ? row.response_status : undefined,
+      responseBody: row.response_body !== null ? row.response_body : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      expiresAt: parseInt(row.expires_at, 10),
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { InventoryReservation } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Inventory Reservations Repository
+ * Handles all InventoryReservation database operations
+ */
+export class InventoryReservationsRepository extends BaseRepository<InventoryReservation> {
+  protected tableName = 'inventory_reservations';
+
+  /**
+   * Create new reservation
+   */
+  async create(data: Omit<InventoryReservation, 'id'>): Promise<InventoryReservation> {
+    const id = uuidv4();
+    const reservation: InventoryReservation = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(reservation);
+      return reservation;
+    }
+
+    try {
+      await query(
+        `INSERT INTO inventory_reservations (id, order_id, ticket_id, quantity, status, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          reservation.id,
+          reservation.orderId,
+          reservation.ticketId,
+          reservation.quantity,
+          reservation.status,
+          reservation.createdAt,
+          reservation.updatedAt,
+        ]
+      );
+      return reservation;
+    } catch (error) {
+      console.error('Error creating inventory reservation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a reservation's status and the seats it still holds
+   */
+  async update(id: string, data: Partial<InventoryReservation>): Promise<InventoryReservation | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE inventory_reservations
+         SET status = COALESCE($2, status), quantity = COALESCE($3, quantity), updated_at = $4
+         WHERE id = $1 RETURNING *`,
+        [id, data.status, data.quantity, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating inventory reservation:', error);
+      throw error;
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<InventoryReservation[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((r) => r.orderId === orderId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM inventory_reservations WHERE order_id = $1 ORDER BY ticket_id ASC', [
+        orderId,
+      ]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding inventory reservations by order ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to InventoryReservation object
+   */
+  protected mapRow(row: any): InventoryReservation {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      ticketId: row.ticket_id,
+      quantity: parseInt(row.quantity, 10),
+      status: row.status,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,316 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { JournalEntry, LedgerAccount } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus, withTransaction } from '../../config/database';
+
+/**
+ * Entries with their postings aggregated, ready for mapRow
+ */
+const ENTRY_SELECT = `
+  SELECT e.*, json_agg(
+    json_build_object(
+      'account_code', p.account_code, 'direction', p.direction, 'amount', p.amount, 'currency', p.currency
+    )
+    ORDER BY p.id
+  ) AS postings
+  FROM journal_entries e JOIN ledger_postings p ON p.entry_id = e.id`;
+
+export interface AccountTotals {
+  currency: string;
+  debits: number;
+  credits: number;
+}
+
+/**
+ * Ledger Repository
+ * Append-only journal entries and postings, plus the chart of accounts they post to
+ */
+export class LedgerRepository extends BaseRepository<JournalEntry> {
+  protected tableName = 'journal_entries';
+  private memoryAccounts = new Map<string, LedgerAccount>();
+
+  /**
+   * Create a journal entry with its postings in one transaction. An entry is unique per
+   * type and reference, so recording the same movement twice returns the first entry.
+   */
+  async create(data: Omit<JournalEntry, 'id'>): Promise<JournalEntry> {
+    const existing = await this.findByReference(data.type, data.referenceId);
+    if (existing) return existing;
+
+    const entry: JournalEntry = {
+      ...data,
+      id: uuidv4(),
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(entry);
+      return entry;
+    }
+
+    try {
+      return await withTransaction(async () => {
+        const inserted = await query(
+          `INSERT INTO journal_entries (id, type, reference_id, order_id, description, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (type, reference_id) DO NOTHING`,
+          [entry.id, entry.type, entry.referenceId, entry.orderId, entry.description, entry.createdAt]
+        );
+        if (inserted.rowCount === 0) {
+          return (await this.findByReference(entry.type, entry.referenceId))!;
+        }
+
+        for (const posting of entry.postings) {
+          await query(
+            `INSERT INTO ledger_postings (entry_id, account_code, direction, amount, currency)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [entry.id, posting.accountCode, posting.direction, posting.amount.amount, posting.amount.currency]
+          );
+        }
+        return entry;
+      });
+    } catch (error) {
+      console.error('Error creating journal entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Journal entries are never changed; correct them with a reversing entry
+   */
+  async update(): Promise<JournalEntry | null> {
+    throw new Error('Journal entries are append-only');
+  }
+
+  async delete(): Promise<boolean> {
+    throw new Error('Journal entries are append-only');
+  }
+
+  async findAll(): Promise<JournalEntry[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return [...this.memoryStore];
+    }
+
+    try {
+      const result = await query(`${ENTRY_SELECT} GROUP BY e.id ORDER BY e.created_at ASC`);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error fetching journal entries:', error);
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<JournalEntry | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((e) => e.id === id) || null;
+    }
+
+    try {
+      const result = await query(`${ENTRY_SELECT} WHERE e.id = $1 GROUP BY e.id`, [id]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding journal entry by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the entry of a type recorded for a payment, order, refund or payout
+   */
+  async findByReference(type: JournalEntry['type'], referenceId: string): Promise<JournalEntry | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((e) => e.type === type && e.referenceId === referenceId) || null;
+    }
+
+    try {
+      const result = await query(`${ENTRY_SELECT} WHERE e.type = $1 AND e.reference_id = $2 GROUP BY e.id`, [
+        type,
+        referenceId,
+      ]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding journal entry by reference:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find entries by order ID, oldest first
+   */
+  async findByOrderId(orderId: string): Promise<JournalEntry[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((e) => e.orderId === orderId);
+    }
+
+    try {
+      const result = await query(`${ENTRY_SELECT} WHERE e.order_id = $1 GROUP BY e.id ORDER BY e.created_at ASC`, [
+        orderId,
+      ]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding journal entries by order ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find entries that post to an account, oldest first
+   */
+  async findByAccount(accountCode: string): Promise<JournalEntry[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((e) => e.postings.some((p) => p.accountCode === accountCode));
+    }
+
+    try {
+      const result = await query(
+        `${ENTRY_SELECT}
+         WHERE e.id IN (SELECT entry_id FROM ledger_postings WHERE account_code = $1)
+         GROUP BY e.id ORDER BY e.created_at ASC`,
+        [accountCode]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding journal entries by account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find entries that post to an account, or any of its sub-accounts, created within a
+   * window, oldest first
+   */
+  async findByAccountBetween(
+    accountCode: string,
+    options: { from?: number; to?: number; includeSubAccounts?: boolean } = {}
+  ): Promise<JournalEntry[]> {
+    const { from, to, includeSubAccounts = false } = options;
+    if (getDatabaseStatus().type === 'memory') {
+      const matches = (code: string) =>
+        code === accountCode || (includeSubAccounts && code.startsWith(`${accountCode}:`));
+      return this.memoryStore.filter(
+        (e) =>
+          (from === undefined || e.createdAt >= from) &&
+          (to === undefined || e.createdAt <= to) &&
+          e.postings.some((p) => matches(p.accountCode))
+      );
+    }
+
+    try {
+      const conditions = ['account_code = $1'];
+      if (includeSubAccounts) conditions.push(`left(account_code, length($1) + 1) = $1 || ':'`);
+      const result = await query(
+        `${ENTRY_SELECT}
+         WHERE e.id IN (SELECT entry_id FROM ledger_postings WHERE ${conditions.join(' OR ')})
+           AND ($2::bigint IS NULL OR e.created_at >= $2)
+           AND ($3::bigint IS NULL OR e.created_at <= $3)
+         GROUP BY e.id ORDER BY e.created_at ASC`,
+        [accountCode, from ?? null, to ?? null]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding journal entries by account and period:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sum an account's debits and credits per currency, in minor units
+   */
+  async sumByAccount(accountCode: string): Promise<AccountTotals[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      const totals = new Map<string, AccountTotals>();
+      for (const posting of this.memoryStore.flatMap((e) => e.postings)) {
+        if (posting.accountCode !== accountCode) continue;
+        const { currency, amount } = posting.amount;
+        const sum = totals.get(currency) || { currency, debits: 0, credits: 0 };
+        if (posting.direction === 'debit') sum.debits += amount;
+        else sum.credits += amount;
+        totals.set(currency, sum);
+      }
+      return [...totals.values()];
+    }
+
+    try {
+      const result = await query(
+        `SELECT currency,
+                COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) AS debits,
+                COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) AS credits
+         FROM ledger_postings WHERE account_code = $1
+         GROUP BY currency ORDER BY currency`,
+        [accountCode]
+      );
+      return result.rows.map((row) => ({
+        currency: row.currency,
+        debits: parseInt(row.debits, 10),
+        credits: parseInt(row.credits, 10),
+      }));
+    } catch (error) {
+      console.error('Error summing ledger postings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an account to the chart unless it already exists
+   */
+  async ensureAccount(account: LedgerAccount): Promise<void> {
+    if (getDatabaseStatus().type === 'memory') {
+      if (!this.memoryAccounts.has(account.code)) this.memoryAccounts.set(account.code, account);
+      return;
+    }
+
+    try {
+      await query(
+        `INSERT INTO ledger_accounts (code, type, name, created_at) VALUES ($1, $2, $3, $4)
+         ON CONFLICT (code) DO NOTHING`,
+        [account.code, account.type, account.name, account.createdAt]
+      );
+    } catch (error) {
+      console.error('Error creating ledger account:', error);
+      throw error;
+    }
+  }
+
+  async findAccounts(): Promise<LedgerAccount[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return [...this.memoryAccounts.values()].sort((a, b) => a.code.localeCompare(b.code));
+    }
+
+    try {
+      const result = await query('SELECT * FROM ledger_accounts ORDER BY code');
+      return result.rows.map((row) => ({
+        code: row.code,
+        type: row.type,
+        name: row.name,
+        createdAt: parseInt(row.created_at, 10),
+      }));
+    } catch (error) {
+      console.error('Error fetching ledger accounts:', error);
+      throw error;
+    }
+  }
+
+  clearMemoryStore(): void {
+    super.clearMemoryStore();
+    this.memoryAccounts.clear();
+  }
+
+  /**
+   * Map database row, with postings aggregated by ENTRY_SELECT, to JournalEntry object
+   */
+  protected mapRow(row: any): JournalEntry {
+    return {
+      id: row.id,
+      type: row.type,
+      referenceId: row.reference_id,
+      orderId: row.order_id || undefined,
+      description: row.description,
+      postings: (row.postings || []).map((p: any) => ({
+        accountCode: p.account_code,
+        direction: p.direction,
+        amount: Money.of(Number(p.amount), p.currency),
+      })),
+      createdAt: parseInt(row.created_at, 10),
+    };
+  }
+}
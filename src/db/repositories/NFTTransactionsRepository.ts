@@ -27,14 +27,15 @@ export class NFTTransactionsRepository extends BaseRepository<NFTMintTransaction
 
     try {
       await query(
-        `INSERT INTO nft_mint_transactions (id, order_id, user_id, token_id, contract_address, blockchain, transaction_hash, status, metadata, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        `INSERT INTO nft_mint_transactions (id, order_id, user_id, token_id, contract_address, recipient_address, blockchain, transaction_hash, status, metadata, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
         [
           transaction.id,
           transaction.orderId,
           transaction.userId,
           transaction.tokenId,
           transaction.contractAddress,
+          transaction.recipientAddress,
           transaction.blockchain,
           transaction.transactionHash,
           transaction.status,
@@ -57,7 +58,11 @@ export class NFTTransactionsRepository extends BaseRepository<NFTMintTransaction
     if (getDatabaseStatus().type === 'memory') {
       const index = this.memoryStore.findIndex((t) => t.id === id);
       if (index > -1) {
-        this.memoryStore[index] = { ...this.memoryStore[index], ...data };
+        this.memoryStore[index] = {
+          ...this.memoryStore[index],
+          ...this.definedFields(data),
+          updatedAt: Date.now(),
+        };
         return this.memoryStore[index];
       }
       return null;
@@ -80,6 +85,18 @@ export class NFTTransactionsRepository extends BaseRepository<NFTMintTransaction
         paramIndex++;
       }
 
+      if (data.invalidatedAt !== undefined) {
+        updates.push(`invalidated_at = $${paramIndex}`);
+        values.push(data.invalidatedAt);
+        paramIndex++;
+      }
+
+      if (data.invalidationReason !== undefined) {
+        updates.push(`invalidation_reason = $${paramIndex}`);
+        values.push(data.invalidationReason);
+        paramIndex++;
+      }
+
       if (data.metadata !== undefined) {
         updates.push(`metadata = $${paramIndex}`);
         values.push(JSON.stringify(data.metadata));
@@ -168,12 +185,15 @@ export class NFTTransactionsRepository extends BaseRepository<NFTMintTransaction
       userId: row.user_id,
       tokenId: row.token_id,
       contractAddress: row.contract_address,
+      recipientAddress: row.recipient_address,
       blockchain: row.blockchain,
       transactionHash: row.transaction_hash,
       status: row.status,
+      invalidatedAt: row.invalidated_at ? parseInt(row.invalidated_at, 10) : undefined,
+      invalidationReason: row.invalidation_reason || undefined,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
     };
   }
 }
@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { OrderHoldRule } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Order Hold Rules Repository
+ * Handles all OrderHoldRule database operations
+ */
+export class OrderHoldRulesRepository extends BaseRepository<OrderHoldRule> {
+  protected tableName = 'order_hold_rules';
+
+  /**
+   * Create new order hold rule
+   */
+  async create(data: Omit<OrderHoldRule, 'id'>): Promise<OrderHoldRule> {
+    const id = uuidv4();
+    const rule: OrderHoldRule = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(rule);
+      return rule;
+    }
+
+    try {
+      await query(
+        `INSERT INTO order_hold_rules (id, tenant_id, ticket_id, hold_minutes, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [rule.id, rule.tenantId, rule.ticketId, rule.holdMinutes, rule.createdAt, rule.updatedAt]
+      );
+      return rule;
+    } catch (error) {
+      console.error('Error creating order hold rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a rule's hold time; its scope is fixed once created
+   */
+  async update(id: string, data: Partial<OrderHoldRule>): Promise<OrderHoldRule | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const updates: string[] = [];
+      const values: any[] = [id];
+      let paramIndex = 2;
+
+      if (data.holdMinutes !== undefined) {
+        updates.push(`hold_minutes = $${paramIndex}`);
+        values.push(data.holdMinutes);
+        paramIndex++;
+      }
+
+      updates.push(`updated_at = $${paramIndex}`);
+      values.push(Date.now());
+
+      const result = await query(
+        `UPDATE order_hold_rules SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating order hold rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to OrderHoldRule object
+   */
+  protected mapRow(row: any): OrderHoldRule {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id || undefined,
+      ticketId: row.ticket_id || undefined,
+      holdMinutes: parseInt(row.hold_minutes, 10),
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
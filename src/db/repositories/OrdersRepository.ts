@@ -1,14 +1,62 @@
 import { v4 as uuidv4 } from 'uuid';
 import { BaseRepository } from './BaseRepository';
-import { Order } from '../../models/types';
+import { Order, OrderDiscount, OrderLineItem, TaxLine } from '../../models/types';
+import { Money } from '../../models/money';
 import { query, getDatabaseStatus } from '../../config/database';
 
+export interface OrderSearchFilters {
+  statuses?: Order['status'][];
+  ticketId?: string;
+  userId?: string;
+  createdFrom?: number;
+  createdTo?: number;
+  currency?: string;
+  /** Inclusive bounds on totalAmount, in minor units */
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+export interface OrderSearchOptions {
+  sortBy: 'createdAt' | 'totalAmount';
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  /** Keyset position: only orders sorting strictly after this one are returned */
+  after?: { value: number; id: string };
+}
+
+/**
+ * Line items are stored as JSON, so their amounts come back as plain { amount, currency } objects
+ */
+const mapLineItem = (item: any): OrderLineItem => ({
+  ticketId: item.ticketId,
+  quantity: item.quantity,
+  unitPrice: Money.fromJSON(item.unitPrice),
+  lineTotal: Money.fromJSON(item.lineTotal),
+  ...(item.taxCategory && { taxCategory: item.taxCategory }),
+  ...(item.eventId && { eventId: item.eventId }),
+});
+
+const mapDiscount = (discount: any): OrderDiscount => ({
+  promoCodeId: discount.promoCodeId,
+  code: discount.code,
+  amount: Money.fromJSON(discount.amount),
+  lineAmounts: discount.lineAmounts.map((amount: any) => Money.fromJSON(amount)),
+});
+
+const mapTaxLine = (line: any): TaxLine => ({
+  ...line,
+  rate: Number(line.rate),
+  taxableAmount: Money.fromJSON(line.taxableAmount),
+  amount: Money.fromJSON(line.amount),
+});
+
 /**
  * Orders Repository
  * Handles all Order database operations
  */
 export class OrdersRepository extends BaseRepository<Order> {
   protected tableName = 'orders';
+  private expiryClaims = new Map<string, number>();
 
   /**
    * Create new order
@@ -27,16 +75,29 @@ export class OrdersRepository extends BaseRepository<Order> {
 
     try {
       await query(
-        `INSERT INTO orders (id, user_id, ticket_id, quantity, total_amount, status, nft_token_ids, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        `INSERT INTO orders (id, user_id, line_items, total_amount, currency, status, organizer_id, platform_fee, processor_fee, tax_amount, organizer_net, fee_rule_ids, discounts, billing_country, billing_region, tax_lines, expires_at, presale_id, nft_token_ids, status_history, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)`,
         [
           order.id,
           order.userId,
-          order.ticketId,
-          order.quantity,
-          order.totalAmount,
+          JSON.stringify(order.lineItems),
+          order.totalAmount.amount,
+          order.totalAmount.currency,
           order.status,
-          JSON.stringify(order.nftTokenIds),
+          order.organizerId,
+          order.fees.platformFee.amount,
+          order.fees.processorFee.amount,
+          order.fees.tax.amount,
+          order.fees.organizerNet.amount,
+          order.fees.ruleIds,
+          JSON.stringify(order.discounts),
+          order.billingAddress?.country,
+          order.billingAddress?.region,
+          JSON.stringify(order.taxLines),
+          order.expiresAt,
+          order.presaleId,
+          order.nftTokenIds,
+          JSON.stringify(order.statusHistory),
           order.createdAt,
           order.updatedAt,
         ]
@@ -74,7 +135,13 @@ export class OrdersRepository extends BaseRepository<Order> {
 
       if (data.nftTokenIds !== undefined) {
         updates.push(`nft_token_ids = $${paramIndex}`);
-        values.push(JSON.stringify(data.nftTokenIds));
+        values.push(data.nftTokenIds);
+        paramIndex++;
+      }
+
+      if (data.statusHistory !== undefined) {
+        updates.push(`status_history = $${paramIndex}`);
+        values.push(JSON.stringify(data.statusHistory));
         paramIndex++;
       }
 
@@ -93,6 +160,38 @@ export class OrdersRepository extends BaseRepository<Order> {
     }
   }
 
+  /**
+   * Move an order to a new status only if it is still in `from`; returns null when another
+   * request changed its status first
+   */
+  async updateStatus(
+    id: string,
+    from: Order['status'],
+    data: Pick<Order, 'status' | 'statusHistory' | 'updatedAt'>
+  ): Promise<Order | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((o) => o.id === id && o.status === from);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...data };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE orders SET status = $3, status_history = $4, updated_at = $5
+         WHERE id = $1 AND status = $2
+         RETURNING *`,
+        [id, from, data.status, JSON.stringify(data.statusHistory), data.updatedAt]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      throw error;
+    }
+  }
+
   /**
    * Find orders by user ID
    */
@@ -127,6 +226,142 @@ export class OrdersRepository extends BaseRepository<Order> {
     }
   }
 
+  /**
+   * Search orders with filters, ordered by the sort column and then by id
+   */
+  async search(filters: OrderSearchFilters, options: OrderSearchOptions): Promise<Order[]> {
+    const { sortBy, sortOrder, limit, after } = options;
+
+    if (getDatabaseStatus().type === 'memory') {
+      const sortValue = (o: Order): number => (sortBy === 'createdAt' ? o.createdAt : o.totalAmount.amount);
+      const direction = sortOrder === 'asc' ? 1 : -1;
+      const compare = (value: number, id: string, other: number, otherId: string): number =>
+        (value - other || (id < otherId ? -1 : id > otherId ? 1 : 0)) * direction;
+
+      return this.memoryStore
+        .filter((o) => {
+          const amount = o.totalAmount.amount;
+          if (filters.statuses && !filters.statuses.includes(o.status)) return false;
+          if (filters.ticketId && !o.lineItems.some((item) => item.ticketId === filters.ticketId)) return false;
+          if (filters.userId && o.userId !== filters.userId) return false;
+          if (filters.createdFrom !== undefined && o.createdAt < filters.createdFrom) return false;
+          if (filters.createdTo !== undefined && o.createdAt > filters.createdTo) return false;
+          if (filters.currency && o.totalAmount.currency !== filters.currency) return false;
+          if (filters.minAmount !== undefined && amount < filters.minAmount) return false;
+          if (filters.maxAmount !== undefined && amount > filters.maxAmount) return false;
+          if (after && compare(sortValue(o), o.id, after.value, after.id) <= 0) return false;
+          return true;
+        })
+        .sort((a, b) => compare(sortValue(a), a.id, sortValue(b), b.id))
+        .slice(0, limit);
+    }
+
+    try {
+      const conditions: string[] = [];
+      const values: (string | number)[] = [];
+      const param = (value: string | number): string => {
+        values.push(value);
+        return `$${values.length}`;
+      };
+
+      if (filters.statuses && filters.statuses.length > 0) {
+        conditions.push(`status IN (${filters.statuses.map((status) => param(status)).join(', ')})`);
+      }
+      if (filters.ticketId) {
+        conditions.push(`line_items @> ${param(JSON.stringify([{ ticketId: filters.ticketId }]))}::jsonb`);
+      }
+      if (filters.userId) {
+        conditions.push(`user_id = ${param(filters.userId)}`);
+      }
+      if (filters.createdFrom !== undefined) {
+        conditions.push(`created_at >= ${param(filters.createdFrom)}`);
+      }
+      if (filters.createdTo !== undefined) {
+        conditions.push(`created_at <= ${param(filters.createdTo)}`);
+      }
+      if (filters.currency) {
+        conditions.push(`currency = ${param(filters.currency)}`);
+      }
+      if (filters.minAmount !== undefined) {
+        conditions.push(`total_amount >= ${param(filters.minAmount)}`);
+      }
+      if (filters.maxAmount !== undefined) {
+        conditions.push(`total_amount <= ${param(filters.maxAmount)}`);
+      }
+
+      const column = sortBy === 'createdAt' ? 'created_at' : 'total_amount';
+      const direction = sortOrder === 'asc' ? 'ASC' : 'DESC';
+      if (after) {
+        const operator = sortOrder === 'asc' ? '>' : '<';
+        conditions.push(`(${column}, id) ${operator} (${param(after.value)}, ${param(after.id)}::uuid)`);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await query(
+        `SELECT * FROM orders ${where} ORDER BY ${column} ${direction}, id ${direction} LIMIT ${param(limit)}`,
+        values
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error searching orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find unpaid orders whose hold lapsed at or before `now`, oldest deadline first
+   */
+  async findExpired(now: number, limit: number = 100): Promise<Order[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore
+        .filter((o) => (o.status === 'pending' || o.status === 'processing') && o.expiresAt! <= now)
+        .sort((a, b) => a.expiresAt! - b.expiresAt!)
+        .slice(0, limit);
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM orders WHERE status IN ('pending', 'processing') AND expires_at <= $1
+         ORDER BY expires_at ASC LIMIT $2`,
+        [now, limit]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding expired orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim an expired order for `leaseMs` so only one sweeper works on it; returns false when
+   * another holds the claim. A sweeper that fails lets the claim lapse and the order is retried.
+   */
+  async claimExpiry(orderId: string, now: number, leaseMs: number): Promise<boolean> {
+    if (getDatabaseStatus().type === 'memory') {
+      const claimedUntil = this.expiryClaims.get(orderId);
+      if (claimedUntil !== undefined && claimedUntil > now) return false;
+      this.expiryClaims.set(orderId, now + leaseMs);
+      return true;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE orders SET expiry_claimed_until = $2
+         WHERE id = $1 AND (expiry_claimed_until IS NULL OR expiry_claimed_until <= $3)`,
+        [orderId, now + leaseMs, now]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error claiming order expiry:', error);
+      throw error;
+    }
+  }
+
+  clearMemoryStore(): void {
+    super.clearMemoryStore();
+    this.expiryClaims.clear();
+  }
+
   /**
    * Add NFT token to order
    */
@@ -161,16 +396,33 @@ export class OrdersRepository extends BaseRepository<Order> {
    * Map database row to Order object
    */
   protected mapRow(row: any): Order {
+    const totalAmount = Money.of(parseInt(row.total_amount, 10), row.currency);
     return {
       id: row.id,
       userId: row.user_id,
-      ticketId: row.ticket_id,
-      quantity: row.quantity,
-      totalAmount: row.total_amount,
+      lineItems: Array.isArray(row.line_items) ? row.line_items.map(mapLineItem) : [],
+      totalAmount,
       status: row.status,
+      organizerId: row.organizer_id || undefined,
+      fees: {
+        gross: totalAmount,
+        platformFee: Money.of(parseInt(row.platform_fee, 10), row.currency),
+        processorFee: Money.of(parseInt(row.processor_fee, 10), row.currency),
+        tax: Money.of(parseInt(row.tax_amount, 10), row.currency),
+        organizerNet: Money.of(parseInt(row.organizer_net, 10), row.currency),
+        ruleIds: Array.isArray(row.fee_rule_ids) ? row.fee_rule_ids : [],
+      },
+      discounts: Array.isArray(row.discounts) ? row.discounts.map(mapDiscount) : [],
+      billingAddress: row.billing_country
+        ? { country: row.billing_country, ...(row.billing_region && { region: row.billing_region }) }
+        : undefined,
+      taxLines: Array.isArray(row.tax_lines) ? row.tax_lines.map(mapTaxLine) : [],
+      expiresAt: row.expires_at ? parseInt(row.expires_at, 10) : undefined,
+      presaleId: row.presale_id || undefined,
       nftTokenIds: Array.isArray(row.nft_token_ids) ? row.nft_token_ids : [],
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      statusHistory: Array.isArray(row.status_history) ? row.status_history : [],
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
     };
   }
 }
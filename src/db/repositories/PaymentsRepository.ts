@@ -1,8 +1,35 @@
 import { v4 as uuidv4 } from 'uuid';
 import { BaseRepository } from './BaseRepository';
 import { Payment } from '../../models/types';
+import { Money } from '../../models/money';
 import { query, getDatabaseStatus } from '../../config/database';
 
+const json = (value: unknown) => JSON.stringify(value);
+const minorUnits = (value: unknown) => (value as Money).amount;
+
+/**
+ * Every field a payment's update may change, with its column and how it is stored; the
+ * currency, order and user are fixed when the payment is created
+ */
+const UPDATABLE_COLUMNS: [keyof Payment, string, ((value: unknown) => unknown)?][] = [
+  ['status', 'status'],
+  ['provider', 'provider'],
+  ['paymentMethod', 'payment_method'],
+  ['transactionId', 'transaction_id'],
+  ['stripePaymentId', 'stripe_payment_id'],
+  ['stripeChargeId', 'stripe_charge_id'],
+  ['errorMessage', 'error_message'],
+  ['amount', 'amount', minorUnits],
+  ['amountCaptured', 'amount_captured', minorUnits],
+  ['amountRefunded', 'amount_refunded', minorUnits],
+  ['metadata', 'metadata', json],
+  ['authorizedAt', 'authorized_at'],
+  ['ipAddress', 'ip_address'],
+  ['cardFingerprint', 'card_fingerprint'],
+  ['risk', 'risk', json],
+  ['fx', 'fx', json],
+];
+
 /**
  * Payments Repository
  * Handles all Payment database operations
@@ -27,19 +54,29 @@ export class PaymentsRepository extends BaseRepository<Payment> {
 
     try {
       await query(
-        `INSERT INTO payments (id, order_id, user_id, amount, currency, status, payment_method, transaction_id, stripe_payment_id, metadata, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        `INSERT INTO payments (id, order_id, user_id, amount, currency, amount_captured, amount_refunded, status, provider, payment_method, transaction_id, stripe_payment_id, stripe_charge_id, error_message, metadata, authorized_at, ip_address, card_fingerprint, risk, fx, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)`,
         [
           payment.id,
           payment.orderId,
           payment.userId,
-          payment.amount,
-          payment.currency || 'USD',
+          payment.amount.amount,
+          payment.amount.currency,
+          payment.amountCaptured ? payment.amountCaptured.amount : null,
+          payment.amountRefunded ? payment.amountRefunded.amount : 0,
           payment.status,
+          payment.provider,
           payment.paymentMethod,
           payment.transactionId,
           payment.stripePaymentId,
+          payment.stripeChargeId,
+          payment.errorMessage,
           payment.metadata ? JSON.stringify(payment.metadata) : null,
+          payment.authorizedAt,
+          payment.ipAddress,
+          payment.cardFingerprint,
+          payment.risk ? JSON.stringify(payment.risk) : null,
+          payment.fx ? JSON.stringify(payment.fx) : null,
           payment.createdAt,
           payment.updatedAt,
         ]
@@ -52,13 +89,14 @@ export class PaymentsRepository extends BaseRepository<Payment> {
   }
 
   /**
-   * Update payment
+   * Update payment; with `from`, only while it is still in that status, returning null
+   * when another request changed its status first
    */
-  async update(id: string, data: Partial<Payment>): Promise<Payment | null> {
+  async update(id: string, data: Partial<Payment>, from?: Payment['status']): Promise<Payment | null> {
     if (getDatabaseStatus().type === 'memory') {
-      const index = this.memoryStore.findIndex((p) => p.id === id);
+      const index = this.memoryStore.findIndex((p) => p.id === id && (!from || p.status === from));
       if (index > -1) {
-        this.memoryStore[index] = { ...this.memoryStore[index], ...data };
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
         return this.memoryStore[index];
       }
       return null;
@@ -69,31 +107,22 @@ export class PaymentsRepository extends BaseRepository<Payment> {
       const values: any[] = [id];
       let paramIndex = 2;
 
-      if (data.status !== undefined) {
-        updates.push(`status = $${paramIndex}`);
-        values.push(data.status);
-        paramIndex++;
-      }
-
-      if (data.stripePaymentId !== undefined) {
-        updates.push(`stripe_payment_id = $${paramIndex}`);
-        values.push(data.stripePaymentId);
-        paramIndex++;
-      }
-
-      if (data.metadata !== undefined) {
-        updates.push(`metadata = $${paramIndex}`);
-        values.push(JSON.stringify(data.metadata));
+      for (const [field, column, toValue] of UPDATABLE_COLUMNS) {
+        if (data[field] === undefined) continue;
+        updates.push(`${column} = $${paramIndex}`);
+        values.push(toValue ? toValue(data[field]) : data[field]);
         paramIndex++;
       }
 
       updates.push(`updated_at = $${paramIndex}`);
       values.push(Date.now());
+      let condition = 'id = $1';
+      if (from) {
+        condition += ` AND status = $${paramIndex + 1}`;
+        values.push(from);
+      }
 
-      const result = await query(
-        `UPDATE payments SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
-        values
-      );
+      const result = await query(`UPDATE payments SET ${updates.join(', ')} WHERE ${condition} RETURNING *`, values);
 
       return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
     } catch (error) {
@@ -103,16 +132,16 @@ export class PaymentsRepository extends BaseRepository<Payment> {
   }
 
   /**
-   * Find payment by order ID
+   * Find payments by order ID, oldest first
    */
-  async findByOrderId(orderId: string): Promise<Payment | null> {
+  async findByOrderId(orderId: string): Promise<Payment[]> {
     if (getDatabaseStatus().type === 'memory') {
-      return this.memoryStore.find((p) => p.orderId === orderId) || null;
+      return this.memoryStore.filter((p) => p.orderId === orderId);
     }
 
     try {
-      const result = await query('SELECT * FROM payments WHERE order_id = $1', [orderId]);
-      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+      const result = await query('SELECT * FROM payments WHERE order_id = $1 ORDER BY created_at ASC', [orderId]);
+      return this.mapRows(result.rows);
     } catch (error) {
       console.error('Error finding payment by order ID:', error);
       throw error;
@@ -136,6 +165,151 @@ export class PaymentsRepository extends BaseRepository<Payment> {
     }
   }
 
+  /**
+   * Find payments still authorized (neither captured nor voided) since before `authorizedBefore`
+   */
+  async findStaleAuthorizations(authorizedBefore: number): Promise<Payment[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter(
+        (p) => p.status === 'authorized' && p.authorizedAt !== undefined && p.authorizedAt < authorizedBefore
+      );
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM payments WHERE status = 'authorized' AND authorized_at < $1 ORDER BY authorized_at ASC`,
+        [authorizedBefore]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding stale authorizations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find provider payments left pending since before `updatedBefore`, leaving out those
+   * still waiting for a risk review decision
+   */
+  async findStalePending(updatedBefore: number): Promise<Payment[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter(
+        (p) =>
+          p.status === 'pending' &&
+          p.provider !== undefined &&
+          p.updatedAt < updatedBefore &&
+          !(p.risk?.outcome === 'review' && !p.risk.review)
+      );
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM payments
+         WHERE status = 'pending' AND provider IS NOT NULL AND updated_at < $1
+           AND (risk->>'outcome' IS DISTINCT FROM 'review' OR risk->'review' IS NOT NULL)
+         ORDER BY updated_at ASC`,
+        [updatedBefore]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding stale pending payments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count payment attempts, whatever their outcome, made by a user, from an IP address or
+   * with a card since `since`
+   */
+  async countCreatedSince(
+    field: 'userId' | 'ipAddress' | 'cardFingerprint',
+    value: string,
+    since: number
+  ): Promise<number> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((p) => p[field] === value && p.createdAt >= since).length;
+    }
+
+    const column = { userId: 'user_id', ipAddress: 'ip_address', cardFingerprint: 'card_fingerprint' }[field];
+    try {
+      const result = await query(`SELECT COUNT(*) AS count FROM payments WHERE ${column} = $1 AND created_at >= $2`, [
+        value,
+        since,
+      ]);
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      console.error('Error counting recent payments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find payments held for manual risk review and not yet decided, oldest first
+   */
+  async findAwaitingReview(): Promise<Payment[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((p) => p.status === 'pending' && p.risk?.outcome === 'review' && !p.risk.review);
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM payments
+         WHERE status = 'pending' AND risk->>'outcome' = 'review' AND risk->'review' IS NULL
+         ORDER BY created_at ASC`
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding payments awaiting review:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find payments of a provider in any of `statuses`, created within [from, to]
+   */
+  async findByProviderAndStatusBetween(
+    provider: string,
+    statuses: Payment['status'][],
+    from: number,
+    to: number
+  ): Promise<Payment[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter(
+        (p) => p.provider === provider && statuses.includes(p.status) && p.createdAt >= from && p.createdAt <= to
+      );
+    }
+
+    try {
+      const placeholders = statuses.map((_, i) => `$${i + 4}`).join(', ');
+      const result = await query(
+        `SELECT * FROM payments WHERE provider = $1 AND created_at BETWEEN $2 AND $3 AND status IN (${placeholders})
+         ORDER BY created_at ASC`,
+        [provider, from, to, ...statuses]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding payments by provider and status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find payment by the provider's charge ID
+   */
+  async findByStripeChargeId(stripeChargeId: string): Promise<Payment | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((p) => p.stripeChargeId === stripeChargeId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM payments WHERE stripe_charge_id = $1', [stripeChargeId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding payment by Stripe charge ID:', error);
+      throw error;
+    }
+  }
+
   /**
    * Find payment by Stripe ID
    */
@@ -161,15 +335,29 @@ export class PaymentsRepository extends BaseRepository<Payment> {
       id: row.id,
       orderId: row.order_id,
       userId: row.user_id,
-      amount: row.amount,
-      currency: row.currency || 'USD',
+      amount: Money.of(parseInt(row.amount, 10), row.currency || 'USD'),
+      amountCaptured:
+        row.amount_captured !== null && row.amount_captured !== undefined
+          ? Money.of(parseInt(row.amount_captured, 10), row.currency || 'USD')
+          : undefined,
+      amountRefunded: Money.of(parseInt(row.amount_refunded || '0', 10), row.currency || 'USD'),
       status: row.status,
+      provider: row.provider || undefined,
       paymentMethod: row.payment_method,
-      transactionId: row.transaction_id,
+      transactionId: row.transaction_id || undefined,
       stripePaymentId: row.stripe_payment_id,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      stripeChargeId: row.stripe_charge_id || undefined,
+      errorMessage: row.error_message || undefined,
+      metadata: row.metadata || undefined,
+      authorizedAt: row.authorized_at ? parseInt(row.authorized_at, 10) : undefined,
+      ipAddress: row.ip_address || undefined,
+      cardFingerprint: row.card_fingerprint || undefined,
+      risk: row.risk || undefined,
+      fx: row.fx
+        ? { ...row.fx, presentmentAmount: Money.of(row.fx.presentmentAmount.amount, row.fx.presentmentAmount.currency) }
+        : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
     };
   }
 }
@@ -0,0 +1,156 @@
+import { BaseRepository } from './BaseRepository';
+import { PayoutSettings } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Payout Settings Repository
+ * One row of payout settings per organizer, keyed by organizer ID
+ */
+export class PayoutSettingsRepository extends BaseRepository<PayoutSettings> {
+  protected tableName = 'payout_settings';
+  private payoutRunClaims = new Map<string, number>();
+
+  /**
+   * Create or replace an organizer's settings, keeping the original creation time
+   */
+  async create(settings: PayoutSettings): Promise<PayoutSettings> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((s) => s.organizerId === settings.organizerId);
+      if (index > -1) {
+        this.memoryStore[index] = { ...settings, createdAt: this.memoryStore[index].createdAt };
+        return this.memoryStore[index];
+      }
+      this.memoryStore.push(settings);
+      return settings;
+    }
+
+    try {
+      const result = await query(
+        `INSERT INTO payout_settings (organizer_id, destination, schedule, reserve_days, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (organizer_id) DO UPDATE SET
+           destination = EXCLUDED.destination,
+           schedule = EXCLUDED.schedule,
+           reserve_days = EXCLUDED.reserve_days,
+           updated_at = EXCLUDED.updated_at
+         RETURNING *`,
+        [
+          settings.organizerId,
+          settings.destination,
+          settings.schedule,
+          settings.reserveDays,
+          settings.createdAt,
+          settings.updatedAt,
+        ]
+      );
+      return this.mapRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error saving payout settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Settings are replaced as a whole through create
+   */
+  async update(): Promise<PayoutSettings | null> {
+    throw new Error('Use create to replace payout settings');
+  }
+
+  async findByOrganizerId(organizerId: string): Promise<PayoutSettings | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((s) => s.organizerId === organizerId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM payout_settings WHERE organizer_id = $1', [organizerId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding payout settings by organizer ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an organizer's settings and lock their row until the current transaction ends, so
+   * only one payout request on any instance works out their balance at a time. Only holds
+   * inside withTransaction.
+   */
+  async findByOrganizerIdForUpdate(organizerId: string): Promise<PayoutSettings | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((s) => s.organizerId === organizerId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM payout_settings WHERE organizer_id = $1 FOR UPDATE', [organizerId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error locking payout settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the settings of organizers paid on any of the given schedules
+   */
+  async findBySchedules(schedules: PayoutSettings['schedule'][]): Promise<PayoutSettings[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((s) => schedules.includes(s.schedule));
+    }
+
+    try {
+      const result = await query(
+        'SELECT * FROM payout_settings WHERE schedule = ANY($1) ORDER BY organizer_id',
+        [schedules]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding payout settings by schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim an organizer's scheduled payout run for `leaseMs` so only one instance pays them;
+   * returns false when another holds the claim. A run that fails lets the claim lapse.
+   */
+  async claimPayoutRun(organizerId: string, now: number, leaseMs: number): Promise<boolean> {
+    if (getDatabaseStatus().type === 'memory') {
+      const claimedUntil = this.payoutRunClaims.get(organizerId);
+      if (claimedUntil !== undefined && claimedUntil > now) return false;
+      this.payoutRunClaims.set(organizerId, now + leaseMs);
+      return true;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE payout_settings SET payout_claimed_until = $2
+         WHERE organizer_id = $1 AND (payout_claimed_until IS NULL OR payout_claimed_until <= $3)`,
+        [organizerId, now + leaseMs, now]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error claiming payout run:', error);
+      throw error;
+    }
+  }
+
+  clearMemoryStore(): void {
+    super.clearMemoryStore();
+    this.payoutRunClaims.clear();
+  }
+
+  /**
+   * Map database row to PayoutSettings object
+   */
+  protected mapRow(row: any): PayoutSettings {
+    return {
+      organizerId: row.organizer_id,
+      destination: row.destination,
+      schedule: row.schedule,
+      reserveDays: parseInt(row.reserve_days, 10),
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
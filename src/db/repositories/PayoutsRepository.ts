@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { Payout } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Payouts Repository
+ * Handles all Payout database operations
+ */
+export class PayoutsRepository extends BaseRepository<Payout> {
+  protected tableName = 'payouts';
+
+  /**
+   * Create new payout
+   */
+  async create(data: Omit<Payout, 'id'>): Promise<Payout> {
+    const id = uuidv4();
+    const payout: Payout = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(payout);
+      return payout;
+    }
+
+    try {
+      await query(
+        `INSERT INTO payouts (id, organizer_id, amount, currency, status, sales_total, adjustments, order_ids, payment_ids, provider, destination, reserve_cutoff, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          payout.id,
+          payout.organizerId,
+          payout.amount.amount,
+          payout.amount.currency,
+          payout.status,
+          payout.salesTotal.amount,
+          payout.adjustments.amount,
+          payout.orderIds,
+          payout.paymentIds,
+          payout.provider,
+          payout.destination,
+          payout.reserveCutoff,
+          payout.createdAt,
+          payout.updatedAt,
+        ]
+      );
+      return payout;
+    } catch (error) {
+      console.error('Error creating payout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update payout
+   */
+  async update(id: string, data: Partial<Payout>): Promise<Payout | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((p) => p.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const updates: string[] = [];
+      const values: any[] = [id];
+      let paramIndex = 2;
+
+      if (data.status !== undefined) {
+        updates.push(`status = $${paramIndex}`);
+        values.push(data.status);
+        paramIndex++;
+      }
+
+      if (data.providerTransferId !== undefined) {
+        updates.push(`provider_transfer_id = $${paramIndex}`);
+        values.push(data.providerTransferId);
+        paramIndex++;
+      }
+
+      if (data.failureReason !== undefined) {
+        updates.push(`failure_reason = $${paramIndex}`);
+        values.push(data.failureReason);
+        paramIndex++;
+      }
+
+      if (data.paidAt !== undefined) {
+        updates.push(`paid_at = $${paramIndex}`);
+        values.push(data.paidAt);
+        paramIndex++;
+      }
+
+      updates.push(`updated_at = $${paramIndex}`);
+      values.push(Date.now());
+
+      const result = await query(
+        `UPDATE payouts SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating payout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find payouts by organizer ID, oldest first
+   */
+  async findByOrganizerId(organizerId: string): Promise<Payout[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((p) => p.organizerId === organizerId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM payouts WHERE organizer_id = $1 ORDER BY created_at ASC', [
+        organizerId,
+      ]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding payouts by organizer ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Payout object
+   */
+  protected mapRow(row: any): Payout {
+    return {
+      id: row.id,
+      organizerId: row.organizer_id,
+      amount: Money.of(parseInt(row.amount, 10), row.currency),
+      status: row.status,
+      salesTotal: Money.of(parseInt(row.sales_total, 10), row.currency),
+      adjustments: Money.of(parseInt(row.adjustments, 10), row.currency),
+      orderIds: Array.isArray(row.order_ids) ? row.order_ids : [],
+      paymentIds: Array.isArray(row.payment_ids) ? row.payment_ids : [],
+      provider: row.provider,
+      destination: row.destination,
+      providerTransferId: row.provider_transfer_id || undefined,
+      failureReason: row.failure_reason || undefined,
+      reserveCutoff: parseInt(row.reserve_cutoff, 10),
+      paidAt: row.paid_at ? parseInt(row.paid_at, 10) : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { Presale } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Presales Repository
+ * Handles all Presale database operations
+ */
+export class PresalesRepository extends BaseRepository<Presale> {
+  protected tableName = 'presales';
+
+  /**
+   * Create new presale
+   */
+  async create(data: Omit<Presale, 'id'>): Promise<Presale> {
+    const id = uuidv4();
+    const presale: Presale = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(presale);
+      return presale;
+    }
+
+    try {
+      await query(
+        `INSERT INTO presales (id, access_code, ticket_ids, event_id, starts_at, on_sale_at, max_uses, use_count, active, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          presale.id,
+          presale.accessCode,
+          presale.ticketIds,
+          presale.eventId,
+          presale.startsAt,
+          presale.onSaleAt,
+          presale.maxUses,
+          presale.useCount,
+          presale.active,
+          presale.createdAt,
+          presale.updatedAt,
+        ]
+      );
+      return presale;
+    } catch (error) {
+      console.error('Error creating presale:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a presale's window, cap or active flag; the use count only changes through
+   * adjustUseCount
+   */
+  async update(id: string, data: Partial<Presale>): Promise<Presale | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((p) => p.id === id);
+      if (index > -1) {
+        const { useCount, ...changes } = this.definedFields(data);
+        this.memoryStore[index] = { ...this.memoryStore[index], ...changes, updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const updates: string[] = [];
+      const values: any[] = [id];
+      let paramIndex = 2;
+
+      const columns: [keyof Presale, string][] = [
+        ['active', 'active'],
+        ['startsAt', 'starts_at'],
+        ['onSaleAt', 'on_sale_at'],
+        ['maxUses', 'max_uses'],
+      ];
+      for (const [field, column] of columns) {
+        if (data[field] !== undefined) {
+          updates.push(`${column} = $${paramIndex}`);
+          values.push(data[field]);
+          paramIndex++;
+        }
+      }
+
+      updates.push(`updated_at = $${paramIndex}`);
+      values.push(Date.now());
+
+      const result = await query(
+        `UPDATE presales SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating presale:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add `delta` uses in one statement. Returns null, changing nothing, when the count
+   * would go above maxUses or below zero.
+   */
+  async adjustUseCount(id: string, delta: number): Promise<Presale | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((p) => p.id === id);
+      if (index === -1) return null;
+      const presale = this.memoryStore[index];
+      const useCount = presale.useCount + delta;
+      if (useCount < 0 || (presale.maxUses && useCount > presale.maxUses)) return null;
+      this.memoryStore[index] = { ...presale, useCount, updatedAt: Date.now() };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `UPDATE presales SET use_count = use_count + $2, updated_at = $3
+         WHERE id = $1 AND use_count + $2 >= 0 AND (max_uses IS NULL OR use_count + $2 <= max_uses)
+         RETURNING *`,
+        [id, delta, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error adjusting presale use count:', error);
+      throw error;
+    }
+  }
+
+  async findByAccessCode(accessCode: string): Promise<Presale | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((p) => p.accessCode === accessCode) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM presales WHERE access_code = $1', [accessCode]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding presale by access code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active presales that have not reached general on-sale at `now`
+   */
+  async findUpcoming(now: number): Promise<Presale[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((p) => p.active && p.onSaleAt > now);
+    }
+
+    try {
+      const result = await query('SELECT * FROM presales WHERE active AND on_sale_at > $1', [now]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding upcoming presales:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Presale object
+   */
+  protected mapRow(row: any): Presale {
+    return {
+      id: row.id,
+      accessCode: row.access_code,
+      ticketIds: Array.isArray(row.ticket_ids) ? row.ticket_ids : [],
+      eventId: row.event_id || undefined,
+      startsAt: parseInt(row.starts_at, 10),
+      onSaleAt: parseInt(row.on_sale_at, 10),
+      maxUses: row.max_uses ?? undefined,
+      useCount: row.use_count,
+      active: row.active,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
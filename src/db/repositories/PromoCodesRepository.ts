@@ -0,0 +1,215 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { PromoCode } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Promo Codes Repository
+ * Handles all PromoCode database operations
+ */
+export class PromoCodesRepository extends BaseRepository<PromoCode> {
+  protected tableName = 'promo_codes';
+
+  /**
+   * Create new promo code
+   */
+  async create(data: Omit<PromoCode, 'id'>): Promise<PromoCode> {
+    const id = uuidv4();
+    const promoCode: PromoCode = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(promoCode);
+      return promoCode;
+    }
+
+    try {
+      await query(
+        `INSERT INTO promo_codes (id, code, tenant_id, kind, percentage, amount_off, minimum_spend, currency, ticket_ids, max_redemptions, max_redemptions_per_user, redemption_count, starts_at, ends_at, stackable, active, created_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+        [
+          promoCode.id,
+          promoCode.code,
+          promoCode.tenantId,
+          promoCode.kind,
+          promoCode.percentage,
+          promoCode.amountOff?.amount,
+          promoCode.minimumSpend?.amount,
+          (promoCode.amountOff || promoCode.minimumSpend)?.currency,
+          promoCode.ticketIds,
+          promoCode.maxRedemptions,
+          promoCode.maxRedemptionsPerUser,
+          promoCode.redemptionCount,
+          promoCode.startsAt,
+          promoCode.endsAt,
+          promoCode.stackable,
+          promoCode.active,
+          promoCode.createdBy,
+          promoCode.createdAt,
+          promoCode.updatedAt,
+        ]
+      );
+      return promoCode;
+    } catch (error) {
+      console.error('Error creating promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a code's availability and caps; its discount is fixed once created and its
+   * redemption count only changes through adjustRedemptionCount
+   */
+  async update(id: string, data: Partial<PromoCode>): Promise<PromoCode | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((p) => p.id === id);
+      if (index > -1) {
+        const { redemptionCount, ...changes } = this.definedFields(data);
+        this.memoryStore[index] = { ...this.memoryStore[index], ...changes, updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const updates: string[] = [];
+      const values: any[] = [id];
+      let paramIndex = 2;
+
+      const columns: [keyof PromoCode, string][] = [
+        ['active', 'active'],
+        ['startsAt', 'starts_at'],
+        ['endsAt', 'ends_at'],
+        ['maxRedemptions', 'max_redemptions'],
+        ['maxRedemptionsPerUser', 'max_redemptions_per_user'],
+      ];
+      for (const [field, column] of columns) {
+        if (data[field] !== undefined) {
+          updates.push(`${column} = $${paramIndex}`);
+          values.push(data[field]);
+          paramIndex++;
+        }
+      }
+
+      updates.push(`updated_at = $${paramIndex}`);
+      values.push(Date.now());
+
+      const result = await query(
+        `UPDATE promo_codes SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add `delta` redemptions in one statement. Returns null, changing nothing, when the count
+   * would go above maxRedemptions or below zero.
+   */
+  async adjustRedemptionCount(id: string, delta: number): Promise<PromoCode | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((p) => p.id === id);
+      if (index === -1) return null;
+      const promoCode = this.memoryStore[index];
+      const redemptionCount = promoCode.redemptionCount + delta;
+      if (redemptionCount < 0 || (promoCode.maxRedemptions && redemptionCount > promoCode.maxRedemptions)) {
+        return null;
+      }
+      this.memoryStore[index] = { ...promoCode, redemptionCount, updatedAt: Date.now() };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `UPDATE promo_codes SET redemption_count = redemption_count + $2, updated_at = $3
+         WHERE id = $1 AND redemption_count + $2 >= 0
+           AND (max_redemptions IS NULL OR redemption_count + $2 <= max_redemptions)
+         RETURNING *`,
+        [id, delta, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error adjusting promo code redemption count:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a code as entered in a tenant: the tenant's own code, else a code for every tenant
+   */
+  async findByCode(code: string, tenantId: string): Promise<PromoCode | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return (
+        this.memoryStore.find((p) => p.code === code && p.tenantId === tenantId) ||
+        this.memoryStore.find((p) => p.code === code && !p.tenantId) ||
+        null
+      );
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM promo_codes WHERE code = $1 AND (tenant_id = $2 OR tenant_id IS NULL)
+         ORDER BY tenant_id NULLS LAST LIMIT 1`,
+        [code, tenantId]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding promo code by code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the code a tenant owns, or with no tenant the code for every tenant
+   */
+  async findOwnedCode(code: string, tenantId?: string): Promise<PromoCode | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((p) => p.code === code && p.tenantId === tenantId) || null;
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM promo_codes WHERE code = $1 AND COALESCE(tenant_id, '') = COALESCE($2, '')`,
+        [code, tenantId]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding owned promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to PromoCode object
+   */
+  protected mapRow(row: any): PromoCode {
+    const money = (value: any) => (value !== null ? Money.of(parseInt(value, 10), row.currency) : undefined);
+    return {
+      id: row.id,
+      code: row.code,
+      tenantId: row.tenant_id || undefined,
+      kind: row.kind,
+      percentage: row.percentage !== null ? Number(row.percentage) : undefined,
+      amountOff: money(row.amount_off),
+      minimumSpend: money(row.minimum_spend),
+      ticketIds: Array.isArray(row.ticket_ids) ? row.ticket_ids : [],
+      maxRedemptions: row.max_redemptions ?? undefined,
+      maxRedemptionsPerUser: row.max_redemptions_per_user ?? undefined,
+      redemptionCount: row.redemption_count,
+      startsAt: row.starts_at ? parseInt(row.starts_at, 10) : undefined,
+      endsAt: row.ends_at ? parseInt(row.ends_at, 10) : undefined,
+      stackable: row.stackable,
+      active: row.active,
+      createdBy: row.created_by,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { PromoRedemption } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Promo Redemptions Repository
+ * Handles all PromoRedemption database operations
+ */
+export class PromoRedemptionsRepository extends BaseRepository<PromoRedemption> {
+  protected tableName = 'promo_redemptions';
+
+  /**
+   * Create new redemption
+   */
+  async create(data: Omit<PromoRedemption, 'id'>): Promise<PromoRedemption> {
+    const id = uuidv4();
+    const redemption: PromoRedemption = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(redemption);
+      return redemption;
+    }
+
+    try {
+      await query(
+        `INSERT INTO promo_redemptions (id, promo_code_id, order_id, user_id, amount, currency, status, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          redemption.id,
+          redemption.promoCodeId,
+          redemption.orderId,
+          redemption.userId,
+          redemption.amount.amount,
+          redemption.amount.currency,
+          redemption.status,
+          redemption.createdAt,
+          redemption.updatedAt,
+        ]
+      );
+      return redemption;
+    } catch (error) {
+      console.error('Error creating promo redemption:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a redemption's status
+   */
+  async update(id: string, data: Partial<PromoRedemption>): Promise<PromoRedemption | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        'UPDATE promo_redemptions SET status = COALESCE($2, status), updated_at = $3 WHERE id = $1 RETURNING *',
+        [id, data.status, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating promo redemption:', error);
+      throw error;
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<PromoRedemption[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((r) => r.orderId === orderId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM promo_redemptions WHERE order_id = $1 ORDER BY created_at ASC', [
+        orderId,
+      ]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding promo redemptions by order ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * How many redemptions of a code a user holds, not counting released ones
+   */
+  async countActiveByUser(promoCodeId: string, userId: string): Promise<number> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter(
+        (r) => r.promoCodeId === promoCodeId && r.userId === userId && r.status === 'active'
+      ).length;
+    }
+
+    try {
+      const result = await query(
+        `SELECT COUNT(*) AS count FROM promo_redemptions
+         WHERE promo_code_id = $1 AND user_id = $2 AND status = 'active'`,
+        [promoCodeId, userId]
+      );
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      console.error('Error counting promo redemptions by user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to PromoRedemption object
+   */
+  protected mapRow(row: any): PromoRedemption {
+    return {
+      id: row.id,
+      promoCodeId: row.promo_code_id,
+      orderId: row.order_id,
+      userId: row.user_id,
+      amount: Money.of(parseInt(row.amount, 10), row.currency),
+      status: row.status,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
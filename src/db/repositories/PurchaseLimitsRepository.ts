@@ -0,0 +1,117 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { PurchaseLimit } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Purchase Limits Repository
+ * Handles all PurchaseLimit database operations
+ */
+export class PurchaseLimitsRepository extends BaseRepository<PurchaseLimit> {
+  protected tableName = 'purchase_limits';
+
+  /**
+   * Create new purchase limit
+   */
+  async create(data: Omit<PurchaseLimit, 'id'>): Promise<PurchaseLimit> {
+    const id = uuidv4();
+    const limit: PurchaseLimit = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(limit);
+      return limit;
+    }
+
+    try {
+      await query(
+        `INSERT INTO purchase_limits (id, ticket_id, event_id, max_quantity, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [limit.id, limit.ticketId, limit.eventId, limit.maxQuantity, limit.createdAt, limit.updatedAt]
+      );
+      return limit;
+    } catch (error) {
+      console.error('Error creating purchase limit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a limit's quantity; what it applies to is fixed once created
+   */
+  async update(id: string, data: Partial<PurchaseLimit>): Promise<PurchaseLimit | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((l) => l.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE purchase_limits SET max_quantity = COALESCE($2, max_quantity), updated_at = $3
+         WHERE id = $1 RETURNING *`,
+        [id, data.maxQuantity, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating purchase limit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the limits on any of the given tickets or events
+   */
+  async findApplicable(ticketIds: string[], eventIds: string[]): Promise<PurchaseLimit[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter(
+        (l) => (l.ticketId && ticketIds.includes(l.ticketId)) || (l.eventId && eventIds.includes(l.eventId))
+      );
+    }
+
+    try {
+      const result = await query(
+        'SELECT * FROM purchase_limits WHERE ticket_id = ANY($1) OR event_id = ANY($2) ORDER BY created_at ASC',
+        [ticketIds, eventIds]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding applicable purchase limits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hold a lock on the user's purchases until the current transaction ends, so orders made at
+   * the same time on any instance count each other's tickets. Only holds inside withTransaction.
+   */
+  async lockUserPurchases(userId: string): Promise<void> {
+    if (getDatabaseStatus().type === 'memory') return;
+
+    try {
+      await query('SELECT pg_advisory_xact_lock(hashtext($1))', [`purchases:${userId}`]);
+    } catch (error) {
+      console.error('Error locking user purchases:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to PurchaseLimit object
+   */
+  protected mapRow(row: any): PurchaseLimit {
+    return {
+      id: row.id,
+      ticketId: row.ticket_id || undefined,
+      eventId: row.event_id || undefined,
+      maxQuantity: parseInt(row.max_quantity, 10),
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
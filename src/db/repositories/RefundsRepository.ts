@@ -0,0 +1,187 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { Refund } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Refunds Repository
+ * Handles all Refund database operations
+ */
+export class RefundsRepository extends BaseRepository<Refund> {
+  protected tableName = 'refunds';
+
+  /**
+   * Create new refund
+   */
+  async create(data: Omit<Refund, 'id'>): Promise<Refund> {
+    const id = uuidv4();
+    const refund: Refund = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(refund);
+      return refund;
+    }
+
+    try {
+      await query(
+        `INSERT INTO refunds (id, order_id, payment_id, amount, currency, reason, status, provider_refund_id, error_message, destination, line_items, tax_amount, presentment_amount, presentment_currency, requested_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+        [
+          refund.id,
+          refund.orderId,
+          refund.paymentId,
+          refund.amount.amount,
+          refund.amount.currency,
+          refund.reason,
+          refund.status,
+          refund.providerRefundId,
+          refund.errorMessage,
+          refund.destination,
+          refund.lineItems ? JSON.stringify(refund.lineItems) : null,
+          refund.tax?.amount,
+          refund.presentmentAmount?.amount,
+          refund.presentmentAmount?.currency,
+          refund.requestedBy,
+          refund.createdAt,
+          refund.updatedAt,
+        ]
+      );
+      return refund;
+    } catch (error) {
+      console.error('Error creating refund:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update refund
+   */
+  async update(id: string, data: Partial<Refund>): Promise<Refund | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const updates: string[] = [];
+      const values: any[] = [id];
+      let paramIndex = 2;
+
+      if (data.status !== undefined) {
+        updates.push(`status = $${paramIndex}`);
+        values.push(data.status);
+        paramIndex++;
+      }
+
+      if (data.providerRefundId !== undefined) {
+        updates.push(`provider_refund_id = $${paramIndex}`);
+        values.push(data.providerRefundId);
+        paramIndex++;
+      }
+
+      if (data.errorMessage !== undefined) {
+        updates.push(`error_message = $${paramIndex}`);
+        values.push(data.errorMessage);
+        paramIndex++;
+      }
+
+      updates.push(`updated_at = $${paramIndex}`);
+      values.push(Date.now());
+
+      const result = await query(
+        `UPDATE refunds SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating refund:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find refunds by order ID, oldest first
+   */
+  async findByOrderId(orderId: string): Promise<Refund[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((r) => r.orderId === orderId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM refunds WHERE order_id = $1 ORDER BY created_at ASC', [orderId]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding refunds by order ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find refunds by payment ID, oldest first
+   */
+  async findByPaymentId(paymentId: string): Promise<Refund[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((r) => r.paymentId === paymentId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM refunds WHERE payment_id = $1 ORDER BY created_at ASC', [paymentId]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding refunds by payment ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find refund by the payment provider's refund ID
+   */
+  async findByProviderRefundId(providerRefundId: string): Promise<Refund | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((r) => r.providerRefundId === providerRefundId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM refunds WHERE provider_refund_id = $1', [providerRefundId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding refund by provider refund ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Refund object
+   */
+  protected mapRow(row: any): Refund {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      paymentId: row.payment_id,
+      amount: Money.of(parseInt(row.amount, 10), row.currency),
+      reason: row.reason || undefined,
+      status: row.status,
+      providerRefundId: row.provider_refund_id || undefined,
+      errorMessage: row.error_message || undefined,
+      destination: row.destination,
+      lineItems: Array.isArray(row.line_items) ? row.line_items : undefined,
+      tax: row.tax_amount !== null ? Money.of(parseInt(row.tax_amount, 10), row.currency) : undefined,
+      presentmentAmount:
+        row.presentment_amount !== null
+          ? Money.of(parseInt(row.presentment_amount, 10), row.presentment_currency)
+          : undefined,
+      requestedBy: row.requested_by,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
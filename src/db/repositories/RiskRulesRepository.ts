@@ -0,0 +1,71 @@
+import { BaseRepository } from './BaseRepository';
+import { RiskRuleSet } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Risk Rules Repository
+ * One rule set per tenant, stored as a JSON document keyed by tenant ID
+ */
+export class RiskRulesRepository extends BaseRepository<RiskRuleSet> {
+  protected tableName = 'risk_rule_sets';
+
+  /**
+   * Create or replace a tenant's rule set
+   */
+  async create(rules: RiskRuleSet): Promise<RiskRuleSet> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.tenantId === rules.tenantId);
+      if (index > -1) {
+        this.memoryStore[index] = rules;
+      } else {
+        this.memoryStore.push(rules);
+      }
+      return rules;
+    }
+
+    try {
+      const { tenantId, updatedAt, ...document } = rules;
+      await query(
+        `INSERT INTO risk_rule_sets (tenant_id, rules, updated_at) VALUES ($1, $2, $3)
+         ON CONFLICT (tenant_id) DO UPDATE SET rules = EXCLUDED.rules, updated_at = EXCLUDED.updated_at`,
+        [tenantId, JSON.stringify(document), updatedAt]
+      );
+      return rules;
+    } catch (error) {
+      console.error('Error saving risk rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rule sets are replaced as a whole through create
+   */
+  async update(): Promise<RiskRuleSet | null> {
+    throw new Error('Use create to replace a risk rule set');
+  }
+
+  async findByTenantId(tenantId: string): Promise<RiskRuleSet | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((r) => r.tenantId === tenantId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM risk_rule_sets WHERE tenant_id = $1', [tenantId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding risk rules by tenant ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to RiskRuleSet object
+   */
+  protected mapRow(row: any): RiskRuleSet {
+    return {
+      ...row.rules,
+      tenantId: row.tenant_id,
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
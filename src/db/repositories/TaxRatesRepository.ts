@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { TaxRate } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Tax Rates Repository
+ * Handles all TaxRate database operations
+ */
+export class TaxRatesRepository extends BaseRepository<TaxRate> {
+  protected tableName = 'tax_rates';
+
+  /**
+   * Create new tax rate
+   */
+  async create(data: Omit<TaxRate, 'id'>): Promise<TaxRate> {
+    const id = uuidv4();
+    const rate: TaxRate = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(rate);
+      return rate;
+    }
+
+    try {
+      await query(
+        `INSERT INTO tax_rates (id, country, region, category, name, rate, pricing_mode, effective_from, effective_to, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          rate.id,
+          rate.country,
+          rate.region,
+          rate.category,
+          rate.name,
+          rate.rate,
+          rate.pricingMode,
+          rate.effectiveFrom,
+          rate.effectiveTo,
+          rate.createdAt,
+          rate.updatedAt,
+        ]
+      );
+      return rate;
+    } catch (error) {
+      console.error('Error creating tax rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a rate's period; rates are otherwise replaced by adding a new one, so orders can
+   * always be traced to the rate they were taxed at
+   */
+  async update(id: string, data: Partial<TaxRate>): Promise<TaxRate | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((r) => r.id === id);
+      if (index > -1) {
+        const changes = this.definedFields({ effectiveTo: data.effectiveTo });
+        this.memoryStore[index] = { ...this.memoryStore[index], ...changes, updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE tax_rates SET effective_to = COALESCE($2, effective_to), updated_at = $3 WHERE id = $1 RETURNING *`,
+        [id, data.effectiveTo, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating tax rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find every rate of a country, national and regional, oldest first
+   */
+  async findByCountry(country: string): Promise<TaxRate[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((r) => r.country === country);
+    }
+
+    try {
+      const result = await query('SELECT * FROM tax_rates WHERE country = $1 ORDER BY effective_from ASC', [country]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding tax rates by country:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to TaxRate object
+   */
+  protected mapRow(row: any): TaxRate {
+    return {
+      id: row.id,
+      country: row.country,
+      region: row.region || undefined,
+      category: row.category,
+      name: row.name,
+      rate: Number(row.rate),
+      pricingMode: row.pricing_mode,
+      effectiveFrom: parseInt(row.effective_from, 10),
+      effectiveTo: row.effective_to ? parseInt(row.effective_to, 10) : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { BaseRepository } from './BaseRepository';
+import { TicketInventory } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Ticket Inventory Repository
+ * One row of seat counts per ticket type, keyed by ticket ID. Counts only change through
+ * adjust, which never lets reserved and sold seats exceed the supply.
+ */
+export class TicketInventoryRepository extends BaseRepository<TicketInventory> {
+  protected tableName = 'ticket_inventory';
+
+  /**
+   * Start tracking a ticket's inventory; a ticket already tracked keeps its row, which is returned
+   */
+  async create(inventory: TicketInventory): Promise<TicketInventory> {
+    if (getDatabaseStatus().type === 'memory') {
+      const existing = this.memoryStore.find((i) => i.ticketId === inventory.ticketId);
+      if (existing) return existing;
+      this.memoryStore.push(inventory);
+      return inventory;
+    }
+
+    try {
+      await query(
+        `INSERT INTO ticket_inventory (ticket_id, total_supply, reserved, sold, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (ticket_id) DO NOTHING`,
+        [
+          inventory.ticketId,
+          inventory.totalSupply,
+          inventory.reserved,
+          inventory.sold,
+          inventory.createdAt,
+          inventory.updatedAt,
+        ]
+      );
+      return (await this.findByTicketId(inventory.ticketId))!;
+    } catch (error) {
+      console.error('Error creating ticket inventory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a ticket's total supply; returns null when the ticket has no inventory or the
+   * supply would fall below the seats already reserved and sold
+   */
+  async update(ticketId: string, data: Partial<TicketInventory>): Promise<TicketInventory | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((i) => i.ticketId === ticketId);
+      if (index === -1) return null;
+      const inventory = this.memoryStore[index];
+      const totalSupply = data.totalSupply ?? inventory.totalSupply;
+      if (totalSupply < inventory.reserved + inventory.sold) return null;
+      this.memoryStore[index] = { ...inventory, totalSupply, updatedAt: Date.now() };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `UPDATE ticket_inventory SET total_supply = COALESCE($2, total_supply), updated_at = $3
+         WHERE ticket_id = $1 AND reserved + sold <= COALESCE($2, total_supply)
+         RETURNING *`,
+        [ticketId, data.totalSupply, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating ticket inventory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move seats in one atomic step, e.g. `(ticketId, 2, 0)` reserves two and `(ticketId, -2, 2)`
+   * sells them. Returns null when the ticket has no inventory, a count would go negative, or
+   * reserved and sold seats would exceed the supply; concurrent callers can never oversell.
+   */
+  async adjust(ticketId: string, reservedDelta: number, soldDelta: number): Promise<TicketInventory | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((i) => i.ticketId === ticketId);
+      if (index === -1) return null;
+      const inventory = this.memoryStore[index];
+      const reserved = inventory.reserved + reservedDelta;
+      const sold = inventory.sold + soldDelta;
+      if (reserved < 0 || sold < 0 || reserved + sold > inventory.totalSupply) return null;
+      this.memoryStore[index] = { ...inventory, reserved, sold, updatedAt: Date.now() };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `UPDATE ticket_inventory SET reserved = reserved + $2, sold = sold + $3, updated_at = $4
+         WHERE ticket_id = $1 AND reserved + $2 >= 0 AND sold + $3 >= 0
+           AND reserved + $2 + sold + $3 <= total_supply
+         RETURNING *`,
+        [ticketId, reservedDelta, soldDelta, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error adjusting ticket inventory:', error);
+      throw error;
+    }
+  }
+
+  async findByTicketId(ticketId: string): Promise<TicketInventory | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((i) => i.ticketId === ticketId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM ticket_inventory WHERE ticket_id = $1', [ticketId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding ticket inventory by ticket ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to TicketInventory object
+   */
+  protected mapRow(row: any): TicketInventory {
+    return {
+      ticketId: row.ticket_id,
+      totalSupply: parseInt(row.total_supply, 10),
+      reserved: parseInt(row.reserved, 10),
+      sold: parseInt(row.sold, 10),
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
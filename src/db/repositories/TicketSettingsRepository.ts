@@ -0,0 +1,109 @@
+import { BaseRepository } from './BaseRepository';
+import { TicketSettings } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Ticket Settings Repository
+ * One row of settings per ticket type, keyed by ticket ID
+ */
+export class TicketSettingsRepository extends BaseRepository<TicketSettings> {
+  protected tableName = 'ticket_settings';
+
+  /**
+   * Save a ticket's settings, replacing any it had; the original createdAt is kept
+   */
+  async create(settings: TicketSettings): Promise<TicketSettings> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((s) => s.ticketId === settings.ticketId);
+      if (index === -1) {
+        this.memoryStore.push(settings);
+        return settings;
+      }
+      this.memoryStore[index] = { ...settings, createdAt: this.memoryStore[index].createdAt };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `INSERT INTO ticket_settings (ticket_id, tax_category, event_id, price, currency, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (ticket_id) DO UPDATE
+         SET tax_category = EXCLUDED.tax_category, event_id = EXCLUDED.event_id, price = EXCLUDED.price,
+             currency = EXCLUDED.currency, updated_at = EXCLUDED.updated_at
+         RETURNING *`,
+        [
+          settings.ticketId,
+          settings.taxCategory,
+          settings.eventId,
+          settings.price?.amount,
+          settings.price?.currency,
+          settings.createdAt,
+          settings.updatedAt,
+        ]
+      );
+      return this.mapRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error saving ticket settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update some of a ticket's settings
+   */
+  async update(ticketId: string, data: Partial<TicketSettings>): Promise<TicketSettings | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((s) => s.ticketId === ticketId);
+      if (index === -1) return null;
+      this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `UPDATE ticket_settings
+         SET tax_category = COALESCE($2, tax_category), event_id = COALESCE($3, event_id),
+             price = COALESCE($4, price), currency = COALESCE($5, currency), updated_at = $6
+         WHERE ticket_id = $1 RETURNING *`,
+        [ticketId, data.taxCategory, data.eventId, data.price?.amount, data.price?.currency, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating ticket settings:', error);
+      throw error;
+    }
+  }
+
+  async findByTicketId(ticketId: string): Promise<TicketSettings | null> {
+    return (await this.findByTicketIds([ticketId]))[0] || null;
+  }
+
+  async findByTicketIds(ticketIds: string[]): Promise<TicketSettings[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((s) => ticketIds.includes(s.ticketId));
+    }
+
+    try {
+      const result = await query('SELECT * FROM ticket_settings WHERE ticket_id = ANY($1)', [ticketIds]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding ticket settings by ticket IDs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to TicketSettings object
+   */
+  protected mapRow(row: any): TicketSettings {
+    return {
+      ticketId: row.ticket_id,
+      taxCategory: row.tax_category,
+      eventId: row.event_id || undefined,
+      price: row.price !== null ? Money.of(parseInt(row.price, 10), row.currency) : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
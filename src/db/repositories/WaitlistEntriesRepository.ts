@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { WaitlistEntry } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Waitlist Entries Repository
+ * Entries are queued in the order they were created: by insertion order in memory and by
+ * the seq column on Postgres, so users joining in the same millisecond keep their turn.
+ */
+export class WaitlistEntriesRepository extends BaseRepository<WaitlistEntry> {
+  protected tableName = 'waitlist_entries';
+
+  /**
+   * Create new waitlist entry
+   */
+  async create(data: Omit<WaitlistEntry, 'id'>): Promise<WaitlistEntry> {
+    const id = uuidv4();
+    const entry: WaitlistEntry = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(entry);
+      return entry;
+    }
+
+    try {
+      await query(
+        `INSERT INTO waitlist_entries (id, tenant_id, ticket_id, user_id, quantity, status, order_id, offer_expires_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          entry.id,
+          entry.tenantId,
+          entry.ticketId,
+          entry.userId,
+          entry.quantity,
+          entry.status,
+          entry.orderId,
+          entry.offerExpiresAt,
+          entry.createdAt,
+          entry.updatedAt,
+        ]
+      );
+      return entry;
+    } catch (error) {
+      console.error('Error creating waitlist entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an entry's status and offer
+   */
+  async update(id: string, data: Partial<WaitlistEntry>): Promise<WaitlistEntry | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((e) => e.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...this.definedFields(data), updatedAt: Date.now() };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        `UPDATE waitlist_entries
+         SET status = COALESCE($2, status), order_id = COALESCE($3, order_id),
+             offer_expires_at = COALESCE($4, offer_expires_at), updated_at = $5
+         WHERE id = $1 RETURNING *`,
+        [id, data.status, data.orderId, data.offerExpiresAt, Date.now()]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating waitlist entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the entry that has waited longest for a ticket
+   */
+  async findNextWaiting(ticketId: string): Promise<WaitlistEntry | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((e) => e.ticketId === ticketId && e.status === 'waiting') || null;
+    }
+
+    try {
+      const result = await query(
+        `SELECT * FROM waitlist_entries WHERE ticket_id = $1 AND status = 'waiting' ORDER BY seq ASC LIMIT 1`,
+        [ticketId]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding next waitlist entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the user's most recent entry for a ticket, whatever its status
+   */
+  async findLatestByUser(ticketId: string, userId: string): Promise<WaitlistEntry | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const entries = this.memoryStore.filter((e) => e.ticketId === ticketId && e.userId === userId);
+      return entries[entries.length - 1] || null;
+    }
+
+    try {
+      const result = await query(
+        'SELECT * FROM waitlist_entries WHERE ticket_id = $1 AND user_id = $2 ORDER BY seq DESC LIMIT 1',
+        [ticketId, userId]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding waitlist entry by user:', error);
+      throw error;
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<WaitlistEntry | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.find((e) => e.orderId === orderId) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM waitlist_entries WHERE order_id = $1', [orderId]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding waitlist entry by order ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the seats the entries still waiting for a ticket have asked for
+   */
+  async countWaitingSeats(ticketId: string): Promise<number> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore
+        .filter((e) => e.ticketId === ticketId && e.status === 'waiting')
+        .reduce((seats, e) => seats + e.quantity, 0);
+    }
+
+    try {
+      const result = await query(
+        `SELECT COALESCE(SUM(quantity), 0) AS seats FROM waitlist_entries WHERE ticket_id = $1 AND status = 'waiting'`,
+        [ticketId]
+      );
+      return parseInt(result.rows[0].seats, 10);
+    } catch (error) {
+      console.error('Error counting waiting seats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the entries still waiting for the same ticket that joined before this one
+   */
+  async countWaitingAhead(entry: WaitlistEntry): Promise<number> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((e) => e.id === entry.id);
+      return this.memoryStore
+        .slice(0, index)
+        .filter((e) => e.ticketId === entry.ticketId && e.status === 'waiting').length;
+    }
+
+    try {
+      const result = await query(
+        `SELECT COUNT(*) AS ahead FROM waitlist_entries
+         WHERE ticket_id = $1 AND status = 'waiting'
+           AND seq < (SELECT seq FROM waitlist_entries WHERE id = $2)`,
+        [entry.ticketId, entry.id]
+      );
+      return parseInt(result.rows[0].ahead, 10);
+    } catch (error) {
+      console.error('Error counting waitlist entries ahead:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to WaitlistEntry object
+   */
+  protected mapRow(row: any): WaitlistEntry {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      ticketId: row.ticket_id,
+      userId: row.user_id,
+      quantity: parseInt(row.quantity, 10),
+      status: row.status,
+      orderId: row.order_id || undefined,
+      offerExpiresAt: row.offer_expires_at !== null ? parseInt(row.offer_expires_at, 10) : undefined,
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { WalletTransaction } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Wallet Transactions Repository
+ * Append-only history of store credit balance changes
+ */
+export class WalletTransactionsRepository extends BaseRepository<WalletTransaction> {
+  protected tableName = 'wallet_transactions';
+
+  /**
+   * Create new wallet transaction
+   */
+  async create(data: Omit<WalletTransaction, 'id'>): Promise<WalletTransaction> {
+    const id = uuidv4();
+    const transaction: WalletTransaction = {
+      ...data,
+      id,
+    };
+
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push(transaction);
+      return transaction;
+    }
+
+    try {
+      await query(
+        `INSERT INTO wallet_transactions (id, wallet_id, tenant_id, user_id, type, reason, amount, balance_after, currency, order_id, payment_id, refund_id, description, created_by, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+        [
+          transaction.id,
+          transaction.walletId,
+          transaction.tenantId,
+          transaction.userId,
+          transaction.type,
+          transaction.reason,
+          transaction.amount.amount,
+          transaction.balanceAfter.amount,
+          transaction.amount.currency,
+          transaction.orderId,
+          transaction.paymentId,
+          transaction.refundId,
+          transaction.description,
+          transaction.createdBy,
+          transaction.createdAt,
+        ]
+      );
+      return transaction;
+    } catch (error) {
+      console.error('Error creating wallet transaction:', error);
+      throw error;
+    }
+  }
+
+  async update(): Promise<WalletTransaction | null> {
+    throw new Error('Wallet transactions are append-only');
+  }
+
+  async delete(): Promise<boolean> {
+    throw new Error('Wallet transactions are append-only');
+  }
+
+  /**
+   * Find a user's wallet transactions in a tenant, newest first
+   */
+  async findByOwner(tenantId: string, userId: string): Promise<WalletTransaction[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((t) => t.tenantId === tenantId && t.userId === userId).reverse();
+    }
+
+    try {
+      const result = await query(
+        'SELECT * FROM wallet_transactions WHERE tenant_id = $1 AND user_id = $2 ORDER BY created_at DESC, id DESC',
+        [tenantId, userId]
+      );
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding wallet transactions by owner:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to WalletTransaction object
+   */
+  protected mapRow(row: any): WalletTransaction {
+    return {
+      id: row.id,
+      walletId: row.wallet_id,
+      tenantId: row.tenant_id,
+      userId: row.user_id,
+      type: row.type,
+      reason: row.reason,
+      amount: Money.of(parseInt(row.amount, 10), row.currency),
+      balanceAfter: Money.of(parseInt(row.balance_after, 10), row.currency),
+      orderId: row.order_id || undefined,
+      paymentId: row.payment_id || undefined,
+      refundId: row.refund_id || undefined,
+      description: row.description || undefined,
+      createdBy: row.created_by,
+      createdAt: parseInt(row.created_at, 10),
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './BaseRepository';
+import { Wallet } from '../../models/types';
+import { Money } from '../../models/money';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Wallets Repository
+ * Store credit balances, one row per tenant, user and currency
+ */
+export class WalletsRepository extends BaseRepository<Wallet> {
+  protected tableName = 'wallets';
+
+  /**
+   * Create a wallet, or return the existing one for the same owner and currency
+   */
+  async create(data: Omit<Wallet, 'id'>): Promise<Wallet> {
+    if (getDatabaseStatus().type === 'memory') {
+      const existing = await this.findByOwnerAndCurrency(data.tenantId, data.userId, data.balance.currency);
+      if (existing) return existing;
+      const wallet: Wallet = { ...data, id: uuidv4() };
+      this.memoryStore.push(wallet);
+      return wallet;
+    }
+
+    try {
+      const result = await query(
+        `INSERT INTO wallets (id, tenant_id, user_id, balance, currency, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (tenant_id, user_id, currency) DO UPDATE SET updated_at = wallets.updated_at
+         RETURNING *`,
+        [
+          uuidv4(),
+          data.tenantId,
+          data.userId,
+          data.balance.amount,
+          data.balance.currency,
+          data.createdAt,
+          data.updatedAt,
+        ]
+      );
+      return this.mapRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error creating wallet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Balances only change through adjustBalance
+   */
+  async update(): Promise<Wallet | null> {
+    throw new Error('Use adjustBalance to change a wallet balance');
+  }
+
+  /**
+   * Add `delta` (negative to debit) to the balance in one statement. Returns null, changing
+   * nothing, when the balance would go negative, so concurrent debits cannot overdraw it.
+   */
+  async adjustBalance(id: string, delta: Money): Promise<Wallet | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((w) => w.id === id);
+      if (index === -1) return null;
+      const balance = this.memoryStore[index].balance.add(delta);
+      if (balance.isNegative()) return null;
+      this.memoryStore[index] = { ...this.memoryStore[index], balance, updatedAt: Date.now() };
+      return this.memoryStore[index];
+    }
+
+    try {
+      const result = await query(
+        `UPDATE wallets SET balance = balance + $2, updated_at = $3
+         WHERE id = $1 AND currency = $4 AND balance + $2 >= 0 RETURNING *`,
+        [id, delta.amount, Date.now(), delta.currency]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error adjusting wallet balance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's wallets in a tenant, one per currency
+   */
+  async findByOwner(tenantId: string, userId: string): Promise<Wallet[]> {
+    if (getDatabaseStatus().type === 'memory') {
+      return this.memoryStore.filter((w) => w.tenantId === tenantId && w.userId === userId);
+    }
+
+    try {
+      const result = await query('SELECT * FROM wallets WHERE tenant_id = $1 AND user_id = $2 ORDER BY currency', [
+        tenantId,
+        userId,
+      ]);
+      return this.mapRows(result.rows);
+    } catch (error) {
+      console.error('Error finding wallets by owner:', error);
+      throw error;
+    }
+  }
+
+  async findByOwnerAndCurrency(tenantId: string, userId: string, currency: string): Promise<Wallet | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const owned = await this.findByOwner(tenantId, userId);
+      return owned.find((w) => w.balance.currency === currency) || null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM wallets WHERE tenant_id = $1 AND user_id = $2 AND currency = $3', [
+        tenantId,
+        userId,
+        currency,
+      ]);
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error finding wallet by owner and currency:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Wallet object
+   */
+  protected mapRow(row: any): Wallet {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      userId: row.user_id,
+      balance: Money.of(parseInt(row.balance, 10), row.currency),
+      createdAt: parseInt(row.created_at, 10),
+      updatedAt: parseInt(row.updated_at, 10),
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import { BaseRepository } from './BaseRepository';
+import { WebhookEvent } from '../../models/types';
+import { query, getDatabaseStatus } from '../../config/database';
+
+/**
+ * Webhook Events Repository
+ * Records provider webhook event ids so redelivered events are processed once
+ */
+export class WebhookEventsRepository extends BaseRepository<WebhookEvent> {
+  protected tableName = 'webhook_events';
+
+  /**
+   * Create webhook event record, keyed by the provider's event id
+   */
+  async create(data: WebhookEvent): Promise<WebhookEvent> {
+    if (getDatabaseStatus().type === 'memory') {
+      this.memoryStore.push({ ...data });
+      return data;
+    }
+
+    try {
+      await query(
+        `INSERT INTO webhook_events (id, provider, type, received_at, processed_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [data.id, data.provider, data.type, data.receivedAt, data.processedAt]
+      );
+      return data;
+    } catch (error) {
+      console.error('Error creating webhook event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record an event as received unless it already was; returns false for duplicates
+   */
+  async claim(data: WebhookEvent): Promise<boolean> {
+    if (getDatabaseStatus().type === 'memory') {
+      if (this.memoryStore.some((e) => e.id === data.id)) return false;
+      this.memoryStore.push({ ...data });
+      return true;
+    }
+
+    try {
+      const result = await query(
+        `INSERT INTO webhook_events (id, provider, type, received_at)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (id) DO NOTHING`,
+        [data.id, data.provider, data.type, data.receivedAt]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error claiming webhook event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update webhook event
+   */
+  async update(id: string, data: Partial<WebhookEvent>): Promise<WebhookEvent | null> {
+    if (getDatabaseStatus().type === 'memory') {
+      const index = this.memoryStore.findIndex((e) => e.id === id);
+      if (index > -1) {
+        this.memoryStore[index] = { ...this.memoryStore[index], ...data };
+        return this.memoryStore[index];
+      }
+      return null;
+    }
+
+    try {
+      const result = await query(
+        'UPDATE webhook_events SET processed_at = $2 WHERE id = $1 RETURNING *',
+        [id, data.processedAt]
+      );
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error updating webhook event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to WebhookEvent object
+   */
+  protected mapRow(row: any): WebhookEvent {
+    return {
+      id: row.id,
+      provider: row.provider,
+      type: row.type,
+      receivedAt: parseInt(row.received_at, 10),
+      processedAt: row.processed_at ? parseInt(row.processed_at, 10) : undefined,
+    };
+  }
+}
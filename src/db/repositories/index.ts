@@ -1,9 +1,90 @@
+import { OrdersRepository } from './OrdersRepository';
+import { PaymentsRepository } from './PaymentsRepository';
+import { NFTTransactionsRepository } from './NFTTransactionsRepository';
+import { DisputesRepository } from './DisputesRepository';
+import { DisputeEvidenceRepository } from './DisputeEvidenceRepository';
+import { RefundsRepository } from './RefundsRepository';
+import { WebhookEventsRepository } from './WebhookEventsRepository';
+import { IdempotencyKeysRepository } from './IdempotencyKeysRepository';
+import { LedgerRepository } from './LedgerRepository';
+import { FeeRulesRepository } from './FeeRulesRepository';
+import { PayoutsRepository } from './PayoutsRepository';
+import { PayoutSettingsRepository } from './PayoutSettingsRepository';
+import { RiskRulesRepository } from './RiskRulesRepository';
+import { WalletsRepository } from './WalletsRepository';
+import { WalletTransactionsRepository } from './WalletTransactionsRepository';
+import { GiftCardsRepository } from './GiftCardsRepository';
+import { GiftCardAttemptsRepository } from './GiftCardAttemptsRepository';
+import { PromoCodesRepository } from './PromoCodesRepository';
+import { PromoRedemptionsRepository } from './PromoRedemptionsRepository';
+import { TaxRatesRepository } from './TaxRatesRepository';
+import { FxRatesRepository } from './FxRatesRepository';
+import { OrderHoldRulesRepository } from './OrderHoldRulesRepository';
+import { TicketSettingsRepository } from './TicketSettingsRepository';
+import { TicketInventoryRepository } from './TicketInventoryRepository';
+import { InventoryReservationsRepository } from './InventoryReservationsRepository';
+import { PurchaseLimitsRepository } from './PurchaseLimitsRepository';
+import { PresalesRepository } from './PresalesRepository';
+import { WaitlistEntriesRepository } from './WaitlistEntriesRepository';
+
 export { BaseRepository } from './BaseRepository';
-export { OrdersRepository } from './OrdersRepository';
-export { PaymentsRepository } from './PaymentsRepository';
-export { NFTTransactionsRepository } from './NFTTransactionsRepository';
+export {
+  OrdersRepository,
+  PaymentsRepository,
+  NFTTransactionsRepository,
+  RefundsRepository,
+  DisputesRepository,
+  DisputeEvidenceRepository,
+  WebhookEventsRepository,
+  IdempotencyKeysRepository,
+  LedgerRepository,
+  FeeRulesRepository,
+  PayoutsRepository,
+  PayoutSettingsRepository,
+  RiskRulesRepository,
+  WalletsRepository,
+  WalletTransactionsRepository,
+  GiftCardsRepository,
+  GiftCardAttemptsRepository,
+  PromoCodesRepository,
+  PromoRedemptionsRepository,
+  TaxRatesRepository,
+  FxRatesRepository,
+  OrderHoldRulesRepository,
+  TicketSettingsRepository,
+  TicketInventoryRepository,
+  InventoryReservationsRepository,
+  PurchaseLimitsRepository,
+  PresalesRepository,
+  WaitlistEntriesRepository,
+};
 
 // Singleton instances
-export const ordersRepository = new (require('./OrdersRepository').OrdersRepository)();
-export const paymentsRepository = new (require('./PaymentsRepository').PaymentsRepository)();
-export const nftTransactionsRepository = new (require('./NFTTransactionsRepository').NFTTransactionsRepository)();
+export const ordersRepository = new OrdersRepository();
+export const paymentsRepository = new PaymentsRepository();
+export const nftTransactionsRepository = new NFTTransactionsRepository();
+export const refundsRepository = new RefundsRepository();
+export const disputesRepository = new DisputesRepository();
+export const disputeEvidenceRepository = new DisputeEvidenceRepository();
+export const webhookEventsRepository = new WebhookEventsRepository();
+export const idempotencyKeysRepository = new IdempotencyKeysRepository();
+export const ledgerRepository = new LedgerRepository();
+export const feeRulesRepository = new FeeRulesRepository();
+export const payoutsRepository = new PayoutsRepository();
+export const payoutSettingsRepository = new PayoutSettingsRepository();
+export const riskRulesRepository = new RiskRulesRepository();
+export const walletsRepository = new WalletsRepository();
+export const walletTransactionsRepository = new WalletTransactionsRepository();
+export const giftCardsRepository = new GiftCardsRepository();
+export const giftCardAttemptsRepository = new GiftCardAttemptsRepository();
+export const promoCodesRepository = new PromoCodesRepository();
+export const promoRedemptionsRepository = new PromoRedemptionsRepository();
+export const taxRatesRepository = new TaxRatesRepository();
+export const fxRatesRepository = new FxRatesRepository();
+export const orderHoldRulesRepository = new OrderHoldRulesRepository();
+export const ticketSettingsRepository = new TicketSettingsRepository();
+export const ticketInventoryRepository = new TicketInventoryRepository();
+export const inventoryReservationsRepository = new InventoryReservationsRepository();
+export const purchaseLimitsRepository = new PurchaseLimitsRepository();
+export const presalesRepository = new PresalesRepository();
+export const waitlistEntriesRepository = new WaitlistEntriesRepository();
@@ -1,15 +1,30 @@
 -- NFT Marketplace - Payments Orders Service Schema
 -- PostgreSQL 15+
+-- Monetary amounts are integer minor units of the row's ISO-4217 currency
 
 -- Create orders table
 CREATE TABLE IF NOT EXISTS orders (
     id UUID PRIMARY KEY,
-    user_id UUID NOT NULL,
-    ticket_id UUID NOT NULL,
-    quantity INTEGER NOT NULL CHECK (quantity > 0),
-    total_amount DECIMAL(19, 2) NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    line_items JSONB NOT NULL CHECK (jsonb_typeof(line_items) = 'array' AND jsonb_array_length(line_items) > 0),
+    total_amount BIGINT NOT NULL,
+    currency VARCHAR(3) NOT NULL,
     status VARCHAR(50) NOT NULL DEFAULT 'pending',
+    organizer_id VARCHAR(255),
+    platform_fee BIGINT NOT NULL DEFAULT 0,
+    processor_fee BIGINT NOT NULL DEFAULT 0,
+    tax_amount BIGINT NOT NULL DEFAULT 0,
+    organizer_net BIGINT NOT NULL,
+    fee_rule_ids TEXT[] NOT NULL DEFAULT '{}',
+    discounts JSONB NOT NULL DEFAULT '[]',
+    billing_country VARCHAR(2),
+    billing_region VARCHAR(3),
+    tax_lines JSONB NOT NULL DEFAULT '[]',
+    expires_at BIGINT,
+    expiry_claimed_until BIGINT,
+    presale_id UUID,
     nft_token_ids TEXT[] DEFAULT '{}',
+    status_history JSONB NOT NULL DEFAULT '[]',
     created_at BIGINT NOT NULL,
     updated_at BIGINT NOT NULL,
     created_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -20,30 +35,64 @@ CREATE TABLE IF NOT EXISTS orders (
 CREATE TABLE IF NOT EXISTS payments (
     id UUID PRIMARY KEY,
     order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
-    user_id UUID NOT NULL,
-    amount DECIMAL(19, 2) NOT NULL,
-    currency VARCHAR(3) DEFAULT 'USD',
+    user_id VARCHAR(255) NOT NULL,
+    amount BIGINT NOT NULL,
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    amount_captured BIGINT,
+    amount_refunded BIGINT NOT NULL DEFAULT 0,
     status VARCHAR(50) NOT NULL DEFAULT 'pending',
+    provider VARCHAR(50),
     payment_method VARCHAR(50),
     transaction_id VARCHAR(255),
     stripe_payment_id VARCHAR(255),
+    stripe_charge_id VARCHAR(255),
+    error_message TEXT,
     metadata JSONB,
+    authorized_at BIGINT,
+    ip_address VARCHAR(45),
+    card_fingerprint VARCHAR(255),
+    risk JSONB,
+    fx JSONB,
     created_at BIGINT NOT NULL,
     updated_at BIGINT NOT NULL,
     created_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Create refunds table
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    amount BIGINT NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL,
+    reason TEXT,
+    status VARCHAR(50) NOT NULL DEFAULT 'pending',
+    provider_refund_id VARCHAR(255),
+    error_message TEXT,
+    destination VARCHAR(50) NOT NULL DEFAULT 'payment_method',
+    line_items JSONB,
+    tax_amount BIGINT,
+    presentment_amount BIGINT,
+    presentment_currency VARCHAR(3),
+    requested_by VARCHAR(255) NOT NULL,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
 -- Create NFT mint transactions table
 CREATE TABLE IF NOT EXISTS nft_mint_transactions (
     id UUID PRIMARY KEY,
     order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
-    user_id UUID NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
     token_id VARCHAR(255) NOT NULL,
     contract_address VARCHAR(255),
+    recipient_address VARCHAR(255),
     blockchain VARCHAR(50),
     transaction_hash VARCHAR(255),
     status VARCHAR(50) NOT NULL DEFAULT 'pending',
+    invalidated_at BIGINT,
+    invalidation_reason TEXT,
     metadata JSONB,
     created_at BIGINT NOT NULL,
     updated_at BIGINT NOT NULL,
@@ -51,15 +100,397 @@ CREATE TABLE IF NOT EXISTS nft_mint_transactions (
     updated_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Create disputes table (chargebacks opened by cardholders)
+CREATE TABLE IF NOT EXISTS disputes (
+    id UUID PRIMARY KEY,
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    provider_dispute_id VARCHAR(255) NOT NULL UNIQUE,
+    reason VARCHAR(100) NOT NULL,
+    amount BIGINT NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    status VARCHAR(50) NOT NULL,
+    evidence_due_by BIGINT,
+    evidence_submitted_at BIGINT,
+    closed_at BIGINT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create dispute evidence table
+CREATE TABLE IF NOT EXISTS dispute_evidence (
+    id UUID PRIMARY KEY,
+    dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+    kind VARCHAR(10) NOT NULL,
+    category VARCHAR(50) NOT NULL,
+    text TEXT,
+    file_name VARCHAR(255),
+    content_type VARCHAR(100),
+    size INTEGER,
+    content BYTEA,
+    submitted_by VARCHAR(255) NOT NULL,
+    created_at BIGINT NOT NULL
+);
+
+-- Create webhook events table (provider event ids already received)
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id VARCHAR(255) PRIMARY KEY,
+    provider VARCHAR(50) NOT NULL,
+    type VARCHAR(100) NOT NULL,
+    received_at BIGINT NOT NULL,
+    processed_at BIGINT
+);
+
+-- Create idempotency keys table (responses of mutating requests, replayed on retries)
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    id UUID PRIMARY KEY,
+    tenant_id VARCHAR(255) NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('in_progress', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    created_at BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL
+);
+
+-- Create ledger tables (append-only double-entry bookkeeping)
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+    code VARCHAR(255) PRIMARY KEY,
+    type VARCHAR(20) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    created_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+    id UUID PRIMARY KEY,
+    type VARCHAR(50) NOT NULL,
+    reference_id VARCHAR(255) NOT NULL,
+    order_id UUID,
+    description TEXT NOT NULL,
+    created_at BIGINT NOT NULL,
+    UNIQUE (type, reference_id)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+    id BIGSERIAL PRIMARY KEY,
+    entry_id UUID NOT NULL REFERENCES journal_entries(id),
+    account_code VARCHAR(255) NOT NULL REFERENCES ledger_accounts(code),
+    direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+    amount BIGINT NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS fee_rules (
+    id UUID PRIMARY KEY,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('platform', 'processor')),
+    tenant_id VARCHAR(255),
+    ticket_id VARCHAR(255),
+    percentage NUMERIC(5, 2) NOT NULL CHECK (percentage >= 0 AND percentage <= 100),
+    fixed_amount BIGINT CHECK (fixed_amount >= 0),
+    currency VARCHAR(3),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create order hold rules table: how long unpaid orders hold their tickets
+CREATE TABLE IF NOT EXISTS order_hold_rules (
+    id UUID PRIMARY KEY,
+    tenant_id VARCHAR(255),
+    ticket_id VARCHAR(255),
+    hold_minutes INTEGER NOT NULL CHECK (hold_minutes > 0),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS payout_settings (
+    organizer_id VARCHAR(255) PRIMARY KEY,
+    destination VARCHAR(255) NOT NULL,
+    schedule VARCHAR(20) NOT NULL CHECK (schedule IN ('daily', 'weekly', 'manual')),
+    reserve_days INTEGER NOT NULL CHECK (reserve_days >= 0),
+    payout_claimed_until BIGINT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS payouts (
+    id UUID PRIMARY KEY,
+    organizer_id VARCHAR(255) NOT NULL,
+    amount BIGINT NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    sales_total BIGINT NOT NULL,
+    adjustments BIGINT NOT NULL,
+    order_ids UUID[] NOT NULL DEFAULT '{}',
+    payment_ids UUID[] NOT NULL DEFAULT '{}',
+    provider VARCHAR(50) NOT NULL,
+    destination VARCHAR(255) NOT NULL,
+    provider_transfer_id VARCHAR(255),
+    failure_reason TEXT,
+    reserve_cutoff BIGINT NOT NULL,
+    paid_at BIGINT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS risk_rule_sets (
+    tenant_id VARCHAR(255) PRIMARY KEY,
+    rules JSONB NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create store credit wallets table: one balance per tenant, user and currency
+CREATE TABLE IF NOT EXISTS wallets (
+    id UUID PRIMARY KEY,
+    tenant_id VARCHAR(255) NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    balance BIGINT NOT NULL DEFAULT 0 CHECK (balance >= 0),
+    currency VARCHAR(3) NOT NULL,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    UNIQUE (tenant_id, user_id, currency)
+);
+
+-- Create wallet transactions table (append-only)
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+    id UUID PRIMARY KEY,
+    wallet_id UUID NOT NULL REFERENCES wallets(id),
+    tenant_id VARCHAR(255) NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    type VARCHAR(20) NOT NULL,
+    reason VARCHAR(50) NOT NULL,
+    amount BIGINT NOT NULL CHECK (amount > 0),
+    balance_after BIGINT NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    order_id UUID,
+    payment_id UUID,
+    refund_id UUID,
+    description TEXT,
+    created_by VARCHAR(255) NOT NULL,
+    created_at BIGINT NOT NULL
+);
+
+-- Create gift cards table; codes are stored as keyed hashes only
+CREATE TABLE IF NOT EXISTS gift_cards (
+    id UUID PRIMARY KEY,
+    code_hash VARCHAR(64) NOT NULL UNIQUE,
+    code_last4 VARCHAR(4) NOT NULL,
+    batch_id UUID NOT NULL,
+    source VARCHAR(20) NOT NULL,
+    initial_value BIGINT NOT NULL CHECK (initial_value > 0),
+    balance BIGINT NOT NULL CHECK (balance >= 0),
+    currency VARCHAR(3) NOT NULL,
+    expires_at BIGINT,
+    issued_by VARCHAR(255) NOT NULL,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create gift card attempts table: failed codes per user or IP address, for lockouts
+CREATE TABLE IF NOT EXISTS gift_card_attempts (
+    attempt_key VARCHAR(255) PRIMARY KEY,
+    failed_count INTEGER NOT NULL,
+    window_start BIGINT NOT NULL,
+    locked_until BIGINT
+);
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+    id UUID PRIMARY KEY,
+    code VARCHAR(32) NOT NULL,
+    tenant_id VARCHAR(255),
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('percentage', 'fixed')),
+    percentage NUMERIC(5, 2) CHECK (percentage > 0 AND percentage <= 100),
+    amount_off BIGINT CHECK (amount_off > 0),
+    minimum_spend BIGINT CHECK (minimum_spend >= 0),
+    currency VARCHAR(3),
+    ticket_ids TEXT[] NOT NULL DEFAULT '{}',
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    max_redemptions_per_user INTEGER CHECK (max_redemptions_per_user > 0),
+    redemption_count INTEGER NOT NULL DEFAULT 0 CHECK (redemption_count >= 0),
+    starts_at BIGINT,
+    ends_at BIGINT,
+    stackable BOOLEAN NOT NULL DEFAULT FALSE,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by VARCHAR(255) NOT NULL,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    CHECK (max_redemptions IS NULL OR redemption_count <= max_redemptions)
+);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+    id UUID PRIMARY KEY,
+    promo_code_id UUID NOT NULL REFERENCES promo_codes(id),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    amount BIGINT NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released')),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create ticket settings table: per ticket type configuration; tickets without a row use the defaults
+CREATE TABLE IF NOT EXISTS ticket_settings (
+    ticket_id VARCHAR(255) PRIMARY KEY,
+    tax_category VARCHAR(50) NOT NULL,
+    event_id VARCHAR(255),
+    price BIGINT,
+    currency VARCHAR(3),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create ticket inventory table: seats per ticket type; tickets without a row are not limited
+CREATE TABLE IF NOT EXISTS ticket_inventory (
+    ticket_id VARCHAR(255) PRIMARY KEY,
+    total_supply INTEGER NOT NULL CHECK (total_supply >= 0),
+    reserved INTEGER NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+    sold INTEGER NOT NULL DEFAULT 0 CHECK (sold >= 0),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    CHECK (reserved + sold <= total_supply)
+);
+
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+    id UUID PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    ticket_id VARCHAR(255) NOT NULL REFERENCES ticket_inventory(ticket_id),
+    quantity INTEGER NOT NULL CHECK (quantity >= 0),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('reserved', 'sold', 'released')),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create purchase limits table: tickets per user of one ticket type or one event
+CREATE TABLE IF NOT EXISTS purchase_limits (
+    id UUID PRIMARY KEY,
+    ticket_id VARCHAR(255),
+    event_id VARCHAR(255),
+    max_quantity INTEGER NOT NULL CHECK (max_quantity > 0),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    CHECK ((ticket_id IS NULL) <> (event_id IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS presales (
+    id UUID PRIMARY KEY,
+    access_code VARCHAR(32) NOT NULL UNIQUE,
+    ticket_ids TEXT[] NOT NULL DEFAULT '{}',
+    event_id VARCHAR(255),
+    starts_at BIGINT NOT NULL,
+    on_sale_at BIGINT NOT NULL,
+    max_uses INTEGER CHECK (max_uses > 0),
+    use_count INTEGER NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    CHECK (on_sale_at > starts_at),
+    CHECK (max_uses IS NULL OR use_count <= max_uses)
+);
+
+-- Create waitlist entries table: users queued for sold-out tickets, served in seq order
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id UUID PRIMARY KEY,
+    seq BIGSERIAL NOT NULL,
+    tenant_id VARCHAR(255) NOT NULL,
+    ticket_id VARCHAR(255) NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status VARCHAR(20) NOT NULL
+        CHECK (status IN ('waiting', 'offered', 'claimed', 'lapsed', 'skipped', 'left')),
+    order_id UUID,
+    offer_expires_at BIGINT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+    id UUID PRIMARY KEY,
+    country VARCHAR(2) NOT NULL,
+    region VARCHAR(3),
+    category VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    rate NUMERIC(6, 3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+    pricing_mode VARCHAR(20) NOT NULL CHECK (pricing_mode IN ('inclusive', 'exclusive')),
+    effective_from BIGINT NOT NULL,
+    effective_to BIGINT CHECK (effective_to > effective_from),
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL
+);
+
+-- Create FX rates table: append-only quotes, the latest per currency pair is used
+CREATE TABLE IF NOT EXISTS fx_rates (
+    id UUID PRIMARY KEY,
+    base_currency VARCHAR(3) NOT NULL,
+    quote_currency VARCHAR(3) NOT NULL,
+    mid_rate NUMERIC(20, 10) NOT NULL CHECK (mid_rate > 0),
+    spread NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (spread >= 0 AND spread < 100),
+    source VARCHAR(20) NOT NULL CHECK (source IN ('file', 'admin')),
+    as_of BIGINT NOT NULL,
+    created_at BIGINT NOT NULL
+);
+
 -- Create indices for better performance
 CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders(user_id);
 CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
 CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at_id ON orders(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_total_amount_id ON orders(total_amount, id);
+CREATE INDEX IF NOT EXISTS idx_orders_organizer_id ON orders(organizer_id);
+CREATE INDEX IF NOT EXISTS idx_orders_expires_at ON orders(expires_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_orders_line_items ON orders USING GIN (line_items jsonb_path_ops);
 
 CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
 CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id);
 CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
 CREATE INDEX IF NOT EXISTS idx_payments_stripe_id ON payments(stripe_payment_id);
+CREATE INDEX IF NOT EXISTS idx_payments_stripe_charge_id ON payments(stripe_charge_id);
+CREATE INDEX IF NOT EXISTS idx_payments_provider_created_at ON payments(provider, created_at);
+CREATE INDEX IF NOT EXISTS idx_payments_authorized_at ON payments(authorized_at) WHERE status = 'authorized';
+CREATE INDEX IF NOT EXISTS idx_payments_user_created_at ON payments(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payments_ip_created_at ON payments(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_payments_card_created_at ON payments(card_fingerprint, created_at);
+CREATE INDEX IF NOT EXISTS idx_payments_risk_review ON payments(created_at)
+    WHERE status = 'pending' AND risk->>'outcome' = 'review';
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_provider_refund_id ON refunds(provider_refund_id);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_payment_id ON disputes(payment_id);
+CREATE INDEX IF NOT EXISTS idx_dispute_evidence_dispute_id ON dispute_evidence(dispute_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_idempotency_keys_key ON idempotency_keys(tenant_id, user_id, idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_order_id ON journal_entries(order_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry_id ON ledger_postings(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings(account_code, currency);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_created_at ON journal_entries(created_at);
+
+CREATE INDEX IF NOT EXISTS idx_fee_rules_kind ON fee_rules(kind);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_owner ON wallet_transactions(tenant_id, user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_batch_id ON gift_cards(batch_id);
+CREATE INDEX IF NOT EXISTS idx_gift_card_attempts_window_start ON gift_card_attempts(window_start);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rates_country ON tax_rates(country, category);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair ON fx_rates(base_currency, quote_currency, as_of);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_code ON promo_codes(COALESCE(tenant_id, ''), code);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_user ON promo_redemptions(promo_code_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_order_id ON promo_redemptions(order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order_id ON inventory_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_waiting ON waitlist_entries(ticket_id, seq) WHERE status = 'waiting';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_open ON waitlist_entries(ticket_id, user_id)
+    WHERE status IN ('waiting', 'offered');
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_order_id ON waitlist_entries(order_id);
+
+CREATE INDEX IF NOT EXISTS idx_payouts_organizer_id ON payouts(organizer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payout_settings_schedule ON payout_settings(schedule);
 
 CREATE INDEX IF NOT EXISTS idx_nft_orders_id ON nft_mint_transactions(order_id);
 CREATE INDEX IF NOT EXISTS idx_nft_user_id ON nft_mint_transactions(user_id);
@@ -1,11 +1,19 @@
 import express from 'express';
 import { initializeDatabase, getDatabaseStatus } from './config/database';
 import app from './app';
+import { purgeExpired } from './services/idempotencyService';
+import { getGiftCardCodeSecret, purgeGiftCardAttempts } from './services/giftCardsService';
+import { expireOrders, reconcilePendingPayments, voidStaleAuthorizations } from './services/ordersService';
+import { runScheduledPayouts } from './services/payoutsService';
+import { loadFxRatesFile } from './services/fxService';
 
 const PORT = process.env.PORT || 3003;
 
 const startServer = async () => {
   try {
+    // Refuse to start without the key for hashing gift card codes
+    getGiftCardCodeSecret();
+
     // Initialize database connection
     await initializeDatabase();
 
@@ -14,6 +22,45 @@ const startServer = async () => {
       console.log(`✅ Payments Orders Service running on port ${PORT}`);
       console.log(`📊 Database: ${dbStatus.type === 'postgres' ? 'PostgreSQL connected' : 'In-memory storage'}`);
     });
+
+    // Drop expired idempotency keys hourly
+    setInterval(() => {
+      purgeExpired().catch((error) => console.error('❌ Failed to purge idempotency keys:', error));
+    }, 60 * 60 * 1000).unref();
+
+    // Drop failed gift card attempts that no longer count towards a lockout
+    setInterval(() => {
+      purgeGiftCardAttempts().catch((error) => console.error('❌ Failed to purge gift card attempts:', error));
+    }, 60 * 60 * 1000).unref();
+
+    // Release card holds that were never captured
+    setInterval(() => {
+      voidStaleAuthorizations().catch((error) => console.error('❌ Failed to void stale authorizations:', error));
+    }, 15 * 60 * 1000).unref();
+
+    // Settle payments a provider error left pending, from the provider's record of the charge
+    setInterval(() => {
+      reconcilePendingPayments().catch((error) => console.error('❌ Failed to reconcile pending payments:', error));
+    }, 5 * 60 * 1000).unref();
+
+    // Cancel unpaid orders whose hold has lapsed, releasing their tickets
+    setInterval(() => {
+      expireOrders().catch((error) => console.error('❌ Failed to expire orders:', error));
+    }, 60 * 1000).unref();
+
+    // Pick up new quotes from the FX rates file, if one is configured
+    const fxRatesFile = process.env.FX_RATES_FILE;
+    if (fxRatesFile) {
+      const loadFxRates = () =>
+        loadFxRatesFile(fxRatesFile).catch((error) => console.error('❌ Failed to load FX rates:', error));
+      await loadFxRates();
+      setInterval(loadFxRates, 15 * 60 * 1000).unref();
+    }
+
+    // Pay organizers on a daily or weekly schedule
+    setInterval(() => {
+      runScheduledPayouts().catch((error) => console.error('❌ Failed to run scheduled payouts:', error));
+    }, 60 * 60 * 1000).unref();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
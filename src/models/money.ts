@@ -0,0 +1,220 @@
+import { ValidationError } from '../common/errors';
+
+/**
+ * Money
+ * Immutable amount in integer minor units of an ISO-4217 currency
+ */
+
+/**
+ * Number of minor-unit digits per supported currency
+ */
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  AUD: 2,
+  BHD: 3,
+  BRL: 2,
+  CAD: 2,
+  CHF: 2,
+  CLP: 0,
+  CNY: 2,
+  CZK: 2,
+  DKK: 2,
+  EUR: 2,
+  GBP: 2,
+  HKD: 2,
+  HUF: 2,
+  INR: 2,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  MXN: 2,
+  NOK: 2,
+  NZD: 2,
+  OMR: 3,
+  PLN: 2,
+  SEK: 2,
+  SGD: 2,
+  TND: 3,
+  USD: 2,
+  VND: 0,
+  ZAR: 2,
+};
+
+export const isSupportedCurrency = (currency: unknown): currency is string => {
+  return typeof currency === 'string' && currency in CURRENCY_EXPONENTS;
+};
+
+export const getCurrencyExponent = (currency: string): number => {
+  if (!isSupportedCurrency(currency)) {
+    throw new ValidationError(`Unsupported currency: ${currency}`);
+  }
+  return CURRENCY_EXPONENTS[currency];
+};
+
+/**
+ * Raised when combining amounts in different currencies
+ */
+export class CurrencyMismatchError extends ValidationError {
+  constructor(expected: string, actual: string) {
+    super(`Currency mismatch: expected ${expected}, got ${actual}`, { expectedCurrency: expected, currency: actual });
+  }
+}
+
+export interface MoneyJSON {
+  amount: number;
+  currency: string;
+}
+
+export class Money {
+  private constructor(
+    readonly amount: number,
+    readonly currency: string
+  ) {}
+
+  /**
+   * Create from integer minor units, e.g. Money.of(1999, 'USD') is $19.99
+   */
+  static of(amount: number, currency: string): Money {
+    getCurrencyExponent(currency);
+    if (!Number.isSafeInteger(amount)) {
+      throw new ValidationError(`Amount must be an integer number of minor units, got ${amount}`);
+    }
+    return new Money(amount, currency);
+  }
+
+  static zero(currency: string): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * Create from a major-unit decimal string, e.g. Money.fromDecimal('19.99', 'USD')
+   */
+  static fromDecimal(value: string, currency: string): Money {
+    const exponent = getCurrencyExponent(currency);
+    const match = /^(-)?(\d+)(?:\.(\d+))?$/.exec(value);
+    if (!match || (match[3] || '').length > exponent) {
+      throw new ValidationError(`${value} is not a valid ${currency} amount`);
+    }
+    const [, sign, whole, fraction = ''] = match;
+    const minor = parseInt(whole + fraction.padEnd(exponent, '0'), 10);
+    return Money.of(sign ? -minor : minor, currency);
+  }
+
+  /**
+   * Parse the `{ amount, currency }` API representation, naming the field in errors
+   */
+  static fromJSON(value: unknown, field: string = 'amount'): Money {
+    const json = value as Partial<MoneyJSON> | null;
+    if (!json || typeof json !== 'object' || typeof json.amount !== 'number' || !Number.isInteger(json.amount)) {
+      throw new ValidationError(`${field} must be an object with an integer amount in minor units and a currency`);
+    }
+    if (!isSupportedCurrency(json.currency)) {
+      throw new ValidationError(`${field}.currency must be a supported ISO-4217 code`);
+    }
+    return Money.of(json.amount, json.currency);
+  }
+
+  get exponent(): number {
+    return CURRENCY_EXPONENTS[this.currency];
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount + other.amount, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount - other.amount, this.currency);
+  }
+
+  multiply(factor: number): Money {
+    if (!Number.isInteger(factor)) {
+      throw new ValidationError(`Money can only be multiplied by an integer, got ${factor}`);
+    }
+    return Money.of(this.amount * factor, this.currency);
+  }
+
+  /**
+   * Split into parts proportional to `ratios` without losing minor units;
+   * leftover units go to the parts with the largest remainders, earliest first
+   */
+  allocate(ratios: number[]): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (ratios.length === 0 || total <= 0 || ratios.some((ratio) => ratio < 0 || !Number.isFinite(ratio))) {
+      throw new ValidationError('Allocation ratios must be non-negative and sum to more than zero');
+    }
+
+    const sign = this.amount < 0 ? -1 : 1;
+    const absolute = Math.abs(this.amount);
+    const exact = ratios.map((ratio) => (absolute * ratio) / total);
+    const shares = exact.map((share) => Math.floor(share));
+    let leftover = absolute - shares.reduce((sum, share) => sum + share, 0);
+
+    const byRemainder = exact
+      .map((share, index) => ({ index, remainder: share - shares[index] }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+    for (let i = 0; leftover > 0; i++, leftover--) {
+      shares[byRemainder[i % byRemainder.length].index]++;
+    }
+
+    return shares.map((share) => Money.of(sign * share, this.currency));
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  isNegative(): boolean {
+    return this.amount < 0;
+  }
+
+  isPositive(): boolean {
+    return this.amount > 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount === other.amount;
+  }
+
+  /**
+   * Negative, zero or positive as this is less than, equal to or greater than `other`
+   */
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.amount - other.amount;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /**
+   * Major-unit decimal string, e.g. '19.99' for Money.of(1999, 'USD')
+   */
+  toDecimalString(): string {
+    const digits = Math.abs(this.amount).toString().padStart(this.exponent + 1, '0');
+    const whole = digits.slice(0, digits.length - this.exponent);
+    const fraction = digits.slice(digits.length - this.exponent);
+    return `${this.amount < 0 ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  toJSON(): MoneyJSON {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new CurrencyMismatchError(this.currency, other.currency);
+    }
+  }
+}
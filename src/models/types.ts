@@ -1,37 +1,663 @@
+import { Money } from './money';
+
 export interface Order {
   id: string;
   userId: string;
-  ticketId: string;
-  quantity: number;
-  totalAmount: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  lineItems: OrderLineItem[];
+  totalAmount: Money;
+  status:
+    | 'pending'
+    | 'processing'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'partially_refunded'
+    | 'refunded'
+    | 'charged_back';
   stripePaymentId?: string;
+  /** The event organizer selling the tickets; their share of the sale is `fees.organizerNet` */
+  organizerId?: string;
+  fees: OrderFees;
+  /** Promo codes applied when the order was created, in the order they were applied */
+  discounts: OrderDiscount[];
+  /** Where the buyer is billed, which decides the tax charged */
+  billingAddress?: BillingAddress;
+  /** Tax charged on each line item, under the rates in force when the order was created */
+  taxLines: TaxLine[];
+  /** When the hold lapses: an order still unpaid then is cancelled and its tickets released */
+  expiresAt?: number;
+  /** The presale whose access code unlocked the order's tickets before general on-sale */
+  presaleId?: string;
   nftTokenIds: string[];
+  statusHistory: OrderStatusChange[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderLineItem {
+  ticketId: string;
+  quantity: number;
+  unitPrice: Money;
+  lineTotal: Money;
+  /** Selects the tax rates for the ticket, from its settings; `standard` when not given */
+  taxCategory?: string;
+  /** The event the ticket admits to, from its settings */
+  eventId?: string;
+}
+
+export interface BillingAddress {
+  /** ISO 3166-1 alpha-2, e.g. `DE` or `US` */
+  country: string;
+  /** The subdivision part of ISO 3166-2, e.g. `NY` for New York */
+  region?: string;
+}
+
+/**
+ * One tax rate applied to one line item. `taxableAmount` is the line's price net of tax,
+ * after discounts; inclusive prices already contain `amount`, exclusive prices add it.
+ */
+export interface TaxLine {
+  /** Index into the order's line items */
+  lineIndex: number;
+  ticketId: string;
+  taxRateId: string;
+  name: string;
+  /** `DE`, or `US-NY` for a regional rate */
+  jurisdiction: string;
+  category: string;
+  rate: number;
+  pricingMode: TaxRate['pricingMode'];
+  taxableAmount: Money;
+  amount: Money;
+}
+
+/**
+ * What one promo code took off an order. `lineAmounts` follows the order's line items, so
+ * refunds of individual tickets can give back what was actually paid for them.
+ */
+export interface OrderDiscount {
+  promoCodeId: string;
+  code: string;
+  amount: Money;
+  lineAmounts: Money[];
+}
+
+/**
+ * How an order's total splits between the platform, the payment processor, the tax
+ * authorities and the organizer, fixed when the order is created
+ */
+export interface OrderFees {
+  gross: Money;
+  platformFee: Money;
+  processorFee: Money;
+  /** Tax collected for the tax authorities; not part of the organizer's share */
+  tax: Money;
+  organizerNet: Money;
+  /** The fee rules that were applied */
+  ruleIds: string[];
+}
+
+/**
+ * A percentage of the amount plus a fixed amount. Platform fees are charged per line item,
+ * with the fixed part per ticket; processor fees are charged once on the order total.
+ * The most specific matching rule wins: tenant and ticket, then ticket, then tenant, then global.
+ */
+export interface FeeRule {
+  id: string;
+  kind: 'platform' | 'processor';
+  tenantId?: string;
+  ticketId?: string;
+  /** e.g. 2.9 for 2.9%, at most two decimals */
+  percentage: number;
+  /** Rules with a fixed amount only apply to orders in its currency */
+  fixedAmount?: Money;
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * How long new orders hold their tickets before an unpaid order is cancelled. Rules are
+ * matched per ticket like fee rules, and an order holds for its shortest ticket.
+ */
+export interface OrderHoldRule {
+  id: string;
+  tenantId?: string;
+  ticketId?: string;
+  holdMinutes: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Seats of one ticket type. `reserved` are held by unpaid orders and `sold` by paid ones;
+ * tickets without an inventory record are not limited.
+ */
+export interface TicketInventory {
+  ticketId: string;
+  totalSupply: number;
+  reserved: number;
+  sold: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * What this service knows about a ticket type, set by admins. Orders take it from here rather
+ * than from the client; tickets without settings use the defaults.
+ */
+export interface TicketSettings {
+  ticketId: string;
+  /** Selects the tax rates that apply to the ticket */
+  taxCategory: string;
+  /** The event the ticket admits to, for purchase limits and presales per event */
+  eventId?: string;
+  /** What one ticket sells for; tickets without a price cannot be ordered */
+  price?: Money;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The seats of one ticket an order holds: reserved when the order is created, sold once it
+ * is paid, and released when it is cancelled, expires or is refunded. `quantity` is what the
+ * order still holds after partial refunds.
+ */
+export interface InventoryReservation {
+  id: string;
+  orderId: string;
+  ticketId: string;
+  quantity: number;
+  status: 'reserved' | 'sold' | 'released';
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * At most `maxQuantity` tickets per user of one ticket type or one event, counted across
+ * the user's orders that are not cancelled
+ */
+export interface PurchaseLimit {
+  id: string;
+  ticketId?: string;
+  eventId?: string;
+  maxQuantity: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Until `onSaleAt`, the tickets a presale covers can only be ordered with its access code,
+ * from `startsAt`. Each order made with the code uses it once.
+ */
+export interface Presale {
+  id: string;
+  /** Stored uppercase; buyers may enter it in any case */
+  accessCode: string;
+  /** Tickets the presale covers, alongside every ticket of `eventId` */
+  ticketIds: string[];
+  eventId?: string;
+  startsAt: number;
+  /** General on-sale: from then on the tickets are sold to everyone */
+  onSaleAt: number;
+  maxUses?: number;
+  /** Orders made with the code; cancelled orders give theirs back */
+  useCount: number;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A user queued for a sold-out ticket. Waiting entries are served in the order they joined;
+ * the one at the head is offered freed seats as an order holding them. The offer is claimed
+ * by paying for the order and lapses when the order is cancelled or expires. Users the offer
+ * cannot be made to, e.g. because of a purchase limit, are skipped.
+ */
+export interface WaitlistEntry {
+  id: string;
+  tenantId: string;
+  ticketId: string;
+  userId: string;
+  quantity: number;
+  status: 'waiting' | 'offered' | 'claimed' | 'lapsed' | 'skipped' | 'left';
+  /** The offer order */
+  orderId?: string;
+  offerExpiresAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderBalance {
+  paid: Money;
+  outstanding: Money;
+  refunded: Money;
+  /**
+   * What buyers were charged and refunded in the currencies they paid in, one entry per
+   * currency; only reported once a payment was converted
+   */
+  presentment?: PresentmentTotal[];
+}
+
+export interface PresentmentTotal {
+  paid: Money;
+  refunded: Money;
+}
+
+export interface OrderStatusChange {
+  from: Order['status'];
+  to: Order['status'];
+  actor: string;
+  reason?: string;
+  changedAt: number;
+}
+
 export interface Payment {
   id: string;
   orderId: string;
-  amount: string;
-  currency: string;
-  status: 'pending' | 'succeeded' | 'failed';
+  userId?: string;
+  amount: Money;
+  amountCaptured?: Money;
+  amountRefunded?: Money;
+  status:
+    | 'pending'
+    | 'authorized'
+    | 'captured'
+    | 'voided'
+    | 'succeeded'
+    | 'failed'
+    | 'partially_refunded'
+    | 'refunded';
+  provider?: string;
   stripeChargeId?: string;
+  stripePaymentId?: string;
+  transactionId?: string;
   paymentMethod: string;
   errorMessage?: string;
+  metadata?: Record<string, any>;
+  authorizedAt?: number;
+  /** Where the payment attempt came from, for velocity checks */
+  ipAddress?: string;
+  cardFingerprint?: string;
+  risk?: RiskAssessment;
+  /** Set when the buyer paid in another currency than the order's; `amount` stays in the order's */
+  fx?: FxConversion;
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * The exchange rate a payment was locked at when it was created. Captures and refunds are
+ * converted at the same rate.
+ */
+export interface FxConversion {
+  fxRateId: string;
+  /** What the buyer is charged for the payment's `amount` */
+  presentmentAmount: Money;
+  /** Presentment currency units per order currency unit, spread included */
+  rate: number;
+  midRate: number;
+  /** Percentage added to the mid rate */
+  spread: number;
+  lockedAt: number;
+}
+
+export type RiskAction = 'review' | 'block';
+
+export interface RiskReason {
+  rule: 'velocity_user' | 'velocity_ip' | 'velocity_card' | 'amount' | 'country_mismatch' | 'new_account';
+  action: RiskAction;
+  message: string;
+}
+
+/**
+ * The risk engine's verdict on a payment attempt, made before the provider is called
+ */
+export interface RiskAssessment {
+  outcome: 'allow' | RiskAction;
+  reasons: RiskReason[];
+  assessedAt: number;
+  /** Set once a `review` outcome has been decided by a person */
+  review?: {
+    decision: 'approved' | 'rejected';
+    reviewer: string;
+    note?: string;
+    reviewedAt: number;
+  };
+}
+
+/**
+ * A tenant's risk rules. Limits and thresholds of 0, or left out, disable the check.
+ */
+export interface RiskRuleSet {
+  tenantId: string;
+  /** Payment attempts allowed per user, IP address and card within `windowMs` */
+  velocity: { windowMs: number; maxPerUser: number; maxPerIp: number; maxPerCard: number; action: RiskAction };
+  /** Amounts above these, in minor units per currency, are reviewed or blocked */
+  amount: { reviewAbove: Record<string, number>; blockAbove: Record<string, number> };
+  /** The card was issued in a different country than the request's IP address */
+  countryMismatch: { enabled: boolean; action: RiskAction };
+  /** The buyer's account is younger than `minAgeMs` */
+  newAccount: { minAgeMs: number; action: RiskAction };
+  updatedAt: number;
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  paymentId: string;
+  amount: Money;
+  reason?: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  providerRefundId?: string;
+  errorMessage?: string;
+  /** Back to the payment method that paid, or into the buyer's store credit wallet */
+  destination: 'payment_method' | 'store_credit';
+  /** The tickets refunded, when the refund was requested by ticket rather than by amount */
+  lineItems?: RefundLineItem[];
+  /** The part of `amount` that returns tax collected on the order */
+  tax?: Money;
+  /** What the buyer gets back in the currency they paid in, for converted payments */
+  presentmentAmount?: Money;
+  requestedBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RefundLineItem {
+  ticketId: string;
+  quantity: number;
+}
+
+export interface Dispute {
+  id: string;
+  paymentId: string;
+  orderId: string;
+  providerDisputeId: string;
+  reason: string;
+  amount: Money;
+  status: 'needs_response' | 'under_review' | 'won' | 'lost';
+  evidenceDueBy?: number;
+  evidenceSubmittedAt?: number;
+  closedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DisputeEvidenceCategory =
+  | 'receipt'
+  | 'customer_communication'
+  | 'service_documentation'
+  | 'cancellation_policy'
+  | 'refund_policy'
+  | 'uncategorized';
+
+export interface DisputeEvidence {
+  id: string;
+  disputeId: string;
+  kind: 'text' | 'file';
+  category: DisputeEvidenceCategory;
+  text?: string;
+  fileName?: string;
+  contentType?: string;
+  size?: number;
+  submittedBy: string;
+  createdAt: number;
+}
+
 export interface NFTMintTransaction {
   id: string;
   orderId: string;
+  userId?: string;
   contractAddress: string;
   recipientAddress: string;
   tokenId: string;
+  blockchain?: string;
   transactionHash?: string;
   status: 'pending' | 'minted' | 'failed';
+  invalidatedAt?: number;
+  invalidationReason?: string;
+  metadata?: Record<string, any>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WebhookEvent {
+  id: string;
+  provider: string;
+  type: string;
+  receivedAt: number;
+  processedAt?: number;
+}
+
+/**
+ * The outcome of a mutating request, per tenant, user and Idempotency-Key
+ */
+export interface IdempotencyRecord {
+  id: string;
+  key: string;
+  tenantId: string;
+  userId: string;
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * How and when an organizer is paid
+ */
+export interface PayoutSettings {
+  organizerId: string;
+  /** The account transfers are sent to, e.g. a Stripe connected account id */
+  destination: string;
+  schedule: 'daily' | 'weekly' | 'manual';
+  /** Sales are held back this many days after completion to cover refunds and disputes */
+  reserveDays: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One transfer of an organizer's available balance in one currency
+ */
+export interface Payout {
+  id: string;
+  organizerId: string;
+  amount: Money;
+  status: 'pending' | 'paid' | 'failed';
+  /** The organizer's net from the sales included in this payout */
+  salesTotal: Money;
+  /** Refunds, chargebacks and shortfalls carried forward from earlier payouts; negative when deducted */
+  adjustments: Money;
+  orderIds: string[];
+  paymentIds: string[];
+  provider: string;
+  destination: string;
+  providerTransferId?: string;
+  failureReason?: string;
+  /** Sales completed after this were held back as reserve */
+  reserveCutoff: number;
+  paidAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A user's store credit in one currency within a tenant
+ */
+export interface Wallet {
+  id: string;
+  tenantId: string;
+  userId: string;
+  balance: Money;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One change to a wallet's balance; the history is append-only
+ */
+export interface WalletTransaction {
+  id: string;
+  walletId: string;
+  tenantId: string;
+  userId: string;
+  type: 'credit' | 'debit';
+  reason: 'refund' | 'promotion' | 'payment';
+  amount: Money;
+  /** The wallet's balance once this transaction was applied */
+  balanceAfter: Money;
+  orderId?: string;
+  paymentId?: string;
+  refundId?: string;
+  description?: string;
+  createdBy: string;
+  createdAt: number;
+}
+
+/**
+ * A gift card. Only a hash of its code is stored; the code itself is shown once, at issuance.
+ */
+export interface GiftCard {
+  id: string;
+  codeHash: string;
+  /** The code's last four characters, to tell cards apart in support and exports */
+  codeLast4: string;
+  /** Cards issued together, e.g. one print run */
+  batchId: string;
+  /** Sold cards were paid for; promotional cards are given away */
+  source: 'sold' | 'promotional';
+  initialValue: Money;
+  balance: Money;
+  expiresAt?: number;
+  issuedBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Failed gift card codes from one user or IP address, e.g. `ip:203.0.113.7`
+ */
+export interface GiftCardAttempts {
+  key: string;
+  /** Failures since `windowStart` */
+  failedCount: number;
+  windowStart: number;
+  lockedUntil?: number;
+}
+
+/**
+ * A discount code. Percentage codes take `percentage` off every eligible line; fixed codes
+ * take `amountOff` off the eligible lines together, split in proportion to their totals.
+ */
+export interface PromoCode {
+  id: string;
+  /** Stored uppercase; buyers may enter it in any case */
+  code: string;
+  /** Codes without a tenant can be used in every tenant */
+  tenantId?: string;
+  kind: 'percentage' | 'fixed';
+  /** e.g. 15 for 15%, at most two decimals */
+  percentage?: number;
+  amountOff?: Money;
+  /** The order subtotal, before any discount, must reach this */
+  minimumSpend?: Money;
+  /** Tickets the code applies to; empty for every ticket */
+  ticketIds: string[];
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  /** Orders holding a redemption; cancelled orders give theirs back */
+  redemptionCount: number;
+  startsAt?: number;
+  endsAt?: number;
+  /** Stackable codes combine with each other; any other code must be used alone */
+  stackable: boolean;
+  active: boolean;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PromoRedemption {
+  id: string;
+  promoCodeId: string;
+  orderId: string;
+  userId: string;
+  amount: Money;
+  status: 'active' | 'released';
   createdAt: number;
   updatedAt: number;
 }
+
+/**
+ * A tax rate for one jurisdiction and tax category over a period. A country's rates and its
+ * regions' rates all apply, e.g. a federal and a provincial sales tax.
+ */
+export interface TaxRate {
+  id: string;
+  /** ISO 3166-1 alpha-2 */
+  country: string;
+  /** Only set for rates that apply in one region of the country */
+  region?: string;
+  category: string;
+  /** e.g. `VAT`; shown on receipts */
+  name: string;
+  /** e.g. 19 for 19% or 8.875 for 8.875%, at most three decimals */
+  rate: number;
+  /** Whether ticket prices in the country already include the tax */
+  pricingMode: 'inclusive' | 'exclusive';
+  effectiveFrom: number;
+  /** Exclusive; open-ended when not set */
+  effectiveTo?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * An exchange rate quote: one unit of `baseCurrency` is worth `midRate` units of `quoteCurrency`
+ */
+export interface FxRate {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  midRate: number;
+  /** Percentage added to the mid rate when converting a buyer's payment */
+  spread: number;
+  /** Loaded from the rates file or posted by an admin */
+  source: 'file' | 'admin';
+  /** When the quote was taken; the latest quote for a pair is the one in use */
+  asOf: number;
+  createdAt: number;
+}
+
+export type LedgerAccountType = 'asset' | 'liability' | 'revenue' | 'expense';
+
+export interface LedgerAccount {
+  /** e.g. `processor_balance`, or `organizer_payable:<id>` for a sub-account */
+  code: string;
+  type: LedgerAccountType;
+  name: string;
+  createdAt: number;
+}
+
+export interface LedgerPosting {
+  accountCode: string;
+  direction: 'debit' | 'credit';
+  amount: Money;
+}
+
+/**
+ * Append-only; each entry's debits equal its credits in every currency
+ */
+export interface JournalEntry {
+  id: string;
+  type: 'payment_capture' | 'sale' | 'refund' | 'chargeback' | 'fee' | 'payout' | 'store_credit' | 'gift_card';
+  /** What the entry records, e.g. a payment, refund, payout or gift card batch; unique per entry type */
+  referenceId: string;
+  orderId?: string;
+  description: string;
+  postings: LedgerPosting[];
+  createdAt: number;
+}
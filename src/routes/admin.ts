@@ -0,0 +1,88 @@
+import express, { Router } from 'express';
+import * as adminController from '../controllers/adminController';
+
+const router = Router();
+
+// Finance tooling; exposed only through the internal gateway like the rest of the service
+router.post(
+  '/reconciliation',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '50mb' }),
+  adminController.reconcileSettlement
+);
+
+// Double-entry ledger: balances per account and the entries behind them
+router.get('/ledger/accounts', adminController.getLedgerAccounts);
+router.get('/ledger/accounts/:accountCode', adminController.getLedgerAccount);
+router.get('/ledger/orders/:orderId', adminController.getOrderLedger);
+
+// Marketplace fees and what organizers earned after them
+router.get('/fee-rules', adminController.getFeeRules);
+router.post('/fee-rules', adminController.createFeeRule);
+router.patch('/fee-rules/:ruleId', adminController.updateFeeRule);
+router.delete('/fee-rules/:ruleId', adminController.deleteFeeRule);
+router.get('/organizers/earnings', adminController.getOrganizerEarnings);
+router.get('/organizers/:organizerId/earnings', adminController.getOrganizerEarnings);
+
+// Organizer payouts: settings, what is available, and the payouts made
+router.get('/organizers/:organizerId/payout-settings', adminController.getPayoutSettings);
+router.put('/organizers/:organizerId/payout-settings', adminController.savePayoutSettings);
+router.get('/organizers/:organizerId/balance', adminController.getOrganizerBalance);
+router.get('/organizers/:organizerId/payouts', adminController.getOrganizerPayouts);
+router.post('/organizers/:organizerId/payouts', adminController.createPayouts);
+router.get('/payouts/:payoutId', adminController.getPayout);
+
+// Pre-payment risk rules per tenant, and the queue of payments they held for review
+router.get('/risk-rules/:tenantId', adminController.getRiskRules);
+router.put('/risk-rules/:tenantId', adminController.saveRiskRules);
+router.get('/risk/reviews', adminController.getRiskReviews);
+router.post('/risk/reviews/:paymentId', adminController.reviewPayment);
+
+// Promotional store credit
+router.post('/wallets/:userId/credits', adminController.grantStoreCredit);
+
+// Gift cards: codes are shown once, when a batch is issued
+router.post('/gift-cards', adminController.issueGiftCards);
+router.get('/gift-cards/batches/:batchId', adminController.getGiftCardBatch);
+
+// Promo codes; buyers apply them when creating an order
+router.get('/promo-codes', adminController.getPromoCodes);
+router.post('/promo-codes', adminController.createPromoCode);
+router.get('/promo-codes/:promoCodeId', adminController.getPromoCode);
+router.patch('/promo-codes/:promoCodeId', adminController.updatePromoCode);
+
+// Tax rates by jurisdiction and ticket tax category, with the periods they are in force
+router.get('/tax-rates', adminController.getTaxRates);
+router.post('/tax-rates', adminController.createTaxRate);
+router.patch('/tax-rates/:taxRateId', adminController.endTaxRate);
+
+// FX rates for payments in the buyer's currency; the latest quote per pair is used
+router.get('/fx-rates', adminController.getFxRates);
+router.post('/fx-rates', adminController.recordFxRates);
+
+// How long unpaid orders hold their tickets, per tenant and ticket
+router.get('/order-hold-rules', adminController.getOrderHoldRules);
+router.post('/order-hold-rules', adminController.createOrderHoldRule);
+router.patch('/order-hold-rules/:ruleId', adminController.updateOrderHoldRule);
+router.delete('/order-hold-rules/:ruleId', adminController.deleteOrderHoldRule);
+
+// Per ticket settings that orders take on the server side, such as the tax category
+router.get('/tickets', adminController.getAllTicketSettings);
+router.get('/tickets/:ticketId', adminController.getTicketSettings);
+router.put('/tickets/:ticketId', adminController.saveTicketSettings);
+
+// Ticket supply, and the seats reserved by unpaid orders and sold
+router.get('/inventory', adminController.getInventory);
+router.get('/inventory/:ticketId', adminController.getTicketInventory);
+router.put('/inventory/:ticketId', adminController.setTicketSupply);
+
+// Tickets per person, and presales unlocked by access codes before general on-sale
+router.get('/purchase-limits', adminController.getPurchaseLimits);
+router.post('/purchase-limits', adminController.createPurchaseLimit);
+router.patch('/purchase-limits/:limitId', adminController.updatePurchaseLimit);
+router.delete('/purchase-limits/:limitId', adminController.deletePurchaseLimit);
+router.get('/presales', adminController.getPresales);
+router.post('/presales', adminController.createPresale);
+router.get('/presales/:presaleId', adminController.getPresale);
+router.patch('/presales/:presaleId', adminController.updatePresale);
+
+export default router;
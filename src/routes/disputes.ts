@@ -0,0 +1,19 @@
+import express, { Router } from 'express';
+import * as disputesController from '../controllers/disputesController';
+import { EVIDENCE_CONTENT_TYPES, MAX_EVIDENCE_FILE_BYTES } from '../services/disputesService';
+
+const router = Router();
+
+router.get('/:disputeId', disputesController.getDispute);
+
+// Evidence is gathered piece by piece, then submitted to the card network in one go
+router.post('/:disputeId/evidence', disputesController.addTextEvidence);
+router.post(
+  '/:disputeId/evidence/files',
+  express.raw({ type: EVIDENCE_CONTENT_TYPES, limit: MAX_EVIDENCE_FILE_BYTES }),
+  disputesController.addFileEvidence
+);
+router.get('/:disputeId/evidence/:evidenceId/content', disputesController.getEvidenceContent);
+router.post('/:disputeId/submit', disputesController.submitEvidence);
+
+export default router;
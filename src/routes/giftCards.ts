@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import * as giftCardsController from '../controllers/giftCardsController';
+
+const router = Router();
+
+// Failed lookups count towards a per-user and per-IP lockout
+router.post('/balance', giftCardsController.checkBalance);
+
+export default router;
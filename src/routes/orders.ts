@@ -5,6 +5,7 @@ const router = Router();
 
 // Order CRUD
 router.post('/', ordersController.createOrder);
+router.get('/', ordersController.searchOrders);
 router.get('/:orderId', ordersController.getOrderHandler);
 router.get('/user/:userId', ordersController.getUserOrders);
 router.put('/:orderId/status', ordersController.updateOrderStatus);
@@ -12,6 +13,11 @@ router.put('/:orderId/status', ordersController.updateOrderStatus);
 // Payment processing
 router.post('/:orderId/payments', ordersController.processPayment);
 router.get('/:orderId/payments', ordersController.getOrderPayments);
+router.get('/:orderId/fx-quote', ordersController.getFxQuote);
+
+// Refunds
+router.post('/:orderId/refunds', ordersController.createRefund);
+router.get('/:orderId/refunds', ordersController.getOrderRefunds);
 
 // NFT minting
 router.post('/:orderId/mint-nft', ordersController.mintNFT);
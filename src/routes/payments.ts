@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import * as paymentsController from '../controllers/paymentsController';
+import * as disputesController from '../controllers/disputesController';
+
+const router = Router();
+
+router.get('/:paymentId', paymentsController.getPayment);
+
+// Two-phase payments: collect or release an authorization
+router.post('/:paymentId/capture', paymentsController.capturePayment);
+router.post('/:paymentId/void', paymentsController.voidPayment);
+
+router.get('/:paymentId/disputes', disputesController.getPaymentDisputes);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import * as waitlistController from '../controllers/waitlistController';
+
+const router = Router();
+
+// Waitlist for sold-out tickets, served first come, first served
+router.post('/:ticketId/waitlist', waitlistController.joinWaitlist);
+router.get('/:ticketId/waitlist/:userId', waitlistController.getWaitlistEntry);
+router.delete('/:ticketId/waitlist/:userId', waitlistController.leaveWaitlist);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import * as walletsController from '../controllers/walletsController';
+
+const router = Router();
+
+// Store credit, scoped to the tenant of the request
+router.get('/:userId', walletsController.getWallet);
+router.get('/:userId/transactions', walletsController.getWalletTransactions);
+
+export default router;
@@ -0,0 +1,9 @@
+import express, { Router } from 'express';
+import * as webhooksController from '../controllers/webhooksController';
+
+const router = Router();
+
+// Signatures are computed over the exact bytes Stripe sent, so keep the body raw
+router.post('/stripe', express.raw({ type: 'application/json' }), webhooksController.handleStripeWebhook);
+
+export default router;
@@ -0,0 +1,260 @@
+import { Dispute, DisputeEvidence, DisputeEvidenceCategory, Payment } from '../models/types';
+import { Money } from '../models/money';
+import { BusinessRuleError, ConflictError, NotFoundError, ServiceError, ValidationError } from '../common/errors';
+import { disputeEvidenceRepository, disputesRepository, nftTransactionsRepository } from '../db/repositories';
+import { getPaymentProviderByName, PaymentProviderError } from './paymentProviders';
+import { getAllowedTransitions } from './orderLifecycle';
+import { withOrderLock } from './orderLock';
+import { recordChargeback } from './ledgerService';
+import { withTransaction } from '../config/database';
+import { getOrder, getOrderMintTransactions, getPayment, updateOrderStatus } from './ordersService';
+
+/**
+ * Disputes Service
+ * Chargebacks raised against captured payments, their evidence, and what happens when one is lost
+ */
+
+export const EVIDENCE_CATEGORIES: DisputeEvidenceCategory[] = [
+  'receipt',
+  'customer_communication',
+  'service_documentation',
+  'cancellation_policy',
+  'refund_policy',
+  'uncategorized',
+];
+
+/**
+ * File types card networks accept as evidence, and Stripe's per-file size limit
+ */
+export const EVIDENCE_CONTENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+export const MAX_EVIDENCE_FILE_BYTES = 4.5 * 1024 * 1024;
+export const MAX_EVIDENCE_TEXT_LENGTH = 20000;
+
+export interface DisputeLostPolicy {
+  /** `charge_back` moves the order to charged_back; `keep` leaves its status alone */
+  order: 'charge_back' | 'keep';
+  /** `invalidate` flags every minted ticket token on the order as no longer valid */
+  tokens: 'invalidate' | 'keep';
+}
+
+export interface DisputeWithEvidence extends Dispute {
+  evidence: DisputeEvidence[];
+}
+
+export interface ProviderDisputeUpdate {
+  providerDisputeId: string;
+  reason: string;
+  amount: Money;
+  status: Dispute['status'];
+  evidenceDueBy?: number;
+}
+
+export interface FileEvidenceInput {
+  category: DisputeEvidenceCategory;
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  submittedBy: string;
+}
+
+const CLOSED_STATUSES: Dispute['status'][] = ['won', 'lost'];
+
+let lostPolicy: DisputeLostPolicy = {
+  order: process.env.DISPUTE_LOST_ORDER_ACTION === 'keep' ? 'keep' : 'charge_back',
+  tokens: process.env.DISPUTE_LOST_TOKEN_ACTION === 'keep' ? 'keep' : 'invalidate',
+};
+
+export const getDisputeLostPolicy = (): DisputeLostPolicy => ({ ...lostPolicy });
+
+export const setDisputeLostPolicy = (policy: Partial<DisputeLostPolicy>): DisputeLostPolicy => {
+  lostPolicy = { ...lostPolicy, ...policy };
+  return getDisputeLostPolicy();
+};
+
+export const getDispute = async (disputeId: string): Promise<DisputeWithEvidence | null> => {
+  const dispute = await disputesRepository.findById(disputeId);
+  if (!dispute) return null;
+  return { ...dispute, evidence: await disputeEvidenceRepository.findByDisputeId(dispute.id) };
+};
+
+export const getPaymentDisputes = async (paymentId: string): Promise<Dispute[]> => {
+  return disputesRepository.findByPaymentId(paymentId);
+};
+
+/**
+ * Book the clawed-back funds, then apply the lost-dispute policy to the order and its minted tokens
+ */
+const applyLostDispute = async (dispute: Dispute): Promise<void> => {
+  await recordChargeback(dispute);
+  const reason = `Dispute ${dispute.providerDisputeId} lost: ${dispute.reason}`;
+
+  if (lostPolicy.tokens === 'invalidate') {
+    const now = Date.now();
+    for (const tx of await getOrderMintTransactions(dispute.orderId)) {
+      if (tx.status === 'minted' && !tx.invalidatedAt) {
+        await nftTransactionsRepository.update(tx.id, { invalidatedAt: now, invalidationReason: reason });
+      }
+    }
+  }
+
+  const order = await getOrder(dispute.orderId);
+  if (lostPolicy.order === 'charge_back' && order && getAllowedTransitions(order.status).includes('charged_back')) {
+    await updateOrderStatus(order.id, 'charged_back', { actor: 'system', reason });
+  }
+};
+
+/**
+ * Create or update the local record of a dispute reported by the payment provider.
+ * Closed disputes are never reopened, and the lost-dispute policy runs once.
+ */
+export const recordProviderDispute = async (payment: Payment, update: ProviderDisputeUpdate): Promise<Dispute> => {
+  return withOrderLock(payment.orderId, async () => {
+    const existing = await disputesRepository.findByProviderDisputeId(update.providerDisputeId);
+    if (existing && CLOSED_STATUSES.includes(existing.status)) return existing;
+
+    const now = Date.now();
+    const closedAt = CLOSED_STATUSES.includes(update.status) ? now : undefined;
+    return withTransaction(async () => {
+      const dispute = existing
+        ? (await disputesRepository.update(existing.id, { ...update, closedAt })) || existing
+        : await disputesRepository.create({
+            ...update,
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            closedAt,
+            createdAt: now,
+            updatedAt: now,
+          });
+
+      if (dispute.status === 'lost') await applyLostDispute(dispute);
+      return dispute;
+    });
+  });
+};
+
+/**
+ * Load a dispute and reject it unless it is still waiting for evidence
+ */
+const getOpenDispute = async (disputeId: string, now: number = Date.now()): Promise<Dispute> => {
+  const dispute = await disputesRepository.findById(disputeId);
+  if (!dispute) throw new NotFoundError('Dispute not found', { disputeId });
+  if (dispute.status !== 'needs_response') {
+    throw new ConflictError(
+      `Dispute is ${dispute.status}; evidence is no longer accepted`,
+      'DISPUTE_NOT_AWAITING_EVIDENCE',
+      { status: dispute.status }
+    );
+  }
+  if (dispute.evidenceDueBy && dispute.evidenceDueBy < now) {
+    throw new BusinessRuleError('The evidence due date has passed', 'EVIDENCE_DUE_DATE_PASSED', {
+      evidenceDueBy: dispute.evidenceDueBy,
+    });
+  }
+  return dispute;
+};
+
+const assertCategory = (category: DisputeEvidenceCategory): void => {
+  if (!EVIDENCE_CATEGORIES.includes(category)) {
+    throw new ValidationError(`category must be one of: ${EVIDENCE_CATEGORIES.join(', ')}`);
+  }
+};
+
+export const addTextEvidence = async (
+  disputeId: string,
+  text: string,
+  submittedBy: string,
+  category: DisputeEvidenceCategory = 'uncategorized'
+): Promise<DisputeEvidence> => {
+  assertCategory(category);
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    throw new ValidationError('text is required');
+  }
+  if (text.length > MAX_EVIDENCE_TEXT_LENGTH) {
+    throw new ValidationError(`text must be at most ${MAX_EVIDENCE_TEXT_LENGTH} characters`);
+  }
+
+  const dispute = await getOpenDispute(disputeId);
+  return disputeEvidenceRepository.create({
+    disputeId: dispute.id,
+    kind: 'text',
+    category,
+    text,
+    submittedBy,
+    createdAt: Date.now(),
+  });
+};
+
+export const addFileEvidence = async (disputeId: string, file: FileEvidenceInput): Promise<DisputeEvidence> => {
+  assertCategory(file.category);
+  if (!file.fileName) {
+    throw new ValidationError('A file name is required');
+  }
+  if (!EVIDENCE_CONTENT_TYPES.includes(file.contentType)) {
+    throw new ValidationError(`Evidence files must be one of: ${EVIDENCE_CONTENT_TYPES.join(', ')}`);
+  }
+  if (file.content.length === 0 || file.content.length > MAX_EVIDENCE_FILE_BYTES) {
+    throw new ValidationError(`Evidence files must be between 1 and ${MAX_EVIDENCE_FILE_BYTES} bytes`);
+  }
+
+  const dispute = await getOpenDispute(disputeId);
+  return disputeEvidenceRepository.create(
+    {
+      disputeId: dispute.id,
+      kind: 'file',
+      category: file.category,
+      fileName: file.fileName,
+      contentType: file.contentType,
+      size: file.content.length,
+      submittedBy: file.submittedBy,
+      createdAt: Date.now(),
+    },
+    file.content
+  );
+};
+
+export const getEvidenceContent = async (
+  disputeId: string,
+  evidenceId: string
+): Promise<{ evidence: DisputeEvidence; content: Buffer }> => {
+  const evidence = (await disputeEvidenceRepository.findByDisputeId(disputeId)).find((e) => e.id === evidenceId);
+  const content = evidence?.kind === 'file' ? await disputeEvidenceRepository.findContent(evidence.id) : null;
+  if (!evidence || !content) throw new NotFoundError('Evidence file not found', { evidenceId });
+  return { evidence, content };
+};
+
+/**
+ * Send everything gathered for a dispute to the payment provider. Evidence can only be
+ * submitted once; afterwards the dispute is under review until the network decides.
+ */
+export const submitDisputeEvidence = async (disputeId: string): Promise<DisputeWithEvidence> => {
+  const dispute = await getOpenDispute(disputeId);
+  const evidence = await disputeEvidenceRepository.findByDisputeId(dispute.id);
+  if (evidence.length === 0) {
+    throw new BusinessRuleError('Add evidence before submitting the dispute', 'NO_EVIDENCE');
+  }
+  const payment = await getPayment(dispute.paymentId);
+
+  const text = evidence
+    .filter((e) => e.kind === 'text')
+    .map((e) => e.text)
+    .join('\n\n');
+  const files = [];
+  for (const e of evidence.filter((item) => item.kind === 'file')) {
+    const content = await disputeEvidenceRepository.findContent(e.id);
+    if (content) files.push({ category: e.category, fileName: e.fileName!, contentType: e.contentType!, content });
+  }
+
+  try {
+    const provider = getPaymentProviderByName(payment?.provider || 'stripe');
+    await provider.submitDisputeEvidence(dispute.providerDisputeId, { text: text || undefined, files });
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) throw error;
+    throw new ServiceError(error.message, 502, 'PAYMENT_PROVIDER_ERROR', { providerCode: error.code });
+  }
+
+  const submitted = await disputesRepository.update(dispute.id, {
+    status: 'under_review',
+    evidenceSubmittedAt: Date.now(),
+  });
+  return { ...(submitted || dispute), evidence };
+};
@@ -0,0 +1,297 @@
+import { FeeRule, JournalEntry, OrderFees, OrderLineItem } from '../models/types';
+import { Money, MoneyJSON } from '../models/money';
+import { NotFoundError, ValidationError } from '../common/errors';
+import { feeRulesRepository, ledgerRepository } from '../db/repositories';
+import { isOrganizerAccount, organizerAccount } from './ledgerService';
+
+/**
+ * Fees Service
+ * Marketplace fee rules, the fee breakdown of an order, and what each organizer earned per period
+ */
+
+export const FEE_RULE_KINDS: FeeRule['kind'][] = ['platform', 'processor'];
+export const EARNINGS_PERIODS = ['day', 'week', 'month'] as const;
+
+export type EarningsPeriod = (typeof EARNINGS_PERIODS)[number];
+
+export interface FeeRuleInput {
+  kind: FeeRule['kind'];
+  tenantId?: string;
+  ticketId?: string;
+  percentage: number;
+  fixedAmount?: MoneyJSON;
+}
+
+/**
+ * One organizer's sales and the deductions against them in one period and currency
+ */
+export interface OrganizerEarnings {
+  /** null for sales made before the order named an organizer */
+  organizerId: string | null;
+  /** `2024-03-04` for days and weeks (starting Monday, UTC), `2024-03` for months */
+  period: string;
+  periodStart: number;
+  currency: string;
+  orders: number;
+  gross: Money;
+  platformFee: Money;
+  processorFee: Money;
+  organizerNet: Money;
+  refunded: Money;
+  chargedBack: Money;
+  /** organizerNet less refunds, chargebacks and other fees charged to the organizer */
+  payable: Money;
+}
+
+const optionalId = (name: string, value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ValidationError(`${name} must be a non-empty string`);
+  }
+  return value.trim();
+};
+
+const parsePercentage = (value: unknown): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+    throw new ValidationError('percentage must be a number between 0 and 100');
+  }
+  if (Math.abs(value * 100 - Math.round(value * 100)) > 1e-9) {
+    throw new ValidationError('percentage must have at most two decimals');
+  }
+  return value;
+};
+
+const parseFixedAmount = (value: unknown): Money | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const amount = Money.fromJSON(value, 'fixedAmount');
+  if (amount.isNegative()) throw new ValidationError('fixedAmount must not be negative');
+  return amount;
+};
+
+export const listFeeRules = async (): Promise<FeeRule[]> => {
+  return feeRulesRepository.findAll();
+};
+
+export const createFeeRule = async (input: FeeRuleInput): Promise<FeeRule> => {
+  if (!FEE_RULE_KINDS.includes(input.kind)) {
+    throw new ValidationError(`kind must be one of: ${FEE_RULE_KINDS.join(', ')}`);
+  }
+  const ticketId = optionalId('ticketId', input.ticketId);
+  if (input.kind === 'processor' && ticketId) {
+    throw new ValidationError('Processor fees apply to whole orders and cannot be scoped to a ticket');
+  }
+  const now = Date.now();
+  return feeRulesRepository.create({
+    kind: input.kind,
+    tenantId: optionalId('tenantId', input.tenantId),
+    ticketId,
+    percentage: parsePercentage(input.percentage),
+    fixedAmount: parseFixedAmount(input.fixedAmount),
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Change a rule's rates. Orders keep the fees they were created with.
+ */
+export const updateFeeRule = async (
+  ruleId: string,
+  changes: Partial<Pick<FeeRuleInput, 'percentage' | 'fixedAmount'>>
+): Promise<FeeRule> => {
+  const rule = await feeRulesRepository.findById(ruleId);
+  if (!rule) throw new NotFoundError('Fee rule not found', { ruleId });
+  const updated = await feeRulesRepository.update(ruleId, {
+    percentage: changes.percentage !== undefined ? parsePercentage(changes.percentage) : undefined,
+    fixedAmount: parseFixedAmount(changes.fixedAmount),
+  });
+  return updated!;
+};
+
+export const deleteFeeRule = async (ruleId: string): Promise<void> => {
+  if (!(await feeRulesRepository.delete(ruleId))) {
+    throw new NotFoundError('Fee rule not found', { ruleId });
+  }
+};
+
+/**
+ * How specific a rule is for this sale, or -1 when it does not apply
+ */
+const specificity = (rule: FeeRule, tenantId: string | undefined, ticketId: string | undefined, currency: string) => {
+  if (rule.tenantId && rule.tenantId !== tenantId) return -1;
+  if (rule.ticketId && rule.ticketId !== ticketId) return -1;
+  if (rule.fixedAmount && rule.fixedAmount.currency !== currency) return -1;
+  return (rule.ticketId ? 2 : 0) + (rule.tenantId ? 1 : 0);
+};
+
+/**
+ * The most specific applicable rule; between equally specific rules the newest wins
+ */
+const selectRule = (
+  rules: FeeRule[],
+  tenantId: string | undefined,
+  ticketId: string | undefined,
+  currency: string
+): FeeRule | undefined => {
+  let selected: FeeRule | undefined;
+  let best = -1;
+  for (const rule of rules) {
+    const score = specificity(rule, tenantId, ticketId, currency);
+    if (score >= 0 && score >= best) {
+      selected = rule;
+      best = score;
+    }
+  }
+  return selected;
+};
+
+/**
+ * Percentage of `amount`, rounded half up to a minor unit, plus the fixed amount per unit
+ */
+const applyRule = (rule: FeeRule, amount: Money, units: number): Money => {
+  const basisPoints = Math.round(rule.percentage * 100);
+  const percentage = Money.of(Math.round((amount.amount * basisPoints) / 10000), amount.currency);
+  return rule.fixedAmount ? percentage.add(rule.fixedAmount.multiply(units)) : percentage;
+};
+
+const minMoney = (a: Money, b: Money): Money => (a.greaterThan(b) ? b : a);
+
+/**
+ * Evaluate the fee rules for a new order: a platform fee per line item and a processor fee
+ * on the total. `lineItems` are priced net of tax, and `tax` is added on top to give the
+ * gross the buyer pays. Fees are capped so the organizer's net is never negative.
+ */
+export const computeOrderFees = async (
+  lineItems: OrderLineItem[],
+  tenantId?: string,
+  tax?: Money
+): Promise<OrderFees> => {
+  const { currency } = lineItems[0].lineTotal;
+  const taxTotal = tax || Money.zero(currency);
+  const net = lineItems.reduce((sum, item) => sum.add(item.lineTotal), Money.zero(currency));
+  const gross = net.add(taxTotal);
+  const ruleIds = new Set<string>();
+
+  const platformRules = await feeRulesRepository.findByKind('platform');
+  let platformFee = Money.zero(currency);
+  for (const item of lineItems) {
+    const rule = selectRule(platformRules, tenantId, item.ticketId, currency);
+    if (!rule) continue;
+    ruleIds.add(rule.id);
+    platformFee = platformFee.add(applyRule(rule, item.lineTotal, item.quantity));
+  }
+
+  const processorRule = selectRule(await feeRulesRepository.findByKind('processor'), tenantId, undefined, currency);
+  let processorFee = Money.zero(currency);
+  if (processorRule) {
+    ruleIds.add(processorRule.id);
+    processorFee = minMoney(applyRule(processorRule, gross, 1), net);
+  }
+  platformFee = minMoney(platformFee, net.subtract(processorFee));
+
+  return {
+    gross,
+    platformFee,
+    processorFee,
+    tax: taxTotal,
+    organizerNet: net.subtract(platformFee).subtract(processorFee),
+    ruleIds: [...ruleIds],
+  };
+};
+
+/**
+ * Start of the UTC day, ISO week (Monday) or month containing `timestamp`, with its label
+ */
+const periodOf = (timestamp: number, period: EarningsPeriod): { start: number; label: string } => {
+  const date = new Date(timestamp);
+  let start: number;
+  if (period === 'month') {
+    start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  } else {
+    const daysBack = period === 'week' ? (date.getUTCDay() + 6) % 7 : 0;
+    start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysBack);
+  }
+  const iso = new Date(start).toISOString();
+  return { start, label: period === 'month' ? iso.slice(0, 7) : iso.slice(0, 10) };
+};
+
+/**
+ * Sum what each organizer earned per period from the ledger: the split of every sale, less
+ * refunds, chargebacks and fees charged to the organizer. Payouts are not deducted.
+ */
+export const getOrganizerEarnings = async (options: {
+  period: EarningsPeriod;
+  from?: number;
+  to?: number;
+  organizerId?: string;
+}): Promise<OrganizerEarnings[]> => {
+  const account = organizerAccount(options.organizerId);
+  const entries = await ledgerRepository.findByAccountBetween(account, {
+    from: options.from,
+    to: options.to,
+    includeSubAccounts: !options.organizerId,
+  });
+
+  const rows = new Map<string, OrganizerEarnings>();
+  const rowFor = (entry: JournalEntry, accountCode: string, currency: string): OrganizerEarnings => {
+    const { start, label } = periodOf(entry.createdAt, options.period);
+    const organizerId = accountCode.includes(':') ? accountCode.slice(accountCode.indexOf(':') + 1) : null;
+    const key = `${start}|${organizerId}|${currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      const zero = Money.zero(currency);
+      row = {
+        organizerId,
+        period: label,
+        periodStart: start,
+        currency,
+        orders: 0,
+        gross: zero,
+        platformFee: zero,
+        processorFee: zero,
+        organizerNet: zero,
+        refunded: zero,
+        chargedBack: zero,
+        payable: zero,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const entry of entries) {
+    if (entry.type === 'payout') continue;
+    for (const posting of entry.postings) {
+      const matches = options.organizerId ? posting.accountCode === account : isOrganizerAccount(posting.accountCode);
+      if (!matches) continue;
+      const row = rowFor(entry, posting.accountCode, posting.amount.currency);
+      const signed =
+        posting.direction === 'credit' ? posting.amount : Money.zero(row.currency).subtract(posting.amount);
+      row.payable = row.payable.add(signed);
+
+      if (entry.type === 'sale') {
+        const sumOf = (code: string, direction: 'debit' | 'credit') =>
+          entry.postings
+            .filter((p) => p.accountCode === code && p.direction === direction)
+            .reduce((sum, p) => sum.add(p.amount), Money.zero(row.currency));
+        row.orders++;
+        // Tax collected is owed to the tax authorities, not earned
+        row.gross = row.gross.add(sumOf('customer_receivable', 'debit')).subtract(sumOf('tax_payable', 'credit'));
+        row.platformFee = row.platformFee.add(sumOf('platform_revenue', 'credit'));
+        row.processorFee = row.processorFee.add(sumOf('processor_balance', 'credit'));
+        row.organizerNet = row.organizerNet.add(signed);
+      } else if (entry.type === 'refund') {
+        row.refunded = row.refunded.subtract(signed);
+      } else if (entry.type === 'chargeback') {
+        row.chargedBack = row.chargedBack.subtract(signed);
+      }
+    }
+  }
+
+  return [...rows.values()].sort(
+    (a, b) =>
+      a.periodStart - b.periodStart ||
+      (a.organizerId || '').localeCompare(b.organizerId || '') ||
+      a.currency.localeCompare(b.currency)
+  );
+};
@@ -0,0 +1,180 @@
+import { readFileSync } from 'fs';
+import { FxConversion, FxRate, Payment } from '../models/types';
+import { Money, getCurrencyExponent, isSupportedCurrency } from '../models/money';
+import { BusinessRuleError, ValidationError } from '../common/errors';
+import { parseTimestamp } from '../common/query-params';
+import { fxRatesRepository } from '../db/repositories';
+
+/**
+ * FX Service
+ * The exchange rate table, and converting payments between an order's currency and the
+ * currency the buyer pays in at a rate locked when the payment is created
+ */
+
+/**
+ * Quotes older than this are not used to price a payment
+ */
+export const FX_RATE_MAX_AGE_MS = parseInt(process.env.FX_RATE_MAX_AGE_MS || String(24 * 60 * 60 * 1000), 10);
+
+export interface FxRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  midRate: number;
+  spread?: number;
+}
+
+const parseCurrency = (name: string, value: unknown): string => {
+  const currency = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!isSupportedCurrency(currency)) throw new ValidationError(`${name} must be a supported ISO-4217 code`);
+  return currency;
+};
+
+const parseFxRate = (input: FxRateInput, name: string) => {
+  if (!input || typeof input !== 'object') throw new ValidationError(`${name} must be an object`);
+  const baseCurrency = parseCurrency(`${name}.baseCurrency`, input.baseCurrency);
+  const quoteCurrency = parseCurrency(`${name}.quoteCurrency`, input.quoteCurrency);
+  if (baseCurrency === quoteCurrency) {
+    throw new ValidationError(`${name} must convert between two different currencies`);
+  }
+  if (typeof input.midRate !== 'number' || !Number.isFinite(input.midRate) || input.midRate <= 0) {
+    throw new ValidationError(`${name}.midRate must be a positive number`);
+  }
+  const spread = input.spread ?? 0;
+  if (typeof spread !== 'number' || !Number.isFinite(spread) || spread < 0 || spread >= 100) {
+    throw new ValidationError(`${name}.spread must be a percentage from 0 to below 100`);
+  }
+  if (Math.abs(spread * 100 - Math.round(spread * 100)) > 1e-9) {
+    throw new ValidationError(`${name}.spread must have at most two decimals`);
+  }
+  return { baseCurrency, quoteCurrency, midRate: input.midRate, spread };
+};
+
+/**
+ * Record a batch of quotes taken at `asOf` (now by default). Quotes no newer than the one
+ * already held for their pair are skipped, so loading the same file twice changes nothing.
+ */
+export const recordFxRates = async (
+  body: { rates?: unknown; asOf?: unknown },
+  source: FxRate['source']
+): Promise<{ rates: FxRate[]; skipped: number }> => {
+  if (!Array.isArray(body.rates) || body.rates.length === 0) {
+    throw new ValidationError('rates must be a non-empty array');
+  }
+  const now = Date.now();
+  const asOf = (typeof body.asOf === 'number' ? body.asOf : parseTimestamp('asOf', body.asOf)) ?? now;
+  if (!Number.isInteger(asOf) || asOf < 0 || asOf > now) {
+    throw new ValidationError('asOf must be an epoch millisecond value no later than now');
+  }
+  const quotes = body.rates.map((rate, index) => parseFxRate(rate, `rates[${index}]`));
+
+  const rates: FxRate[] = [];
+  for (const quote of quotes) {
+    const latest = await fxRatesRepository.findLatest(quote.baseCurrency, quote.quoteCurrency);
+    if (latest && latest.asOf >= asOf) continue;
+    rates.push(await fxRatesRepository.create({ ...quote, source, asOf, createdAt: now }));
+  }
+  return { rates, skipped: quotes.length - rates.length };
+};
+
+/**
+ * Load the rates file: `{ asOf?, rates: [{ baseCurrency, quoteCurrency, midRate, spread? }] }`
+ */
+export const loadFxRatesFile = async (path: string): Promise<{ rates: FxRate[]; skipped: number }> => {
+  let body: unknown;
+  try {
+    body = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(`Cannot read FX rates from ${path}: ${(error as Error).message}`);
+  }
+  return recordFxRates((body || {}) as { rates?: unknown; asOf?: unknown }, 'file');
+};
+
+/**
+ * The quote in use for every currency pair
+ */
+export const listFxRates = async (): Promise<FxRate[]> => {
+  return fxRatesRepository.findLatestPerPair();
+};
+
+/**
+ * Convert minor units at `rate` target units per source unit, allowing for the currencies'
+ * different minor-unit digits
+ */
+const convert = (amount: Money, rate: number, currency: string): Money => {
+  const scale = 10 ** (getCurrencyExponent(currency) - amount.exponent);
+  return Money.of(Math.round(amount.amount * rate * scale), currency);
+};
+
+/**
+ * Price `amount` in the buyer's currency from the latest quote for the pair, in either
+ * direction, with the quote's spread added. The result is what a payment locks.
+ */
+export const quoteFxConversion = async (
+  amount: Money,
+  presentmentCurrency: unknown,
+  at: number = Date.now()
+): Promise<FxConversion> => {
+  const currency = parseCurrency('presentmentCurrency', presentmentCurrency);
+  if (currency === amount.currency) {
+    throw new ValidationError(`presentmentCurrency must differ from the order currency ${amount.currency}`);
+  }
+  const direct = await fxRatesRepository.findLatest(amount.currency, currency);
+  const inverse = await fxRatesRepository.findLatest(currency, amount.currency);
+  const quote = direct && (!inverse || direct.asOf >= inverse.asOf) ? direct : inverse;
+  if (!quote) {
+    throw new BusinessRuleError(`No exchange rate from ${amount.currency} to ${currency}`, 'FX_RATE_UNAVAILABLE', {
+      presentmentCurrency: currency,
+    });
+  }
+  if (at - quote.asOf > FX_RATE_MAX_AGE_MS) {
+    throw new BusinessRuleError(`The ${amount.currency} to ${currency} rate is out of date`, 'FX_RATE_STALE', {
+      presentmentCurrency: currency,
+      asOf: quote.asOf,
+    });
+  }
+
+  const midRate = Number((quote === direct ? quote.midRate : 1 / quote.midRate).toPrecision(12));
+  const rate = Number((midRate * (1 + quote.spread / 100)).toPrecision(12));
+  return {
+    fxRateId: quote.id,
+    presentmentAmount: convert(amount, rate, currency),
+    rate,
+    midRate,
+    spread: quote.spread,
+    lockedAt: at,
+  };
+};
+
+/**
+ * An amount in the order's currency as the buyer of a converted payment sees it
+ */
+export const toPresentment = (payment: Payment, amount: Money): Money => {
+  if (!payment.fx) return amount;
+  return convert(amount, payment.fx.rate, payment.fx.presentmentAmount.currency);
+};
+
+/**
+ * An amount a provider reports in the buyer's currency, back in the order's currency. Amounts
+ * that came from converting one, such as the full payment, map back to it exactly.
+ */
+export const toSettlement = (payment: Payment, amount: Money): Money => {
+  if (!payment.fx || amount.currency === payment.amount.currency) return amount;
+  const settlement = convert(amount, 1 / payment.fx.rate, payment.amount.currency);
+  const unit = Money.of(1, settlement.currency);
+  const candidates = [settlement, settlement.subtract(unit), settlement.add(unit)];
+  return candidates.find((candidate) => toPresentment(payment, candidate).equals(amount)) || settlement;
+};
+
+/**
+ * What refunding `amount` returns in the buyer's currency, after `refundedBefore` was
+ * refunded already. Converting the running total keeps the refunds adding up to the
+ * presentment amount charged, however the payment is split.
+ */
+export const presentmentRefundAmount = (
+  payment: Payment,
+  refundedBefore: Money,
+  amount: Money
+): Money | undefined => {
+  if (!payment.fx) return undefined;
+  return toPresentment(payment, refundedBefore.add(amount)).subtract(toPresentment(payment, refundedBefore));
+};
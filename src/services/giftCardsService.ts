@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { GiftCard } from '../models/types';
+import { Money, MoneyJSON } from '../models/money';
+import { BusinessRuleError, NotFoundError, TooManyRequestsError, ValidationError } from '../common/errors';
+import { giftCardAttemptsRepository, giftCardsRepository } from '../db/repositories';
+import { recordGiftCardIssue } from './ledgerService';
+import { toCsv } from '../common/csv';
+import { withTransaction } from '../config/database';
+
+/**
+ * Gift Cards Service
+ * Issues gift cards in batches, looks up their balance by code, and redeems them as payments
+ */
+
+/**
+ * The `paymentMethod` that redeems a gift card; such payments also use it as their provider name
+ */
+export const GIFT_CARD_PAYMENT_METHOD = 'gift_card';
+export const GIFT_CARD_SOURCES: GiftCard['source'][] = ['sold', 'promotional'];
+export const MAX_GIFT_CARDS_PER_BATCH = 1000;
+
+/**
+ * Crockford base32: no I, L, O or U, so codes survive being read aloud or retyped
+ */
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 16;
+
+/**
+ * Key for hashing codes, read when first needed so a missing key only fails gift card requests.
+ * Only test and development fall back to a known key, which would let anyone holding the
+ * database compute the hash of any code. startServer checks it up front.
+ */
+export const getGiftCardCodeSecret = (): string => {
+  const secret = process.env.GIFT_CARD_CODE_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development') {
+    return 'development-gift-card-secret';
+  }
+  throw new Error('GIFT_CARD_CODE_SECRET is required outside test and development');
+};
+
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.GIFT_CARD_MAX_FAILED_ATTEMPTS || '5', 10);
+const LOCKOUT_MS = parseInt(process.env.GIFT_CARD_LOCKOUT_MS || String(15 * 60 * 1000), 10);
+
+export interface IssueGiftCardsInput {
+  quantity: number;
+  initialValue: MoneyJSON;
+  source: GiftCard['source'];
+  expiresAt?: number;
+  issuedBy: string;
+}
+
+/**
+ * A newly issued card together with its code; the only time the code is available
+ */
+export type IssuedGiftCard = GiftCard & { code: string };
+
+export interface GiftCardBalance {
+  codeLast4: string;
+  initialValue: Money;
+  balance: Money;
+  expiresAt?: number;
+  expired: boolean;
+}
+
+/**
+ * Who is trying codes: failed attempts are counted per user and per IP address
+ */
+export interface CodeAttempt {
+  userId?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Luhn mod 32 check character over the code's other characters
+ */
+const checkCharacter = (payload: string): string => {
+  let sum = 0;
+  let factor = 2;
+  for (let i = payload.length - 1; i >= 0; i--) {
+    const addend = factor * CODE_ALPHABET.indexOf(payload[i]);
+    sum += Math.floor(addend / CODE_ALPHABET.length) + (addend % CODE_ALPHABET.length);
+    factor = factor === 2 ? 1 : 2;
+  }
+  return CODE_ALPHABET[(CODE_ALPHABET.length - (sum % CODE_ALPHABET.length)) % CODE_ALPHABET.length];
+};
+
+const generateCode = (): string => {
+  let payload = '';
+  for (let i = 0; i < CODE_LENGTH - 1; i++) {
+    payload += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return (payload + checkCharacter(payload)).match(/.{4}/g)!.join('-');
+};
+
+/**
+ * Uppercase, drop separators and map the characters Crockford base32 treats as aliases;
+ * null when the result is not a well-formed code with a valid check character
+ */
+export const normalizeGiftCardCode = (code: string): string | null => {
+  const normalized = code
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+  if (normalized.length !== CODE_LENGTH || [...normalized].some((c) => !CODE_ALPHABET.includes(c))) return null;
+  return checkCharacter(normalized.slice(0, -1)) === normalized.slice(-1) ? normalized : null;
+};
+
+const hashCode = (normalized: string): string => {
+  return crypto.createHmac('sha256', getGiftCardCodeSecret()).update(normalized).digest('hex');
+};
+
+/**
+ * Issue a batch of cards with the same value and expiry, booking their total as a liability
+ */
+export const issueGiftCards = async (
+  input: IssueGiftCardsInput
+): Promise<{ batchId: string; cards: IssuedGiftCard[] }> => {
+  if (!Number.isInteger(input.quantity) || input.quantity < 1 || input.quantity > MAX_GIFT_CARDS_PER_BATCH) {
+    throw new ValidationError(`quantity must be an integer between 1 and ${MAX_GIFT_CARDS_PER_BATCH}`);
+  }
+  if (!GIFT_CARD_SOURCES.includes(input.source)) {
+    throw new ValidationError(`source must be one of: ${GIFT_CARD_SOURCES.join(', ')}`);
+  }
+  const initialValue = Money.fromJSON(input.initialValue, 'initialValue');
+  if (!initialValue.isPositive()) throw new ValidationError('initialValue must be greater than zero');
+  const now = Date.now();
+  if (input.expiresAt !== undefined && input.expiresAt <= now) {
+    throw new ValidationError('expiresAt must be in the future');
+  }
+
+  const batchId = uuidv4();
+  return withTransaction(async () => {
+    const cards: IssuedGiftCard[] = [];
+    for (let i = 0; i < input.quantity; i++) {
+      const code = generateCode();
+      const card = await giftCardsRepository.create({
+        codeHash: hashCode(normalizeGiftCardCode(code)!),
+        codeLast4: code.slice(-4),
+        batchId,
+        source: input.source,
+        initialValue,
+        balance: initialValue,
+        expiresAt: input.expiresAt,
+        issuedBy: input.issuedBy,
+        createdAt: now,
+        updatedAt: now,
+      });
+      cards.push({ ...card, code });
+    }
+    await recordGiftCardIssue({
+      referenceId: batchId,
+      amount: initialValue.multiply(input.quantity),
+      source: input.source,
+      description: `${input.quantity} ${input.source} gift card(s) issued by ${input.issuedBy}`,
+    });
+    return { batchId, cards };
+  });
+};
+
+/**
+ * A print run: one row per card with its code, value and expiry
+ */
+export const giftCardsToCsv = (cards: IssuedGiftCard[]): string => {
+  return toCsv(
+    ['code', 'value', 'currency', 'expires_at'],
+    cards.map((card) => [
+      card.code,
+      card.initialValue.toDecimalString(),
+      card.initialValue.currency,
+      card.expiresAt ? new Date(card.expiresAt).toISOString() : '',
+    ])
+  );
+};
+
+/**
+ * A card as the API shows it: the code hash never leaves the service
+ */
+export const withoutCodeHash = <T extends GiftCard>({ codeHash, ...card }: T): Omit<T, 'codeHash'> => card;
+
+export const getGiftCardBatch = async (batchId: string): Promise<GiftCard[]> => {
+  return giftCardsRepository.findByBatchId(batchId);
+};
+
+const attemptKeys = ({ userId, ipAddress }: CodeAttempt): string[] => {
+  const keys: string[] = [];
+  if (userId) keys.push(`user:${userId}`);
+  if (ipAddress) keys.push(`ip:${ipAddress}`);
+  return keys;
+};
+
+const assertNotLockedOut = async (keys: string[], now: number): Promise<void> => {
+  if (keys.length === 0) return;
+  for (const { lockedUntil } of await giftCardAttemptsRepository.findByKeys(keys)) {
+    if (lockedUntil && lockedUntil > now) {
+      throw new TooManyRequestsError('Too many invalid gift card codes; try again later', 'GIFT_CARD_LOCKED', {
+        retryAfter: lockedUntil,
+      });
+    }
+  }
+};
+
+/**
+ * Count a failed attempt; MAX_FAILED_ATTEMPTS within LOCKOUT_MS locks the caller out for LOCKOUT_MS
+ */
+const recordFailedAttempt = async (keys: string[], now: number): Promise<void> => {
+  for (const key of keys) {
+    const attempts = await giftCardAttemptsRepository.recordFailure(key, now, LOCKOUT_MS);
+    if (attempts.failedCount >= MAX_FAILED_ATTEMPTS) {
+      await giftCardAttemptsRepository.update(key, { failedCount: 0, windowStart: now, lockedUntil: now + LOCKOUT_MS });
+    }
+  }
+};
+
+/**
+ * Drop failed attempt counts that no longer count towards or hold a lockout, returning how
+ * many were removed
+ */
+export const purgeGiftCardAttempts = (now: number = Date.now()): Promise<number> => {
+  return giftCardAttemptsRepository.deleteExpired(now, LOCKOUT_MS);
+};
+
+/**
+ * Find the card for a code. Malformed and unknown codes count towards the caller's lockout
+ * and get the same answer, so guesses learn nothing.
+ */
+export const findGiftCardByCode = async (code: unknown, attempt: CodeAttempt): Promise<GiftCard> => {
+  const keys = attemptKeys(attempt);
+  const now = Date.now();
+  await assertNotLockedOut(keys, now);
+
+  const normalized = typeof code === 'string' ? normalizeGiftCardCode(code) : null;
+  const card = normalized && (await giftCardsRepository.findByCodeHash(hashCode(normalized)));
+  if (!card) {
+    await recordFailedAttempt(keys, now);
+    throw new NotFoundError('Gift card not found');
+  }
+  return card;
+};
+
+export const getGiftCardBalance = async (code: unknown, attempt: CodeAttempt): Promise<GiftCardBalance> => {
+  const card = await findGiftCardByCode(code, attempt);
+  return {
+    codeLast4: card.codeLast4,
+    initialValue: card.initialValue,
+    balance: card.balance,
+    expiresAt: card.expiresAt,
+    expired: card.expiresAt !== undefined && card.expiresAt <= Date.now(),
+  };
+};
+
+/**
+ * Take `amount` off a card; throws GIFT_CARD_EXPIRED or GIFT_CARD_INSUFFICIENT_BALANCE
+ */
+export const redeemGiftCard = async (card: GiftCard, amount: Money): Promise<GiftCard> => {
+  if (card.expiresAt !== undefined && card.expiresAt <= Date.now()) {
+    throw new BusinessRuleError('Gift card has expired', 'GIFT_CARD_EXPIRED', { expiresAt: card.expiresAt });
+  }
+  if (amount.currency !== card.balance.currency) {
+    throw new BusinessRuleError(
+      `Gift card currency ${card.balance.currency} does not match payment currency ${amount.currency}`,
+      'GIFT_CARD_CURRENCY_MISMATCH'
+    );
+  }
+  const updated = await giftCardsRepository.adjustBalance(card.id, Money.zero(amount.currency).subtract(amount));
+  if (!updated) {
+    const current = await giftCardsRepository.findById(card.id);
+    throw new BusinessRuleError('Insufficient gift card balance', 'GIFT_CARD_INSUFFICIENT_BALANCE', {
+      available: current ? current.balance : card.balance,
+    });
+  }
+  return updated;
+};
+
+/**
+ * Put refunded money back on the card it was redeemed from
+ */
+export const restoreGiftCardBalance = async (cardId: string, amount: Money): Promise<GiftCard> => {
+  const updated = await giftCardsRepository.adjustBalance(cardId, amount);
+  if (!updated) {
+    throw new BusinessRuleError('Refund would exceed the gift card value', 'GIFT_CARD_REFUND_INVALID', { cardId });
+  }
+  return updated;
+};
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { IdempotencyRecord } from '../models/types';
+import { idempotencyKeysRepository } from '../db/repositories';
+
+/**
+ * Idempotency Service
+ * Stores the outcome of mutating requests per tenant, user and Idempotency-Key. Keys are claimed
+ * with a unique insert, so a request runs once even when retries reach different instances.
+ */
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const IDEMPOTENCY_KEY_TTL_MS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_MS || '', 10) || DEFAULT_TTL_MS;
+
+export type IdempotencyLookup =
+  | { outcome: 'started'; record: IdempotencyRecord }
+  | { outcome: 'replay'; record: IdempotencyRecord }
+  | { outcome: 'in_progress'; record: IdempotencyRecord }
+  | { outcome: 'mismatch'; record: IdempotencyRecord };
+
+/**
+ * Fingerprint of the request a key was first used with
+ */
+export const hashRequest = (method: string, path: string, body: unknown): string => {
+  return crypto
+    .createHash('sha256')
+    .update(`${method} ${path}\n${JSON.stringify(body ?? null)}`)
+    .digest('hex');
+};
+
+/**
+ * Claim a key for a request, or report what a previous request with the same key did
+ */
+export const beginRequest = async (
+  tenantId: string,
+  userId: string,
+  key: string,
+  requestHash: string,
+  ttlMs: number = IDEMPOTENCY_KEY_TTL_MS
+): Promise<IdempotencyLookup> => {
+  const now = Date.now();
+  for (;;) {
+    const record = await idempotencyKeysRepository.claim({
+      key,
+      tenantId,
+      userId,
+      requestHash,
+      status: 'in_progress',
+      createdAt: now,
+      expiresAt: now + ttlMs,
+    });
+    if (record) return { outcome: 'started', record };
+
+    const existing = await idempotencyKeysRepository.findByKey(tenantId, userId, key);
+    // Released since the claim was refused
+    if (!existing) continue;
+    if (existing.expiresAt <= now) {
+      await idempotencyKeysRepository.deleteIfExpired(existing.id, now);
+      continue;
+    }
+
+    if (existing.requestHash !== requestHash) return { outcome: 'mismatch', record: existing };
+    if (existing.status === 'in_progress') return { outcome: 'in_progress', record: existing };
+    return { outcome: 'replay', record: existing };
+  }
+};
+
+/**
+ * Store the response so retries with the same key get it back
+ */
+export const completeRequest = async (
+  record: IdempotencyRecord,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<void> => {
+  await idempotencyKeysRepository.update(record.id, { status: 'completed', responseStatus, responseBody });
+};
+
+/**
+ * Forget a key whose request did not produce a result worth replaying
+ */
+export const releaseRequest = async (record: IdempotencyRecord): Promise<void> => {
+  await idempotencyKeysRepository.delete(record.id);
+};
+
+/**
+ * Drop expired keys, returning how many were removed
+ */
+export const purgeExpired = (now: number = Date.now()): Promise<number> => {
+  return idempotencyKeysRepository.deleteExpired(now);
+};
@@ -0,0 +1,168 @@
+import { InventoryReservation, Order, OrderLineItem, Refund, TicketInventory } from '../models/types';
+import { BusinessRuleError, NotFoundError, ValidationError } from '../common/errors';
+import { withTransaction } from '../config/database';
+import { inventoryReservationsRepository, ordersRepository, ticketInventoryRepository } from '../db/repositories';
+
+/**
+ * Inventory Service
+ * Ticket supply and the seats each order holds, from reservation at checkout through sale
+ * to release, so a ticket type is never sold beyond its supply
+ */
+
+export type TicketInventoryWithAvailability = TicketInventory & { available: number };
+
+const withAvailability = (inventory: TicketInventory): TicketInventoryWithAvailability => ({
+  ...inventory,
+  available: inventory.totalSupply - inventory.reserved - inventory.sold,
+});
+
+const parseTotalSupply = (value: unknown): number => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new ValidationError('totalSupply must be a non-negative integer');
+  }
+  return value as number;
+};
+
+export const listInventory = async (): Promise<TicketInventoryWithAvailability[]> => {
+  return (await ticketInventoryRepository.findAll()).map(withAvailability);
+};
+
+export const getInventory = async (ticketId: string): Promise<TicketInventoryWithAvailability> => {
+  const inventory = await ticketInventoryRepository.findByTicketId(ticketId);
+  if (!inventory) throw new NotFoundError('Ticket inventory not found', { ticketId });
+  return withAvailability(inventory);
+};
+
+/**
+ * Set a ticket's total supply, starting to track it if it was not already. The supply
+ * cannot go below the seats already reserved and sold.
+ */
+export const setTotalSupply = async (
+  ticketId: string,
+  totalSupply: unknown
+): Promise<TicketInventoryWithAvailability> => {
+  const supply = parseTotalSupply(totalSupply);
+  const now = Date.now();
+  const inventory = await ticketInventoryRepository.create({
+    ticketId,
+    totalSupply: supply,
+    reserved: 0,
+    sold: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+  if (inventory.totalSupply === supply) return withAvailability(inventory);
+
+  const updated = await ticketInventoryRepository.update(ticketId, { totalSupply: supply });
+  if (!updated) {
+    const current = (await ticketInventoryRepository.findByTicketId(ticketId))!;
+    throw new BusinessRuleError('Supply cannot go below the seats reserved and sold', 'SUPPLY_BELOW_COMMITTED', {
+      reserved: current.reserved,
+      sold: current.sold,
+    });
+  }
+  return withAvailability(updated);
+};
+
+/**
+ * Create an order through `createOrder` after reserving its seats, and record what it holds.
+ * Each ticket is reserved in one conditional update, in ticket order so concurrent orders
+ * cannot deadlock; when one is short, the seats already taken are put back.
+ */
+export const reserveInventory = async (
+  lineItems: Pick<OrderLineItem, 'ticketId' | 'quantity'>[],
+  createOrder: () => Promise<Order>
+): Promise<Order> => {
+  const quantities = new Map<string, number>();
+  for (const item of lineItems) {
+    quantities.set(item.ticketId, (quantities.get(item.ticketId) || 0) + item.quantity);
+  }
+
+  return withTransaction(async () => {
+    const reserved: [string, number][] = [];
+    for (const ticketId of [...quantities.keys()].sort()) {
+      const quantity = quantities.get(ticketId)!;
+      if (await ticketInventoryRepository.adjust(ticketId, quantity, 0)) {
+        reserved.push([ticketId, quantity]);
+        continue;
+      }
+      const inventory = await ticketInventoryRepository.findByTicketId(ticketId);
+      if (!inventory) continue;
+
+      for (const [taken, count] of reserved) {
+        await ticketInventoryRepository.adjust(taken, -count, 0);
+      }
+      throw new BusinessRuleError('Not enough tickets left', 'TICKETS_SOLD_OUT', {
+        ticketId,
+        available: withAvailability(inventory).available,
+      });
+    }
+
+    const order = await createOrder();
+    const now = Date.now();
+    for (const [ticketId, quantity] of reserved) {
+      await inventoryReservationsRepository.create({
+        orderId: order.id,
+        ticketId,
+        quantity,
+        status: 'reserved',
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    return order;
+  });
+};
+
+/**
+ * Turn a paid order's reserved seats into sold ones
+ */
+export const markInventorySold = async (orderId: string): Promise<void> => {
+  const reservations = await inventoryReservationsRepository.findByOrderId(orderId);
+  for (const reservation of reservations.filter((r) => r.status === 'reserved')) {
+    await withTransaction(async () => {
+      await ticketInventoryRepository.adjust(reservation.ticketId, -reservation.quantity, reservation.quantity);
+      await inventoryReservationsRepository.update(reservation.id, { status: 'sold' });
+    });
+  }
+};
+
+/**
+ * Put `quantity` of a reservation's seats back on sale
+ */
+const releaseSeats = async (reservation: InventoryReservation, quantity: number): Promise<void> => {
+  const sold = reservation.status === 'sold' ? quantity : 0;
+  const remaining = reservation.quantity - quantity;
+  await withTransaction(async () => {
+    await ticketInventoryRepository.adjust(reservation.ticketId, sold - quantity, -sold);
+    await inventoryReservationsRepository.update(reservation.id, {
+      quantity: remaining,
+      ...(remaining === 0 && { status: 'released' as const }),
+    });
+  });
+};
+
+/**
+ * Give back every seat an order still holds, e.g. when it is cancelled or expires
+ */
+export const releaseInventory = async (orderId: string): Promise<void> => {
+  const reservations = await inventoryReservationsRepository.findByOrderId(orderId);
+  for (const reservation of reservations.filter((r) => r.status !== 'released')) {
+    await releaseSeats(reservation, reservation.quantity);
+  }
+};
+
+/**
+ * Put refunded tickets back on sale: those a refund names, and whatever the order still
+ * holds once it is fully refunded. Refunds by amount alone release nothing until then.
+ */
+export const releaseRefundedInventory = async (refund: Refund): Promise<void> => {
+  const reservations = await inventoryReservationsRepository.findByOrderId(refund.orderId);
+  for (const item of refund.lineItems || []) {
+    const reservation = reservations.find((r) => r.ticketId === item.ticketId && r.status === 'sold');
+    if (reservation) await releaseSeats(reservation, Math.min(item.quantity, reservation.quantity));
+  }
+
+  const order = await ordersRepository.findById(refund.orderId);
+  if (order?.status === 'refunded') await releaseInventory(refund.orderId);
+};
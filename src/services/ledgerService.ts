@@ -0,0 +1,319 @@
+import {
+  Dispute,
+  JournalEntry,
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerPosting,
+  Order,
+  Payment,
+  Refund,
+} from '../models/types';
+import { Money } from '../models/money';
+import { BusinessRuleError, NotFoundError } from '../common/errors';
+import { ledgerRepository } from '../db/repositories';
+import { capturedAmount } from './orderBalance';
+
+/**
+ * Ledger Service
+ * Double-entry bookkeeping for every money movement: captures, sales, refunds, chargebacks, fees, payouts,
+ * store credit and gift cards
+ */
+
+/**
+ * Chart of accounts. Codes may carry a `:<id>` suffix for sub-accounts, e.g. one
+ * organizer_payable per organizer, which share the parent's type.
+ */
+export const LEDGER_ACCOUNTS: Record<string, { type: LedgerAccountType; name: string }> = {
+  processor_balance: { type: 'asset', name: 'Funds held by the payment processor' },
+  customer_receivable: { type: 'asset', name: 'Owed by customers for their orders' },
+  organizer_payable: { type: 'liability', name: 'Owed to event organizers' },
+  platform_revenue: { type: 'revenue', name: 'Platform fees earned' },
+  processing_fees: { type: 'expense', name: 'Fees charged by the payment processor' },
+  store_credit: { type: 'liability', name: 'Store credit held in customer wallets' },
+  promotions: { type: 'expense', name: 'Store credit and gift cards given away as promotions' },
+  gift_cards: { type: 'liability', name: 'Unredeemed gift card balances' },
+  tax_payable: { type: 'liability', name: 'Tax collected on sales, owed to the tax authorities' },
+};
+
+/**
+ * Where a provider's captured money sits; card processors use processor_balance
+ */
+const PROVIDER_ACCOUNTS: Record<string, string> = {
+  wallet: 'store_credit',
+  gift_card: 'gift_cards',
+};
+
+/**
+ * Accounts whose balance grows with debits; the rest grow with credits
+ */
+const DEBIT_NORMAL: LedgerAccountType[] = ['asset', 'expense'];
+
+export interface AccountBalance extends LedgerAccount {
+  /** One balance per currency, positive in the account's normal direction */
+  balances: Money[];
+}
+
+const ORGANIZER_ACCOUNT = 'organizer_payable';
+
+/**
+ * The account holding what the platform owes an organizer; orders without one use the parent
+ */
+export const organizerAccount = (organizerId?: string): string =>
+  organizerId ? `${ORGANIZER_ACCOUNT}:${organizerId}` : ORGANIZER_ACCOUNT;
+
+export const isOrganizerAccount = (code: string): boolean =>
+  code === ORGANIZER_ACCOUNT || code.startsWith(`${ORGANIZER_ACCOUNT}:`);
+
+export type EntryInput = Omit<JournalEntry, 'id' | 'createdAt'>;
+
+const debit = (accountCode: string, amount: Money): LedgerPosting => ({ accountCode, direction: 'debit', amount });
+const credit = (accountCode: string, amount: Money): LedgerPosting => ({ accountCode, direction: 'credit', amount });
+
+const resolveAccount = (code: string): LedgerAccount => {
+  const [base, suffix] = code.split(':');
+  const account = LEDGER_ACCOUNTS[base];
+  if (!account) throw new NotFoundError(`Unknown ledger account: ${code}`, { accountCode: code });
+  const name = suffix ? `${account.name} (${suffix})` : account.name;
+  return { code, type: account.type, name, createdAt: Date.now() };
+};
+
+/**
+ * Reject entries that would not balance: every posting positive, known accounts only,
+ * and debits equal to credits in each currency
+ */
+const assertBalanced = (entry: EntryInput): void => {
+  if (entry.postings.length < 2) {
+    throw new BusinessRuleError('A journal entry needs at least two postings', 'LEDGER_ENTRY_UNBALANCED');
+  }
+  const net = new Map<string, Money>();
+  for (const posting of entry.postings) {
+    resolveAccount(posting.accountCode);
+    if (!posting.amount.isPositive()) {
+      throw new BusinessRuleError('Posting amounts must be positive', 'LEDGER_ENTRY_UNBALANCED', {
+        accountCode: posting.accountCode,
+      });
+    }
+    const { currency } = posting.amount;
+    const sum = net.get(currency) || Money.zero(currency);
+    net.set(currency, posting.direction === 'debit' ? sum.add(posting.amount) : sum.subtract(posting.amount));
+  }
+  const unbalanced = [...net.values()].filter((sum) => !sum.isZero());
+  if (unbalanced.length > 0) {
+    throw new BusinessRuleError('Debits and credits must balance in every currency', 'LEDGER_ENTRY_UNBALANCED', {
+      difference: unbalanced,
+    });
+  }
+};
+
+/**
+ * Validate and append an entry. Entries are unique per type and reference, so posting the
+ * same movement again returns the original entry. Call inside withTransaction alongside
+ * the change the entry records.
+ */
+export const postEntry = async (input: EntryInput): Promise<JournalEntry> => {
+  assertBalanced(input);
+  for (const code of new Set(input.postings.map((p) => p.accountCode))) {
+    await ledgerRepository.ensureAccount(resolveAccount(code));
+  }
+  return ledgerRepository.create({ ...input, createdAt: Date.now() });
+};
+
+/**
+ * Money collected from the customer now sits with the processor; store credit spent on an
+ * order is taken off the wallet liability instead
+ */
+export const recordPaymentCapture = async (payment: Payment): Promise<JournalEntry> => {
+  const amount = capturedAmount(payment);
+  const fundedBy = (payment.provider && PROVIDER_ACCOUNTS[payment.provider]) || 'processor_balance';
+  return postEntry({
+    type: 'payment_capture',
+    referenceId: payment.id,
+    orderId: payment.orderId,
+    description: `Payment ${payment.id} captured`,
+    postings: [debit(fundedBy, amount), credit('customer_receivable', amount)],
+  });
+};
+
+/**
+ * A completed order is split as its fees say: the organizer's net is owed to them, the
+ * platform fee is earned, the processor fee is kept by the processor, and tax is owed to the
+ * tax authorities. Captures already credited the receivable, so a fully paid order nets it to zero.
+ */
+export const recordSale = async (order: Order): Promise<JournalEntry> => {
+  const { gross, platformFee, processorFee, tax, organizerNet } = order.fees;
+  const postings = [
+    debit('customer_receivable', gross),
+    credit(organizerAccount(order.organizerId), organizerNet),
+    credit('platform_revenue', platformFee),
+    credit('processor_balance', processorFee),
+    credit('tax_payable', tax),
+  ];
+  return postEntry({
+    type: 'sale',
+    referenceId: order.id,
+    orderId: order.id,
+    description: `Order ${order.id} completed`,
+    postings: postings.filter((p) => !p.amount.isZero()),
+  });
+};
+
+/**
+ * The organizer account a completed order's sale was credited to
+ */
+const soldToAccount = async (orderId: string): Promise<string | null> => {
+  const sale = await ledgerRepository.findByReference('sale', orderId);
+  if (!sale) return null;
+  return sale.postings.find((p) => isOrganizerAccount(p.accountCode))?.accountCode || ORGANIZER_ACCOUNT;
+};
+
+/**
+ * The account a payment's capture was funded from, so refunds return money the same way
+ */
+const capturedFrom = async (paymentId: string): Promise<string> => {
+  const capture = await ledgerRepository.findByReference('payment_capture', paymentId);
+  return capture?.postings.find((p) => p.direction === 'debit')?.accountCode || 'processor_balance';
+};
+
+/**
+ * Money returned to the customer comes out of the organizer's share once the sale was
+ * recorded, less any tax it returns, which comes out of tax payable; when the order never
+ * completed it comes out of the customer's prepayment. It goes back where the payment came
+ * from, or becomes a wallet liability for store credit refunds.
+ */
+export const recordRefund = async (refund: Refund): Promise<JournalEntry> => {
+  const organizer = await soldToAccount(refund.orderId);
+  const returnedTo = refund.destination === 'store_credit' ? 'store_credit' : await capturedFrom(refund.paymentId);
+  const tax = organizer && refund.tax ? refund.tax : Money.zero(refund.amount.currency);
+  const postings = [
+    debit(organizer || 'customer_receivable', refund.amount.subtract(tax)),
+    debit('tax_payable', tax),
+    credit(returnedTo, refund.amount),
+  ];
+  return postEntry({
+    type: 'refund',
+    referenceId: refund.id,
+    orderId: refund.orderId,
+    description: `Refund ${refund.id} for payment ${refund.paymentId}`,
+    postings: postings.filter((p) => !p.amount.isZero()),
+  });
+};
+
+/**
+ * A lost dispute: the card network takes the disputed amount back out of the processor
+ * balance, and the organizer who made the sale bears it
+ */
+export const recordChargeback = async (dispute: Dispute): Promise<JournalEntry> => {
+  const organizer = (await soldToAccount(dispute.orderId)) || ORGANIZER_ACCOUNT;
+  return postEntry({
+    type: 'chargeback',
+    referenceId: dispute.id,
+    orderId: dispute.orderId,
+    description: `Dispute ${dispute.providerDisputeId} lost`,
+    postings: [debit(organizer, dispute.amount), credit('processor_balance', dispute.amount)],
+  });
+};
+
+/**
+ * A fee moved from `from` to `to`, e.g. organizer_payable to platform_revenue for a
+ * platform fee, or processing_fees from processor_balance for a processor fee
+ */
+export const recordFee = async (fee: {
+  referenceId: string;
+  orderId?: string;
+  amount: Money;
+  from: string;
+  to: string;
+  description: string;
+}): Promise<JournalEntry> => {
+  return postEntry({
+    type: 'fee',
+    referenceId: fee.referenceId,
+    orderId: fee.orderId,
+    description: fee.description,
+    postings: [debit(fee.from, fee.amount), credit(fee.to, fee.amount)],
+  });
+};
+
+/**
+ * Money paid out of the processor balance to settle what the platform owes `payableAccount`
+ */
+export const recordPayout = async (payout: {
+  referenceId: string;
+  amount: Money;
+  payableAccount: string;
+  description: string;
+}): Promise<JournalEntry> => {
+  return postEntry({
+    type: 'payout',
+    referenceId: payout.referenceId,
+    description: payout.description,
+    postings: [debit(payout.payableAccount, payout.amount), credit('processor_balance', payout.amount)],
+  });
+};
+
+/**
+ * Promotional credit added to a wallet is an expense the platform carries until it is spent
+ */
+export const recordStoreCreditGrant = async (grant: {
+  referenceId: string;
+  amount: Money;
+  description: string;
+}): Promise<JournalEntry> => {
+  return postEntry({
+    type: 'store_credit',
+    referenceId: grant.referenceId,
+    description: grant.description,
+    postings: [debit('promotions', grant.amount), credit('store_credit', grant.amount)],
+  });
+};
+
+/**
+ * Gift cards issued in one batch become a liability until redeemed: sold cards were paid
+ * into the processor balance, promotional cards are an expense
+ */
+export const recordGiftCardIssue = async (batch: {
+  referenceId: string;
+  amount: Money;
+  source: 'sold' | 'promotional';
+  description: string;
+}): Promise<JournalEntry> => {
+  return postEntry({
+    type: 'gift_card',
+    referenceId: batch.referenceId,
+    description: batch.description,
+    postings: [
+      debit(batch.source === 'sold' ? 'processor_balance' : 'promotions', batch.amount),
+      credit('gift_cards', batch.amount),
+    ],
+  });
+};
+
+export const getAccountBalance = async (accountCode: string): Promise<AccountBalance> => {
+  const account = resolveAccount(accountCode);
+  const debitNormal = DEBIT_NORMAL.includes(account.type);
+  const totals = await ledgerRepository.sumByAccount(accountCode);
+  return {
+    ...account,
+    balances: totals.map(({ currency, debits, credits }) =>
+      Money.of(debitNormal ? debits - credits : credits - debits, currency)
+    ),
+  };
+};
+
+/**
+ * Balances of every account that has been posted to
+ */
+export const getAccountBalances = async (): Promise<AccountBalance[]> => {
+  const accounts = await ledgerRepository.findAccounts();
+  const balances = await Promise.all(accounts.map((a) => getAccountBalance(a.code)));
+  return balances.map((balance, i) => ({ ...balance, createdAt: accounts[i].createdAt }));
+};
+
+export const getAccountEntries = async (accountCode: string): Promise<JournalEntry[]> => {
+  resolveAccount(accountCode);
+  return ledgerRepository.findByAccount(accountCode);
+};
+
+export const getOrderEntries = async (orderId: string): Promise<JournalEntry[]> => {
+  return ledgerRepository.findByOrderId(orderId);
+};
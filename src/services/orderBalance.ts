@@ -0,0 +1,57 @@
+import { Order, OrderBalance, Payment, PresentmentTotal } from '../models/types';
+import { Money } from '../models/money';
+import { toPresentment } from './fxService';
+
+/**
+ * Order Balance
+ * Paid, outstanding and refunded totals derived from an order's payments
+ */
+
+/**
+ * Payment statuses whose amount was collected, including those refunded since
+ */
+export const CAPTURED_PAYMENT_STATUSES: Payment['status'][] = [
+  'succeeded',
+  'captured',
+  'partially_refunded',
+  'refunded',
+];
+
+export const isCapturedPayment = (payment: Payment): boolean => CAPTURED_PAYMENT_STATUSES.includes(payment.status);
+
+/**
+ * Amount actually collected; a partial capture collects less than was authorized
+ */
+export const capturedAmount = (payment: Payment): Money => payment.amountCaptured || payment.amount;
+
+export const computeOrderBalance = (order: Order, payments: Payment[]): OrderBalance => {
+  const zero = Money.zero(order.totalAmount.currency);
+  const captured = payments.filter(isCapturedPayment);
+  const paid = captured.reduce((sum, p) => sum.add(capturedAmount(p)), zero);
+  const remaining = order.totalAmount.subtract(paid);
+  const refunded = payments.reduce((sum, p) => (p.amountRefunded ? sum.add(p.amountRefunded) : sum), zero);
+
+  return {
+    paid,
+    outstanding: remaining.isNegative() ? zero : remaining,
+    refunded,
+    ...(captured.some((p) => p.fx) && { presentment: presentmentTotals(captured) }),
+  };
+};
+
+/**
+ * Collected and refunded totals per currency the buyer paid in
+ */
+const presentmentTotals = (payments: Payment[]): PresentmentTotal[] => {
+  const totals = new Map<string, PresentmentTotal>();
+  for (const payment of payments) {
+    const paid = toPresentment(payment, capturedAmount(payment));
+    const refunded = toPresentment(payment, payment.amountRefunded || Money.zero(payment.amount.currency));
+    const total = totals.get(paid.currency);
+    totals.set(
+      paid.currency,
+      total ? { paid: total.paid.add(paid), refunded: total.refunded.add(refunded) } : { paid, refunded }
+    );
+  }
+  return [...totals.values()];
+};
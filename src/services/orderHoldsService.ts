@@ -0,0 +1,96 @@
+import { OrderHoldRule, OrderLineItem } from '../models/types';
+import { NotFoundError, ValidationError } from '../common/errors';
+import { orderHoldRulesRepository } from '../db/repositories';
+
+/**
+ * Order Holds Service
+ * How long a new order holds its tickets while it waits for payment, per tenant and ticket
+ */
+
+/**
+ * Hold time for tickets no rule covers
+ */
+export const DEFAULT_HOLD_MINUTES = parseInt(process.env.ORDER_HOLD_MINUTES || '15', 10);
+
+export interface OrderHoldRuleInput {
+  tenantId?: string;
+  ticketId?: string;
+  holdMinutes: number;
+}
+
+const optionalId = (name: string, value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ValidationError(`${name} must be a non-empty string`);
+  }
+  return value.trim();
+};
+
+const parseHoldMinutes = (value: unknown): number => {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > 7 * 24 * 60) {
+    throw new ValidationError('holdMinutes must be a whole number of minutes from 1 to 10080');
+  }
+  return value as number;
+};
+
+export const listOrderHoldRules = async (): Promise<OrderHoldRule[]> => {
+  return (await orderHoldRulesRepository.findAll()).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createOrderHoldRule = async (input: OrderHoldRuleInput): Promise<OrderHoldRule> => {
+  const now = Date.now();
+  return orderHoldRulesRepository.create({
+    tenantId: optionalId('tenantId', input.tenantId),
+    ticketId: optionalId('ticketId', input.ticketId),
+    holdMinutes: parseHoldMinutes(input.holdMinutes),
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Change a rule's hold time. Orders keep the expiry they were created with.
+ */
+export const updateOrderHoldRule = async (ruleId: string, holdMinutes: unknown): Promise<OrderHoldRule> => {
+  const rule = await orderHoldRulesRepository.findById(ruleId);
+  if (!rule) throw new NotFoundError('Order hold rule not found', { ruleId });
+  return (await orderHoldRulesRepository.update(ruleId, { holdMinutes: parseHoldMinutes(holdMinutes) }))!;
+};
+
+export const deleteOrderHoldRule = async (ruleId: string): Promise<void> => {
+  if (!(await orderHoldRulesRepository.delete(ruleId))) {
+    throw new NotFoundError('Order hold rule not found', { ruleId });
+  }
+};
+
+/**
+ * The hold time of the most specific rule for a ticket, as fee rules are chosen: ticket and
+ * tenant, then ticket, then tenant, then global, the newest winning between equals
+ */
+const holdMinutesFor = (rules: OrderHoldRule[], tenantId: string | undefined, ticketId: string): number => {
+  let minutes = DEFAULT_HOLD_MINUTES;
+  let best = -1;
+  for (const rule of rules) {
+    if (rule.tenantId && rule.tenantId !== tenantId) continue;
+    if (rule.ticketId && rule.ticketId !== ticketId) continue;
+    const score = (rule.ticketId ? 2 : 0) + (rule.tenantId ? 1 : 0);
+    if (score >= best) {
+      minutes = rule.holdMinutes;
+      best = score;
+    }
+  }
+  return minutes;
+};
+
+/**
+ * When a new order's hold lapses. An order holds for as long as its shortest-held ticket.
+ */
+export const computeExpiresAt = async (
+  lineItems: Pick<OrderLineItem, 'ticketId'>[],
+  tenantId: string | undefined,
+  now: number = Date.now()
+): Promise<number> => {
+  const rules = await listOrderHoldRules();
+  const minutes = Math.min(...lineItems.map((item) => holdMinutesFor(rules, tenantId, item.ticketId)));
+  return now + minutes * 60 * 1000;
+};
@@ -0,0 +1,86 @@
+import { Order, Payment } from '../models/types';
+import { ConflictError } from '../common/errors';
+import { computeOrderBalance } from './orderBalance';
+
+/**
+ * Order Lifecycle
+ * Transition graph and guard conditions for Order['status']
+ */
+
+export type OrderStatus = Order['status'];
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'cancelled',
+  'partially_refunded',
+  'refunded',
+  'charged_back',
+];
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'completed', 'failed', 'cancelled'],
+  processing: ['completed', 'failed', 'cancelled'],
+  failed: ['pending', 'cancelled'],
+  completed: ['partially_refunded', 'refunded', 'charged_back'],
+  cancelled: [],
+  partially_refunded: ['refunded', 'charged_back'],
+  refunded: [],
+  charged_back: [],
+};
+
+/**
+ * A guard returns the reason a transition is blocked, or null when it may proceed
+ */
+type TransitionGuard = (order: Order, payments: Payment[]) => string | null;
+
+const GUARDS: Partial<Record<OrderStatus, TransitionGuard>> = {
+  completed: (order, payments) => {
+    const { outstanding } = computeOrderBalance(order, payments);
+    return outstanding.isZero() ? null : 'Succeeded payments do not cover the order total';
+  },
+  partially_refunded: (order, payments) => {
+    const { paid, refunded } = computeOrderBalance(order, payments);
+    return refunded.isPositive() && refunded.lessThan(paid) ? null : 'Only part of the paid amount must be refunded';
+  },
+  refunded: (order, payments) => {
+    const { paid, refunded } = computeOrderBalance(order, payments);
+    return paid.isPositive() && refunded.equals(paid) ? null : 'The paid amount has not been fully refunded';
+  },
+};
+
+/**
+ * Raised when a status change is not allowed from the order's current status
+ */
+export class InvalidOrderTransitionError extends ConflictError {
+  constructor(from: OrderStatus, to: OrderStatus, reason?: string) {
+    super(reason || `Cannot transition order from ${from} to ${to}`, 'INVALID_ORDER_TRANSITION', {
+      from,
+      to,
+      allowedTransitions: TRANSITIONS[from],
+    });
+  }
+}
+
+export const isOrderStatus = (value: unknown): value is OrderStatus => {
+  return ORDER_STATUSES.includes(value as OrderStatus);
+};
+
+export const getAllowedTransitions = (status: OrderStatus): OrderStatus[] => {
+  return [...TRANSITIONS[status]];
+};
+
+/**
+ * Throw InvalidOrderTransitionError unless the order may move to `to`
+ */
+export const assertTransition = (order: Order, to: OrderStatus, payments: Payment[]): void => {
+  if (!TRANSITIONS[order.status].includes(to)) {
+    throw new InvalidOrderTransitionError(order.status, to);
+  }
+  const blocked = GUARDS[to]?.(order, payments);
+  if (blocked) {
+    throw new InvalidOrderTransitionError(order.status, to, blocked);
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Order Lock
+ * Serializes work on one order within this process
+ */
+
+const orderLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` once earlier holders of the same order's lock have finished, e.g. balance
+ * checks that must see the pending payment or refund recorded by a concurrent request
+ */
+export const withOrderLock = async <T>(orderId: string, fn: () => Promise<T>): Promise<T> => {
+  const previous = orderLocks.get(orderId) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(fn);
+  orderLocks.set(orderId, current);
+  try {
+    return await current;
+  } finally {
+    if (orderLocks.get(orderId) === current) orderLocks.delete(orderId);
+  }
+};
@@ -1,146 +1,995 @@
-import { v4 as uuidv4 } from 'uuid';
-import { Order, Payment, NFTMintTransaction } from '../models/types';
-
-const orders: Order[] = [];
-const payments: Payment[] = [];
-const nftTransactions: NFTMintTransaction[] = [];
-
-export const createOrder = (userId: string, ticketId: string, quantity: number, totalAmount: string): Order => {
-  const order: Order = {
-    id: uuidv4(),
-    userId,
-    ticketId,
-    quantity,
-    totalAmount,
-    status: 'pending',
-    nftTokenIds: [],
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  };
-  orders.push(order);
-  return order;
+import { Order, OrderBalance, Payment, NFTMintTransaction } from '../models/types';
+import { Money, MoneyJSON } from '../models/money';
+import { assertTransition, getAllowedTransitions, InvalidOrderTransitionError } from './orderLifecycle';
+import { computeOrderBalance } from './orderBalance';
+import { withOrderLock } from './orderLock';
+import { recordPaymentCapture, recordSale } from './ledgerService';
+import { computeOrderFees } from './feesService';
+import { withTransaction } from '../config/database';
+import { BusinessRuleError, ConflictError, NotFoundError, ServiceError, ValidationError } from '../common/errors';
+import {
+  CreateChargeParams,
+  getPaymentProvider,
+  getPaymentProviderByName,
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderCharge,
+} from './paymentProviders';
+import { assessPayment } from './riskService';
+import { debitWallet, WALLET_PAYMENT_METHOD } from './walletService';
+import { findGiftCardByCode, GIFT_CARD_PAYMENT_METHOD, redeemGiftCard } from './giftCardsService';
+import { applyPromoCodes, discountedLineItems, redeemPromoCodes, releasePromoRedemptions } from './promoCodesService';
+import { computeTaxLines, lineItemsNetOfTax, parseBillingAddress, totalTax } from './taxService';
+import { quoteFxConversion, toPresentment, toSettlement } from './fxService';
+import { computeExpiresAt } from './orderHoldsService';
+import { markInventorySold, releaseInventory, reserveInventory } from './inventoryService';
+import { applyPurchaseRules, checkPresaleAccess, reclaimPresaleUse, releasePresaleUse } from './purchaseRulesService';
+import {
+  closeWaitlistOffer,
+  holdSeatsForWaitlist,
+  makeWaitlistOffers,
+  WAITLIST_OFFER_MINUTES,
+} from './waitlistService';
+import { applyTicketSettings, RequestedLineItem } from './ticketSettingsService';
+import { DEFAULT_TENANT_ID } from '../common/request-context';
+import { nftTransactionsRepository, ordersRepository, paymentsRepository } from '../db/repositories';
+import { OrderSearchFilters, OrderSearchOptions } from '../db/repositories/OrdersRepository';
+
+
+export interface OrderLineItemInput {
+  ticketId: string;
+  quantity: number;
+  /** The price the buyer was shown; optional, but it must match the ticket's */
+  unitPrice?: MoneyJSON;
+}
+
+/**
+ * Validate client line items; their prices, like their tax category and event, come from
+ * the tickets' settings, applied by createOrder
+ */
+export const buildLineItems = (items: OrderLineItemInput[]): RequestedLineItem[] => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ValidationError('lineItems must be a non-empty array');
+  }
+  return items.map((item, index) => {
+    if (!item || typeof item.ticketId !== 'string' || !item.ticketId) {
+      throw new ValidationError(`lineItems[${index}].ticketId is required`);
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new ValidationError(`lineItems[${index}].quantity must be a positive integer`);
+    }
+    const unitPrice =
+      item.unitPrice === undefined ? undefined : Money.fromJSON(item.unitPrice, `lineItems[${index}].unitPrice`);
+    return { ticketId: item.ticketId, quantity: item.quantity, unitPrice };
+  });
+};
+
+export interface CreateOrderOptions {
+  /** Selects the tenant's fee rules */
+  tenantId?: string;
+  organizerId?: string;
+  /** Codes the buyer entered, validated and applied in this order */
+  promoCodes?: unknown;
+  /** The buyer's billing country and region; orders without one are not taxed */
+  billingAddress?: unknown;
+  /** Unlocks tickets still in presale */
+  accessCode?: unknown;
+  /** Holds the order until then instead of for the time the hold rules give, e.g. for waitlist offers */
+  expiresAt?: number;
+  /** Set for offers to the head of a ticket's waitlist, which may take the seats held for it */
+  waitlistOffer?: boolean;
+}
+
+/**
+ * Price the line items from their tickets, apply any promo codes, tax the discounted totals for
+ * the buyer's jurisdiction, and fix the order's fee split under the fee and tax rules in force now.
+ * Tickets in presale need an access code, and the buyer's purchase limits must allow them.
+ * The order reserves its seats and holds them until `expiresAt`, from the hold rules; seats
+ * held for users on a waitlist are left to them.
+ */
+export const createOrder = async (
+  userId: string,
+  items: OrderLineItemInput[],
+  options: CreateOrderOptions = {}
+): Promise<Order> => {
+  const lineItems = await applyTicketSettings(buildLineItems(items));
+  const presale = await checkPresaleAccess(lineItems, options.accessCode);
+  const billingAddress = parseBillingAddress(options.billingAddress);
+  const discounts = await applyPromoCodes(lineItems, options.promoCodes, { tenantId: options.tenantId, userId });
+  const discounted = discountedLineItems(lineItems, discounts);
+  const taxLines = await computeTaxLines(discounted, billingAddress);
+  const { currency } = lineItems[0].lineTotal;
+  const fees = await computeOrderFees(
+    lineItemsNetOfTax(discounted, taxLines),
+    options.tenantId,
+    totalTax(taxLines, currency)
+  );
+  const now = Date.now();
+  const expiresAt = options.expiresAt ?? (await computeExpiresAt(lineItems, options.tenantId, now));
+  const placeOrder = () =>
+    redeemPromoCodes(userId, discounts, () =>
+      applyPurchaseRules(userId, lineItems, presale, () =>
+        reserveInventory(lineItems, () =>
+          ordersRepository.create({
+            userId,
+            lineItems,
+            totalAmount: fees.gross,
+            organizerId: options.organizerId,
+            fees,
+            discounts,
+            billingAddress,
+            taxLines,
+            expiresAt,
+            presaleId: presale?.id,
+            status: 'pending',
+            nftTokenIds: [],
+            statusHistory: [],
+            createdAt: now,
+            updatedAt: now,
+          })
+        )
+      )
+    );
+  return options.waitlistOffer ? placeOrder() : holdSeatsForWaitlist(lineItems, placeOrder);
 };
 
-export const getOrder = (orderId: string): Order | undefined => {
-  return orders.find((o) => o.id === orderId);
+export const getOrder = async (orderId: string): Promise<Order | null> => {
+  return ordersRepository.findById(orderId);
 };
 
-export const getUserOrders = (userId: string): Order[] => {
-  return orders.filter((o) => o.userId === userId);
+export const getUserOrders = async (userId: string): Promise<Order[]> => {
+  return ordersRepository.findByUserId(userId);
 };
 
-export const updateOrderStatus = (orderId: string, status: Order['status']): Order | undefined => {
-  const order = orders.find((o) => o.id === orderId);
-  if (order) {
-    order.status = status;
-    order.updatedAt = Date.now();
+export interface OrderSearchQuery extends Partial<Omit<OrderSearchOptions, 'after'>> {
+  cursor?: string;
+}
+
+export interface OrderSearchPage {
+  data: Order[];
+  nextCursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+interface OrderCursor {
+  sortBy: OrderSearchOptions['sortBy'];
+  sortOrder: OrderSearchOptions['sortOrder'];
+  value: number;
+  id: string;
+}
+
+const encodeCursor = (cursor: OrderCursor): string => {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeCursor = (encoded: string): OrderCursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    if (cursor && typeof cursor.id === 'string' && typeof cursor.value === 'number') {
+      return cursor;
+    }
+  } catch {
+    // fall through to the validation error below
   }
-  return order;
+  throw new ValidationError('cursor is invalid');
 };
 
-export const addNFTTokenToOrder = (orderId: string, tokenId: string): Order | undefined => {
-  const order = orders.find((o) => o.id === orderId);
-  if (order) {
-    order.nftTokenIds.push(tokenId);
-    order.updatedAt = Date.now();
+/**
+ * Filtered, sorted order listing with opaque keyset cursors
+ */
+export const searchOrders = async (
+  filters: OrderSearchFilters,
+  searchQuery: OrderSearchQuery = {}
+): Promise<OrderSearchPage> => {
+  const { sortBy = 'createdAt', sortOrder = 'desc', limit = DEFAULT_PAGE_SIZE, cursor } = searchQuery;
+
+  let after: OrderSearchOptions['after'];
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (decoded.sortBy !== sortBy || decoded.sortOrder !== sortOrder) {
+      throw new ValidationError('cursor was issued for a different sort');
+    }
+    after = { value: decoded.value, id: decoded.id };
   }
-  return order;
+
+  const rows = await ordersRepository.search(filters, { sortBy, sortOrder, limit: limit + 1, after });
+  const data = rows.slice(0, limit);
+  const last = data[data.length - 1];
+
+  const nextCursor =
+    rows.length > limit && last
+      ? encodeCursor({
+          sortBy,
+          sortOrder,
+          value: sortBy === 'createdAt' ? last.createdAt : last.totalAmount.amount,
+          id: last.id,
+        })
+      : null;
+
+  return { data, nextCursor };
 };
 
-export const createPayment = (
+export interface StatusChangeOptions {
+  actor: string;
+  reason?: string;
+}
+
+/**
+ * Move an order along the lifecycle graph, recording who made the change and why.
+ * Throws InvalidOrderTransitionError when the transition is not allowed, and ConflictError
+ * (ORDER_STATUS_CHANGED) when another request changed the status first. Completed
+ * orders have their seats sold; cancelled and failed ones give back their seats, promo code
+ * redemptions and presale code use, and their seats are offered to the waitlist. A failed
+ * order retried as pending takes them again, and is refused when one of them has gone.
+ * Closes the waitlist offer the order was made for.
+ */
+export const updateOrderStatus = async (
   orderId: string,
-  amount: string,
-  currency: string,
-  paymentMethod: string
-): Payment => {
-  const payment: Payment = {
-    id: uuidv4(),
-    orderId,
+  status: Order['status'],
+  { actor, reason }: StatusChangeOptions
+): Promise<Order | null> => {
+  const order = await ordersRepository.findById(orderId);
+  if (!order) return null;
+
+  assertTransition(order, status, await getOrderPayments(orderId));
+  // A failed order has already given back what it held
+  const releases = (status === 'cancelled' || status === 'failed') && order.status !== 'failed';
+  const reclaims = order.status === 'failed' && status === 'pending';
+  const now = Date.now();
+  const updated = await withTransaction(async () => {
+    // Taken before the status changes, so in memory mode a refusal leaves the order failed
+    if (reclaims) await reclaimOrderHolds(order);
+    const changed = await ordersRepository.updateStatus(orderId, order.status, {
+      status,
+      statusHistory: [...order.statusHistory, { from: order.status, to: status, actor, reason, changedAt: now }],
+      updatedAt: now,
+    });
+    // Leave the seats, codes and offers to the request that won
+    if (!changed) {
+      if (reclaims) await releaseOrderHolds(order);
+      throw new ConflictError('Order status was changed by another request', 'ORDER_STATUS_CHANGED', {
+        from: order.status,
+        to: status,
+      });
+    }
+    if (status === 'completed') {
+      await markInventorySold(orderId);
+      await closeWaitlistOffer(orderId, 'claimed');
+    }
+    if (releases) await releaseOrderHolds(order);
+    return changed;
+  });
+  if (releases) await offerWaitlistedSeats(order.lineItems.map((item) => item.ticketId));
+  return updated;
+};
+
+/**
+ * Give back the promo code redemptions, seats and presale code use an order holds, and
+ * close the waitlist offer it was made for
+ */
+const releaseOrderHolds = async (order: Order): Promise<void> => {
+  await releasePromoRedemptions(order.id);
+  await releaseInventory(order.id);
+  await releasePresaleUse(order);
+  await closeWaitlistOffer(order.id, 'lapsed');
+};
+
+/**
+ * Take the seats, presale code use and promo code redemptions a failed order gave back
+ * again, under the same caps as a new order and leaving the waitlist its seats
+ */
+const reclaimOrderHolds = async (order: Order): Promise<void> => {
+  await holdSeatsForWaitlist(order.lineItems, () =>
+    redeemPromoCodes(order.userId, order.discounts, () =>
+      reclaimPresaleUse(order, () => reserveInventory(order.lineItems, async () => order))
+    )
+  );
+};
+
+/**
+ * Offer seats freed on these tickets to the users waiting for them, each as an order for
+ * the seats they asked for that holds them for WAITLIST_OFFER_MINUTES; returns how many
+ * offers were made
+ */
+export const offerWaitlistedSeats = async (ticketIds: string[]): Promise<number> => {
+  return makeWaitlistOffers(ticketIds, (entry) =>
+    createOrder(
+      entry.userId,
+      [
+        {
+          ticketId: entry.ticketId,
+          quantity: entry.quantity,
+        },
+      ],
+      {
+        tenantId: entry.tenantId,
+        expiresAt: Date.now() + WAITLIST_OFFER_MINUTES * 60 * 1000,
+        waitlistOffer: true,
+      }
+    )
+  );
+};
+
+export const addNFTTokenToOrder = async (orderId: string, tokenId: string): Promise<Order | null> => {
+  return ordersRepository.addNFTToken(orderId, tokenId);
+};
+
+export const getOrderBalance = async (order: Order): Promise<OrderBalance> => {
+  return computeOrderBalance(order, await getOrderPayments(order.id));
+};
+
+export type OrderWithBalance = Order & { balance: OrderBalance };
+
+/**
+ * Orders are returned with their paid, outstanding and refunded totals
+ */
+export const withBalance = async (order: Order): Promise<OrderWithBalance> => {
+  return { ...order, balance: await getOrderBalance(order) };
+};
+
+const HOLD_EXPIRED_REASON = 'Hold expired';
+
+/**
+ * Reject paying an order whose hold has lapsed before anything was collected, whether or
+ * not the sweeper has cancelled it yet. Orders partly paid in time are not held to it.
+ */
+const assertHoldNotExpired = (order: Order, payments: Payment[], now: number = Date.now()): void => {
+  if (order.expiresAt === undefined || order.expiresAt > now) return;
+  const lastChange = order.statusHistory[order.statusHistory.length - 1];
+  const unpaid = order.status === 'pending' || order.status === 'processing';
+  const expired = order.status === 'cancelled' && lastChange?.reason === HOLD_EXPIRED_REASON;
+  if ((unpaid || expired) && computeOrderBalance(order, payments).paid.isZero()) {
+    throw new BusinessRuleError('Order hold has expired', 'ORDER_EXPIRED', { expiresAt: order.expiresAt });
+  }
+};
+
+/**
+ * Reject a payment unless the order is still payable and within its hold, the currency
+ * matches and the amount does not exceed the outstanding balance
+ */
+export const assertPaymentAcceptable = async (order: Order, amount: Money): Promise<void> => {
+  const payments = await getOrderPayments(order.id);
+  assertHoldNotExpired(order, payments);
+  if (!getAllowedTransitions(order.status).includes('completed')) {
+    throw new InvalidOrderTransitionError(order.status, 'completed');
+  }
+  if (amount.currency !== order.totalAmount.currency) {
+    throw new BusinessRuleError(
+      `Payment currency ${amount.currency} does not match order currency ${order.totalAmount.currency}`,
+      'PAYMENT_CURRENCY_MISMATCH',
+      { orderCurrency: order.totalAmount.currency }
+    );
+  }
+  // Payments still in flight or on hold count against the balance so concurrent attempts cannot overpay
+  const inFlight = payments
+    .filter((p) => p.status === 'pending' || p.status === 'authorized')
+    .reduce((sum, p) => sum.add(p.amount), Money.zero(amount.currency));
+  const { outstanding } = computeOrderBalance(order, payments);
+  if (amount.add(inFlight).greaterThan(outstanding)) {
+    throw new BusinessRuleError('Payment exceeds the outstanding balance', 'OVERPAYMENT', { outstanding });
+  }
+};
+
+/**
+ * Advance the order after a payment succeeds: completed once fully paid,
+ * processing while a balance remains. Orders that can no longer complete,
+ * e.g. cancelled while the charge was in flight, are left as they are.
+ */
+export const applySucceededPayment = async (orderId: string): Promise<Order | null> => {
+  const order = await getOrder(orderId);
+  if (!order || !getAllowedTransitions(order.status).includes('completed')) return order;
+
+  const { outstanding } = await getOrderBalance(order);
+  if (outstanding.isZero()) {
+    return withTransaction(async () => {
+      const completed = await updateOrderStatus(orderId, 'completed', { actor: 'system', reason: 'Order fully paid' });
+      if (completed) await recordSale(completed);
+      return completed;
+    });
+  }
+  if (order.status === 'pending') {
+    return updateOrderStatus(orderId, 'processing', { actor: 'system', reason: 'Partial payment received' });
+  }
+  return order;
+};
+
+export const createPayment = async (
+  order: Order,
+  amount: Money,
+  paymentMethod: string,
+  provider?: string,
+  details: Partial<
+    Pick<Payment, 'status' | 'errorMessage' | 'metadata' | 'ipAddress' | 'cardFingerprint' | 'risk' | 'fx'>
+  > = {}
+): Promise<Payment> => {
+  const now = Date.now();
+  return paymentsRepository.create({
+    orderId: order.id,
+    userId: order.userId,
     amount,
-    currency,
     status: 'pending',
     paymentMethod,
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  };
-  payments.push(payment);
-  return payment;
+    provider,
+    ...details,
+    createdAt: now,
+    updatedAt: now,
+  });
 };
 
-export const getPayment = (paymentId: string): Payment | undefined => {
-  return payments.find((p) => p.id === paymentId);
+export const getPayment = async (paymentId: string): Promise<Payment | null> => {
+  return paymentsRepository.findById(paymentId);
 };
 
-export const getOrderPayments = (orderId: string): Payment[] => {
-  return payments.filter((p) => p.orderId === orderId);
+export const getOrderPayments = async (orderId: string): Promise<Payment[]> => {
+  return paymentsRepository.findByOrderId(orderId);
 };
 
-export const updatePaymentStatus = (
+export type PaymentReferences = Partial<Pick<Payment, 'stripePaymentId' | 'stripeChargeId' | 'errorMessage'>>;
+
+export const updatePaymentStatus = async (
   paymentId: string,
   status: Payment['status'],
-  stripeChargeId?: string,
-  errorMessage?: string
-): Payment | undefined => {
-  const payment = payments.find((p) => p.id === paymentId);
-  if (payment) {
-    payment.status = status;
-    if (stripeChargeId) payment.stripeChargeId = stripeChargeId;
-    if (errorMessage) payment.errorMessage = errorMessage;
-    payment.updatedAt = Date.now();
+  { stripePaymentId, stripeChargeId, errorMessage }: PaymentReferences = {},
+  from?: Payment['status']
+): Promise<Payment | null> => {
+  const changes: Partial<Payment> = { status };
+  if (stripePaymentId) changes.stripePaymentId = stripePaymentId;
+  if (stripeChargeId) changes.stripeChargeId = stripeChargeId;
+  if (errorMessage) changes.errorMessage = errorMessage;
+  return paymentsRepository.update(paymentId, changes, from);
+};
+
+/**
+ * Record that a payment's money was collected, together with its ledger entry; with
+ * `from`, only while the payment is still in that status
+ */
+export const markPaymentCaptured = async (
+  paymentId: string,
+  changes: Partial<Payment> & { status: 'succeeded' | 'captured' },
+  from?: Payment['status']
+): Promise<Payment | null> => {
+  return withTransaction(async () => {
+    const payment = await paymentsRepository.update(paymentId, changes, from);
+    if (payment) await recordPaymentCapture(payment);
+    return payment;
+  });
+};
+
+export interface ProcessPaymentResult {
+  order: Order | null;
+  payment: Payment;
+}
+
+export interface ProcessPaymentOptions {
+  tenantId?: string;
+  /** `manual` only authorizes the card; capture or void it later */
+  captureMethod?: CreateChargeParams['captureMethod'];
+  /** Signals for the risk rules; see RiskContext */
+  ipAddress?: string;
+  ipCountry?: string;
+  accountCreatedAt?: number;
+  /** Required when paying with a gift card */
+  giftCardCode?: string;
+  /** The currency the buyer pays in, when not the order's; card payments only */
+  presentmentCurrency?: string;
+}
+
+/**
+ * Record a charge's outcome on its payment while the payment is still pending; a charge
+ * the provider is still processing leaves it pending. Returns the payment as it now is.
+ */
+const recordCharge = async (payment: Payment, charge: ProviderCharge): Promise<Payment> => {
+  const references: PaymentReferences = { stripePaymentId: charge.id, stripeChargeId: charge.chargeId };
+  let recorded: Payment | null;
+  if (charge.status === 'requires_capture') {
+    const authorized = { status: 'authorized' as const, authorizedAt: Date.now(), ...references };
+    recorded = await paymentsRepository.update(payment.id, authorized, 'pending');
+  } else if (charge.status === 'succeeded') {
+    recorded = await markPaymentCaptured(payment.id, { status: 'succeeded', ...references }, 'pending');
+  } else {
+    let status: Payment['status'] = 'pending';
+    if (charge.status === 'failed' || charge.status === 'canceled') {
+      status = 'failed';
+      references.errorMessage = `Charge ${charge.status}`;
+    }
+    recorded = await updatePaymentStatus(payment.id, status, references, 'pending');
+  }
+  // Another request settled it first
+  return recorded || (await getPayment(payment.id)) || payment;
+};
+
+/**
+ * Apply a payment's outcome to its order
+ */
+const applyPayment = async (payment: Payment): Promise<Order | null> => {
+  if (payment.status === 'succeeded') return applySucceededPayment(payment.orderId);
+  if (payment.status === 'authorized') return applyAuthorizedPayment(payment.orderId);
+  return getOrder(payment.orderId);
+};
+
+/**
+ * Charge a recorded payment with its provider and apply the result to the order
+ */
+const chargePayment = async (
+  payment: Payment,
+  provider: PaymentProvider,
+  captureMethod: CreateChargeParams['captureMethod']
+): Promise<ProcessPaymentResult> => {
+  const { orderId } = payment;
+  try {
+    let charge = await provider.createCharge({
+      amount: payment.fx ? payment.fx.presentmentAmount : payment.amount,
+      paymentMethod: payment.paymentMethod,
+      captureMethod,
+      metadata: { orderId, paymentId: payment.id },
+      idempotencyKey: payment.id,
+    });
+    if (charge.status === 'requires_confirmation') {
+      charge = await provider.confirmCharge(charge.id);
+    }
+    payment = await recordCharge(payment, charge);
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) throw error;
+    // The charge may still go through, so the payment stays pending until it is reconciled
+    if (error.retryable) return providerFailure(payment, error);
+    payment = (await updatePaymentStatus(payment.id, 'failed', { errorMessage: error.message })) || payment;
+  }
+
+  return { order: await applyPayment(payment), payment };
+};
+
+/**
+ * Pay from a balance the platform holds rather than through a provider. `debit` takes the
+ * money and returns its reference, committing with the capture; the business rule errors
+ * listed in `declines` fail the payment the way a card decline does.
+ */
+const payFromBalance = async (
+  order: Order,
+  amount: Money,
+  method: string,
+  captureMethod: CreateChargeParams['captureMethod'],
+  metadata: Record<string, string>,
+  debit: (order: Order, payment: Payment) => Promise<string | undefined>,
+  declines: string[]
+): Promise<ProcessPaymentResult> => {
+  if (captureMethod !== 'automatic') {
+    throw new ValidationError(`${method} payments are captured immediately; captureMethod must be automatic`);
+  }
+
+  const payment = await withOrderLock(order.id, async () => {
+    const current = (await getOrder(order.id)) || order;
+    await assertPaymentAcceptable(current, amount);
+    const created = await createPayment(current, amount, method, method, { metadata });
+    try {
+      return await withTransaction(async () => {
+        const transactionId = await debit(current, created);
+        const captured = await markPaymentCaptured(created.id, { status: 'succeeded', transactionId });
+        return captured || created;
+      });
+    } catch (error) {
+      if (!(error instanceof BusinessRuleError) || !declines.includes(error.code)) throw error;
+      return (await updatePaymentStatus(created.id, 'failed', { errorMessage: error.message })) || created;
+    }
+  });
+
+  if (payment.status !== 'succeeded') {
+    return { order: await getOrder(order.id), payment };
+  }
+  return { order: await applySucceededPayment(order.id), payment };
+};
+
+/**
+ * Record a payment attempt and charge it, unless the risk rules block it or hold it for
+ * manual review; neither reaches the provider. Store credit and gift cards are spent without either.
+ * With a `presentmentCurrency` the card is charged in that currency at the latest FX quote.
+ */
+export const processPayment = async (
+  order: Order,
+  amount: Money,
+  paymentMethod: string,
+  {
+    tenantId,
+    captureMethod = 'automatic',
+    ipAddress,
+    ipCountry,
+    accountCreatedAt,
+    giftCardCode,
+    presentmentCurrency,
+  }: ProcessPaymentOptions = {}
+): Promise<ProcessPaymentResult> => {
+  const converted = presentmentCurrency !== undefined && presentmentCurrency !== amount.currency;
+  if (converted && (paymentMethod === WALLET_PAYMENT_METHOD || paymentMethod === GIFT_CARD_PAYMENT_METHOD)) {
+    throw new ValidationError(`${paymentMethod} payments are made in the order currency`);
+  }
+  if (paymentMethod === WALLET_PAYMENT_METHOD) {
+    const walletTenantId = tenantId || DEFAULT_TENANT_ID;
+    const debit = async (current: Order, payment: Payment) => {
+      const transaction = await debitWallet({
+        tenantId: walletTenantId,
+        userId: current.userId,
+        amount,
+        orderId: current.id,
+        paymentId: payment.id,
+        createdBy: current.userId,
+      });
+      return transaction.id;
+    };
+    return payFromBalance(order, amount, paymentMethod, captureMethod, { tenantId: walletTenantId }, debit, [
+      'INSUFFICIENT_STORE_CREDIT',
+    ]);
+  }
+  if (paymentMethod === GIFT_CARD_PAYMENT_METHOD) {
+    const card = await findGiftCardByCode(giftCardCode, { userId: order.userId, ipAddress });
+    const debit = async () => {
+      await redeemGiftCard(card, amount);
+      return undefined;
+    };
+    return payFromBalance(
+      order,
+      amount,
+      paymentMethod,
+      captureMethod,
+      { giftCardId: card.id, giftCardLast4: card.codeLast4 },
+      debit,
+      ['GIFT_CARD_EXPIRED', 'GIFT_CARD_INSUFFICIENT_BALANCE', 'GIFT_CARD_CURRENCY_MISMATCH']
+    );
+  }
+  // The rate is locked now; captures and refunds of the payment convert at the same rate
+  const fx = converted ? await quoteFxConversion(amount, presentmentCurrency) : undefined;
+  const provider = getPaymentProvider(tenantId);
+  const { assessment, cardFingerprint } = await assessPayment(
+    { tenantId, userId: order.userId, amount, paymentMethod, ipAddress, ipCountry, accountCreatedAt },
+    provider
+  );
+
+  const payment = await withOrderLock(order.id, async () => {
+    const current = (await getOrder(order.id)) || order;
+    await assertPaymentAcceptable(current, amount);
+    return createPayment(current, amount, paymentMethod, provider.name, {
+      ipAddress,
+      cardFingerprint,
+      risk: assessment,
+      fx,
+      // A held payment is charged once approved, the way it was requested
+      metadata: assessment.outcome === 'review' ? { captureMethod } : undefined,
+      ...(assessment.outcome === 'block' && { status: 'failed', errorMessage: 'Blocked by risk rules' }),
+    });
+  });
+
+  if (assessment.outcome !== 'allow') {
+    return { order: await getOrder(order.id), payment };
+  }
+  return chargePayment(payment, provider, captureMethod);
+};
+
+/**
+ * A held payment means the buyer has committed: pending orders move to processing
+ */
+export const applyAuthorizedPayment = async (orderId: string): Promise<Order | null> => {
+  const order = await getOrder(orderId);
+  if (order?.status !== 'pending') return order;
+  return updateOrderStatus(orderId, 'processing', { actor: 'system', reason: 'Payment authorized' });
+};
+
+const DEFAULT_AUTHORIZATION_TTL_MS = 6 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long an authorization may stay uncaptured before it is voided; card networks
+ * typically release holds after seven days, so the default leaves a day of margin
+ */
+export const AUTHORIZATION_TTL_MS = parseInt(
+  process.env.AUTHORIZATION_TTL_MS || String(DEFAULT_AUTHORIZATION_TTL_MS),
+  10
+);
+
+/**
+ * Load a payment and reject it unless it is an authorization waiting for capture or void
+ */
+const getAuthorizedPayment = async (paymentId: string): Promise<Payment> => {
+  const payment = await getPayment(paymentId);
+  if (!payment) throw new NotFoundError('Payment not found', { paymentId });
+  if (payment.status !== 'authorized' || !payment.provider || !payment.stripePaymentId) {
+    throw new ConflictError(`Payment is ${payment.status}, not authorized`, 'PAYMENT_NOT_AUTHORIZED', {
+      status: payment.status,
+    });
   }
   return payment;
 };
 
-export const recordNFTMintTransaction = (
-  orderId: string,
+const providerFailure = async (payment: Payment, error: unknown): Promise<never> => {
+  if (!(error instanceof PaymentProviderError)) throw error;
+  await paymentsRepository.update(payment.id, { errorMessage: error.message });
+  throw new ServiceError(error.message, 502, 'PAYMENT_PROVIDER_ERROR', { providerCode: error.code });
+};
+
+/**
+ * Collect an authorized payment, in full unless a smaller `amount` is given; the rest
+ * of the hold is released. A provider failure leaves the payment authorized. Orders
+ * whose hold has lapsed cannot be collected; the sweeper voids their authorizations.
+ */
+export const capturePayment = async (paymentId: string, amount?: Money): Promise<ProcessPaymentResult> => {
+  const { orderId } = await getAuthorizedPayment(paymentId);
+
+  return withOrderLock(orderId, async () => {
+    const payment = await getAuthorizedPayment(paymentId);
+    const order = await getOrder(orderId);
+    if (order) assertHoldNotExpired(order, await getOrderPayments(orderId));
+    const toCapture = amount || payment.amount;
+    if (toCapture.currency !== payment.amount.currency) {
+      throw new BusinessRuleError(
+        `Capture currency ${toCapture.currency} does not match payment currency ${payment.amount.currency}`,
+        'PAYMENT_CURRENCY_MISMATCH',
+        { paymentCurrency: payment.amount.currency }
+      );
+    }
+    if (!toCapture.isPositive() || toCapture.greaterThan(payment.amount)) {
+      throw new BusinessRuleError('Capture exceeds the authorized amount', 'CAPTURE_EXCEEDS_AUTHORIZED', {
+        authorized: payment.amount,
+      });
+    }
+
+    let captured: Payment | null = null;
+    try {
+      const provider = getPaymentProviderByName(payment.provider!);
+      const charge = await provider.captureCharge(payment.stripePaymentId!, toPresentment(payment, toCapture));
+      captured = await markPaymentCaptured(payment.id, {
+        status: 'captured',
+        amountCaptured: toSettlement(payment, charge.amountCaptured),
+        stripeChargeId: charge.chargeId,
+      });
+    } catch (error) {
+      await providerFailure(payment, error);
+    }
+
+    return { order: await applySucceededPayment(orderId), payment: captured || payment };
+  });
+};
+
+/**
+ * Release an authorization without collecting anything
+ */
+export const voidPayment = async (paymentId: string): Promise<ProcessPaymentResult> => {
+  const { orderId } = await getAuthorizedPayment(paymentId);
+
+  return withOrderLock(orderId, async () => {
+    const payment = await getAuthorizedPayment(paymentId);
+    let voided: Payment | null = null;
+    try {
+      await getPaymentProviderByName(payment.provider!).cancelCharge(payment.stripePaymentId!);
+      voided = await paymentsRepository.update(payment.id, { status: 'voided' });
+    } catch (error) {
+      await providerFailure(payment, error);
+    }
+    return { order: await getOrder(orderId), payment: voided || payment };
+  });
+};
+
+export interface RiskReviewDecision {
+  decision: 'approve' | 'reject';
+  reviewer: string;
+  note?: string;
+}
+
+/**
+ * Decide a payment held for risk review: approving charges it as originally requested,
+ * rejecting fails it without reaching the provider
+ */
+export const reviewHeldPayment = async (
+  paymentId: string,
+  { decision, reviewer, note }: RiskReviewDecision
+): Promise<ProcessPaymentResult> => {
+  const held = await getPayment(paymentId);
+  if (!held) throw new NotFoundError('Payment not found', { paymentId });
+
+  const reviewed = await withOrderLock(held.orderId, async () => {
+    const payment = (await getPayment(paymentId))!;
+    if (payment.status !== 'pending' || payment.risk?.outcome !== 'review' || payment.risk.review) {
+      throw new ConflictError('Payment is not awaiting risk review', 'PAYMENT_NOT_IN_REVIEW', {
+        status: payment.status,
+      });
+    }
+    const order = await getOrder(payment.orderId);
+    if (decision === 'approve' && order && !getAllowedTransitions(order.status).includes('completed')) {
+      throw new InvalidOrderTransitionError(order.status, 'completed');
+    }
+
+    const risk = {
+      ...payment.risk,
+      review: {
+        decision: decision === 'approve' ? ('approved' as const) : ('rejected' as const),
+        reviewer,
+        note,
+        reviewedAt: Date.now(),
+      },
+    };
+    if (decision === 'reject') {
+      return paymentsRepository.update(payment.id, {
+        status: 'failed',
+        errorMessage: 'Rejected in risk review',
+        risk,
+      });
+    }
+    return paymentsRepository.update(payment.id, { risk });
+  });
+
+  if (decision === 'reject') {
+    return { order: await getOrder(held.orderId), payment: reviewed! };
+  }
+  const captureMethod = reviewed!.metadata?.captureMethod === 'manual' ? 'manual' : 'automatic';
+  return chargePayment(reviewed!, getPaymentProviderByName(reviewed!.provider!), captureMethod);
+};
+
+/**
+ * Void authorizations left uncaptured for longer than AUTHORIZATION_TTL_MS; returns
+ * how many were voided. Failures are logged and retried on the next sweep.
+ */
+export const voidStaleAuthorizations = async (now: number = Date.now()): Promise<number> => {
+  const stale = await paymentsRepository.findStaleAuthorizations(now - AUTHORIZATION_TTL_MS);
+  let voided = 0;
+  for (const payment of stale) {
+    try {
+      await voidPayment(payment.id);
+      voided++;
+    } catch (error) {
+      console.error(`Error voiding stale authorization ${payment.id}:`, error);
+    }
+  }
+  return voided;
+};
+
+/**
+ * How long a payment may stay pending before its charge is looked up with the provider
+ */
+const PENDING_PAYMENT_RECONCILE_MS = 5 * 60 * 1000;
+
+/**
+ * Settle one pending payment from its charge. A charge never confirmed, or never created,
+ * will not go through: it is cancelled and the payment failed. Returns whether it was settled.
+ */
+const reconcilePendingPayment = async (payment: Payment): Promise<boolean> => {
+  // Balance payments are debited together with their capture, so a pending one took nothing
+  if (payment.paymentMethod === WALLET_PAYMENT_METHOD || payment.paymentMethod === GIFT_CARD_PAYMENT_METHOD) {
+    const errorMessage = 'Payment not completed';
+    const failed = await updatePaymentStatus(payment.id, 'failed', { errorMessage }, 'pending');
+    if (failed) await applyPayment(failed);
+    return failed !== null;
+  }
+
+  const provider = getPaymentProviderByName(payment.provider!);
+  let charge = payment.stripePaymentId
+    ? await provider.retrieveCharge(payment.stripePaymentId)
+    : await provider.findCharge(payment.id);
+  if (charge?.status === 'requires_confirmation') charge = await provider.cancelCharge(charge.id);
+  if (charge?.status === 'processing') return false;
+
+  const settled = charge
+    ? await recordCharge(payment, charge)
+    : await updatePaymentStatus(payment.id, 'failed', { errorMessage: 'Charge not created' }, 'pending');
+  if (!settled) return false;
+  await applyPayment(settled);
+  return true;
+};
+
+/**
+ * Settle payments left pending for longer than PENDING_PAYMENT_RECONCILE_MS, typically by
+ * a provider error that left the charge's outcome unknown; returns how many were settled.
+ * Failures are logged and retried on the next sweep.
+ */
+export const reconcilePendingPayments = async (now: number = Date.now()): Promise<number> => {
+  const stale = await paymentsRepository.findStalePending(now - PENDING_PAYMENT_RECONCILE_MS);
+  let settled = 0;
+  for (const payment of stale) {
+    try {
+      if (await reconcilePendingPayment(payment)) settled++;
+    } catch (error) {
+      console.error(`Error reconciling pending payment ${payment.id}:`, error);
+    }
+  }
+  return settled;
+};
+
+/**
+ * How long a sweeper keeps its claim on an expired order before another may retry it
+ */
+const EXPIRY_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * Cancel one expired order unless it was paid or a charge is still in flight: open
+ * authorizations are voided, payments awaiting risk review are failed, and cancelling
+ * gives back the order's promo code redemptions. Returns whether it was cancelled.
+ */
+const expireOrder = async (orderId: string, now: number): Promise<boolean> => {
+  // Money collected, or a charge the provider may still complete
+  const keepsOrder = (payments: Payment[]) =>
+    payments.some((p) =>
+      p.status === 'pending'
+        ? !(p.risk?.outcome === 'review' && !p.risk.review)
+        : !['authorized', 'voided', 'failed'].includes(p.status)
+    );
+
+  if (keepsOrder(await getOrderPayments(orderId))) return false;
+  for (const payment of await getOrderPayments(orderId)) {
+    if (payment.status === 'authorized') await voidPayment(payment.id);
+  }
+
+  return withOrderLock(orderId, async () => {
+    const order = await getOrder(orderId);
+    if (!order || order.expiresAt === undefined || order.expiresAt > now) return false;
+    if (order.status !== 'pending' && order.status !== 'processing') return false;
+    const payments = await getOrderPayments(orderId);
+    if (keepsOrder(payments) || payments.some((p) => p.status === 'authorized')) return false;
+
+    for (const payment of payments.filter((p) => p.status === 'pending')) {
+      await paymentsRepository.update(payment.id, { status: 'failed', errorMessage: 'Order expired' });
+    }
+    await updateOrderStatus(orderId, 'cancelled', { actor: 'system', reason: HOLD_EXPIRED_REASON });
+    return true;
+  });
+};
+
+/**
+ * Cancel unpaid orders whose hold has lapsed; returns how many were cancelled. Each order
+ * is claimed first so sweepers on several instances do not work on the same one.
+ * Failures are logged and retried once the claim lapses.
+ */
+export const expireOrders = async (now: number = Date.now()): Promise<number> => {
+  const expired = await ordersRepository.findExpired(now);
+  let cancelled = 0;
+  for (const order of expired) {
+    try {
+      if (!(await ordersRepository.claimExpiry(order.id, now, EXPIRY_CLAIM_MS))) continue;
+      if (await expireOrder(order.id, now)) cancelled++;
+    } catch (error) {
+      console.error(`Error expiring order ${order.id}:`, error);
+    }
+  }
+  return cancelled;
+};
+
+export const recordNFTMintTransaction = async (
+  order: Order,
   contractAddress: string,
   recipientAddress: string,
   tokenId: string
-): NFTMintTransaction => {
-  const tx: NFTMintTransaction = {
-    id: uuidv4(),
-    orderId,
+): Promise<NFTMintTransaction> => {
+  const now = Date.now();
+  return nftTransactionsRepository.create({
+    orderId: order.id,
+    userId: order.userId,
     contractAddress,
     recipientAddress,
     tokenId,
     status: 'pending',
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  };
-  nftTransactions.push(tx);
-  return tx;
+    createdAt: now,
+    updatedAt: now,
+  });
 };
 
-export const getMintTransaction = (txId: string): NFTMintTransaction | undefined => {
-  return nftTransactions.find((t) => t.id === txId);
+export const getMintTransaction = async (txId: string): Promise<NFTMintTransaction | null> => {
+  return nftTransactionsRepository.findById(txId);
 };
 
-export const getOrderMintTransactions = (orderId: string): NFTMintTransaction[] => {
-  return nftTransactions.filter((t) => t.orderId === orderId);
+export const getOrderMintTransactions = async (orderId: string): Promise<NFTMintTransaction[]> => {
+  return nftTransactionsRepository.findByOrderId(orderId);
 };
 
-export const updateMintTransactionStatus = (
+export const updateMintTransactionStatus = async (
   txId: string,
   status: NFTMintTransaction['status'],
   transactionHash?: string
-): NFTMintTransaction | undefined => {
-  const tx = nftTransactions.find((t) => t.id === txId);
-  if (tx) {
-    tx.status = status;
-    if (transactionHash) tx.transactionHash = transactionHash;
-    tx.updatedAt = Date.now();
-  }
-  return tx;
+): Promise<NFTMintTransaction | null> => {
+  return nftTransactionsRepository.update(txId, { status, transactionHash });
 };
 
-export const getAllOrders = (): Order[] => {
-  return orders;
+export const getAllOrders = async (): Promise<Order[]> => {
+  return ordersRepository.findAll();
 };
 
-export const getAllPayments = (): Payment[] => {
-  return payments;
+export const getAllPayments = async (): Promise<Payment[]> => {
+  return paymentsRepository.findAll();
 };
 
-export const getAllMintTransactions = (): NFTMintTransaction[] => {
-  return nftTransactions;
+export const getAllMintTransactions = async (): Promise<NFTMintTransaction[]> => {
+  return nftTransactionsRepository.findAll();
 };
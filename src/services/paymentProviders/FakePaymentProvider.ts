@@ -0,0 +1,158 @@
+import { Money } from '../../models/money';
+import {
+  CreateChargeParams,
+  DisputeEvidenceSubmission,
+  PaymentMethodDetails,
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderCharge,
+  ProviderRefund,
+} from './PaymentProvider';
+
+/**
+ * Payment methods that make the fake provider decline, named after Stripe's test payment methods
+ */
+export const FAKE_DECLINES: Record<string, { code: string; message: string }> = {
+  pm_card_chargeDeclined: { code: 'card_declined', message: 'Your card was declined.' },
+  pm_card_chargeDeclinedInsufficientFunds: { code: 'insufficient_funds', message: 'Your card has insufficient funds.' },
+  pm_card_chargeDeclinedExpiredCard: { code: 'expired_card', message: 'Your card has expired.' },
+};
+
+/**
+ * Issuing countries of Stripe's country test payment methods; every other card is US-issued
+ */
+export const FAKE_CARD_COUNTRIES: Record<string, string> = {
+  pm_card_br: 'BR',
+  pm_card_de: 'DE',
+  pm_card_gb: 'GB',
+  pm_card_jp: 'JP',
+};
+
+/**
+ * Fake Payment Provider
+ * Deterministic in-process processor for tests and local development; never touches the network
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private charges = new Map<
+    string,
+    ProviderCharge & { paymentMethod: string; captureMethod: string; metadata?: Record<string, string> }
+  >();
+  private disputeSubmissions = new Map<string, DisputeEvidenceSubmission>();
+  private sequence = 0;
+
+  async createCharge({ amount, paymentMethod, captureMethod, metadata }: CreateChargeParams): Promise<ProviderCharge> {
+    const reference = this.nextReference();
+    const charge = {
+      id: `fake_pi_${reference}`,
+      status: 'requires_confirmation' as const,
+      amount,
+      amountCaptured: Money.zero(amount.currency),
+      amountRefunded: Money.zero(amount.currency),
+      paymentMethod,
+      captureMethod,
+      metadata,
+    };
+    this.charges.set(charge.id, charge);
+    return this.snapshot(charge);
+  }
+
+  async confirmCharge(chargeId: string): Promise<ProviderCharge> {
+    const charge = this.find(chargeId);
+    if (charge.status !== 'requires_confirmation') {
+      throw new PaymentProviderError(`Charge ${chargeId} cannot be confirmed in status ${charge.status}`, this.name);
+    }
+    const decline = FAKE_DECLINES[charge.paymentMethod];
+    if (decline) {
+      charge.status = 'failed';
+      throw new PaymentProviderError(decline.message, this.name, decline.code);
+    }
+
+    charge.chargeId = charge.id.replace('fake_pi_', 'fake_ch_');
+    if (charge.captureMethod === 'manual') {
+      charge.status = 'requires_capture';
+    } else {
+      charge.status = 'succeeded';
+      charge.amountCaptured = charge.amount;
+    }
+    return this.snapshot(charge);
+  }
+
+  async captureCharge(chargeId: string, amount?: Money): Promise<ProviderCharge> {
+    const charge = this.find(chargeId);
+    if (charge.status !== 'requires_capture') {
+      throw new PaymentProviderError(`Charge ${chargeId} cannot be captured in status ${charge.status}`, this.name);
+    }
+    const toCapture = amount || charge.amount;
+    if (toCapture.greaterThan(charge.amount)) {
+      throw new PaymentProviderError('Capture amount exceeds the authorized amount', this.name, 'amount_too_large');
+    }
+    charge.status = 'succeeded';
+    charge.amountCaptured = toCapture;
+    return this.snapshot(charge);
+  }
+
+  async cancelCharge(chargeId: string): Promise<ProviderCharge> {
+    const charge = this.find(chargeId);
+    if (charge.status !== 'requires_capture' && charge.status !== 'requires_confirmation') {
+      throw new PaymentProviderError(`Charge ${chargeId} cannot be canceled in status ${charge.status}`, this.name);
+    }
+    charge.status = 'canceled';
+    return this.snapshot(charge);
+  }
+
+  async refundCharge(chargeId: string, amount?: Money): Promise<ProviderRefund> {
+    const charge = this.find(chargeId);
+    const refundable = charge.amountCaptured.subtract(charge.amountRefunded);
+    const toRefund = amount || refundable;
+    if (charge.status !== 'succeeded' || toRefund.greaterThan(refundable) || !toRefund.isPositive()) {
+      throw new PaymentProviderError(`Charge ${chargeId} cannot be refunded by ${toRefund}`, this.name, 'refund_invalid');
+    }
+    charge.amountRefunded = charge.amountRefunded.add(toRefund);
+    return { id: `fake_re_${this.nextReference()}`, chargeId, amount: toRefund, status: 'succeeded' };
+  }
+
+  async retrieveCharge(chargeId: string): Promise<ProviderCharge> {
+    return this.snapshot(this.find(chargeId));
+  }
+
+  async findCharge(paymentId: string): Promise<ProviderCharge | null> {
+    const charge = [...this.charges.values()].find((c) => c.metadata?.paymentId === paymentId);
+    return charge ? this.snapshot(charge) : null;
+  }
+
+  async describePaymentMethod(paymentMethod: string): Promise<PaymentMethodDetails> {
+    return { fingerprint: `fake_fp_${paymentMethod}`, country: FAKE_CARD_COUNTRIES[paymentMethod] || 'US' };
+  }
+
+  async submitDisputeEvidence(disputeId: string, evidence: DisputeEvidenceSubmission): Promise<void> {
+    if (this.disputeSubmissions.has(disputeId)) {
+      throw new PaymentProviderError(`Dispute ${disputeId} has already been submitted`, this.name, 'dispute_submitted');
+    }
+    this.disputeSubmissions.set(disputeId, evidence);
+  }
+
+  /**
+   * Evidence submitted for a dispute, for assertions in tests
+   */
+  getDisputeSubmission(disputeId: string): DisputeEvidenceSubmission | undefined {
+    return this.disputeSubmissions.get(disputeId);
+  }
+
+  private find(chargeId: string) {
+    const charge = this.charges.get(chargeId);
+    if (!charge) {
+      throw new PaymentProviderError(`No such charge: ${chargeId}`, this.name, 'resource_missing');
+    }
+    return charge;
+  }
+
+  private snapshot({ id, chargeId, status, amount, amountCaptured, amountRefunded }: ProviderCharge): ProviderCharge {
+    return { id, chargeId, status, amount, amountCaptured, amountRefunded };
+  }
+
+  private nextReference(): string {
+    this.sequence++;
+    return this.sequence.toString().padStart(6, '0');
+  }
+}
@@ -0,0 +1,96 @@
+import { Money } from '../../models/money';
+
+/**
+ * Payment Provider
+ * Contract implemented by every payment processor adapter
+ */
+
+export type ProviderChargeStatus =
+  | 'requires_confirmation'
+  | 'requires_capture'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface ProviderCharge {
+  /** Provider reference for the payment attempt (a PaymentIntent id for Stripe) */
+  id: string;
+  /** Underlying card charge, once one exists */
+  chargeId?: string;
+  status: ProviderChargeStatus;
+  amount: Money;
+  amountCaptured: Money;
+  amountRefunded: Money;
+}
+
+export interface ProviderRefund {
+  id: string;
+  chargeId: string;
+  amount: Money;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+export interface CreateChargeParams {
+  amount: Money;
+  paymentMethod: string;
+  /** `manual` places a hold that must be captured later */
+  captureMethod: 'automatic' | 'manual';
+  metadata?: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+export interface DisputeEvidenceFile {
+  /** Where the file belongs in the provider's evidence form, e.g. `receipt` */
+  category: string;
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface DisputeEvidenceSubmission {
+  text?: string;
+  files: DisputeEvidenceFile[];
+}
+
+export interface PaymentMethodDetails {
+  /** Identifies the card across payment methods, e.g. Stripe's card fingerprint */
+  fingerprint?: string;
+  /** ISO 3166-1 alpha-2 country the card was issued in */
+  country?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCharge(params: CreateChargeParams): Promise<ProviderCharge>;
+  confirmCharge(chargeId: string): Promise<ProviderCharge>;
+  /** Capture an authorized charge, in full unless `amount` is given */
+  captureCharge(chargeId: string, amount?: Money): Promise<ProviderCharge>;
+  /** Release an uncaptured authorization */
+  cancelCharge(chargeId: string): Promise<ProviderCharge>;
+  /** Refund a captured charge, in full unless `amount` is given */
+  refundCharge(chargeId: string, amount?: Money): Promise<ProviderRefund>;
+  retrieveCharge(chargeId: string): Promise<ProviderCharge>;
+  /** The charge created with `metadata.paymentId`, when a request lost on the way back did create one */
+  findCharge(paymentId: string): Promise<ProviderCharge | null>;
+  /** Send evidence for a dispute and submit it to the card network */
+  submitDisputeEvidence(disputeId: string, evidence: DisputeEvidenceSubmission): Promise<void>;
+  /** Card details for risk checks; details the provider does not know are left out */
+  describePaymentMethod(paymentMethod: string): Promise<PaymentMethodDetails>;
+}
+
+/**
+ * Raised by adapters when the processor declines or fails a request. `retryable` errors, such
+ * as lost connections or rate limits, say nothing about the outcome: the charge may still succeed.
+ */
+export class PaymentProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly code?: string,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
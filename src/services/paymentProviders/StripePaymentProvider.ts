@@ -0,0 +1,174 @@
+import Stripe from 'stripe';
+import { Money } from '../../models/money';
+import {
+  CreateChargeParams,
+  DisputeEvidenceSubmission,
+  PaymentMethodDetails,
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderCharge,
+  ProviderChargeStatus,
+  ProviderRefund,
+} from './PaymentProvider';
+
+const STRIPE_API_VERSION = '2023-10-16';
+
+const CHARGE_STATUSES: Record<Stripe.PaymentIntent.Status, ProviderChargeStatus> = {
+  requires_payment_method: 'failed',
+  requires_confirmation: 'requires_confirmation',
+  requires_action: 'processing',
+  processing: 'processing',
+  requires_capture: 'requires_capture',
+  succeeded: 'succeeded',
+  canceled: 'canceled',
+};
+
+const REFUND_STATUSES: Record<string, ProviderRefund['status']> = {
+  pending: 'pending',
+  requires_action: 'pending',
+  succeeded: 'succeeded',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+/**
+ * Stripe Payment Provider
+ * Maps the provider contract onto Stripe PaymentIntents
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  private stripe: Stripe;
+
+  constructor(client?: Stripe, secretKey: string | undefined = process.env.STRIPE_SECRET_KEY) {
+    if (!client && !secretKey) {
+      throw new Error('STRIPE_SECRET_KEY is required to use the Stripe payment provider');
+    }
+    this.stripe = client || new Stripe(secretKey!, { apiVersion: STRIPE_API_VERSION });
+  }
+
+  async createCharge({
+    amount,
+    paymentMethod,
+    captureMethod,
+    metadata,
+    idempotencyKey,
+  }: CreateChargeParams): Promise<ProviderCharge> {
+    return this.call(async () => {
+      const intent = await this.stripe.paymentIntents.create(
+        {
+          amount: amount.amount,
+          currency: amount.currency.toLowerCase(),
+          payment_method: paymentMethod,
+          capture_method: captureMethod,
+          metadata,
+        },
+        idempotencyKey ? { idempotencyKey } : undefined
+      );
+      return this.toCharge(intent);
+    });
+  }
+
+  async confirmCharge(chargeId: string): Promise<ProviderCharge> {
+    return this.call(async () => this.toCharge(await this.stripe.paymentIntents.confirm(chargeId)));
+  }
+
+  async captureCharge(chargeId: string, amount?: Money): Promise<ProviderCharge> {
+    return this.call(async () => {
+      const intent = await this.stripe.paymentIntents.capture(
+        chargeId,
+        amount ? { amount_to_capture: amount.amount } : undefined
+      );
+      return this.toCharge(intent);
+    });
+  }
+
+  async cancelCharge(chargeId: string): Promise<ProviderCharge> {
+    return this.call(async () => this.toCharge(await this.stripe.paymentIntents.cancel(chargeId)));
+  }
+
+  async refundCharge(chargeId: string, amount?: Money): Promise<ProviderRefund> {
+    return this.call(async () => {
+      const refund = await this.stripe.refunds.create({ payment_intent: chargeId, amount: amount?.amount });
+      return {
+        id: refund.id,
+        chargeId,
+        amount: Money.of(refund.amount, refund.currency.toUpperCase()),
+        status: REFUND_STATUSES[refund.status || 'pending'] || 'pending',
+      };
+    });
+  }
+
+  async retrieveCharge(chargeId: string): Promise<ProviderCharge> {
+    return this.call(async () => {
+      const intent = await this.stripe.paymentIntents.retrieve(chargeId, { expand: ['latest_charge'] });
+      return this.toCharge(intent);
+    });
+  }
+
+  async findCharge(paymentId: string): Promise<ProviderCharge | null> {
+    return this.call(async () => {
+      const { data } = await this.stripe.paymentIntents.search({
+        query: `metadata['paymentId']:'${paymentId}'`,
+        expand: ['data.latest_charge'],
+        limit: 1,
+      });
+      return data.length > 0 ? this.toCharge(data[0]) : null;
+    });
+  }
+
+  async describePaymentMethod(paymentMethod: string): Promise<PaymentMethodDetails> {
+    return this.call(async () => {
+      const { card } = await this.stripe.paymentMethods.retrieve(paymentMethod);
+      return { fingerprint: card?.fingerprint || undefined, country: card?.country || undefined };
+    });
+  }
+
+  async submitDisputeEvidence(disputeId: string, { text, files }: DisputeEvidenceSubmission): Promise<void> {
+    return this.call(async () => {
+      const evidence: Record<string, string> = {};
+      if (text) evidence.uncategorized_text = text;
+      for (const file of files) {
+        const upload = await this.stripe.files.create({
+          purpose: 'dispute_evidence',
+          file: { data: file.content, name: file.fileName, type: file.contentType },
+        });
+        const field = file.category === 'uncategorized' ? 'uncategorized_file' : file.category;
+        evidence[field] = upload.id;
+      }
+      await this.stripe.disputes.update(disputeId, { evidence, submit: true });
+    });
+  }
+
+  private toCharge(intent: Stripe.PaymentIntent): ProviderCharge {
+    const currency = intent.currency.toUpperCase();
+    const latestCharge = intent.latest_charge;
+    const amountRefunded = latestCharge && typeof latestCharge !== 'string' ? latestCharge.amount_refunded : 0;
+
+    return {
+      id: intent.id,
+      chargeId: typeof latestCharge === 'string' ? latestCharge : latestCharge?.id,
+      status: CHARGE_STATUSES[intent.status],
+      amount: Money.of(intent.amount, currency),
+      amountCaptured: Money.of(intent.amount_received, currency),
+      amountRefunded: Money.of(amountRefunded, currency),
+    };
+  }
+
+  /**
+   * Translate Stripe SDK errors into PaymentProviderError. Only declines and rejected requests
+   * are final; connection, API and rate limit errors are retryable.
+   */
+  private async call<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeCardError || error instanceof Stripe.errors.StripeInvalidRequestError) {
+        throw new PaymentProviderError(error.message, this.name, error.decline_code || error.code);
+      }
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new PaymentProviderError(error.message, this.name, error.code, true);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { PaymentProvider } from './PaymentProvider';
+import { FakePaymentProvider } from './FakePaymentProvider';
+import { StripePaymentProvider } from './StripePaymentProvider';
+
+export * from './PaymentProvider';
+export { FakePaymentProvider } from './FakePaymentProvider';
+export { StripePaymentProvider } from './StripePaymentProvider';
+
+/**
+ * Payment Provider Registry
+ * Resolves the provider for a tenant: a per-tenant override, else PAYMENT_PROVIDER,
+ * else Stripe when a secret key is configured outside tests, else the fake
+ */
+
+const factories: Record<string, () => PaymentProvider> = {
+  stripe: () => new StripePaymentProvider(),
+  fake: () => new FakePaymentProvider(),
+};
+
+const instances = new Map<string, PaymentProvider>();
+const tenantOverrides = new Map<string, string>();
+
+/**
+ * Parse PAYMENT_PROVIDER_OVERRIDES, e.g. "tenant-a:fake,tenant-b:stripe"
+ */
+(process.env.PAYMENT_PROVIDER_OVERRIDES || '')
+  .split(',')
+  .map((entry) => entry.trim().split(':'))
+  .filter(([tenantId, name]) => tenantId && name)
+  .forEach(([tenantId, name]) => tenantOverrides.set(tenantId, name));
+
+const defaultProviderName = (): string => {
+  if (process.env.PAYMENT_PROVIDER) return process.env.PAYMENT_PROVIDER;
+  return process.env.STRIPE_SECRET_KEY && process.env.NODE_ENV !== 'test' ? 'stripe' : 'fake';
+};
+
+export const getPaymentProviderByName = (name: string): PaymentProvider => {
+  let provider = instances.get(name);
+  if (!provider) {
+    const factory = factories[name];
+    if (!factory) throw new Error(`Unknown payment provider: ${name}`);
+    provider = factory();
+    instances.set(name, provider);
+  }
+  return provider;
+};
+
+export const getPaymentProvider = (tenantId?: string): PaymentProvider => {
+  const name = (tenantId && tenantOverrides.get(tenantId)) || defaultProviderName();
+  return getPaymentProviderByName(name);
+};
+
+export const setTenantPaymentProvider = (tenantId: string, name: string | null): void => {
+  if (name === null) {
+    tenantOverrides.delete(tenantId);
+    return;
+  }
+  if (!factories[name]) throw new Error(`Unknown payment provider: ${name}`);
+  tenantOverrides.set(tenantId, name);
+};
+
+/**
+ * Register a provider instance under a name, replacing any existing one
+ */
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  factories[provider.name] = () => provider;
+  instances.set(provider.name, provider);
+};
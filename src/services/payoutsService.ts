@@ -0,0 +1,268 @@
+import { Payout, PayoutSettings } from '../models/types';
+import { Money } from '../models/money';
+import { BusinessRuleError, ValidationError } from '../common/errors';
+import { ledgerRepository, paymentsRepository, payoutSettingsRepository, payoutsRepository } from '../db/repositories';
+import { getTransferProvider, TransferProviderError } from './transferProviders';
+import { organizerAccount, recordPayout } from './ledgerService';
+import { isCapturedPayment } from './orderBalance';
+import { withOrderLock } from './orderLock';
+import { withTransaction } from '../config/database';
+
+/**
+ * Payouts Service
+ * Pays organizers their settled net proceeds on a schedule, holding recent sales in reserve
+ */
+
+export const PAYOUT_SCHEDULES: PayoutSettings['schedule'][] = ['daily', 'weekly', 'manual'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long sales are held by default: long enough for most refunds and early disputes
+ */
+export const DEFAULT_PAYOUT_RESERVE_DAYS = parseInt(process.env.PAYOUT_RESERVE_DAYS || '7', 10);
+
+export interface PayoutSettingsInput {
+  destination: string;
+  schedule: PayoutSettings['schedule'];
+  reserveDays?: number;
+}
+
+/**
+ * An organizer's position in one currency. `balance` is what the ledger says is owed; sales
+ * still in reserve and payouts in flight are not yet available.
+ */
+export interface OrganizerBalance {
+  currency: string;
+  balance: Money;
+  held: Money;
+  pending: Money;
+  available: Money;
+}
+
+interface BalanceWithSales extends OrganizerBalance {
+  /** Completed sales past the reserve that no payout has included yet */
+  eligibleSales: { orderId: string; amount: Money }[];
+}
+
+export const getPayoutSettings = async (organizerId: string): Promise<PayoutSettings | null> => {
+  return payoutSettingsRepository.findByOrganizerId(organizerId);
+};
+
+export const savePayoutSettings = async (
+  organizerId: string,
+  input: PayoutSettingsInput
+): Promise<PayoutSettings> => {
+  if (typeof input.destination !== 'string' || !input.destination.trim()) {
+    throw new ValidationError('destination is required');
+  }
+  if (!PAYOUT_SCHEDULES.includes(input.schedule)) {
+    throw new ValidationError(`schedule must be one of: ${PAYOUT_SCHEDULES.join(', ')}`);
+  }
+  const reserveDays = input.reserveDays ?? DEFAULT_PAYOUT_RESERVE_DAYS;
+  if (!Number.isInteger(reserveDays) || reserveDays < 0) {
+    throw new ValidationError('reserveDays must be a non-negative integer');
+  }
+  const now = Date.now();
+  return payoutSettingsRepository.create({
+    organizerId,
+    destination: input.destination.trim(),
+    schedule: input.schedule,
+    reserveDays,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Work out what can be paid out per currency from the organizer's ledger account and the
+ * payouts made so far. Refunds and chargebacks booked after a payout leave the balance
+ * negative, which is carried forward into the next payout.
+ */
+const computeBalances = async (
+  organizerId: string,
+  reserveCutoff: number
+): Promise<Map<string, BalanceWithSales>> => {
+  const account = organizerAccount(organizerId);
+  const payouts = await payoutsRepository.findByOrganizerId(organizerId);
+  const paidOrders = new Set(payouts.filter((p) => p.status !== 'failed').flatMap((p) => p.orderIds));
+
+  const balances = new Map<string, BalanceWithSales>();
+  const balanceFor = (currency: string): BalanceWithSales => {
+    let balance = balances.get(currency);
+    if (!balance) {
+      const zero = Money.zero(currency);
+      balance = { currency, balance: zero, held: zero, pending: zero, available: zero, eligibleSales: [] };
+      balances.set(currency, balance);
+    }
+    return balance;
+  };
+
+  for (const entry of await ledgerRepository.findByAccount(account)) {
+    for (const posting of entry.postings.filter((p) => p.accountCode === account)) {
+      const balance = balanceFor(posting.amount.currency);
+      const signed =
+        posting.direction === 'credit' ? posting.amount : Money.zero(balance.currency).subtract(posting.amount);
+      balance.balance = balance.balance.add(signed);
+
+      if (entry.type !== 'sale' || !entry.orderId || paidOrders.has(entry.orderId)) continue;
+      if (entry.createdAt <= reserveCutoff) {
+        balance.eligibleSales.push({ orderId: entry.orderId, amount: signed });
+      } else {
+        balance.held = balance.held.add(signed);
+      }
+    }
+  }
+
+  for (const payout of payouts.filter((p) => p.status === 'pending')) {
+    const balance = balanceFor(payout.amount.currency);
+    balance.pending = balance.pending.add(payout.amount);
+  }
+  for (const balance of balances.values()) {
+    balance.available = balance.balance.subtract(balance.held).subtract(balance.pending);
+  }
+  return balances;
+};
+
+const reserveCutoffFor = (settings: PayoutSettings | null, now: number): number =>
+  now - (settings ? settings.reserveDays : DEFAULT_PAYOUT_RESERVE_DAYS) * DAY_MS;
+
+export const getOrganizerBalance = async (
+  organizerId: string,
+  now: number = Date.now()
+): Promise<OrganizerBalance[]> => {
+  const settings = await getPayoutSettings(organizerId);
+  const balances = await computeBalances(organizerId, reserveCutoffFor(settings, now));
+  return [...balances.values()].map(({ eligibleSales, ...balance }) => balance);
+};
+
+export const getPayout = async (payoutId: string): Promise<Payout | null> => {
+  return payoutsRepository.findById(payoutId);
+};
+
+export const getOrganizerPayouts = async (organizerId: string): Promise<Payout[]> => {
+  return payoutsRepository.findByOrganizerId(organizerId);
+};
+
+/**
+ * Send one payout through the transfer provider. A rejected transfer marks the payout
+ * failed, which returns its sales to the next run; any other error leaves it pending so it
+ * is never paid twice.
+ */
+const executePayout = async (payout: Payout): Promise<Payout> => {
+  let transferId: string;
+  try {
+    const transfer = await getTransferProvider().createTransfer({
+      destination: payout.destination,
+      amount: payout.amount,
+      metadata: { payoutId: payout.id, organizerId: payout.organizerId },
+      idempotencyKey: `payout-${payout.id}`,
+    });
+    transferId = transfer.id;
+  } catch (error) {
+    if (!(error instanceof TransferProviderError)) throw error;
+    return (await payoutsRepository.update(payout.id, { status: 'failed', failureReason: error.message }))!;
+  }
+
+  return withTransaction(async () => {
+    const paid = await payoutsRepository.update(payout.id, {
+      status: 'paid',
+      providerTransferId: transferId,
+      paidAt: Date.now(),
+    });
+    await recordPayout({
+      referenceId: payout.id,
+      amount: payout.amount,
+      payableAccount: organizerAccount(payout.organizerId),
+      description: `Payout ${payout.id} to organizer ${payout.organizerId}`,
+    });
+    return paid!;
+  });
+};
+
+/**
+ * Pay out an organizer's available balance, one payout per currency that has money
+ * available. Returns the payouts made, including any the provider rejected.
+ */
+export const createPayouts = async (organizerId: string, now: number = Date.now()): Promise<Payout[]> => {
+  return withOrderLock(`payout:${organizerId}`, async () => {
+    // The settings row stays locked until the payouts are recorded as pending, so requests on
+    // other instances count them as in flight instead of paying the same balance again
+    const pending = await withTransaction(async () => {
+      const settings = await payoutSettingsRepository.findByOrganizerIdForUpdate(organizerId);
+      if (!settings) {
+        throw new BusinessRuleError('Organizer has no payout settings', 'PAYOUT_SETTINGS_MISSING', { organizerId });
+      }
+
+      const reserveCutoff = reserveCutoffFor(settings, now);
+      const created: Payout[] = [];
+      for (const balance of (await computeBalances(organizerId, reserveCutoff)).values()) {
+        if (!balance.available.isPositive()) continue;
+
+        const orderIds = balance.eligibleSales.map((sale) => sale.orderId);
+        const salesTotal = balance.eligibleSales.reduce(
+          (sum, sale) => sum.add(sale.amount),
+          Money.zero(balance.currency)
+        );
+        const payments = (await Promise.all(orderIds.map((id) => paymentsRepository.findByOrderId(id)))).flat();
+        created.push(
+          await payoutsRepository.create({
+            organizerId,
+            amount: balance.available,
+            status: 'pending',
+            salesTotal,
+            adjustments: balance.available.subtract(salesTotal),
+            orderIds,
+            paymentIds: payments.filter(isCapturedPayment).map((p) => p.id),
+            provider: getTransferProvider().name,
+            destination: settings.destination,
+            reserveCutoff,
+            createdAt: now,
+            updatedAt: now,
+          })
+        );
+      }
+      return created;
+    });
+
+    const payouts: Payout[] = [];
+    for (const payout of pending) payouts.push(await executePayout(payout));
+    return payouts;
+  });
+};
+
+/**
+ * Start of the UTC day, or of the ISO week (Monday), containing `now`
+ */
+const scheduleStart = (schedule: 'daily' | 'weekly', now: number): number => {
+  const date = new Date(now);
+  const daysBack = schedule === 'weekly' ? (date.getUTCDay() + 6) % 7 : 0;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysBack);
+};
+
+/**
+ * How long an instance keeps its claim on an organizer's scheduled run before another may retry it
+ */
+const PAYOUT_RUN_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Pay every organizer on a daily or weekly schedule who has not been paid yet in the current
+ * UTC day or week. Each organizer is claimed first, so runs on several instances pay them once.
+ * Failures are logged and retried on the next run.
+ */
+export const runScheduledPayouts = async (now: number = Date.now()): Promise<Payout[]> => {
+  const payouts: Payout[] = [];
+  for (const settings of await payoutSettingsRepository.findBySchedules(['daily', 'weekly'])) {
+    const periodStart = scheduleStart(settings.schedule as 'daily' | 'weekly', now);
+    try {
+      if (!(await payoutSettingsRepository.claimPayoutRun(settings.organizerId, now, PAYOUT_RUN_CLAIM_MS))) continue;
+      const previous = await payoutsRepository.findByOrganizerId(settings.organizerId);
+      if (previous.some((p) => p.createdAt >= periodStart)) continue;
+
+      payouts.push(...(await createPayouts(settings.organizerId, now)));
+    } catch (error) {
+      console.error(`Failed to pay out organizer ${settings.organizerId}:`, error);
+    }
+  }
+  return payouts;
+};
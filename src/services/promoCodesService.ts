@@ -0,0 +1,413 @@
+import { Order, OrderDiscount, OrderLineItem, PromoCode } from '../models/types';
+import { Money, MoneyJSON } from '../models/money';
+import { BusinessRuleError, ConflictError, NotFoundError, ValidationError } from '../common/errors';
+import { promoCodesRepository, promoRedemptionsRepository } from '../db/repositories';
+import { DEFAULT_TENANT_ID } from '../common/request-context';
+import { withOrderLock } from './orderLock';
+import { isUniqueViolation, withTransaction } from '../config/database';
+
+/**
+ * Promo Codes Service
+ * Discount codes: their rules, the discount they give an order, and their redemption caps
+ */
+
+export const PROMO_CODE_KINDS: PromoCode['kind'][] = ['percentage', 'fixed'];
+export const MAX_PROMO_CODES_PER_ORDER = 5;
+
+const CODE_FORMAT = /^[A-Z0-9_-]{3,32}$/;
+
+export interface PromoCodeInput {
+  code: string;
+  tenantId?: string;
+  kind: PromoCode['kind'];
+  percentage?: number;
+  amountOff?: MoneyJSON;
+  minimumSpend?: MoneyJSON;
+  ticketIds?: string[];
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  startsAt?: number;
+  endsAt?: number;
+  stackable?: boolean;
+  createdBy: string;
+}
+
+export type PromoCodeChanges = Partial<
+  Pick<PromoCode, 'active' | 'startsAt' | 'endsAt' | 'maxRedemptions' | 'maxRedemptionsPerUser'>
+>;
+
+/**
+ * Who is applying codes, for tenant scoping and per-user caps
+ */
+export interface PromoCodeContext {
+  tenantId?: string;
+  userId: string;
+}
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+const positiveInteger = (name: string, value: unknown): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new ValidationError(`${name} must be a positive integer`);
+  }
+  return value as number;
+};
+
+const optionalTimestamp = (name: string, value: unknown): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new ValidationError(`${name} must be an epoch millisecond value`);
+  }
+  return value as number;
+};
+
+const assertWindow = (startsAt: number | undefined, endsAt: number | undefined): void => {
+  if (startsAt !== undefined && endsAt !== undefined && endsAt <= startsAt) {
+    throw new ValidationError('endsAt must be after startsAt');
+  }
+};
+
+const parseDiscount = (input: PromoCodeInput): Pick<PromoCode, 'percentage' | 'amountOff'> => {
+  if (input.kind === 'percentage') {
+    const { percentage } = input;
+    if (typeof percentage !== 'number' || !Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+      throw new ValidationError('percentage must be a number greater than 0 and at most 100');
+    }
+    if (Math.abs(percentage * 100 - Math.round(percentage * 100)) > 1e-9) {
+      throw new ValidationError('percentage must have at most two decimals');
+    }
+    if (input.amountOff !== undefined) throw new ValidationError('amountOff is only allowed on fixed codes');
+    return { percentage };
+  }
+
+  const amountOff = Money.fromJSON(input.amountOff, 'amountOff');
+  if (!amountOff.isPositive()) throw new ValidationError('amountOff must be greater than zero');
+  if (input.percentage !== undefined) throw new ValidationError('percentage is only allowed on percentage codes');
+  return { amountOff };
+};
+
+const parseTicketIds = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'string' || !id.trim())) {
+    throw new ValidationError('ticketIds must be an array of non-empty strings');
+  }
+  return [...new Set(value.map((id: string) => id.trim()))];
+};
+
+export const listPromoCodes = async (): Promise<PromoCode[]> => {
+  return promoCodesRepository.findAll();
+};
+
+export const getPromoCode = async (promoCodeId: string): Promise<PromoCode> => {
+  const promoCode = await promoCodesRepository.findById(promoCodeId);
+  if (!promoCode) throw new NotFoundError('Promo code not found', { promoCodeId });
+  return promoCode;
+};
+
+export const createPromoCode = async (input: PromoCodeInput): Promise<PromoCode> => {
+  if (typeof input.code !== 'string' || !CODE_FORMAT.test(normalizePromoCode(input.code))) {
+    throw new ValidationError('code must be 3 to 32 letters, digits, dashes or underscores');
+  }
+  if (!PROMO_CODE_KINDS.includes(input.kind)) {
+    throw new ValidationError(`kind must be one of: ${PROMO_CODE_KINDS.join(', ')}`);
+  }
+  if (input.tenantId !== undefined && (typeof input.tenantId !== 'string' || !input.tenantId)) {
+    throw new ValidationError('tenantId must be a non-empty string');
+  }
+  const { percentage, amountOff } = parseDiscount(input);
+  const minimumSpend =
+    input.minimumSpend === undefined ? undefined : Money.fromJSON(input.minimumSpend, 'minimumSpend');
+  if (minimumSpend?.isNegative()) throw new ValidationError('minimumSpend must not be negative');
+  if (minimumSpend && amountOff && minimumSpend.currency !== amountOff.currency) {
+    throw new ValidationError('minimumSpend and amountOff must use the same currency');
+  }
+  if (input.stackable !== undefined && typeof input.stackable !== 'boolean') {
+    throw new ValidationError('stackable must be a boolean');
+  }
+  const startsAt = optionalTimestamp('startsAt', input.startsAt);
+  const endsAt = optionalTimestamp('endsAt', input.endsAt);
+  assertWindow(startsAt, endsAt);
+
+  const code = normalizePromoCode(input.code);
+  const exists = () => new ConflictError('Promo code already exists', 'PROMO_CODE_EXISTS', { promoCode: code });
+  if (await promoCodesRepository.findOwnedCode(code, input.tenantId)) throw exists();
+
+  const now = Date.now();
+  try {
+    return await promoCodesRepository.create({
+      code,
+      tenantId: input.tenantId,
+      kind: input.kind,
+      percentage,
+      amountOff,
+      minimumSpend,
+      ticketIds: parseTicketIds(input.ticketIds),
+      maxRedemptions: positiveInteger('maxRedemptions', input.maxRedemptions),
+      maxRedemptionsPerUser: positiveInteger('maxRedemptionsPerUser', input.maxRedemptionsPerUser),
+      redemptionCount: 0,
+      startsAt,
+      endsAt,
+      stackable: input.stackable ?? false,
+      active: true,
+      createdBy: input.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    // A concurrent create of the same code gets past the lookup but not the unique index
+    if (isUniqueViolation(error, 'idx_promo_codes_code')) throw exists();
+    throw error;
+  }
+};
+
+/**
+ * Change when and how often a code can be used, or switch it off. Orders keep the
+ * discounts they were created with.
+ */
+export const updatePromoCode = async (promoCodeId: string, changes: PromoCodeChanges): Promise<PromoCode> => {
+  const promoCode = await getPromoCode(promoCodeId);
+  if (changes.active !== undefined && typeof changes.active !== 'boolean') {
+    throw new ValidationError('active must be a boolean');
+  }
+  const startsAt = optionalTimestamp('startsAt', changes.startsAt);
+  const endsAt = optionalTimestamp('endsAt', changes.endsAt);
+  assertWindow(startsAt ?? promoCode.startsAt, endsAt ?? promoCode.endsAt);
+  const maxRedemptions = positiveInteger('maxRedemptions', changes.maxRedemptions);
+  if (maxRedemptions !== undefined && maxRedemptions < promoCode.redemptionCount) {
+    throw new ValidationError(`maxRedemptions cannot be below the ${promoCode.redemptionCount} redemptions made`);
+  }
+
+  const updated = await promoCodesRepository.update(promoCodeId, {
+    active: changes.active,
+    startsAt,
+    endsAt,
+    maxRedemptions,
+    maxRedemptionsPerUser: positiveInteger('maxRedemptionsPerUser', changes.maxRedemptionsPerUser),
+  });
+  return updated!;
+};
+
+/**
+ * Throw when the code is switched off, outside its validity window, or used up overall
+ * or by this user
+ */
+const assertRedeemable = async (promoCode: PromoCode, userId: string, now: number): Promise<void> => {
+  const { code } = promoCode;
+  if (!promoCode.active) {
+    throw new BusinessRuleError('Promo code is not valid', 'PROMO_CODE_INVALID', { promoCode: code });
+  }
+  if (promoCode.startsAt !== undefined && promoCode.startsAt > now) {
+    throw new BusinessRuleError('Promo code is not valid yet', 'PROMO_CODE_NOT_STARTED', {
+      promoCode: code,
+      startsAt: promoCode.startsAt,
+    });
+  }
+  if (promoCode.endsAt !== undefined && promoCode.endsAt <= now) {
+    throw new BusinessRuleError('Promo code has expired', 'PROMO_CODE_EXPIRED', {
+      promoCode: code,
+      endsAt: promoCode.endsAt,
+    });
+  }
+  if (promoCode.maxRedemptions && promoCode.redemptionCount >= promoCode.maxRedemptions) {
+    throw new BusinessRuleError('Promo code has been used up', 'PROMO_CODE_EXHAUSTED', { promoCode: code });
+  }
+  await assertWithinUserLimit(promoCode, userId);
+};
+
+const assertWithinUserLimit = async (promoCode: PromoCode, userId: string): Promise<void> => {
+  if (
+    promoCode.maxRedemptionsPerUser &&
+    (await promoRedemptionsRepository.countActiveByUser(promoCode.id, userId)) >= promoCode.maxRedemptionsPerUser
+  ) {
+    throw new BusinessRuleError('You have already used this promo code', 'PROMO_CODE_USER_LIMIT', {
+      promoCode: promoCode.code,
+      maxRedemptionsPerUser: promoCode.maxRedemptionsPerUser,
+    });
+  }
+};
+
+const lineDiscount = (promoCode: PromoCode, remaining: Money[], eligible: number[]): Money[] => {
+  const { currency } = remaining[0];
+  const lineAmounts = remaining.map(() => Money.zero(currency));
+  if (promoCode.kind === 'percentage') {
+    const basisPoints = Math.round(promoCode.percentage! * 100);
+    for (const index of eligible) {
+      lineAmounts[index] = Money.of(Math.round((remaining[index].amount * basisPoints) / 10000), currency);
+    }
+    return lineAmounts;
+  }
+
+  const amountOff = promoCode.amountOff!;
+  if (amountOff.currency !== currency) {
+    throw new BusinessRuleError(
+      `Promo code currency ${amountOff.currency} does not match order currency ${currency}`,
+      'PROMO_CODE_CURRENCY_MISMATCH',
+      { promoCode: promoCode.code }
+    );
+  }
+  const eligibleTotal = eligible.reduce((sum, index) => sum.add(remaining[index]), Money.zero(currency));
+  if (!eligibleTotal.isPositive()) return lineAmounts;
+  const total = amountOff.greaterThan(eligibleTotal) ? eligibleTotal : amountOff;
+  total.allocate(eligible.map((index) => remaining[index].amount)).forEach((share, i) => {
+    lineAmounts[eligible[i]] = share;
+  });
+  return lineAmounts;
+};
+
+/**
+ * Validate the codes a buyer entered and work out the discount each gives, in the order
+ * entered. Each code discounts what earlier codes left, so stacked discounts never take a
+ * line below zero. Caps are checked here and again, under lock, when the order is created.
+ */
+export const applyPromoCodes = async (
+  lineItems: OrderLineItem[],
+  codes: unknown,
+  { tenantId, userId }: PromoCodeContext,
+  now: number = Date.now()
+): Promise<OrderDiscount[]> => {
+  if (codes === undefined || codes === null) return [];
+  if (!Array.isArray(codes) || codes.some((code) => typeof code !== 'string')) {
+    throw new ValidationError('promoCodes must be an array of strings');
+  }
+  if (codes.length > MAX_PROMO_CODES_PER_ORDER) {
+    throw new ValidationError(`At most ${MAX_PROMO_CODES_PER_ORDER} promo codes can be applied to an order`);
+  }
+  const normalized = codes.map(normalizePromoCode);
+  if (new Set(normalized).size !== normalized.length) {
+    throw new ValidationError('promoCodes must not repeat a code');
+  }
+
+  const { currency } = lineItems[0].lineTotal;
+  const subtotal = lineItems.reduce((sum, item) => sum.add(item.lineTotal), Money.zero(currency));
+  const promoCodes: PromoCode[] = [];
+  for (const code of normalized) {
+    const promoCode = await promoCodesRepository.findByCode(code, tenantId || DEFAULT_TENANT_ID);
+    if (!promoCode) throw new BusinessRuleError('Promo code is not valid', 'PROMO_CODE_INVALID', { promoCode: code });
+    await assertRedeemable(promoCode, userId, now);
+
+    const { minimumSpend } = promoCode;
+    if (minimumSpend && minimumSpend.currency !== currency) {
+      throw new BusinessRuleError(
+        `Promo code currency ${minimumSpend.currency} does not match order currency ${currency}`,
+        'PROMO_CODE_CURRENCY_MISMATCH',
+        { promoCode: code }
+      );
+    }
+    if (minimumSpend && minimumSpend.greaterThan(subtotal)) {
+      throw new BusinessRuleError(
+        `Promo code requires a minimum spend of ${minimumSpend}`,
+        'PROMO_CODE_MINIMUM_SPEND',
+        { promoCode: code, minimumSpend }
+      );
+    }
+    promoCodes.push(promoCode);
+  }
+
+  const unstackable = promoCodes.find((p) => !p.stackable);
+  if (promoCodes.length > 1 && unstackable) {
+    throw new BusinessRuleError('Promo code cannot be combined with other codes', 'PROMO_CODE_NOT_STACKABLE', {
+      promoCode: unstackable.code,
+    });
+  }
+
+  const remaining = lineItems.map((item) => item.lineTotal);
+  return promoCodes.map((promoCode) => {
+    const eligible = lineItems
+      .map((item, index) => index)
+      .filter((index) => promoCode.ticketIds.length === 0 || promoCode.ticketIds.includes(lineItems[index].ticketId));
+    if (eligible.length === 0) {
+      throw new BusinessRuleError('Promo code does not apply to any ticket in the order', 'PROMO_CODE_NOT_APPLICABLE', {
+        promoCode: promoCode.code,
+      });
+    }
+    const lineAmounts = lineDiscount(promoCode, remaining, eligible);
+    lineAmounts.forEach((amount, index) => {
+      remaining[index] = remaining[index].subtract(amount);
+    });
+    return {
+      promoCodeId: promoCode.id,
+      code: promoCode.code,
+      amount: lineAmounts.reduce((sum, amount) => sum.add(amount), Money.zero(currency)),
+      lineAmounts,
+    };
+  });
+};
+
+/**
+ * The line items with their totals reduced by the discounts: what the buyer pays per line
+ */
+export const discountedLineItems = (lineItems: OrderLineItem[], discounts: OrderDiscount[]): OrderLineItem[] => {
+  return lineItems.map((item, index) => ({
+    ...item,
+    lineTotal: discounts.reduce((total, discount) => total.subtract(discount.lineAmounts[index]), item.lineTotal),
+  }));
+};
+
+/**
+ * Create an order through `createOrder` while holding each code's lock, so concurrent orders
+ * cannot take a code past its caps, and record a redemption per code against it. Across
+ * instances, counting the redemption locks the code's row until the transaction ends, and
+ * the user's redemptions are counted again under that lock.
+ */
+export const redeemPromoCodes = async (
+  userId: string,
+  discounts: OrderDiscount[],
+  createOrder: () => Promise<Order>
+): Promise<Order> => {
+  const redeem = async (): Promise<Order> => {
+    const now = Date.now();
+    for (const discount of discounts) {
+      const promoCode = await promoCodesRepository.findById(discount.promoCodeId);
+      if (!promoCode) {
+        throw new BusinessRuleError('Promo code is not valid', 'PROMO_CODE_INVALID', { promoCode: discount.code });
+      }
+      await assertRedeemable(promoCode, userId, now);
+    }
+
+    return withTransaction(async () => {
+      const order = await createOrder();
+      for (const discount of discounts) {
+        const promoCode = await promoCodesRepository.adjustRedemptionCount(discount.promoCodeId, 1);
+        if (!promoCode) {
+          throw new BusinessRuleError('Promo code has been used up', 'PROMO_CODE_EXHAUSTED', {
+            promoCode: discount.code,
+          });
+        }
+        await assertWithinUserLimit(promoCode, userId);
+        await promoRedemptionsRepository.create({
+          promoCodeId: discount.promoCodeId,
+          orderId: order.id,
+          userId,
+          amount: discount.amount,
+          status: 'active',
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      return order;
+    });
+  };
+
+  // Locks are always taken in the same order so two orders sharing codes cannot deadlock
+  const promoCodeIds = discounts.map((discount) => discount.promoCodeId).sort();
+  return promoCodeIds.reduceRight<() => Promise<Order>>(
+    (next, promoCodeId) => () => withOrderLock(`promo:${promoCodeId}`, next),
+    redeem
+  )();
+};
+
+/**
+ * Give back the redemptions an order holds, e.g. when it is cancelled before being paid
+ */
+export const releasePromoRedemptions = async (orderId: string): Promise<void> => {
+  const redemptions = await promoRedemptionsRepository.findByOrderId(orderId);
+  for (const redemption of redemptions.filter((r) => r.status === 'active')) {
+    await withOrderLock(`promo:${redemption.promoCodeId}`, () =>
+      withTransaction(async () => {
+        await promoRedemptionsRepository.update(redemption.id, { status: 'released' });
+        await promoCodesRepository.adjustRedemptionCount(redemption.promoCodeId, -1);
+      })
+    );
+  }
+};
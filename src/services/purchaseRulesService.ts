@@ -0,0 +1,321 @@
+import { Order, OrderLineItem, Presale, PurchaseLimit } from '../models/types';
+import { BusinessRuleError, ConflictError, NotFoundError, ValidationError } from '../common/errors';
+import { ordersRepository, presalesRepository, purchaseLimitsRepository } from '../db/repositories';
+import { withOrderLock } from './orderLock';
+import { withTransaction } from '../config/database';
+import { findTicketEvents } from './ticketSettingsService';
+
+/**
+ * Purchase Rules Service
+ * Who may order which tickets and how many: per-user purchase limits per ticket or event,
+ * and presale access codes that unlock tickets before general on-sale
+ */
+
+const ACCESS_CODE_FORMAT = /^[A-Z0-9_-]{3,32}$/;
+
+export interface PurchaseLimitInput {
+  ticketId?: string;
+  eventId?: string;
+  maxQuantity: number;
+}
+
+export interface PresaleInput {
+  accessCode: string;
+  ticketIds?: string[];
+  eventId?: string;
+  /** Both required; optional here so a missing one is reported as a validation error */
+  startsAt?: number;
+  onSaleAt?: number;
+  maxUses?: number;
+}
+
+export type PresaleChanges = Partial<Pick<Presale, 'active' | 'startsAt' | 'onSaleAt' | 'maxUses'>>;
+
+/** Line items with the ticket settings applied, so `eventId` is the server's */
+type OrderedItem = Pick<OrderLineItem, 'ticketId' | 'quantity' | 'eventId'>;
+
+export const normalizeAccessCode = (code: string): string => code.trim().toUpperCase();
+
+const optionalId = (name: string, value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ValidationError(`${name} must be a non-empty string`);
+  }
+  return value.trim();
+};
+
+const positiveInteger = (name: string, value: unknown): number => {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new ValidationError(`${name} must be a positive integer`);
+  }
+  return value as number;
+};
+
+const optionalTimestamp = (name: string, value: unknown): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new ValidationError(`${name} must be an epoch millisecond value`);
+  }
+  return value as number;
+};
+
+const assertWindow = (startsAt: number, onSaleAt: number): void => {
+  if (onSaleAt <= startsAt) throw new ValidationError('onSaleAt must be after startsAt');
+};
+
+const parseTicketIds = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'string' || !id.trim())) {
+    throw new ValidationError('ticketIds must be an array of non-empty strings');
+  }
+  return [...new Set(value.map((id: string) => id.trim()))];
+};
+
+export const listPurchaseLimits = async (): Promise<PurchaseLimit[]> => {
+  return (await purchaseLimitsRepository.findAll()).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createPurchaseLimit = async (input: PurchaseLimitInput): Promise<PurchaseLimit> => {
+  const ticketId = optionalId('ticketId', input.ticketId);
+  const eventId = optionalId('eventId', input.eventId);
+  if (!ticketId === !eventId) {
+    throw new ValidationError('A purchase limit applies to either a ticketId or an eventId');
+  }
+  const now = Date.now();
+  return purchaseLimitsRepository.create({
+    ticketId,
+    eventId,
+    maxQuantity: positiveInteger('maxQuantity', input.maxQuantity),
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Change how many tickets a limit allows. Orders already made are not affected, but count
+ * towards the new limit.
+ */
+export const updatePurchaseLimit = async (limitId: string, maxQuantity: unknown): Promise<PurchaseLimit> => {
+  const limit = await purchaseLimitsRepository.findById(limitId);
+  if (!limit) throw new NotFoundError('Purchase limit not found', { limitId });
+  return (await purchaseLimitsRepository.update(limitId, {
+    maxQuantity: positiveInteger('maxQuantity', maxQuantity),
+  }))!;
+};
+
+export const deletePurchaseLimit = async (limitId: string): Promise<void> => {
+  if (!(await purchaseLimitsRepository.delete(limitId))) {
+    throw new NotFoundError('Purchase limit not found', { limitId });
+  }
+};
+
+/**
+ * Throw when the new line items would take the user past any limit on their tickets or
+ * events, counting the tickets of the user's orders that are not cancelled. Tickets belong
+ * to the events their settings name now, whatever was recorded on older orders. Run inside
+ * a transaction: the user's purchases stay locked until it ends.
+ */
+const assertWithinPurchaseLimits = async (userId: string, lineItems: OrderedItem[]): Promise<void> => {
+  const ordered = await findTicketEvents(lineItems.map((item) => item.ticketId));
+  const limits = await purchaseLimitsRepository.findApplicable(
+    lineItems.map((item) => item.ticketId),
+    [...ordered.values()]
+  );
+  if (limits.length === 0) return;
+
+  await purchaseLimitsRepository.lockUserPurchases(userId);
+  const held = (await ordersRepository.findByUserId(userId))
+    .filter((order) => order.status !== 'cancelled')
+    .flatMap((order) => order.lineItems);
+  const events = await findTicketEvents([...lineItems, ...held].map((item) => item.ticketId));
+
+  const applies = (limit: PurchaseLimit, item: OrderedItem) =>
+    limit.ticketId ? limit.ticketId === item.ticketId : limit.eventId === events.get(item.ticketId);
+  const count = (limit: PurchaseLimit, items: OrderedItem[]) =>
+    items.filter((item) => applies(limit, item)).reduce((sum, item) => sum + item.quantity, 0);
+
+  for (const limit of limits) {
+    const purchased = count(limit, held);
+    if (purchased + count(limit, lineItems) > limit.maxQuantity) {
+      throw new BusinessRuleError(`At most ${limit.maxQuantity} tickets per person`, 'PURCHASE_LIMIT_EXCEEDED', {
+        ...(limit.ticketId ? { ticketId: limit.ticketId } : { eventId: limit.eventId }),
+        maxQuantity: limit.maxQuantity,
+        purchased,
+      });
+    }
+  }
+};
+
+export const listPresales = async (): Promise<Presale[]> => {
+  return (await presalesRepository.findAll()).sort((a, b) => a.startsAt - b.startsAt);
+};
+
+export const getPresale = async (presaleId: string): Promise<Presale> => {
+  const presale = await presalesRepository.findById(presaleId);
+  if (!presale) throw new NotFoundError('Presale not found', { presaleId });
+  return presale;
+};
+
+export const createPresale = async (input: PresaleInput): Promise<Presale> => {
+  if (typeof input.accessCode !== 'string' || !ACCESS_CODE_FORMAT.test(normalizeAccessCode(input.accessCode))) {
+    throw new ValidationError('accessCode must be 3 to 32 letters, digits, dashes or underscores');
+  }
+  const ticketIds = parseTicketIds(input.ticketIds);
+  const eventId = optionalId('eventId', input.eventId);
+  if (ticketIds.length === 0 && !eventId) {
+    throw new ValidationError('A presale must cover ticketIds, an eventId, or both');
+  }
+  const startsAt = optionalTimestamp('startsAt', input.startsAt);
+  const onSaleAt = optionalTimestamp('onSaleAt', input.onSaleAt);
+  if (startsAt === undefined || onSaleAt === undefined) {
+    throw new ValidationError('startsAt and onSaleAt are required');
+  }
+  assertWindow(startsAt, onSaleAt);
+
+  const accessCode = normalizeAccessCode(input.accessCode);
+  if (await presalesRepository.findByAccessCode(accessCode)) {
+    throw new ConflictError('Access code already exists', 'PRESALE_CODE_EXISTS', { accessCode });
+  }
+
+  const now = Date.now();
+  return presalesRepository.create({
+    accessCode,
+    ticketIds,
+    eventId,
+    startsAt,
+    onSaleAt,
+    maxUses: input.maxUses === undefined ? undefined : positiveInteger('maxUses', input.maxUses),
+    useCount: 0,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Move a presale's window, change its cap, or switch it off, which opens its tickets to
+ * everyone unless another presale still covers them
+ */
+export const updatePresale = async (presaleId: string, changes: PresaleChanges): Promise<Presale> => {
+  const presale = await getPresale(presaleId);
+  if (changes.active !== undefined && typeof changes.active !== 'boolean') {
+    throw new ValidationError('active must be a boolean');
+  }
+  const startsAt = optionalTimestamp('startsAt', changes.startsAt);
+  const onSaleAt = optionalTimestamp('onSaleAt', changes.onSaleAt);
+  assertWindow(startsAt ?? presale.startsAt, onSaleAt ?? presale.onSaleAt);
+  const maxUses = changes.maxUses === undefined ? undefined : positiveInteger('maxUses', changes.maxUses);
+  if (maxUses !== undefined && maxUses < presale.useCount) {
+    throw new ValidationError(`maxUses cannot be below the ${presale.useCount} uses made`);
+  }
+
+  return (await presalesRepository.update(presaleId, { active: changes.active, startsAt, onSaleAt, maxUses }))!;
+};
+
+const covers = (presale: Presale, item: OrderedItem): boolean =>
+  presale.ticketIds.includes(item.ticketId) || (!!presale.eventId && presale.eventId === item.eventId);
+
+/**
+ * The presale whose access code unlocks the order's tickets, or undefined when none of them
+ * is still before general on-sale. A ticket covered by several presales opens to everyone
+ * at the latest of their on-sale times; until then the code entered must cover it and be
+ * within its window.
+ */
+export const checkPresaleAccess = async (
+  lineItems: OrderedItem[],
+  accessCode: unknown,
+  now: number = Date.now()
+): Promise<Presale | undefined> => {
+  if (accessCode !== undefined && accessCode !== null && typeof accessCode !== 'string') {
+    throw new ValidationError('accessCode must be a string');
+  }
+  const upcoming = await presalesRepository.findUpcoming(now);
+  const gated = lineItems.filter((item) => upcoming.some((presale) => covers(presale, item)));
+  if (gated.length === 0) return undefined;
+
+  if (!accessCode) {
+    const item = gated[0];
+    const onSaleAt = Math.max(...upcoming.filter((p) => covers(p, item)).map((p) => p.onSaleAt));
+    throw new BusinessRuleError('These tickets are in presale and need an access code', 'PRESALE_ACCESS_REQUIRED', {
+      ticketId: item.ticketId,
+      onSaleAt,
+    });
+  }
+  const code = normalizeAccessCode(accessCode);
+  const presale = await presalesRepository.findByAccessCode(code);
+  if (!presale || !presale.active || now >= presale.onSaleAt || !gated.every((item) => covers(presale, item))) {
+    throw new BusinessRuleError('Access code is not valid for these tickets', 'PRESALE_CODE_INVALID', {
+      accessCode: code,
+    });
+  }
+  if (presale.startsAt > now) {
+    throw new BusinessRuleError('Presale has not started yet', 'PRESALE_NOT_STARTED', {
+      accessCode: code,
+      startsAt: presale.startsAt,
+    });
+  }
+  if (presale.maxUses && presale.useCount >= presale.maxUses) {
+    throw new BusinessRuleError('Access code has been used up', 'PRESALE_CODE_EXHAUSTED', { accessCode: code });
+  }
+  return presale;
+};
+
+/**
+ * Create an order through `createOrder` once the user's purchase limits allow it, using up
+ * one use of the presale's code. The user's orders are serialized, across instances through
+ * a lock held in the order's transaction, so concurrent ones cannot pass a limit together.
+ * The use is taken first so the last one cannot go to two buyers, and given back when the
+ * order is refused, e.g. for lack of seats.
+ */
+export const applyPurchaseRules = async (
+  userId: string,
+  lineItems: OrderedItem[],
+  presale: Presale | undefined,
+  createOrder: () => Promise<Order>
+): Promise<Order> => {
+  return withOrderLock(`purchases:${userId}`, () =>
+    withTransaction(async () => {
+      await assertWithinPurchaseLimits(userId, lineItems);
+      if (!presale) return createOrder();
+
+      if (!(await presalesRepository.adjustUseCount(presale.id, 1))) {
+        throw new BusinessRuleError('Access code has been used up', 'PRESALE_CODE_EXHAUSTED', {
+          accessCode: presale.accessCode,
+        });
+      }
+      try {
+        return await createOrder();
+      } catch (error) {
+        if (error instanceof BusinessRuleError) await presalesRepository.adjustUseCount(presale.id, -1);
+        throw error;
+      }
+    })
+  );
+};
+
+/**
+ * Take the presale code use a failed order gave back again before running `next`, when the
+ * order is retried; the use is given back when `next` is refused
+ */
+export const reclaimPresaleUse = async (order: Order, next: () => Promise<Order>): Promise<Order> => {
+  if (!order.presaleId) return next();
+
+  if (!(await presalesRepository.adjustUseCount(order.presaleId, 1))) {
+    throw new BusinessRuleError('Access code has been used up', 'PRESALE_CODE_EXHAUSTED', {
+      presaleId: order.presaleId,
+    });
+  }
+  try {
+    return await next();
+  } catch (error) {
+    if (error instanceof BusinessRuleError) await presalesRepository.adjustUseCount(order.presaleId, -1);
+    throw error;
+  }
+};
+
+/**
+ * Give back the use an order made of a presale code, when it is cancelled or fails
+ */
+export const releasePresaleUse = async (order: Order): Promise<void> => {
+  if (order.presaleId) await presalesRepository.adjustUseCount(order.presaleId, -1);
+};
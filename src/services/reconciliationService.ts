@@ -0,0 +1,314 @@
+import { Payment } from '../models/types';
+import { Money } from '../models/money';
+import { ValidationError } from '../common/errors';
+import { parseCsv, toCsv } from '../common/csv';
+import { paymentsRepository } from '../db/repositories';
+import { CAPTURED_PAYMENT_STATUSES, capturedAmount } from './orderBalance';
+
+/**
+ * Reconciliation Service
+ * Matches a Stripe balance-transaction export against local payments and reports the differences
+ */
+
+/**
+ * Balance transaction types that record money collected for a payment
+ */
+const PAYMENT_LINE_TYPES = ['charge', 'payment'];
+
+/**
+ * Accepted spellings of each column, after lowercasing and dropping a " (UTC)" suffix. Covers the
+ * dashboard's balance-transaction export and the itemized payout reconciliation report.
+ */
+const COLUMN_ALIASES: Record<keyof Omit<SettlementLine, 'line'>, string[]> = {
+  id: ['id', 'balance_transaction_id'],
+  type: ['type', 'reporting_category'],
+  source: ['source', 'source_id', 'charge_id'],
+  paymentIntentId: ['payment_intent_id', 'payment_intent'],
+  amount: ['amount', 'gross'],
+  fee: ['fee'],
+  net: ['net'],
+  created: ['created', 'created_utc'],
+};
+
+export interface SettlementLine {
+  /** 1-based line number in the report, counting the header */
+  line: number;
+  id: string;
+  type: string;
+  source?: string;
+  paymentIntentId?: string;
+  amount: Money;
+  fee: Money;
+  net: Money;
+  created?: number;
+}
+
+export type DiscrepancyKind = 'missing_locally' | 'missing_remotely' | 'amount_mismatch';
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  paymentId?: string;
+  stripePaymentId?: string;
+  balanceTransactionIds: string[];
+  /** What our payments table recorded */
+  expected?: Money;
+  /** What the provider settled */
+  actual?: Money;
+}
+
+export interface SettlementTotals {
+  currency: string;
+  gross: Money;
+  fees: Money;
+  net: Money;
+}
+
+export interface ReconciliationReport {
+  /** Window checked for payments missing from the report; null when the report has no dates */
+  period: { from: number; to: number } | null;
+  summary: {
+    lines: number;
+    paymentLines: number;
+    matched: number;
+    missingLocally: number;
+    missingRemotely: number;
+    amountMismatches: number;
+  };
+  totals: SettlementTotals[];
+  discrepancies: Discrepancy[];
+}
+
+export interface ReconciliationOptions {
+  /** Local payments created in this window must appear in the report; defaults to the report's own span */
+  from?: number;
+  to?: number;
+}
+
+const normalizeHeader = (name: string): string => {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\s*\(utc\)$/, '')
+    .replace(/\s+/g, '_');
+};
+
+/**
+ * Parse the Created column: Stripe exports "YYYY-MM-DD HH:MM:SS" in UTC, the API uses unix seconds
+ */
+const parseTimestamp = (value: string): number | undefined => {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10) * 1000;
+  const parsed = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Parse a balance-transaction CSV export. Amounts are major-unit decimals as Stripe writes
+ * them; columns are found by header name, so extra or reordered columns are fine.
+ */
+export const parseSettlementReport = (csv: string): SettlementLine[] => {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) throw new ValidationError('Settlement report is empty');
+
+  const headers = header.map(normalizeHeader);
+  const column = (aliases: string[]) => headers.findIndex((h) => aliases.includes(h));
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([field, aliases]) => [field, column(aliases)])
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+  const currencyColumn = column(['currency']);
+
+  const required: [string, number][] = [
+    ['id', columns.id],
+    ['amount', columns.amount],
+    ['fee', columns.fee],
+    ['currency', currencyColumn],
+    ['source or payment_intent_id', Math.max(columns.source, columns.paymentIntentId)],
+  ];
+  const missing = required.filter(([, index]) => index < 0).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new ValidationError(`Settlement report is missing columns: ${missing.join(', ')}`);
+  }
+
+  return rows.map((row, index) => {
+    const line = index + 2;
+    const value = (field: keyof typeof COLUMN_ALIASES) => (row[columns[field]] || '').trim();
+    const currency = (row[currencyColumn] || '').trim().toUpperCase();
+    const money = (decimal: string) => Money.fromDecimal(decimal.replace(/,/g, ''), currency);
+    try {
+      const amount = money(value('amount'));
+      const fee = money(value('fee') || '0');
+      return {
+        line,
+        id: value('id'),
+        type: value('type').toLowerCase(),
+        source: value('source') || undefined,
+        paymentIntentId: value('paymentIntentId') || undefined,
+        amount,
+        fee,
+        net: value('net') ? money(value('net')) : amount.subtract(fee),
+        created: parseTimestamp(value('created')),
+      };
+    } catch (error: any) {
+      throw new ValidationError(`Settlement report line ${line}: ${error.message}`, { line });
+    }
+  });
+};
+
+const findPaymentForLine = async (line: SettlementLine): Promise<Payment | null> => {
+  if (line.paymentIntentId) return paymentsRepository.findByStripeId(line.paymentIntentId);
+  if (!line.source) return null;
+  if (line.source.startsWith('pi_')) return paymentsRepository.findByStripeId(line.source);
+  return paymentsRepository.findByStripeChargeId(line.source);
+};
+
+/**
+ * Total settled for one payment; lines in another currency than the first cannot belong to it
+ */
+const settledAmount = (lines: SettlementLine[]): Money => {
+  const [first, ...rest] = lines;
+  return rest.reduce((sum, l) => (l.amount.currency === sum.currency ? sum.add(l.amount) : sum), first.amount);
+};
+
+/**
+ * The window local payments must fall in to be expected in the report, or null when the
+ * report carries no dates and no complete window was given
+ */
+const reportPeriod = (lines: SettlementLine[], options: ReconciliationOptions): { from: number; to: number } | null => {
+  const timestamps = lines.map((l) => l.created).filter((t): t is number => t !== undefined);
+  if (timestamps.length === 0 && (options.from === undefined || options.to === undefined)) return null;
+
+  // Reports run to hundreds of thousands of lines, too many to spread into Math.min
+  const from = options.from ?? timestamps.reduce((min, t) => Math.min(min, t), Infinity);
+  const to = options.to ?? timestamps.reduce((max, t) => Math.max(max, t), -Infinity);
+  if (from > to) throw new ValidationError('from must not be after to');
+  return { from, to };
+};
+
+const computeTotals = (lines: SettlementLine[]): SettlementTotals[] => {
+  const byCurrency = new Map<string, SettlementTotals>();
+  for (const { amount, fee, net } of lines) {
+    const zero = Money.zero(amount.currency);
+    const totals = byCurrency.get(amount.currency) || { currency: amount.currency, gross: zero, fees: zero, net: zero };
+    byCurrency.set(amount.currency, {
+      currency: amount.currency,
+      gross: totals.gross.add(amount),
+      fees: totals.fees.add(fee),
+      net: totals.net.add(net),
+    });
+  }
+  return [...byCurrency.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+};
+
+/**
+ * Compare settled payment lines with captured Stripe payments. A payment settled over several
+ * lines is compared on their sum; local payments in the period with no line are missing remotely.
+ */
+export const reconcileSettlement = async (
+  lines: SettlementLine[],
+  options: ReconciliationOptions = {}
+): Promise<ReconciliationReport> => {
+  const paymentLines = lines.filter((l) => PAYMENT_LINE_TYPES.includes(l.type));
+  const discrepancies: Discrepancy[] = [];
+  const settled = new Map<string, { payment: Payment; lines: SettlementLine[] }>();
+
+  for (const line of paymentLines) {
+    const payment = await findPaymentForLine(line);
+    if (!payment) {
+      discrepancies.push({
+        kind: 'missing_locally',
+        stripePaymentId: line.paymentIntentId || line.source,
+        balanceTransactionIds: [line.id],
+        actual: line.amount,
+      });
+      continue;
+    }
+    const entry = settled.get(payment.id) || { payment, lines: [] };
+    entry.lines.push(line);
+    settled.set(payment.id, entry);
+  }
+
+  let matched = 0;
+  for (const { payment, lines: matchedLines } of settled.values()) {
+    const expected = capturedAmount(payment);
+    const actual = settledAmount(matchedLines);
+    if (expected.currency === actual.currency && expected.equals(actual)) {
+      matched++;
+      continue;
+    }
+    discrepancies.push({
+      kind: 'amount_mismatch',
+      paymentId: payment.id,
+      stripePaymentId: payment.stripePaymentId,
+      balanceTransactionIds: matchedLines.map((l) => l.id),
+      expected,
+      actual,
+    });
+  }
+
+  const period = reportPeriod(lines, options);
+  const local = period
+    ? await paymentsRepository.findByProviderAndStatusBetween(
+        'stripe',
+        CAPTURED_PAYMENT_STATUSES,
+        period.from,
+        period.to
+      )
+    : [];
+  for (const payment of local.filter((p) => !settled.has(p.id))) {
+    discrepancies.push({
+      kind: 'missing_remotely',
+      paymentId: payment.id,
+      stripePaymentId: payment.stripePaymentId,
+      balanceTransactionIds: [],
+      expected: capturedAmount(payment),
+    });
+  }
+
+  const count = (kind: DiscrepancyKind) => discrepancies.filter((d) => d.kind === kind).length;
+  return {
+    period,
+    summary: {
+      lines: lines.length,
+      paymentLines: paymentLines.length,
+      matched,
+      missingLocally: count('missing_locally'),
+      missingRemotely: count('missing_remotely'),
+      amountMismatches: count('amount_mismatch'),
+    },
+    totals: computeTotals(lines),
+    discrepancies,
+  };
+};
+
+/**
+ * Parse and reconcile a settlement report in one step
+ */
+export const reconcileSettlementReport = async (
+  csv: string,
+  options: ReconciliationOptions = {}
+): Promise<ReconciliationReport> => {
+  return reconcileSettlement(parseSettlementReport(csv), options);
+};
+
+/**
+ * Flatten a report to CSV: one row per discrepancy, then one fee-total row per currency
+ */
+export const reportToCsv = (report: ReconciliationReport): string => {
+  const decimal = (money?: Money) => (money ? money.toDecimalString() : '');
+  const rows: unknown[][] = report.discrepancies.map((d) => [
+    d.kind,
+    d.paymentId,
+    d.stripePaymentId,
+    d.balanceTransactionIds.join(' '),
+    (d.expected || d.actual)?.currency,
+    decimal(d.expected),
+    decimal(d.actual),
+  ]);
+  for (const totals of report.totals) {
+    rows.push(['fee_total', '', '', '', totals.currency, '', decimal(totals.fees)]);
+  }
+  return toCsv(
+    ['kind', 'payment_id', 'stripe_payment_id', 'balance_transaction_ids', 'currency', 'expected', 'actual'],
+    rows
+  );
+};
@@ -0,0 +1,398 @@
+import { Order, Payment, Refund, RefundLineItem } from '../models/types';
+import { Money } from '../models/money';
+import { BusinessRuleError, ConflictError, NotFoundError, ValidationError } from '../common/errors';
+import { paymentsRepository, refundsRepository } from '../db/repositories';
+import { getPaymentProviderByName, PaymentProviderError } from './paymentProviders';
+import { capturedAmount, computeOrderBalance, isCapturedPayment } from './orderBalance';
+import { getAllowedTransitions } from './orderLifecycle';
+import { withOrderLock } from './orderLock';
+import { recordRefund } from './ledgerService';
+import { withTransaction } from '../config/database';
+import { getOrder, getOrderPayments, offerWaitlistedSeats, updateOrderStatus } from './ordersService';
+import { creditWallet, WALLET_PAYMENT_METHOD } from './walletService';
+import { GIFT_CARD_PAYMENT_METHOD, restoreGiftCardBalance } from './giftCardsService';
+import { discountedLineItems } from './promoCodesService';
+import { presentmentRefundAmount } from './fxService';
+import { releaseRefundedInventory } from './inventoryService';
+import { DEFAULT_TENANT_ID } from '../common/request-context';
+
+/**
+ * Refunds Service
+ * Full and partial refunds against captured payments, back to the card or into store credit
+ */
+
+/**
+ * Orders still collecting payment must be cancelled before anything is refunded
+ */
+const UNREFUNDABLE_ORDER_STATUSES: Order['status'][] = ['pending', 'processing'];
+
+export interface RefundRequest {
+  paymentId: string;
+  amount?: Money;
+  /** Refund these tickets at what was paid for them; an alternative to `amount` */
+  lineItems?: RefundLineItem[];
+  reason?: string;
+  /** Defaults to the payment method; payments made from store credit always go back to it */
+  destination?: Refund['destination'];
+  /** The tenant whose wallet receives store credit for card payments */
+  tenantId?: string;
+  requestedBy: string;
+}
+
+export interface RefundResult {
+  order: Order | null;
+  payment: Payment | null;
+  refund: Refund;
+}
+
+type RefundReferences = Partial<Pick<Refund, 'providerRefundId' | 'errorMessage'>>;
+
+const sumRefunds = (refunds: Refund[], currency: string): Money => {
+  return refunds.reduce((sum, r) => sum.add(r.amount), Money.zero(currency));
+};
+
+export const getRefund = async (refundId: string): Promise<Refund | null> => {
+  return refundsRepository.findById(refundId);
+};
+
+export const getOrderRefunds = async (orderId: string): Promise<Refund[]> => {
+  return refundsRepository.findByOrderId(orderId);
+};
+
+/**
+ * What is left to refund on a payment; refunds still in flight count as used
+ */
+export const getRefundableAmount = async (payment: Payment): Promise<Money> => {
+  const refunds = await refundsRepository.findByPaymentId(payment.id);
+  const committed = sumRefunds(refunds.filter((r) => r.status !== 'failed'), payment.amount.currency);
+  const remaining = capturedAmount(payment).subtract(committed);
+  return remaining.isNegative() ? Money.zero(payment.amount.currency) : remaining;
+};
+
+/**
+ * Recompute the payment's refunded total from its succeeded refunds, then move the
+ * payment, and the order when it was completed, to partially_refunded or refunded
+ */
+const applyRefunds = async (refund: Refund): Promise<void> => {
+  const payment = await paymentsRepository.findById(refund.paymentId);
+  if (!payment) return;
+
+  const refunds = await refundsRepository.findByPaymentId(payment.id);
+  const amountRefunded = sumRefunds(refunds.filter((r) => r.status === 'succeeded'), payment.amount.currency);
+  await paymentsRepository.update(payment.id, {
+    amountRefunded,
+    status: amountRefunded.equals(capturedAmount(payment)) ? 'refunded' : 'partially_refunded',
+  });
+
+  const order = await getOrder(refund.orderId);
+  if (!order) return;
+  const { paid, refunded } = computeOrderBalance(order, await getOrderPayments(order.id));
+  const target: Order['status'] = refunded.equals(paid) ? 'refunded' : 'partially_refunded';
+  if (getAllowedTransitions(order.status).includes(target)) {
+    await updateOrderStatus(order.id, target, { actor: refund.requestedBy, reason: refund.reason || 'Refund issued' });
+  }
+};
+
+/**
+ * Record the provider's final answer for a pending refund. Settling twice is a no-op,
+ * so the synchronous response and a later webhook can both report the outcome. Refunded
+ * tickets go back on sale, offered first to the waitlist.
+ */
+export const settleRefund = async (
+  refund: Refund,
+  status: 'succeeded' | 'failed',
+  { providerRefundId, errorMessage }: RefundReferences = {}
+): Promise<Refund> => {
+  const settled = await withOrderLock(refund.orderId, async () => {
+    const current = (await refundsRepository.findById(refund.id)) || refund;
+    if (current.status !== 'pending') return current;
+
+    const changes: Partial<Refund> = { status };
+    if (providerRefundId) changes.providerRefundId = providerRefundId;
+    if (errorMessage) changes.errorMessage = errorMessage;
+    return withTransaction(async () => {
+      const updated = (await refundsRepository.update(refund.id, changes)) || current;
+      if (status === 'succeeded') {
+        await applyRefunds(updated);
+        await recordRefund(updated);
+        await releaseRefundedInventory(updated);
+      }
+      return updated;
+    });
+  });
+  if (status === 'succeeded') {
+    const order = await getOrder(refund.orderId);
+    await offerWaitlistedSeats((order?.lineItems || []).map((item) => item.ticketId));
+  }
+  return settled;
+};
+
+const parseRefundLineItems = (items: unknown): RefundLineItem[] => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ValidationError('lineItems must be a non-empty array');
+  }
+  const parsed = items.map((item, index) => {
+    if (!item || typeof item.ticketId !== 'string' || !item.ticketId) {
+      throw new ValidationError(`lineItems[${index}].ticketId is required`);
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new ValidationError(`lineItems[${index}].quantity must be a positive integer`);
+    }
+    return { ticketId: item.ticketId as string, quantity: item.quantity as number };
+  });
+  if (new Set(parsed.map((item) => item.ticketId)).size !== parsed.length) {
+    throw new ValidationError('lineItems must not repeat a ticket');
+  }
+  return parsed;
+};
+
+interface RefundAmounts {
+  amount: Money;
+  /** The tax `amount` returns; undefined for untaxed orders */
+  tax?: Money;
+}
+
+/**
+ * What the buyer paid for the tickets being refunded, after the order's discounts and with
+ * their tax. Each line's discounted total and each of its tax lines are split evenly over its
+ * tickets, and tickets already refunded are skipped, so refunding every ticket one by one
+ * returns exactly what was paid.
+ */
+const ticketRefundAmounts = (order: Order, refunds: Refund[], items: RefundLineItem[]): RefundAmounts => {
+  const refundedItems = refunds.flatMap((r) => r.lineItems || []);
+  const lines = discountedLineItems(order.lineItems, order.discounts);
+  const { currency } = order.totalAmount;
+  const splitPerTicket = (amount: Money, quantity: number) => amount.allocate(new Array(quantity).fill(1));
+
+  let amount = Money.zero(currency);
+  let tax = Money.zero(currency);
+  for (const { ticketId, quantity } of items) {
+    const tickets = lines.flatMap((line, index) => {
+      if (line.ticketId !== ticketId) return [];
+      const prices = splitPerTicket(line.lineTotal, line.quantity);
+      const taxes = prices.map(() => Money.zero(currency));
+      for (const taxLine of order.taxLines.filter((t) => t.lineIndex === index)) {
+        splitPerTicket(taxLine.amount, line.quantity).forEach((share, i) => {
+          taxes[i] = taxes[i].add(share);
+          if (taxLine.pricingMode === 'exclusive') prices[i] = prices[i].add(share);
+        });
+      }
+      return prices.map((price, i) => ({ price, tax: taxes[i] }));
+    });
+    const refunded = refundedItems.filter((i) => i.ticketId === ticketId).reduce((n, i) => n + i.quantity, 0);
+    if (refunded + quantity > tickets.length) {
+      throw new BusinessRuleError('Refund exceeds the tickets left to refund', 'REFUND_EXCEEDS_TICKETS', {
+        ticketId,
+        refundable: tickets.length - refunded,
+      });
+    }
+    for (const ticket of tickets.slice(refunded, refunded + quantity)) {
+      amount = amount.add(ticket.price);
+      tax = tax.add(ticket.tax);
+    }
+  }
+  return { amount, tax: order.taxLines.length > 0 ? tax : undefined };
+};
+
+/**
+ * The tax returned by refunding `amount` of a taxed order: its share of the order's tax, and
+ * whatever tax is left once the whole order has been refunded
+ */
+const proratedTax = (order: Order, refunds: Refund[], amount: Money): Money | undefined => {
+  if (order.taxLines.length === 0) return undefined;
+  const { currency } = order.totalAmount;
+  const refundedAmount = refunds.reduce((sum, r) => sum.add(r.amount), Money.zero(currency));
+  const refundedTax = refunds.reduce((sum, r) => (r.tax ? sum.add(r.tax) : sum), Money.zero(currency));
+  const remaining = order.fees.tax.subtract(refundedTax);
+  if (!order.totalAmount.greaterThan(refundedAmount.add(amount))) return remaining;
+
+  const share = Money.of(Math.round((order.fees.tax.amount * amount.amount) / order.totalAmount.amount), currency);
+  return share.greaterThan(remaining) ? remaining : share;
+};
+
+/**
+ * Validate a refund against the payment and reserve it as pending, so concurrent
+ * requests cannot refund more than was captured
+ */
+const reserveRefund = async (
+  orderId: string,
+  request: RefundRequest
+): Promise<{ order: Order; payment: Payment; refund: Refund }> => {
+  return withOrderLock(orderId, async () => {
+    const order = await getOrder(orderId);
+    if (!order) throw new NotFoundError('Order not found');
+    if (UNREFUNDABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new ConflictError(
+        `Cannot refund an order that is ${order.status}; cancel it first`,
+        'ORDER_NOT_REFUNDABLE',
+        { status: order.status }
+      );
+    }
+
+    const payment = await paymentsRepository.findById(request.paymentId);
+    if (!payment || payment.orderId !== order.id) {
+      throw new NotFoundError('Payment not found', { paymentId: request.paymentId });
+    }
+    const fromWallet = payment.provider === WALLET_PAYMENT_METHOD;
+    // Store credit and gift card payments have no provider reference
+    const hasReference = !!payment.stripePaymentId || fromWallet || payment.provider === GIFT_CARD_PAYMENT_METHOD;
+    if (!isCapturedPayment(payment) || !payment.provider || !hasReference) {
+      throw new BusinessRuleError('Only captured payments can be refunded', 'PAYMENT_NOT_REFUNDABLE', {
+        paymentStatus: payment.status,
+      });
+    }
+
+    if (request.amount && request.lineItems) {
+      throw new ValidationError('Pass either amount or lineItems, not both');
+    }
+    const lineItems = request.lineItems && parseRefundLineItems(request.lineItems);
+    const refundable = await getRefundableAmount(payment);
+    const orderRefunds = (await refundsRepository.findByOrderId(order.id)).filter((r) => r.status !== 'failed');
+    let amount = request.amount || refundable;
+    let tax: Money | undefined;
+    if (lineItems) {
+      ({ amount, tax } = ticketRefundAmounts(order, orderRefunds, lineItems));
+    } else if (amount.currency === order.totalAmount.currency) {
+      tax = proratedTax(order, orderRefunds, amount);
+    }
+    if (amount.currency !== payment.amount.currency) {
+      throw new BusinessRuleError(
+        `Refund currency ${amount.currency} does not match payment currency ${payment.amount.currency}`,
+        'REFUND_CURRENCY_MISMATCH',
+        { paymentCurrency: payment.amount.currency }
+      );
+    }
+    if (!amount.isPositive() || amount.greaterThan(refundable)) {
+      throw new BusinessRuleError('Refund exceeds the amount left to refund', 'REFUND_EXCEEDS_CAPTURED', {
+        refundable,
+      });
+    }
+    const destination = fromWallet ? 'store_credit' : request.destination || 'payment_method';
+    // Converted payments are refunded to the card at the rate they were charged at
+    const presentmentAmount =
+      destination === 'payment_method'
+        ? presentmentRefundAmount(payment, capturedAmount(payment).subtract(refundable), amount)
+        : undefined;
+
+    const now = Date.now();
+    const refund = await refundsRepository.create({
+      orderId: order.id,
+      paymentId: payment.id,
+      amount,
+      reason: request.reason,
+      status: 'pending',
+      destination,
+      lineItems,
+      tax,
+      presentmentAmount,
+      requestedBy: request.requestedBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { order, payment, refund };
+  });
+};
+
+/**
+ * Credit the refund to the buyer's wallet in the tenant the payment was made in; the
+ * wallet transaction stands in for the provider's refund reference
+ */
+const refundToStoreCredit = async (order: Order, payment: Payment, refund: Refund, request: RefundRequest) => {
+  return withTransaction(async () => {
+    const transaction = await creditWallet('refund', {
+      tenantId: payment.metadata?.tenantId || request.tenantId || DEFAULT_TENANT_ID,
+      userId: order.userId,
+      amount: refund.amount,
+      orderId: order.id,
+      paymentId: payment.id,
+      refundId: refund.id,
+      description: refund.reason,
+      createdBy: refund.requestedBy,
+    });
+    return settleRefund(refund, 'succeeded', { providerRefundId: transaction.id });
+  });
+};
+
+/**
+ * Put the refund back on the gift card the payment was redeemed from
+ */
+const refundToGiftCard = async (payment: Payment, refund: Refund) => {
+  return withTransaction(async () => {
+    await restoreGiftCardBalance(payment.metadata!.giftCardId, refund.amount);
+    return settleRefund(refund, 'succeeded');
+  });
+};
+
+/**
+ * Refund all or part of a captured payment through the provider that charged it, back
+ * onto its gift card, or into store credit. Omitting the amount refunds whatever is left;
+ * refunding by ticket charges back each ticket's share of the order's discounts. Provider
+ * failures are recorded on the refund rather than thrown.
+ */
+export const createRefund = async (orderId: string, request: RefundRequest): Promise<RefundResult> => {
+  const { order, payment, refund: reserved } = await reserveRefund(orderId, request);
+  let refund = reserved;
+
+  if (refund.destination === 'store_credit' || payment.provider === GIFT_CARD_PAYMENT_METHOD) {
+    refund =
+      refund.destination === 'store_credit'
+        ? await refundToStoreCredit(order, payment, refund, request)
+        : await refundToGiftCard(payment, refund);
+    return { refund, order: await getOrder(orderId), payment: await paymentsRepository.findById(payment.id) };
+  }
+
+  try {
+    const provider = getPaymentProviderByName(payment.provider!);
+    const providerRefund = await provider.refundCharge(
+      payment.stripePaymentId!,
+      refund.presentmentAmount || refund.amount
+    );
+    if (providerRefund.status === 'succeeded') {
+      refund = await settleRefund(refund, 'succeeded', { providerRefundId: providerRefund.id });
+    } else if (providerRefund.status === 'failed') {
+      refund = await settleRefund(refund, 'failed', {
+        providerRefundId: providerRefund.id,
+        errorMessage: 'Refund failed',
+      });
+    } else {
+      refund = (await refundsRepository.update(refund.id, { providerRefundId: providerRefund.id })) || refund;
+    }
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) throw error;
+    refund = await settleRefund(refund, 'failed', { errorMessage: error.message });
+  }
+
+  return {
+    order: await getOrder(orderId),
+    payment: await paymentsRepository.findById(payment.id),
+    refund,
+  };
+};
+
+/**
+ * Record refunds made directly at the provider, e.g. from the Stripe dashboard, so
+ * local history adds up to the provider's cumulative refunded total
+ */
+export const recordProviderRefundTotal = async (payment: Payment, totalRefunded: Money): Promise<Refund | null> => {
+  const untracked = await withOrderLock(payment.orderId, async () => {
+    const refunds = await refundsRepository.findByPaymentId(payment.id);
+    const tracked = sumRefunds(refunds.filter((r) => r.status !== 'failed'), payment.amount.currency);
+    const difference = totalRefunded.subtract(tracked);
+    if (!difference.isPositive()) return null;
+
+    const now = Date.now();
+    return refundsRepository.create({
+      orderId: payment.orderId,
+      paymentId: payment.id,
+      amount: difference,
+      reason: 'Refunded at the payment provider',
+      status: 'pending',
+      destination: 'payment_method',
+      presentmentAmount: presentmentRefundAmount(payment, tracked, difference),
+      requestedBy: 'system',
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+  return untracked && settleRefund(untracked, 'succeeded');
+};
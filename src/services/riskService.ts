@@ -0,0 +1,203 @@
+import { Payment, RiskAction, RiskAssessment, RiskReason, RiskRuleSet } from '../models/types';
+import { isSupportedCurrency, Money } from '../models/money';
+import { ValidationError } from '../common/errors';
+import { paymentsRepository, riskRulesRepository } from '../db/repositories';
+import { DEFAULT_TENANT_ID } from '../common/request-context';
+import { PaymentProvider, PaymentProviderError } from './paymentProviders';
+
+/**
+ * Risk Service
+ * Scores payment attempts against per-tenant fraud rules before the provider is called
+ */
+
+export const RISK_ACTIONS: RiskAction[] = ['review', 'block'];
+
+/**
+ * What the engine knows about a payment attempt besides the order itself
+ */
+export interface RiskContext {
+  tenantId?: string;
+  userId?: string;
+  amount: Money;
+  paymentMethod: string;
+  ipAddress?: string;
+  /** ISO 3166-1 alpha-2 country of the IP address, as resolved by the edge */
+  ipCountry?: string;
+  /** When the buyer's account was created, in epoch milliseconds */
+  accountCreatedAt?: number;
+}
+
+export interface RiskRuleSetInput {
+  velocity?: Partial<RiskRuleSet['velocity']>;
+  amount?: Partial<RiskRuleSet['amount']>;
+  countryMismatch?: Partial<RiskRuleSet['countryMismatch']>;
+  newAccount?: Partial<RiskRuleSet['newAccount']>;
+}
+
+/**
+ * Rules for tenants that have not configured any: every check disabled
+ */
+const defaultRules = (tenantId: string): RiskRuleSet => ({
+  tenantId,
+  velocity: { windowMs: 10 * 60 * 1000, maxPerUser: 0, maxPerIp: 0, maxPerCard: 0, action: 'block' },
+  amount: { reviewAbove: {}, blockAbove: {} },
+  countryMismatch: { enabled: false, action: 'review' },
+  newAccount: { minAgeMs: 0, action: 'review' },
+  updatedAt: 0,
+});
+
+export const getRiskRules = async (tenantId: string): Promise<RiskRuleSet> => {
+  return (await riskRulesRepository.findByTenantId(tenantId)) || defaultRules(tenantId);
+};
+
+const nonNegativeInteger = (name: string, value: unknown): number => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new ValidationError(`${name} must be a non-negative integer`);
+  }
+  return value as number;
+};
+
+const riskAction = (name: string, value: unknown): RiskAction => {
+  if (!RISK_ACTIONS.includes(value as RiskAction)) {
+    throw new ValidationError(`${name} must be one of: ${RISK_ACTIONS.join(', ')}`);
+  }
+  return value as RiskAction;
+};
+
+const thresholds = (name: string, value: unknown): Record<string, number> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`${name} must map currency codes to amounts in minor units`);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([currency, amount]) => {
+      if (!isSupportedCurrency(currency)) throw new ValidationError(`${name}: unsupported currency ${currency}`);
+      return [currency, nonNegativeInteger(`${name}.${currency}`, amount)];
+    })
+  );
+};
+
+/**
+ * Change a tenant's rules; sections and fields left out keep their current values
+ */
+export const saveRiskRules = async (tenantId: string, input: RiskRuleSetInput): Promise<RiskRuleSet> => {
+  const current = await getRiskRules(tenantId);
+  const velocity = { ...current.velocity, ...input.velocity };
+  const amount = { ...current.amount, ...input.amount };
+  const countryMismatch = { ...current.countryMismatch, ...input.countryMismatch };
+  const newAccount = { ...current.newAccount, ...input.newAccount };
+
+  if (typeof countryMismatch.enabled !== 'boolean') {
+    throw new ValidationError('countryMismatch.enabled must be a boolean');
+  }
+  return riskRulesRepository.create({
+    tenantId,
+    velocity: {
+      windowMs: nonNegativeInteger('velocity.windowMs', velocity.windowMs),
+      maxPerUser: nonNegativeInteger('velocity.maxPerUser', velocity.maxPerUser),
+      maxPerIp: nonNegativeInteger('velocity.maxPerIp', velocity.maxPerIp),
+      maxPerCard: nonNegativeInteger('velocity.maxPerCard', velocity.maxPerCard),
+      action: riskAction('velocity.action', velocity.action),
+    },
+    amount: {
+      reviewAbove: thresholds('amount.reviewAbove', amount.reviewAbove),
+      blockAbove: thresholds('amount.blockAbove', amount.blockAbove),
+    },
+    countryMismatch: {
+      enabled: countryMismatch.enabled,
+      action: riskAction('countryMismatch.action', countryMismatch.action),
+    },
+    newAccount: {
+      minAgeMs: nonNegativeInteger('newAccount.minAgeMs', newAccount.minAgeMs),
+      action: riskAction('newAccount.action', newAccount.action),
+    },
+    updatedAt: Date.now(),
+  });
+};
+
+/**
+ * Ask the provider about the card only when a rule needs it; a card the provider cannot
+ * describe simply skips those rules
+ */
+const describeCard = async (provider: PaymentProvider, paymentMethod: string, rules: RiskRuleSet) => {
+  if (rules.velocity.maxPerCard === 0 && !rules.countryMismatch.enabled) return {};
+  try {
+    return await provider.describePaymentMethod(paymentMethod);
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) throw error;
+    return {};
+  }
+};
+
+/**
+ * Run the tenant's rules against a payment attempt. The outcome is the strictest action of
+ * any rule that fired; the card fingerprint is returned so the attempt can be counted later.
+ */
+export const assessPayment = async (
+  context: RiskContext,
+  provider: PaymentProvider
+): Promise<{ assessment: RiskAssessment; cardFingerprint?: string }> => {
+  const rules = await getRiskRules(context.tenantId || DEFAULT_TENANT_ID);
+  const card = await describeCard(provider, context.paymentMethod, rules);
+  const now = Date.now();
+  const reasons: RiskReason[] = [];
+
+  const { velocity } = rules;
+  const velocityChecks: [RiskReason['rule'], 'userId' | 'ipAddress' | 'cardFingerprint', string | undefined, number][] =
+    [
+      ['velocity_user', 'userId', context.userId, velocity.maxPerUser],
+      ['velocity_ip', 'ipAddress', context.ipAddress, velocity.maxPerIp],
+      ['velocity_card', 'cardFingerprint', card.fingerprint, velocity.maxPerCard],
+    ];
+  for (const [rule, field, value, limit] of velocityChecks) {
+    if (!value || limit === 0) continue;
+    const attempts = await paymentsRepository.countCreatedSince(field, value, now - velocity.windowMs);
+    if (attempts >= limit) {
+      reasons.push({
+        rule,
+        action: velocity.action,
+        message: `${attempts} payment attempts in the last ${Math.round(velocity.windowMs / 1000)}s (limit ${limit})`,
+      });
+    }
+  }
+
+  const { currency, amount } = context.amount;
+  const blockAbove = rules.amount.blockAbove[currency];
+  const reviewAbove = rules.amount.reviewAbove[currency];
+  if (blockAbove && amount > blockAbove) {
+    reasons.push({ rule: 'amount', action: 'block', message: `Amount exceeds ${Money.of(blockAbove, currency)}` });
+  } else if (reviewAbove && amount > reviewAbove) {
+    reasons.push({ rule: 'amount', action: 'review', message: `Amount exceeds ${Money.of(reviewAbove, currency)}` });
+  }
+
+  const { countryMismatch, newAccount } = rules;
+  if (countryMismatch.enabled && card.country && context.ipCountry && card.country !== context.ipCountry) {
+    reasons.push({
+      rule: 'country_mismatch',
+      action: countryMismatch.action,
+      message: `Card issued in ${card.country} but the request came from ${context.ipCountry}`,
+    });
+  }
+
+  if (newAccount.minAgeMs > 0 && context.accountCreatedAt !== undefined) {
+    const age = now - context.accountCreatedAt;
+    if (age < newAccount.minAgeMs) {
+      reasons.push({
+        rule: 'new_account',
+        action: newAccount.action,
+        message: `Account is ${Math.max(0, Math.round(age / 60000))} minutes old`,
+      });
+    }
+  }
+
+  let outcome: RiskAssessment['outcome'] = 'allow';
+  if (reasons.some((r) => r.action === 'block')) outcome = 'block';
+  else if (reasons.length > 0) outcome = 'review';
+  return { assessment: { outcome, reasons, assessedAt: now }, cardFingerprint: card.fingerprint };
+};
+
+/**
+ * Payments held by a `review` outcome that nobody has decided yet, oldest first
+ */
+export const getReviewQueue = async (): Promise<Payment[]> => {
+  return paymentsRepository.findAwaitingReview();
+};
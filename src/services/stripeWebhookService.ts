@@ -0,0 +1,229 @@
+import Stripe from 'stripe';
+import { Dispute, Payment } from '../models/types';
+import { Money } from '../models/money';
+import { ServiceError, ValidationError } from '../common/errors';
+import { paymentsRepository, refundsRepository, webhookEventsRepository } from '../db/repositories';
+import {
+  applyAuthorizedPayment,
+  applySucceededPayment,
+  markPaymentCaptured,
+  updatePaymentStatus,
+} from './ordersService';
+import { isCapturedPayment } from './orderBalance';
+import { recordProviderRefundTotal, settleRefund } from './refundsService';
+import { recordProviderDispute } from './disputesService';
+import { toSettlement } from './fxService';
+
+/**
+ * Stripe Webhook Service
+ * Verifies Stripe webhook deliveries and applies them to local payments
+ */
+
+/**
+ * Stripe-Signature header is missing or does not match the payload
+ */
+export class WebhookSignatureError extends ServiceError {
+  constructor(message: string) {
+    super(message, 400, 'INVALID_WEBHOOK_SIGNATURE');
+  }
+}
+
+export type WebhookOutcome = 'processed' | 'ignored' | 'duplicate';
+
+/**
+ * Parse an event from the raw request body, rejecting it unless it was signed
+ * with the endpoint secret within Stripe's default five-minute tolerance
+ */
+export const verifyStripeEvent = (
+  payload: unknown,
+  signature: string | undefined,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET
+): Stripe.Event => {
+  if (!secret) {
+    throw new ServiceError('Stripe webhook secret is not configured', 500, 'WEBHOOK_NOT_CONFIGURED');
+  }
+  if (!Buffer.isBuffer(payload) && typeof payload !== 'string') {
+    throw new ValidationError('Webhook body must be the raw JSON payload');
+  }
+  if (!signature) {
+    throw new WebhookSignatureError('Stripe-Signature header is required');
+  }
+  try {
+    return Stripe.webhooks.constructEvent(payload, signature, secret);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeSignatureVerificationError) {
+      throw new WebhookSignatureError(error.message);
+    }
+    throw error;
+  }
+};
+
+const findPaymentForIntent = async (intent: Stripe.PaymentIntent): Promise<Payment | null> => {
+  const payment = await paymentsRepository.findByStripeId(intent.id);
+  if (payment) return payment;
+
+  // The webhook can arrive before processPayment has stored the intent id
+  const paymentId = intent.metadata?.paymentId;
+  const byMetadata = paymentId ? await paymentsRepository.findById(paymentId) : null;
+  return byMetadata && (!byMetadata.stripePaymentId || byMetadata.stripePaymentId === intent.id) ? byMetadata : null;
+};
+
+const expandableId = (value: string | { id: string } | null | undefined): string | undefined => {
+  return typeof value === 'string' ? value : value?.id;
+};
+
+const DISPUTE_STATUSES: Record<Stripe.Dispute.Status, Dispute['status']> = {
+  warning_needs_response: 'needs_response',
+  needs_response: 'needs_response',
+  warning_under_review: 'under_review',
+  under_review: 'under_review',
+  warning_closed: 'won',
+  won: 'won',
+  lost: 'lost',
+};
+
+type EventHandler = (event: Stripe.Event) => Promise<boolean>;
+
+/**
+ * charge.dispute.created, .updated and .closed all carry the full dispute
+ */
+const handleDispute: EventHandler = async (event) => {
+  const dispute = event.data.object as Stripe.Dispute;
+  const intentId = expandableId(dispute.payment_intent);
+  const payment = intentId ? await paymentsRepository.findByStripeId(intentId) : null;
+  if (!payment) return false;
+
+  const dueBy = dispute.evidence_details?.due_by;
+  await recordProviderDispute(payment, {
+    providerDisputeId: dispute.id,
+    reason: dispute.reason,
+    amount: toSettlement(payment, Money.of(dispute.amount, dispute.currency.toUpperCase())),
+    status: DISPUTE_STATUSES[dispute.status] || 'needs_response',
+    evidenceDueBy: dueBy ? dueBy * 1000 : undefined,
+  });
+  return true;
+};
+
+const HANDLERS: Record<string, EventHandler> = {
+  'payment_intent.succeeded': async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const payment = await findPaymentForIntent(intent);
+    if (!payment) return false;
+
+    if (payment.status === 'authorized') {
+      // A manual-capture intent succeeds when it is captured, possibly for less than was held
+      await markPaymentCaptured(payment.id, {
+        status: 'captured',
+        amountCaptured: toSettlement(payment, Money.of(intent.amount_received, intent.currency.toUpperCase())),
+        stripeChargeId: expandableId(intent.latest_charge),
+      });
+    } else if (!isCapturedPayment(payment)) {
+      await markPaymentCaptured(payment.id, {
+        status: 'succeeded',
+        stripePaymentId: intent.id,
+        stripeChargeId: expandableId(intent.latest_charge),
+      });
+    }
+    await applySucceededPayment(payment.orderId);
+    return true;
+  },
+
+  'payment_intent.amount_capturable_updated': async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const payment = await findPaymentForIntent(intent);
+    if (!payment) return false;
+
+    if (payment.status === 'pending' && intent.status === 'requires_capture') {
+      await paymentsRepository.update(payment.id, {
+        status: 'authorized',
+        authorizedAt: Date.now(),
+        stripePaymentId: intent.id,
+      });
+      await applyAuthorizedPayment(payment.orderId);
+    }
+    return true;
+  },
+
+  'payment_intent.canceled': async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const payment = await findPaymentForIntent(intent);
+    if (!payment) return false;
+
+    if (payment.status === 'authorized') {
+      await paymentsRepository.update(payment.id, { status: 'voided' });
+    } else if (payment.status === 'pending') {
+      await updatePaymentStatus(payment.id, 'failed', { stripePaymentId: intent.id, errorMessage: 'Payment canceled' });
+    }
+    return true;
+  },
+
+  'payment_intent.payment_failed': async (event) => {
+    const intent = event.data.object as Stripe.PaymentIntent;
+    const payment = await findPaymentForIntent(intent);
+    if (!payment) return false;
+
+    // A later successful attempt on the same intent wins over an earlier failure
+    if (!isCapturedPayment(payment)) {
+      await updatePaymentStatus(payment.id, 'failed', {
+        stripePaymentId: intent.id,
+        errorMessage: intent.last_payment_error?.message || 'Payment failed',
+      });
+    }
+    return true;
+  },
+
+  'charge.refunded': async (event) => {
+    const charge = event.data.object as Stripe.Charge;
+    const intentId = expandableId(charge.payment_intent);
+    const payment = intentId ? await paymentsRepository.findByStripeId(intentId) : null;
+    if (!payment) return false;
+
+    // amount_refunded is cumulative; only the part not already tracked as a Refund is recorded
+    const totalRefunded = Money.of(charge.amount_refunded, charge.currency.toUpperCase());
+    await recordProviderRefundTotal(payment, toSettlement(payment, totalRefunded));
+    return true;
+  },
+
+  'charge.refund.updated': async (event) => {
+    const providerRefund = event.data.object as Stripe.Refund;
+    const refund = await refundsRepository.findByProviderRefundId(providerRefund.id);
+    if (!refund) return false;
+
+    if (providerRefund.status === 'succeeded') {
+      await settleRefund(refund, 'succeeded');
+    } else if (providerRefund.status === 'failed' || providerRefund.status === 'canceled') {
+      await settleRefund(refund, 'failed', {
+        errorMessage: providerRefund.failure_reason || `Refund ${providerRefund.status}`,
+      });
+    }
+    return true;
+  },
+
+  'charge.dispute.created': handleDispute,
+  'charge.dispute.updated': handleDispute,
+  'charge.dispute.closed': handleDispute,
+};
+
+/**
+ * Apply a verified event once. Redelivered event ids are reported as duplicates;
+ * a failed event is forgotten so Stripe's retry is processed again.
+ */
+export const handleStripeEvent = async (event: Stripe.Event): Promise<WebhookOutcome> => {
+  const claimed = await webhookEventsRepository.claim({
+    id: event.id,
+    provider: 'stripe',
+    type: event.type,
+    receivedAt: Date.now(),
+  });
+  if (!claimed) return 'duplicate';
+
+  try {
+    const handler = HANDLERS[event.type];
+    const handled = handler ? await handler(event) : false;
+    await webhookEventsRepository.update(event.id, { processedAt: Date.now() });
+    return handled ? 'processed' : 'ignored';
+  } catch (error) {
+    await webhookEventsRepository.delete(event.id);
+    throw error;
+  }
+};
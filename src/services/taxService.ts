@@ -0,0 +1,226 @@
+import { BillingAddress, OrderLineItem, TaxLine, TaxRate } from '../models/types';
+import { Money } from '../models/money';
+import { ConflictError, NotFoundError, ValidationError } from '../common/errors';
+import { taxRatesRepository } from '../db/repositories';
+
+/**
+ * Tax Service
+ * The tax rate table and the tax lines of an order, from the buyer's billing jurisdiction
+ * and each ticket's tax category
+ */
+
+export const TAX_PRICING_MODES: TaxRate['pricingMode'][] = ['inclusive', 'exclusive'];
+export const DEFAULT_TAX_CATEGORY = 'standard';
+
+const COUNTRY_FORMAT = /^[A-Z]{2}$/;
+const REGION_FORMAT = /^[A-Z0-9]{1,3}$/;
+
+/**
+ * Rates are kept to three decimals, so they are applied as integers per 100000
+ */
+const RATE_SCALE = 100000;
+
+export interface TaxRateInput {
+  country: string;
+  region?: string;
+  category?: string;
+  name: string;
+  rate: number;
+  pricingMode: TaxRate['pricingMode'];
+  effectiveFrom?: number;
+  effectiveTo?: number;
+}
+
+const parseCountry = (value: unknown): string => {
+  const country = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!COUNTRY_FORMAT.test(country)) throw new ValidationError('country must be an ISO 3166-1 alpha-2 code');
+  return country;
+};
+
+const parseRegion = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const region = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!REGION_FORMAT.test(region)) throw new ValidationError('region must be an ISO 3166-2 subdivision code, e.g. NY');
+  return region;
+};
+
+const parseRate = (value: unknown): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+    throw new ValidationError('rate must be a number between 0 and 100');
+  }
+  if (Math.abs(value * 1000 - Math.round(value * 1000)) > 1e-9) {
+    throw new ValidationError('rate must have at most three decimals');
+  }
+  return value;
+};
+
+export const parseTaxCategory = (name: string, value: unknown): string => {
+  if (value === undefined || value === null) return DEFAULT_TAX_CATEGORY;
+  if (typeof value !== 'string' || !value.trim()) throw new ValidationError(`${name} must be a non-empty string`);
+  return value.trim().toLowerCase();
+};
+
+/**
+ * Validate a billing address from a request; orders without one are not taxed
+ */
+export const parseBillingAddress = (value: unknown): BillingAddress | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('billingAddress must be an object with a country and an optional region');
+  }
+  const { country, region } = value as Record<string, unknown>;
+  const parsedRegion = parseRegion(region);
+  return { country: parseCountry(country), ...(parsedRegion && { region: parsedRegion }) };
+};
+
+const isEffective = (rate: TaxRate, at: number): boolean =>
+  rate.effectiveFrom <= at && (rate.effectiveTo === undefined || at < rate.effectiveTo);
+
+const overlaps = (a: Pick<TaxRate, 'effectiveFrom' | 'effectiveTo'>, b: TaxRate): boolean =>
+  a.effectiveFrom < (b.effectiveTo ?? Infinity) && b.effectiveFrom < (a.effectiveTo ?? Infinity);
+
+/**
+ * Two rates for the same jurisdiction and category may not be in force at the same time
+ */
+const assertNoOverlap = async (rate: Omit<TaxRate, 'id' | 'createdAt' | 'updatedAt'>, excludeId?: string) => {
+  const conflicting = (await taxRatesRepository.findByCountry(rate.country)).find(
+    (other) =>
+      other.id !== excludeId &&
+      other.region === rate.region &&
+      other.category === rate.category &&
+      overlaps(rate, other)
+  );
+  if (conflicting) {
+    throw new ConflictError('Another rate for this jurisdiction and category is in force then', 'TAX_RATE_OVERLAP', {
+      taxRateId: conflicting.id,
+    });
+  }
+};
+
+export const listTaxRates = async (country?: string): Promise<TaxRate[]> => {
+  return country ? taxRatesRepository.findByCountry(parseCountry(country)) : taxRatesRepository.findAll();
+};
+
+export const createTaxRate = async (input: TaxRateInput): Promise<TaxRate> => {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    throw new ValidationError('name is required');
+  }
+  if (!TAX_PRICING_MODES.includes(input.pricingMode)) {
+    throw new ValidationError(`pricingMode must be one of: ${TAX_PRICING_MODES.join(', ')}`);
+  }
+  const now = Date.now();
+  const effectiveFrom = input.effectiveFrom ?? now;
+  if (!Number.isInteger(effectiveFrom) || effectiveFrom < 0) {
+    throw new ValidationError('effectiveFrom must be an epoch millisecond value');
+  }
+  if (input.effectiveTo !== undefined && (!Number.isInteger(input.effectiveTo) || input.effectiveTo <= effectiveFrom)) {
+    throw new ValidationError('effectiveTo must be after effectiveFrom');
+  }
+
+  const rate = {
+    country: parseCountry(input.country),
+    region: parseRegion(input.region),
+    category: parseTaxCategory('category', input.category),
+    name: input.name.trim(),
+    rate: parseRate(input.rate),
+    pricingMode: input.pricingMode,
+    effectiveFrom,
+    effectiveTo: input.effectiveTo,
+  };
+  // Prices in a country either all include tax or all exclude it
+  const countryRates = await taxRatesRepository.findByCountry(rate.country);
+  const mixed = countryRates.find((other) => other.pricingMode !== rate.pricingMode);
+  if (mixed) {
+    throw new ValidationError(`Tax rates in ${rate.country} are ${mixed.pricingMode}`);
+  }
+  await assertNoOverlap(rate);
+
+  return taxRatesRepository.create({ ...rate, createdAt: now, updatedAt: now });
+};
+
+/**
+ * End a rate, e.g. ahead of a rate change; the new rate is added separately from that date.
+ * Orders keep the tax lines they were created with.
+ */
+export const endTaxRate = async (taxRateId: string, effectiveTo: unknown): Promise<TaxRate> => {
+  const rate = await taxRatesRepository.findById(taxRateId);
+  if (!rate) throw new NotFoundError('Tax rate not found', { taxRateId });
+  if (!Number.isInteger(effectiveTo) || (effectiveTo as number) <= rate.effectiveFrom) {
+    throw new ValidationError('effectiveTo must be after effectiveFrom');
+  }
+  await assertNoOverlap({ ...rate, effectiveTo: effectiveTo as number }, rate.id);
+  return (await taxRatesRepository.update(taxRateId, { effectiveTo: effectiveTo as number }))!;
+};
+
+const jurisdictionOf = (rate: TaxRate): string => (rate.region ? `${rate.country}-${rate.region}` : rate.country);
+
+/**
+ * Work out the tax on each line item from the rates in force at `at`. A country's national
+ * rates and those of the buyer's region all apply, national first. Exclusive rates are
+ * charged on the line total; inclusive rates are backed out of it, split between the rates in
+ * proportion. Lines whose category has no rate are not taxed.
+ */
+export const computeTaxLines = async (
+  lineItems: OrderLineItem[],
+  billingAddress: BillingAddress | undefined,
+  at: number = Date.now()
+): Promise<TaxLine[]> => {
+  if (!billingAddress) return [];
+  const rates = (await taxRatesRepository.findByCountry(billingAddress.country))
+    .filter((rate) => isEffective(rate, at) && (!rate.region || rate.region === billingAddress.region))
+    .sort((a, b) => Number(!!a.region) - Number(!!b.region));
+
+  const taxLines: TaxLine[] = [];
+  lineItems.forEach((item, lineIndex) => {
+    const category = item.taxCategory || DEFAULT_TAX_CATEGORY;
+    const lineRates = rates.filter((rate) => rate.category === category);
+    if (lineRates.length === 0) return;
+
+    const { currency } = item.lineTotal;
+    const scaled = lineRates.map((rate) => Math.round(rate.rate * 1000));
+    const totalScaled = scaled.reduce((sum, value) => sum + value, 0);
+    let taxableAmount = item.lineTotal;
+    let amounts: Money[];
+    if (lineRates[0].pricingMode === 'exclusive') {
+      amounts = scaled.map((value) => Money.of(Math.round((item.lineTotal.amount * value) / RATE_SCALE), currency));
+    } else {
+      taxableAmount = Money.of(Math.round((item.lineTotal.amount * RATE_SCALE) / (RATE_SCALE + totalScaled)), currency);
+      const included = item.lineTotal.subtract(taxableAmount);
+      amounts = totalScaled > 0 ? included.allocate(scaled) : scaled.map(() => Money.zero(currency));
+    }
+
+    lineRates.forEach((rate, i) => {
+      taxLines.push({
+        lineIndex,
+        ticketId: item.ticketId,
+        taxRateId: rate.id,
+        name: rate.name,
+        jurisdiction: jurisdictionOf(rate),
+        category,
+        rate: rate.rate,
+        pricingMode: rate.pricingMode,
+        taxableAmount,
+        amount: amounts[i],
+      });
+    });
+  });
+  return taxLines;
+};
+
+/**
+ * All tax on the order, inclusive and exclusive
+ */
+export const totalTax = (taxLines: TaxLine[], currency: string): Money =>
+  taxLines.reduce((sum, line) => sum.add(line.amount), Money.zero(currency));
+
+/**
+ * The line items with inclusive tax taken out of their totals: what the sale itself earned
+ */
+export const lineItemsNetOfTax = (lineItems: OrderLineItem[], taxLines: TaxLine[]): OrderLineItem[] => {
+  return lineItems.map((item, index) => ({
+    ...item,
+    lineTotal: taxLines
+      .filter((line) => line.lineIndex === index && line.pricingMode === 'inclusive')
+      .reduce((total, line) => total.subtract(line.amount), item.lineTotal),
+  }));
+};
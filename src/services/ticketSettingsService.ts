@@ -0,0 +1,99 @@
+import { OrderLineItem, TicketSettings } from '../models/types';
+import { Money } from '../models/money';
+import { BusinessRuleError, NotFoundError, ValidationError } from '../common/errors';
+import { ticketSettingsRepository } from '../db/repositories';
+import { parseTaxCategory } from './taxService';
+
+/**
+ * Ticket Settings Service
+ * What this service knows about each ticket type. Orders take these from here, never from
+ * the client, so buyers cannot pick what their tickets cost or how they are taxed, or slip
+ * past the purchase limits and presales of their event.
+ */
+
+export interface TicketSettingsInput {
+  taxCategory?: string;
+  eventId?: string;
+  price?: unknown;
+}
+
+/**
+ * A ticket and quantity the buyer asked for, with the unit price they were shown, if they sent one
+ */
+export interface RequestedLineItem {
+  ticketId: string;
+  quantity: number;
+  unitPrice?: Money;
+}
+
+export const listTicketSettings = async (): Promise<TicketSettings[]> => {
+  return (await ticketSettingsRepository.findAll()).sort((a, b) => a.ticketId.localeCompare(b.ticketId));
+};
+
+export const getTicketSettings = async (ticketId: string): Promise<TicketSettings> => {
+  const settings = await ticketSettingsRepository.findByTicketId(ticketId);
+  if (!settings) throw new NotFoundError('Ticket settings not found', { ticketId });
+  return settings;
+};
+
+/**
+ * Replace a ticket's settings; fields left out take their defaults. Orders already made keep
+ * the settings they were made with.
+ */
+export const saveTicketSettings = async (ticketId: string, input: TicketSettingsInput): Promise<TicketSettings> => {
+  if (input.eventId !== undefined && input.eventId !== null && (typeof input.eventId !== 'string' || !input.eventId)) {
+    throw new ValidationError('eventId must be a non-empty string');
+  }
+  let price: Money | undefined;
+  if (input.price !== undefined && input.price !== null) {
+    price = Money.fromJSON(input.price, 'price');
+    if (price.isNegative()) throw new ValidationError('price must not be negative');
+  }
+  const now = Date.now();
+  return ticketSettingsRepository.create({
+    ticketId,
+    taxCategory: parseTaxCategory('taxCategory', input.taxCategory),
+    eventId: input.eventId || undefined,
+    price,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * The events of these tickets, for those that have one
+ */
+export const findTicketEvents = async (ticketIds: string[]): Promise<Map<string, string>> => {
+  const settings = await ticketSettingsRepository.findByTicketIds([...new Set(ticketIds)]);
+  return new Map(settings.flatMap((s) => (s.eventId ? [[s.ticketId, s.eventId] as [string, string]] : [])));
+};
+
+/**
+ * Price the requested tickets at the prices in their settings and apply the rest of those
+ * settings. Tickets without a price cannot be ordered, and a unit price the buyer sends must
+ * be the ticket's price, so nobody pays a price they were not shown.
+ */
+export const applyTicketSettings = async (items: RequestedLineItem[]): Promise<OrderLineItem[]> => {
+  const settings = await ticketSettingsRepository.findByTicketIds([...new Set(items.map((i) => i.ticketId))]);
+  const byTicket = new Map(settings.map((s) => [s.ticketId, s]));
+  return items.map(({ ticketId, quantity, unitPrice: quoted }) => {
+    const ticket = byTicket.get(ticketId);
+    if (!ticket?.price) {
+      throw new BusinessRuleError('Ticket has no price', 'TICKET_NOT_PRICED', { ticketId });
+    }
+    if (quoted && !quoted.equals(ticket.price)) {
+      throw new BusinessRuleError('Unit price does not match the ticket price', 'PRICE_MISMATCH', {
+        ticketId,
+        price: ticket.price,
+      });
+    }
+    return {
+      ticketId,
+      quantity,
+      unitPrice: ticket.price,
+      lineTotal: ticket.price.multiply(quantity),
+      taxCategory: ticket.taxCategory,
+      eventId: ticket.eventId,
+    };
+  });
+};
@@ -0,0 +1,42 @@
+import { CreateTransferParams, ProviderTransfer, TransferProvider, TransferProviderError } from './TransferProvider';
+
+/**
+ * Destinations that make the fake provider reject a transfer
+ */
+export const FAKE_TRANSFER_FAILURES: Record<string, { code: string; message: string }> = {
+  acct_closed: { code: 'account_closed', message: 'The destination account is closed.' },
+  acct_restricted: { code: 'account_restricted', message: 'The destination account cannot receive transfers.' },
+};
+
+/**
+ * Fake Transfer Provider
+ * Deterministic in-process transfers for tests and local development; never touches the network
+ */
+export class FakeTransferProvider implements TransferProvider {
+  readonly name = 'fake';
+  private transfers = new Map<string, ProviderTransfer>();
+  private sequence = 0;
+
+  async createTransfer({ destination, amount, idempotencyKey }: CreateTransferParams): Promise<ProviderTransfer> {
+    const existing = this.transfers.get(idempotencyKey);
+    if (existing) return existing;
+
+    const failure = FAKE_TRANSFER_FAILURES[destination];
+    if (failure) throw new TransferProviderError(failure.message, this.name, failure.code);
+    if (!amount.isPositive()) {
+      throw new TransferProviderError('Transfer amount must be positive', this.name, 'amount_too_small');
+    }
+
+    this.sequence++;
+    const transfer = { id: `fake_tr_${this.sequence.toString().padStart(6, '0')}`, destination, amount };
+    this.transfers.set(idempotencyKey, transfer);
+    return transfer;
+  }
+
+  /**
+   * Every transfer made so far, for assertions in tests
+   */
+  getTransfers(): ProviderTransfer[] {
+    return [...this.transfers.values()];
+  }
+}
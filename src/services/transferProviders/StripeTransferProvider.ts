@@ -0,0 +1,45 @@
+import Stripe from 'stripe';
+import { Money } from '../../models/money';
+import { CreateTransferParams, ProviderTransfer, TransferProvider, TransferProviderError } from './TransferProvider';
+
+const STRIPE_API_VERSION = '2023-10-16';
+
+/**
+ * Stripe Transfer Provider
+ * Pays organizers through Stripe Connect transfers to their connected accounts
+ */
+export class StripeTransferProvider implements TransferProvider {
+  readonly name = 'stripe';
+  private stripe: Stripe;
+
+  constructor(client?: Stripe, secretKey: string | undefined = process.env.STRIPE_SECRET_KEY) {
+    if (!client && !secretKey) {
+      throw new Error('STRIPE_SECRET_KEY is required to use the Stripe transfer provider');
+    }
+    this.stripe = client || new Stripe(secretKey!, { apiVersion: STRIPE_API_VERSION });
+  }
+
+  async createTransfer({
+    destination,
+    amount,
+    metadata,
+    idempotencyKey,
+  }: CreateTransferParams): Promise<ProviderTransfer> {
+    try {
+      const transfer = await this.stripe.transfers.create(
+        { amount: amount.amount, currency: amount.currency.toLowerCase(), destination, metadata },
+        { idempotencyKey }
+      );
+      return {
+        id: transfer.id,
+        destination,
+        amount: Money.of(transfer.amount, transfer.currency.toUpperCase()),
+      };
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new TransferProviderError(error.message, this.name, error.code);
+      }
+      throw error;
+    }
+  }
+}
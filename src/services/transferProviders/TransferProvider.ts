@@ -0,0 +1,40 @@
+import { Money } from '../../models/money';
+
+/**
+ * Transfer Provider
+ * Contract implemented by every adapter that moves money to an organizer's account
+ */
+
+export interface ProviderTransfer {
+  id: string;
+  destination: string;
+  amount: Money;
+}
+
+export interface CreateTransferParams {
+  /** The receiving account, e.g. a Stripe connected account id */
+  destination: string;
+  amount: Money;
+  metadata?: Record<string, string>;
+  /** Retrying with the same key returns the original transfer instead of paying twice */
+  idempotencyKey: string;
+}
+
+export interface TransferProvider {
+  readonly name: string;
+  createTransfer(params: CreateTransferParams): Promise<ProviderTransfer>;
+}
+
+/**
+ * Raised by adapters when a transfer is rejected or fails
+ */
+export class TransferProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'TransferProviderError';
+  }
+}
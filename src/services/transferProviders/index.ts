@@ -0,0 +1,46 @@
+import { TransferProvider } from './TransferProvider';
+import { FakeTransferProvider } from './FakeTransferProvider';
+import { StripeTransferProvider } from './StripeTransferProvider';
+
+export * from './TransferProvider';
+export { FakeTransferProvider } from './FakeTransferProvider';
+export { StripeTransferProvider } from './StripeTransferProvider';
+
+/**
+ * Transfer Provider Registry
+ * Resolves the provider organizers are paid through: TRANSFER_PROVIDER, else Stripe when
+ * a secret key is configured outside tests, else the fake
+ */
+
+const factories: Record<string, () => TransferProvider> = {
+  stripe: () => new StripeTransferProvider(),
+  fake: () => new FakeTransferProvider(),
+};
+
+const instances = new Map<string, TransferProvider>();
+
+const defaultProviderName = (): string => {
+  if (process.env.TRANSFER_PROVIDER) return process.env.TRANSFER_PROVIDER;
+  return process.env.STRIPE_SECRET_KEY && process.env.NODE_ENV !== 'test' ? 'stripe' : 'fake';
+};
+
+export const getTransferProviderByName = (name: string): TransferProvider => {
+  let provider = instances.get(name);
+  if (!provider) {
+    const factory = factories[name];
+    if (!factory) throw new Error(`Unknown transfer provider: ${name}`);
+    provider = factory();
+    instances.set(name, provider);
+  }
+  return provider;
+};
+
+export const getTransferProvider = (): TransferProvider => getTransferProviderByName(defaultProviderName());
+
+/**
+ * Register a provider instance under a name, replacing any existing one
+ */
+export const registerTransferProvider = (provider: TransferProvider): void => {
+  factories[provider.name] = () => provider;
+  instances.set(provider.name, provider);
+};
@@ -0,0 +1,191 @@
+import { Order, OrderLineItem, WaitlistEntry } from '../models/types';
+import { BusinessRuleError, ConflictError, NotFoundError, ValidationError } from '../common/errors';
+import { ticketInventoryRepository, waitlistEntriesRepository } from '../db/repositories';
+import { withOrderLock } from './orderLock';
+
+/**
+ * Waitlist Service
+ * First-come, first-served queues for sold-out tickets. Seats freed by cancellations, expired
+ * holds and refunds are offered to the user at the head of the queue as an order holding them;
+ * an offer not paid for in time lapses and the seats roll on to the next user. While users wait,
+ * the seats they asked for are held for them and only seats beyond those are sold directly.
+ */
+
+export const WAITLIST_OFFER_MINUTES = parseInt(process.env.WAITLIST_OFFER_MINUTES || '30', 10);
+
+export interface JoinWaitlistInput {
+  userId: string;
+  quantity: number;
+}
+
+/** `position` is the entry's place in the queue, from 1, while it is waiting */
+export type WaitlistEntryWithPosition = WaitlistEntry & { position?: number };
+
+const withPosition = async (entry: WaitlistEntry): Promise<WaitlistEntryWithPosition> => {
+  if (entry.status !== 'waiting') return entry;
+  return { ...entry, position: (await waitlistEntriesRepository.countWaitingAhead(entry)) + 1 };
+};
+
+const isOpen = (entry: WaitlistEntry | null): entry is WaitlistEntry =>
+  !!entry && (entry.status === 'waiting' || entry.status === 'offered');
+
+/**
+ * Queue a user for a ticket. Only sold-out tickets have a queue: a ticket with enough seats
+ * on sale and no one waiting is refused with TICKETS_AVAILABLE, so the user orders it directly.
+ */
+export const joinWaitlist = async (
+  tenantId: string,
+  ticketId: string,
+  input: JoinWaitlistInput
+): Promise<WaitlistEntryWithPosition> => {
+  if (typeof input.userId !== 'string' || !input.userId) {
+    throw new ValidationError('userId is required');
+  }
+  if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+    throw new ValidationError('quantity must be a positive integer');
+  }
+
+  return withOrderLock(`waitlist:${ticketId}`, async () => {
+    const existing = await waitlistEntriesRepository.findLatestByUser(ticketId, input.userId);
+    if (isOpen(existing)) {
+      throw new ConflictError('Already on the waitlist for this ticket', 'WAITLIST_ALREADY_JOINED', {
+        entryId: existing.id,
+        status: existing.status,
+      });
+    }
+
+    const inventory = await ticketInventoryRepository.findByTicketId(ticketId);
+    const available = inventory ? inventory.totalSupply - inventory.reserved - inventory.sold : undefined;
+    const soldOut = available !== undefined && available < input.quantity;
+    if (!soldOut && !(await waitlistEntriesRepository.findNextWaiting(ticketId))) {
+      throw new BusinessRuleError('Tickets are still on sale', 'TICKETS_AVAILABLE', { ticketId, available });
+    }
+
+    const now = Date.now();
+    const entry = await waitlistEntriesRepository.create({
+      tenantId,
+      ticketId,
+      userId: input.userId,
+      quantity: input.quantity,
+      status: 'waiting',
+      createdAt: now,
+      updatedAt: now,
+    });
+    return withPosition(entry);
+  });
+};
+
+/**
+ * The user's latest entry for a ticket, with their position while they wait
+ */
+export const getWaitlistEntry = async (ticketId: string, userId: string): Promise<WaitlistEntryWithPosition> => {
+  const entry = await waitlistEntriesRepository.findLatestByUser(ticketId, userId);
+  if (!entry) throw new NotFoundError('Not on the waitlist for this ticket', { ticketId, userId });
+  return withPosition(entry);
+};
+
+/**
+ * Take a waiting user out of the queue. An offer already made is turned down by cancelling
+ * its order, which passes the seats on.
+ */
+export const leaveWaitlist = async (ticketId: string, userId: string): Promise<WaitlistEntry> => {
+  return withOrderLock(`waitlist:${ticketId}`, async () => {
+    const entry = await waitlistEntriesRepository.findLatestByUser(ticketId, userId);
+    if (!isOpen(entry)) throw new NotFoundError('Not on the waitlist for this ticket', { ticketId, userId });
+    if (entry.status === 'offered') {
+      throw new ConflictError('Cancel the offered order to turn the offer down', 'WAITLIST_OFFER_PENDING', {
+        orderId: entry.orderId,
+      });
+    }
+    return (await waitlistEntriesRepository.update(entry.id, { status: 'left' }))!;
+  });
+};
+
+/**
+ * Offer the seats on sale for these tickets to the users waiting for them, in turn, through
+ * `createOffer`; returns how many offers were made. A user who needs more seats than are free
+ * keeps their place and holds up those behind them. Users the order is refused to for their
+ * own reasons, e.g. a purchase limit, are skipped. Other failures are logged and the seats
+ * stay on sale until the next release.
+ */
+export const makeWaitlistOffers = async (
+  ticketIds: string[],
+  createOffer: (entry: WaitlistEntry) => Promise<Order>
+): Promise<number> => {
+  let offered = 0;
+  for (const ticketId of [...new Set(ticketIds)].sort()) {
+    try {
+      offered += await withOrderLock(`waitlist:${ticketId}`, async () => {
+        let made = 0;
+        for (;;) {
+          const entry = await waitlistEntriesRepository.findNextWaiting(ticketId);
+          const inventory = await ticketInventoryRepository.findByTicketId(ticketId);
+          if (!entry || !inventory) return made;
+          if (inventory.totalSupply - inventory.reserved - inventory.sold < entry.quantity) return made;
+
+          try {
+            const order = await createOffer(entry);
+            await waitlistEntriesRepository.update(entry.id, {
+              status: 'offered',
+              orderId: order.id,
+              offerExpiresAt: order.expiresAt,
+            });
+            made++;
+          } catch (error) {
+            if (!(error instanceof BusinessRuleError)) throw error;
+            // Bought by someone else in the meantime
+            if (error.code === 'TICKETS_SOLD_OUT') return made;
+            await waitlistEntriesRepository.update(entry.id, { status: 'skipped' });
+          }
+        }
+      });
+    } catch (error) {
+      console.error(`Error making waitlist offers for ticket ${ticketId}:`, error);
+    }
+  }
+  return offered;
+};
+
+/**
+ * Create an order through `createOrder` only if it leaves the users waiting for its tickets the
+ * seats they asked for; otherwise it is refused with TICKETS_HELD_FOR_WAITLIST. Each queue is
+ * locked until the order is placed, in ticket order as offers and other orders lock them.
+ */
+export const holdSeatsForWaitlist = async (
+  lineItems: Pick<OrderLineItem, 'ticketId' | 'quantity'>[],
+  createOrder: () => Promise<Order>
+): Promise<Order> => {
+  const quantities = new Map<string, number>();
+  for (const item of lineItems) {
+    quantities.set(item.ticketId, (quantities.get(item.ticketId) || 0) + item.quantity);
+  }
+  const ticketIds = [...quantities.keys()].sort();
+
+  const check = async (index: number): Promise<Order> => {
+    if (index === ticketIds.length) return createOrder();
+    const ticketId = ticketIds[index];
+    return withOrderLock(`waitlist:${ticketId}`, async () => {
+      const waiting = await waitlistEntriesRepository.countWaitingSeats(ticketId);
+      const inventory = waiting > 0 ? await ticketInventoryRepository.findByTicketId(ticketId) : null;
+      if (inventory) {
+        const available = Math.max(inventory.totalSupply - inventory.reserved - inventory.sold - waiting, 0);
+        if (available < quantities.get(ticketId)!) {
+          throw new BusinessRuleError('Tickets are held for the waitlist', 'TICKETS_HELD_FOR_WAITLIST', {
+            ticketId,
+            available,
+          });
+        }
+      }
+      return check(index + 1);
+    });
+  };
+  return check(0);
+};
+
+/**
+ * Close the offer an order was made for, once it is paid or cancelled
+ */
+export const closeWaitlistOffer = async (orderId: string, status: 'claimed' | 'lapsed'): Promise<void> => {
+  const entry = await waitlistEntriesRepository.findByOrderId(orderId);
+  if (entry?.status === 'offered') await waitlistEntriesRepository.update(entry.id, { status });
+};
@@ -0,0 +1,122 @@
+import { Wallet, WalletTransaction } from '../models/types';
+import { Money } from '../models/money';
+import { BusinessRuleError, ValidationError } from '../common/errors';
+import { walletsRepository, walletTransactionsRepository } from '../db/repositories';
+import { recordStoreCreditGrant } from './ledgerService';
+import { withOrderLock } from './orderLock';
+import { withTransaction } from '../config/database';
+
+/**
+ * Wallet Service
+ * Per-user, per-tenant store credit that can be refunded into, granted, and spent on orders
+ */
+
+/**
+ * The `paymentMethod` that pays from the buyer's wallet; such payments also use it as their provider name
+ */
+export const WALLET_PAYMENT_METHOD = 'wallet';
+
+export interface WalletChange {
+  tenantId: string;
+  userId: string;
+  amount: Money;
+  orderId?: string;
+  paymentId?: string;
+  refundId?: string;
+  description?: string;
+  createdBy: string;
+}
+
+export const getWallets = async (tenantId: string, userId: string): Promise<Wallet[]> => {
+  return walletsRepository.findByOwner(tenantId, userId);
+};
+
+export const getWalletTransactions = async (tenantId: string, userId: string): Promise<WalletTransaction[]> => {
+  return walletTransactionsRepository.findByOwner(tenantId, userId);
+};
+
+/**
+ * Apply one balance change and record it. The repository refuses to take a balance below
+ * zero, and the per-wallet lock keeps each transaction's balanceAfter in order.
+ */
+const applyChange = async (
+  type: WalletTransaction['type'],
+  reason: WalletTransaction['reason'],
+  change: WalletChange
+): Promise<WalletTransaction> => {
+  if (!change.amount.isPositive()) {
+    throw new ValidationError('amount must be greater than zero');
+  }
+  const { tenantId, userId, amount } = change;
+  return withOrderLock(`wallet:${tenantId}:${userId}`, () =>
+    withTransaction(async () => {
+      const now = Date.now();
+      const wallet =
+        type === 'credit'
+          ? await walletsRepository.create({
+              tenantId,
+              userId,
+              balance: Money.zero(amount.currency),
+              createdAt: now,
+              updatedAt: now,
+            })
+          : await walletsRepository.findByOwnerAndCurrency(tenantId, userId, amount.currency);
+
+      const delta = type === 'credit' ? amount : Money.zero(amount.currency).subtract(amount);
+      const updated = wallet && (await walletsRepository.adjustBalance(wallet.id, delta));
+      if (!updated) {
+        throw new BusinessRuleError('Insufficient store credit', 'INSUFFICIENT_STORE_CREDIT', {
+          available: wallet ? wallet.balance : Money.zero(amount.currency),
+        });
+      }
+
+      return walletTransactionsRepository.create({
+        walletId: updated.id,
+        tenantId,
+        userId,
+        type,
+        reason,
+        amount,
+        balanceAfter: updated.balance,
+        orderId: change.orderId,
+        paymentId: change.paymentId,
+        refundId: change.refundId,
+        description: change.description,
+        createdBy: change.createdBy,
+        createdAt: now,
+      });
+    })
+  );
+};
+
+/**
+ * Add credit to a wallet, creating it on first use
+ */
+export const creditWallet = async (
+  reason: Exclude<WalletTransaction['reason'], 'payment'>,
+  change: WalletChange
+): Promise<WalletTransaction> => {
+  return applyChange('credit', reason, change);
+};
+
+/**
+ * Spend credit on a payment; throws INSUFFICIENT_STORE_CREDIT when the balance is short
+ */
+export const debitWallet = async (change: WalletChange): Promise<WalletTransaction> => {
+  return applyChange('debit', 'payment', change);
+};
+
+/**
+ * Give a user promotional credit; the platform books it as a promotions expense
+ */
+export const grantStoreCredit = async (change: WalletChange): Promise<WalletTransaction> => {
+  return withTransaction(async () => {
+    const transaction = await creditWallet('promotion', change);
+    await recordStoreCreditGrant({
+      referenceId: transaction.id,
+      amount: transaction.amount,
+      description: change.description || `Store credit granted to ${change.userId}`,
+    });
+    return transaction;
+  });
+};
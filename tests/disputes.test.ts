@@ -0,0 +1,212 @@
+import request from 'supertest';
+import Stripe from 'stripe';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { getDisputeLostPolicy, setDisputeLostPolicy } from '../src/services/disputesService';
+import { FakePaymentProvider, getPaymentProviderByName } from '../src/services/paymentProviders';
+import { getOrderEntries } from '../src/services/ledgerService';
+
+const WEBHOOK_SECRET = 'whsec_test_local';
+
+describe('Disputes', () => {
+  const testUserId = 'user-disputes';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const defaultPolicy = getDisputeLostPolicy();
+  let sequence = 0;
+
+  beforeAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+  });
+
+  afterEach(() => {
+    setDisputeLostPolicy(defaultPolicy);
+  });
+
+  const postEvent = (type: string, object: Record<string, unknown>) => {
+    const payload = JSON.stringify({
+      id: `evt_dispute_${++sequence}`,
+      object: 'event',
+      type,
+      created: Math.floor(Date.now() / 1000),
+      livemode: false,
+      data: { object },
+    });
+    return request(app)
+      .post('/webhooks/stripe')
+      .set('Content-Type', 'application/json')
+      .set('Stripe-Signature', Stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET }))
+      .send(payload);
+  };
+
+  const disputeObject = (intentId: string, status: string, dueBy?: number) => ({
+    id: `dp_test_${intentId}`,
+    object: 'dispute',
+    payment_intent: intentId,
+    amount: 10000,
+    currency: 'usd',
+    reason: 'fraudulent',
+    status,
+    evidence_details: { due_by: dueBy ?? Math.floor(Date.now() / 1000) + 7 * 24 * 3600 },
+  });
+
+  /**
+   * Pay for an order, mint its ticket, and open a dispute against the payment
+   */
+  const disputedOrder = async (dueBy?: number) => {
+    await saveTicketSettings('ticket-disputes', { price: usd(10000) });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-disputes', quantity: 1, unitPrice: usd(10000) },
+    ]);
+    const paid = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .send({ amount: usd(10000), paymentMethod: 'pm_card_visa' });
+    const intentId = paid.body.payment.stripePaymentId as string;
+    const mint = await ordersService.recordNFTMintTransaction(order, '0xcontract', '0xrecipient', `token-${intentId}`);
+    await ordersService.updateMintTransactionStatus(mint.id, 'minted', '0xhash');
+
+    await postEvent('charge.dispute.created', disputeObject(intentId, 'needs_response', dueBy));
+    const disputes = await request(app).get(`/payments/${paid.body.payment.id}/disputes`);
+    return {
+      orderId: order.id as string,
+      mintId: mint.id,
+      intentId,
+      dispute: disputes.body[0],
+    };
+  };
+
+  test('should record a dispute opened at the provider', async () => {
+    const { orderId, dispute } = await disputedOrder();
+    expect(dispute).toMatchObject({
+      orderId,
+      reason: 'fraudulent',
+      amount: usd(10000),
+      status: 'needs_response',
+      evidenceDueBy: expect.any(Number),
+    });
+    expect(dispute.evidenceDueBy).toBeGreaterThan(Date.now());
+  });
+
+  test('should collect text and file evidence and submit it to the provider', async () => {
+    const { dispute } = await disputedOrder();
+    const pdf = Buffer.from('%PDF-1.4 receipt');
+
+    const text = await request(app)
+      .post(`/disputes/${dispute.id}/evidence`)
+      .set('x-user-id', 'support-agent')
+      .send({ text: 'Customer attended the event and scanned in at 19:02.' });
+    expect(text.status).toBe(201);
+    expect(text.body).toMatchObject({ kind: 'text', category: 'uncategorized', submittedBy: 'support-agent' });
+
+    const file = await request(app)
+      .post(`/disputes/${dispute.id}/evidence/files?category=receipt`)
+      .set('Content-Type', 'application/pdf')
+      .set('X-File-Name', 'receipt.pdf')
+      .send(pdf);
+    expect(file.status).toBe(201);
+    expect(file.body).toMatchObject({ kind: 'file', category: 'receipt', fileName: 'receipt.pdf', size: pdf.length });
+
+    const content = await request(app).get(`/disputes/${dispute.id}/evidence/${file.body.id}/content`);
+    expect(content.status).toBe(200);
+    expect(content.headers['content-type']).toMatch(/application\/pdf/);
+    expect(Buffer.from(content.body).equals(pdf)).toBe(true);
+
+    const submitted = await request(app).post(`/disputes/${dispute.id}/submit`).send({});
+    expect(submitted.status).toBe(200);
+    expect(submitted.body.status).toBe('under_review');
+    expect(submitted.body.evidenceSubmittedAt).toEqual(expect.any(Number));
+    expect(submitted.body.evidence).toHaveLength(2);
+
+    const fake = getPaymentProviderByName('fake') as FakePaymentProvider;
+    const submission = fake.getDisputeSubmission(dispute.providerDisputeId);
+    expect(submission?.text).toContain('scanned in');
+    expect(submission?.files.map((f) => f.category)).toEqual(['receipt']);
+
+    const late = await request(app).post(`/disputes/${dispute.id}/evidence`).send({ text: 'One more thing' });
+    expect(late.status).toBe(409);
+    expect(late.body.code).toBe('DISPUTE_NOT_AWAITING_EVIDENCE');
+  });
+
+  test('should charge back the order and invalidate its tickets when a dispute is lost', async () => {
+    const { orderId, mintId, intentId, dispute } = await disputedOrder();
+    const res = await postEvent('charge.dispute.closed', disputeObject(intentId, 'lost'));
+    expect(res.body.outcome).toBe('processed');
+
+    const closed = await request(app).get(`/disputes/${dispute.id}`);
+    expect(closed.body.status).toBe('lost');
+    expect(closed.body.closedAt).toEqual(expect.any(Number));
+
+    const order = await ordersService.getOrder(orderId);
+    expect(order?.status).toBe('charged_back');
+    expect(order?.statusHistory.map((c) => c.to)).toEqual(['completed', 'charged_back']);
+
+    const mint = await ordersService.getMintTransaction(mintId);
+    expect(mint?.invalidatedAt).toEqual(expect.any(Number));
+    expect(mint?.invalidationReason).toMatch(/lost/);
+
+    const chargeback = (await getOrderEntries(orderId)).find((e) => e.type === 'chargeback');
+    expect(chargeback?.postings.map((p) => [p.accountCode, p.direction, p.amount.amount])).toEqual([
+      ['organizer_payable', 'debit', 10000],
+      ['processor_balance', 'credit', 10000],
+    ]);
+
+    // A late update from the provider does not reopen the dispute
+    await postEvent('charge.dispute.updated', disputeObject(intentId, 'under_review'));
+    expect((await request(app).get(`/disputes/${dispute.id}`)).body.status).toBe('lost');
+  });
+
+  test('should leave the order alone when a dispute is won', async () => {
+    const { orderId, mintId, intentId, dispute } = await disputedOrder();
+    await postEvent('charge.dispute.closed', disputeObject(intentId, 'won'));
+
+    expect((await request(app).get(`/disputes/${dispute.id}`)).body.status).toBe('won');
+    expect((await ordersService.getOrder(orderId))?.status).toBe('completed');
+    expect((await ordersService.getMintTransaction(mintId))?.invalidatedAt).toBeUndefined();
+  });
+
+  test('should follow the configured policy for lost disputes', async () => {
+    setDisputeLostPolicy({ order: 'keep', tokens: 'invalidate' });
+    const { orderId, mintId, intentId } = await disputedOrder();
+    await postEvent('charge.dispute.closed', disputeObject(intentId, 'lost'));
+
+    expect((await ordersService.getOrder(orderId))?.status).toBe('completed');
+    expect((await ordersService.getMintTransaction(mintId))?.invalidatedAt).toEqual(expect.any(Number));
+  });
+
+  test('should refuse evidence after the due date', async () => {
+    const { dispute } = await disputedOrder(Math.floor(Date.now() / 1000) - 60);
+    const res = await request(app).post(`/disputes/${dispute.id}/evidence`).send({ text: 'Too late' });
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('EVIDENCE_DUE_DATE_PASSED');
+  });
+
+  test('should validate evidence and submissions', async () => {
+    const { dispute } = await disputedOrder();
+
+    const empty = await request(app).post(`/disputes/${dispute.id}/submit`).send({});
+    expect(empty.status).toBe(422);
+    expect(empty.body.code).toBe('NO_EVIDENCE');
+
+    const blank = await request(app).post(`/disputes/${dispute.id}/evidence`).send({ text: ' ' });
+    expect(blank.status).toBe(400);
+
+    const category = await request(app)
+      .post(`/disputes/${dispute.id}/evidence`)
+      .send({ text: 'Receipt attached', category: 'selfie' });
+    expect(category.status).toBe(400);
+
+    const unsupported = await request(app)
+      .post(`/disputes/${dispute.id}/evidence/files`)
+      .set('Content-Type', 'text/plain')
+      .set('X-File-Name', 'notes.txt')
+      .send('notes');
+    expect(unsupported.status).toBe(415);
+
+    const missing = await request(app).get('/disputes/non-existent');
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,169 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import * as feesService from '../src/services/feesService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { getOrderEntries } from '../src/services/ledgerService';
+import { feeRulesRepository, ledgerRepository } from '../src/db/repositories';
+
+describe('Marketplace fees', () => {
+  const testUserId = 'user-fees';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  beforeAll(async () => {
+    const prices = { 'ticket-vip': 15000, 'ticket-ga': 4999, 'ticket-a': 10000, 'ticket-b': 10000, 'ticket-c': 10000 };
+    for (const [ticketId, price] of Object.entries(prices)) await saveTicketSettings(ticketId, { price: usd(price) });
+  });
+
+  beforeEach(() => {
+    feeRulesRepository.clearMemoryStore();
+    ledgerRepository.clearMemoryStore();
+  });
+
+  const rule = (body: Record<string, unknown>) => request(app).post('/admin/fee-rules').send(body);
+
+  const paidOrder = async (organizerId: string, unitPrice: number, quantity: number = 1) => {
+    await saveTicketSettings('ticket-fees', { price: usd(unitPrice) });
+    const order = await ordersService.createOrder(
+      testUserId,
+      [{ ticketId: 'ticket-fees', quantity, unitPrice: usd(unitPrice) }],
+      { organizerId }
+    );
+    const res = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .send({ amount: order.totalAmount, paymentMethod: 'pm_card_visa' });
+    return { order, paymentId: res.body.payment.id as string };
+  };
+
+  test('should store the fee breakdown on new orders', async () => {
+    const platform = await rule({ kind: 'platform', percentage: 5, fixedAmount: usd(50) });
+    const processor = await rule({ kind: 'processor', percentage: 2.9, fixedAmount: usd(30) });
+    expect(platform.status).toBe(201);
+    expect(processor.status).toBe(201);
+
+    const res = await request(app)
+      .post('/orders')
+      .send({
+        userId: testUserId,
+        organizerId: 'org-1',
+        lineItems: [
+          { ticketId: 'ticket-vip', quantity: 2, unitPrice: usd(15000) },
+          { ticketId: 'ticket-ga', quantity: 3, unitPrice: usd(4999) },
+        ],
+      });
+    expect(res.status).toBe(201);
+    expect(res.body.organizerId).toBe('org-1');
+    // Platform: 5% of 30000 + 2 x 50, plus 5% of 14997 (749.85) + 3 x 50; processor: 2.9% of 44997 + 30
+    expect(res.body.fees).toEqual({
+      gross: usd(44997),
+      platformFee: usd(1500 + 100 + 750 + 150),
+      processorFee: usd(1305 + 30),
+      tax: usd(0),
+      organizerNet: usd(44997 - 2500 - 1335),
+      ruleIds: [platform.body.id, processor.body.id],
+    });
+  });
+
+  test('should apply the most specific fee rule', async () => {
+    await rule({ kind: 'platform', percentage: 10 });
+    await rule({ kind: 'platform', tenantId: 'tenant-a', percentage: 8 });
+    await rule({ kind: 'platform', ticketId: 'ticket-b', percentage: 6 });
+    await rule({ kind: 'platform', tenantId: 'tenant-a', ticketId: 'ticket-b', percentage: 4 });
+    await rule({
+      kind: 'platform',
+      ticketId: 'ticket-c',
+      percentage: 1,
+      fixedAmount: { amount: 100, currency: 'EUR' },
+    });
+
+    const feeFor = async (ticketId: string, tenantId?: string) => {
+      const order = await ordersService.createOrder(testUserId, [{ ticketId, quantity: 1 }], { tenantId });
+      return order.fees.platformFee.amount;
+    };
+
+    expect(await feeFor('ticket-a')).toBe(1000);
+    expect(await feeFor('ticket-a', 'tenant-a')).toBe(800);
+    expect(await feeFor('ticket-b')).toBe(600);
+    expect(await feeFor('ticket-b', 'tenant-a')).toBe(400);
+    // The ticket rule's fixed amount is in EUR, so the USD order falls back to the global rule
+    expect(await feeFor('ticket-c')).toBe(1000);
+  });
+
+  test('should split the sale in the ledger and charge refunds to the organizer', async () => {
+    await rule({ kind: 'platform', percentage: 10 });
+    await rule({ kind: 'processor', percentage: 3 });
+    const { order, paymentId } = await paidOrder('org-ledger', 10000);
+
+    const sale = (await getOrderEntries(order.id)).find((e) => e.type === 'sale');
+    expect(sale?.postings.map((p) => [p.accountCode, p.direction, p.amount.amount])).toEqual([
+      ['customer_receivable', 'debit', 10000],
+      ['organizer_payable:org-ledger', 'credit', 8700],
+      ['platform_revenue', 'credit', 1000],
+      ['processor_balance', 'credit', 300],
+    ]);
+
+    await request(app).post(`/orders/${order.id}/refunds`).send({ paymentId, amount: usd(2000) });
+    const refund = (await getOrderEntries(order.id)).find((e) => e.type === 'refund');
+    expect(refund?.postings[0]).toMatchObject({ accountCode: 'organizer_payable:org-ledger', direction: 'debit' });
+  });
+
+  test('should list organizer earnings per period', async () => {
+    await rule({ kind: 'platform', percentage: 10 });
+    const { order, paymentId } = await paidOrder('org-earnings', 5000, 2);
+    await paidOrder('org-earnings', 2000);
+    await paidOrder('org-other', 3000);
+    await request(app).post(`/orders/${order.id}/refunds`).send({ paymentId, amount: usd(1000) });
+
+    const res = await request(app).get('/admin/organizers/org-earnings/earnings?period=day');
+    expect(res.status).toBe(200);
+    const today = new Date().toISOString().slice(0, 10);
+    expect(res.body).toEqual([
+      {
+        organizerId: 'org-earnings',
+        period: today,
+        periodStart: Date.parse(today),
+        currency: 'USD',
+        orders: 2,
+        gross: usd(12000),
+        platformFee: usd(1200),
+        processorFee: usd(0),
+        organizerNet: usd(10800),
+        refunded: usd(1000),
+        chargedBack: usd(0),
+        payable: usd(9800),
+      },
+    ]);
+
+    const all = await feesService.getOrganizerEarnings({ period: 'month' });
+    expect(all.map((row) => [row.organizerId, row.period, row.organizerNet.amount])).toEqual([
+      ['org-earnings', today.slice(0, 7), 10800],
+      ['org-other', today.slice(0, 7), 2700],
+    ]);
+
+    const future = await request(app).get(`/admin/organizers/earnings?from=${Date.now() + 60000}`);
+    expect(future.body).toEqual([]);
+
+    const badPeriod = await request(app).get('/admin/organizers/earnings?period=year');
+    expect(badPeriod.status).toBe(400);
+  });
+
+  test('should validate and manage fee rules', async () => {
+    expect((await rule({ kind: 'royalty', percentage: 5 })).status).toBe(400);
+    expect((await rule({ kind: 'platform', percentage: 101 })).status).toBe(400);
+    expect((await rule({ kind: 'platform', percentage: 2.555 })).status).toBe(400);
+    expect((await rule({ kind: 'platform', percentage: 5, fixedAmount: usd(-1) })).status).toBe(400);
+    expect((await rule({ kind: 'processor', ticketId: 'ticket-a', percentage: 3 })).status).toBe(400);
+
+    const created = await rule({ kind: 'platform', percentage: 5 });
+    const updated = await request(app).patch(`/admin/fee-rules/${created.body.id}`).send({ fixedAmount: usd(25) });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ percentage: 5, fixedAmount: usd(25) });
+    expect((await request(app).get('/admin/fee-rules')).body).toHaveLength(1);
+
+    expect((await request(app).delete(`/admin/fee-rules/${created.body.id}`)).status).toBe(204);
+    expect((await request(app).delete(`/admin/fee-rules/${created.body.id}`)).status).toBe(404);
+
+    const order = await ordersService.createOrder(testUserId, [{ ticketId: 'ticket-a', quantity: 1 }]);
+    expect(order.fees.organizerNet).toEqual(order.totalAmount);
+  });
+});
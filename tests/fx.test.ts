@@ -0,0 +1,145 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import * as ledgerService from '../src/services/ledgerService';
+import { getPaymentProviderByName } from '../src/services/paymentProviders';
+import { fxRatesRepository, ledgerRepository } from '../src/db/repositories';
+import { Money } from '../src/models/money';
+
+describe('Multi-currency payments', () => {
+  const testUserId = 'user-fx';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const eur = (amount: number) => ({ amount, currency: 'EUR' });
+  const fake = getPaymentProviderByName('fake');
+
+  beforeEach(() => {
+    fxRatesRepository.clearMemoryStore();
+    ledgerRepository.clearMemoryStore();
+  });
+
+  const rates = (body: Record<string, unknown>) => request(app).post('/admin/fx-rates').send(body);
+
+  const createOrder = async () => {
+    await saveTicketSettings('ticket-fx', { price: usd(10000) });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-fx', quantity: 1, unitPrice: usd(10000) },
+    ]);
+    return order.id as string;
+  };
+
+  const pay = (orderId: string, body: Record<string, unknown>) =>
+    request(app)
+      .post(`/orders/${orderId}/payments`)
+      .send({ amount: usd(10000), paymentMethod: 'pm_card_visa', ...body });
+
+  test('should keep the latest quote per currency pair', async () => {
+    const now = Date.now();
+    const first = await rates({
+      asOf: now - 60000,
+      rates: [
+        { baseCurrency: 'usd', quoteCurrency: 'eur', midRate: 0.9, spread: 2 },
+        { baseCurrency: 'USD', quoteCurrency: 'GBP', midRate: 0.78 },
+      ],
+    });
+    expect(first.status).toBe(201);
+    expect(first.body.rates[0]).toMatchObject({ baseCurrency: 'USD', quoteCurrency: 'EUR', source: 'admin' });
+
+    // An older quote does not replace a newer one
+    const older = await rates({
+      asOf: now - 120000,
+      rates: [{ baseCurrency: 'USD', quoteCurrency: 'EUR', midRate: 1 }],
+    });
+    expect(older.body).toEqual({ rates: [], skipped: 1 });
+    await rates({ rates: [{ baseCurrency: 'USD', quoteCurrency: 'EUR', midRate: 0.91, spread: 1.5 }] });
+
+    const latest = await request(app).get('/admin/fx-rates');
+    expect(latest.body.map((r: any) => [r.quoteCurrency, r.midRate]).sort()).toEqual([
+      ['EUR', 0.91],
+      ['GBP', 0.78],
+    ]);
+    expect((await rates({ rates: [{ baseCurrency: 'USD', quoteCurrency: 'USD', midRate: 1 }] })).status).toBe(400);
+    expect((await rates({ rates: [{ baseCurrency: 'USD', quoteCurrency: 'EUR', midRate: -1 }] })).status).toBe(400);
+  });
+
+  test('should charge the buyer in their currency at a locked rate and report both amounts', async () => {
+    await rates({ rates: [{ baseCurrency: 'USD', quoteCurrency: 'EUR', midRate: 0.9, spread: 2 }] });
+    const orderId = await createOrder();
+
+    const res = await pay(orderId, { presentmentCurrency: 'EUR' });
+    expect(res.status).toBe(201);
+    expect(res.body.payment.amount).toEqual(usd(10000));
+    expect(res.body.payment.fx).toMatchObject({ presentmentAmount: eur(9180), rate: 0.918, midRate: 0.9, spread: 2 });
+    expect((await fake.retrieveCharge(res.body.payment.stripePaymentId)).amount).toEqual(Money.of(9180, 'EUR'));
+
+    expect(res.body.order.status).toBe('completed');
+    expect(res.body.order.balance).toEqual({
+      paid: usd(10000),
+      outstanding: usd(0),
+      refunded: usd(0),
+      presentment: [{ paid: eur(9180), refunded: eur(0) }],
+    });
+    // The ledger is kept in the order's currency
+    expect((await ledgerService.getAccountBalance('processor_balance')).balances).toEqual([Money.of(10000, 'USD')]);
+  });
+
+  test('should quote from inverse pairs and refuse missing or stale rates', async () => {
+    await rates({ rates: [{ baseCurrency: 'JPY', quoteCurrency: 'USD', midRate: 0.0067 }] });
+    await rates({
+      asOf: Date.now() - 2 * 24 * 60 * 60 * 1000,
+      rates: [{ baseCurrency: 'USD', quoteCurrency: 'GBP', midRate: 0.78 }],
+    });
+    const orderId = await createOrder();
+
+    // $100.00 at 1 / 0.0067 yen to the dollar; yen have no minor units
+    const quote = await request(app).get(`/orders/${orderId}/fx-quote?currency=JPY`);
+    expect(quote.status).toBe(200);
+    expect(quote.body).toMatchObject({ amount: usd(10000), presentmentAmount: { amount: 14925, currency: 'JPY' } });
+
+    const stale = await pay(orderId, { presentmentCurrency: 'GBP' });
+    expect(stale.status).toBe(422);
+    expect(stale.body.code).toBe('FX_RATE_STALE');
+    expect((await pay(orderId, { presentmentCurrency: 'CHF' })).body.code).toBe('FX_RATE_UNAVAILABLE');
+    expect((await pay(orderId, { presentmentCurrency: 'JPY', paymentMethod: 'wallet' })).status).toBe(400);
+    expect(await ordersService.getOrderPayments(orderId)).toEqual([]);
+  });
+
+  test('should refund at the locked rate after the market moves', async () => {
+    await rates({ rates: [{ baseCurrency: 'USD', quoteCurrency: 'EUR', midRate: 0.9, spread: 2 }] });
+    const orderId = await createOrder();
+    const payment = (await pay(orderId, { presentmentCurrency: 'EUR' })).body.payment;
+    await rates({ rates: [{ baseCurrency: 'USD', quoteCurrency: 'EUR', midRate: 0.8 }] });
+
+    const refund = (body: Record<string, unknown>) =>
+      request(app).post(`/orders/${orderId}/refunds`).send({ paymentId: payment.id, ...body });
+    const first = await refund({ amount: usd(3333) });
+    expect(first.body.refund).toMatchObject({ amount: usd(3333), presentmentAmount: eur(3060) });
+
+    // The rest returns exactly what is left of the presentment amount
+    const rest = await refund({});
+    expect(rest.body.refund).toMatchObject({ amount: usd(6667), presentmentAmount: eur(6120) });
+    expect((await fake.retrieveCharge(payment.stripePaymentId)).amountRefunded).toEqual(Money.of(9180, 'EUR'));
+
+    const order = await request(app).get(`/orders/${orderId}`);
+    expect(order.body.balance.presentment).toEqual([{ paid: eur(9180), refunded: eur(9180) }]);
+  });
+
+  test('should convert partial captures of an authorization at the locked rate', async () => {
+    await rates({ rates: [{ baseCurrency: 'USD', quoteCurrency: 'EUR', midRate: 0.9, spread: 2 }] });
+    const orderId = await createOrder();
+    const held = await pay(orderId, { presentmentCurrency: 'EUR', captureMethod: 'manual' });
+    expect(held.body.payment.status).toBe('authorized');
+
+    const captured = await request(app)
+      .post(`/payments/${held.body.payment.id}/capture`)
+      .send({ amount: usd(5000) });
+    expect(captured.body.payment).toMatchObject({ status: 'captured', amountCaptured: usd(5000) });
+    expect((await fake.retrieveCharge(held.body.payment.stripePaymentId)).amountCaptured).toEqual(
+      Money.of(4590, 'EUR')
+    );
+    expect(captured.body.order.balance).toMatchObject({
+      paid: usd(5000),
+      presentment: [{ paid: eur(4590), refunded: eur(0) }],
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { getGiftCardCodeSecret, normalizeGiftCardCode, purgeGiftCardAttempts } from '../src/services/giftCardsService';
+import { getAccountBalance } from '../src/services/ledgerService';
+import { parseCsv } from '../src/common/csv';
+import { giftCardAttemptsRepository, giftCardsRepository, ledgerRepository } from '../src/db/repositories';
+import { Money } from '../src/models/money';
+
+describe('Gift cards', () => {
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    giftCardsRepository.clearMemoryStore();
+    ledgerRepository.clearMemoryStore();
+    giftCardAttemptsRepository.clearMemoryStore();
+  });
+
+  const issue = (body: Record<string, unknown>, format?: string) =>
+    request(app)
+      .post(`/admin/gift-cards${format ? `?format=${format}` : ''}`)
+      .set('x-user-id', 'marketing')
+      .send({ quantity: 1, initialValue: usd(5000), source: 'promotional', ...body });
+
+  const balance = (code: string, userId: string = 'user-gc') =>
+    request(app).post('/gift-cards/balance').set('x-user-id', userId).send({ code });
+
+  const pay = async (orderAmount: number, payments: Record<string, unknown>[]) => {
+    await saveTicketSettings('ticket-gc', { price: usd(orderAmount) });
+    const order = await ordersService.createOrder('user-gc', [
+      { ticketId: 'ticket-gc', quantity: 1, unitPrice: usd(orderAmount) },
+    ]);
+    const results = [];
+    for (const body of payments) {
+      results.push(await request(app).post(`/orders/${order.id}/payments`).send(body));
+    }
+    return { orderId: order.id as string, results };
+  };
+
+  test('should issue cards with check-digit codes stored only as hashes', async () => {
+    const res = await issue({ quantity: 3, source: 'sold', expiresAt: Date.now() + 365 * DAY_MS });
+    expect(res.status).toBe(201);
+    expect(res.body.cards).toHaveLength(3);
+
+    const [card] = res.body.cards;
+    expect(card.code).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}(-[0-9A-HJKMNP-TV-Z]{4}){3}$/);
+    expect(card).toMatchObject({ codeLast4: card.code.slice(-4), balance: usd(5000), batchId: res.body.batchId });
+    expect(card.codeHash).toBeUndefined();
+    expect(normalizeGiftCardCode(card.code.toLowerCase())).toBe(card.code.replace(/-/g, ''));
+
+    const stored = giftCardsRepository.getMemoryStore();
+    expect(stored.every((c) => !JSON.stringify(c).includes(card.code.replace(/-/g, '')))).toBe(true);
+    expect(new Set(stored.map((c) => c.codeHash)).size).toBe(3);
+
+    const batch = await request(app).get(`/admin/gift-cards/batches/${res.body.batchId}`);
+    expect(batch.body.map((c: any) => c.code)).toEqual([undefined, undefined, undefined]);
+    expect((await getAccountBalance('gift_cards')).balances).toEqual([Money.of(15000, 'USD')]);
+    expect((await getAccountBalance('processor_balance')).balances).toEqual([Money.of(15000, 'USD')]);
+  });
+
+  test('should export a batch as CSV for print runs', async () => {
+    const res = await issue({ quantity: 2, expiresAt: '2099-12-31T00:00:00.000Z' }, 'csv');
+    expect(res.status).toBe(201);
+    expect(res.headers['content-type']).toMatch(/text\/csv/);
+
+    const [header, ...rows] = parseCsv(res.text);
+    expect(header).toEqual(['code', 'value', 'currency', 'expires_at']);
+    expect(rows).toHaveLength(2);
+    expect(rows[0].slice(1)).toEqual(['50.00', 'USD', '2099-12-31T00:00:00.000Z']);
+    expect((await balance(rows[0][0])).body).toMatchObject({ balance: usd(5000), expired: false });
+  });
+
+  test('should redeem a card alongside a card payment and refund it back onto the card', async () => {
+    const { code } = (await issue({})).body.cards[0];
+
+    const { orderId, results } = await pay(8000, [
+      { amount: usd(5000), paymentMethod: 'gift_card', giftCardCode: code.toLowerCase().replace(/-/g, ' ') },
+      { amount: usd(3000), paymentMethod: 'pm_card_visa' },
+    ]);
+    const [giftPayment, cardPayment] = results;
+    expect(giftPayment.status).toBe(201);
+    expect(giftPayment.body.payment).toMatchObject({ provider: 'gift_card', status: 'succeeded' });
+    expect(giftPayment.body.payment.metadata.giftCardLast4).toBe(code.slice(-4));
+    expect(cardPayment.body.order.status).toBe('completed');
+    expect((await balance(code)).body.balance).toEqual(usd(0));
+
+    const refund = await request(app)
+      .post(`/orders/${orderId}/refunds`)
+      .send({ paymentId: giftPayment.body.payment.id, amount: usd(2000) });
+    expect(refund.body.refund).toMatchObject({ status: 'succeeded', destination: 'payment_method' });
+    expect((await balance(code)).body.balance).toEqual(usd(2000));
+    expect((await getAccountBalance('gift_cards')).balances).toEqual([Money.of(2000, 'USD')]);
+  });
+
+  test('should fail payments on expired or exhausted cards', async () => {
+    const { code } = (await issue({ initialValue: usd(1000) })).body.cards[0];
+    const short = await pay(2000, [{ amount: usd(2000), paymentMethod: 'gift_card', giftCardCode: code }]);
+    expect(short.results[0].status).toBe(402);
+    expect(short.results[0].body.payment.errorMessage).toBe('Insufficient gift card balance');
+
+    const expiring = (await issue({ expiresAt: Date.now() + 1000 })).body.cards[0];
+    const card = giftCardsRepository.getMemoryStore().find((c) => c.id === expiring.id)!;
+    card.expiresAt = Date.now() - 1;
+    const expired = await pay(1000, [{ amount: usd(1000), paymentMethod: 'gift_card', giftCardCode: expiring.code }]);
+    expect(expired.results[0].status).toBe(402);
+    expect(expired.results[0].body.payment.errorMessage).toBe('Gift card has expired');
+    expect((await balance(expiring.code)).body).toMatchObject({ expired: true, balance: usd(5000) });
+  });
+
+  test('should lock out callers that keep guessing codes', async () => {
+    const { code } = (await issue({})).body.cards[0];
+    const typo = code.slice(0, -1) + (code.slice(-1) === '0' ? '1' : '0');
+
+    for (let i = 0; i < 4; i++) {
+      expect((await balance(typo, 'user-guess')).status).toBe(404);
+    }
+    expect((await balance('not-a-code', 'user-guess')).status).toBe(404);
+    const locked = await balance(code, 'user-guess');
+    expect(locked.status).toBe(429);
+    expect(locked.body).toMatchObject({ code: 'GIFT_CARD_LOCKED', retryAfter: expect.any(Number) });
+
+    // The lockout also covers the IP address the guesses came from
+    expect((await balance(code, 'user-other')).status).toBe(429);
+    giftCardAttemptsRepository.clearMemoryStore();
+    expect((await balance(code, 'user-other')).status).toBe(200);
+
+    expect((await issue({ quantity: 0 })).status).toBe(400);
+    expect((await issue({ source: 'found' })).status).toBe(400);
+    expect((await issue({ expiresAt: Date.now() - 1000 })).status).toBe(400);
+    const missingCode = await pay(1000, [{ amount: usd(1000), paymentMethod: 'gift_card' }]);
+    expect(missingCode.results[0].status).toBe(400);
+  });
+
+  test('should forget failed attempts once they no longer count towards a lockout', async () => {
+    const now = Date.now();
+    expect((await balance('not-a-code', 'user-forgetful')).status).toBe(404);
+    expect(await purgeGiftCardAttempts(now + 60 * 1000)).toBe(0);
+    expect(await purgeGiftCardAttempts(now + DAY_MS)).toBeGreaterThanOrEqual(1);
+    expect(await giftCardAttemptsRepository.findByKeys(['user:user-forgetful'])).toEqual([]);
+  });
+
+  test('should require a code secret outside test and development', async () => {
+    const [card] = (await issue({})).body.cards;
+    const { NODE_ENV, GIFT_CARD_CODE_SECRET } = process.env;
+    process.env.NODE_ENV = 'production';
+    delete process.env.GIFT_CARD_CODE_SECRET;
+    try {
+      // Other routes keep working; gift cards are refused
+      expect(getGiftCardCodeSecret).toThrow('GIFT_CARD_CODE_SECRET is required');
+      expect((await request(app).get('/health')).status).toBe(200);
+      expect((await balance(card.code)).status).toBe(500);
+    } finally {
+      process.env.NODE_ENV = NODE_ENV;
+      if (GIFT_CARD_CODE_SECRET !== undefined) process.env.GIFT_CARD_CODE_SECRET = GIFT_CARD_CODE_SECRET;
+    }
+  });
+});
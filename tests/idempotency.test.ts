@@ -0,0 +1,129 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import * as idempotencyService from '../src/services/idempotencyService';
+import { idempotencyKeysRepository } from '../src/db/repositories';
+
+describe('Idempotency-Key', () => {
+  const testUserId = 'user-idem';
+  const unitPrice = { amount: 10000, currency: 'USD' };
+  const orderBody = {
+    userId: testUserId,
+    lineItems: [{ ticketId: 'ticket-idem', quantity: 1, unitPrice }],
+  };
+
+  beforeAll(async () => {
+    await saveTicketSettings('ticket-idem', { price: unitPrice });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should replay the original response for a retried order creation', async () => {
+    const first = await request(app).post('/orders').set('Idempotency-Key', 'order-key-1').send(orderBody);
+    const retry = await request(app).post('/orders').set('Idempotency-Key', 'order-key-1').send(orderBody);
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(await ordersService.getUserOrders(testUserId)).toHaveLength(1);
+  });
+
+  test('should charge only once for a retried payment', async () => {
+    const order = await ordersService.createOrder(testUserId, orderBody.lineItems);
+    const paymentBody = { amount: unitPrice, paymentMethod: 'card' };
+
+    const first = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .set('Idempotency-Key', 'payment-key-1')
+      .send(paymentBody);
+    const retry = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .set('Idempotency-Key', 'payment-key-1')
+      .send(paymentBody);
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body.payment.id).toBe(first.body.payment.id);
+    expect(await ordersService.getOrderPayments(order.id)).toHaveLength(1);
+  });
+
+  test('should replay error responses too', async () => {
+    const first = await request(app).post('/orders').set('Idempotency-Key', 'bad-key-1').send({ userId: testUserId });
+    const retry = await request(app).post('/orders').set('Idempotency-Key', 'bad-key-1').send({ userId: testUserId });
+    expect(first.status).toBe(400);
+    expect(retry.status).toBe(400);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+  });
+
+  test('should return 422 when a key is reused with a different body', async () => {
+    await request(app).post('/orders').set('Idempotency-Key', 'order-key-2').send(orderBody);
+    const res = await request(app)
+      .post('/orders')
+      .set('Idempotency-Key', 'order-key-2')
+      .send({ ...orderBody, lineItems: [{ ticketId: 'ticket-idem', quantity: 2, unitPrice }] });
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+
+  test('should scope keys per tenant and user', async () => {
+    const first = await request(app)
+      .post('/orders')
+      .set('Idempotency-Key', 'shared-key')
+      .set('x-tenant-id', 'tenant-a')
+      .send(orderBody);
+    const otherTenant = await request(app)
+      .post('/orders')
+      .set('Idempotency-Key', 'shared-key')
+      .set('x-tenant-id', 'tenant-b')
+      .send(orderBody);
+    const otherUser = await request(app)
+      .post('/orders')
+      .set('Idempotency-Key', 'shared-key')
+      .set('x-tenant-id', 'tenant-a')
+      .set('x-user-id', 'someone-else')
+      .send(orderBody);
+
+    expect(otherTenant.body.id).not.toBe(first.body.id);
+    expect(otherUser.body.id).not.toBe(first.body.id);
+  });
+
+  test('should expire keys after the configured window', async () => {
+    const hash = idempotencyService.hashRequest('POST', '/orders', orderBody);
+    const started = await idempotencyService.beginRequest('tenant', 'user', 'expiring-key', hash, 1000);
+    await idempotencyService.completeRequest(started.record, 201, { id: 'order-1' });
+
+    const replay = await idempotencyService.beginRequest('tenant', 'user', 'expiring-key', hash, 1000);
+    expect(replay.outcome).toBe('replay');
+
+    jest.spyOn(Date, 'now').mockReturnValue(started.record.expiresAt + 1);
+    const restarted = await idempotencyService.beginRequest('tenant', 'user', 'expiring-key', hash, 1000);
+    expect(restarted.outcome).toBe('started');
+    expect(await idempotencyService.purgeExpired(started.record.expiresAt + 1001)).toBeGreaterThanOrEqual(1);
+    expect(await idempotencyKeysRepository.findByKey('tenant', 'user', 'expiring-key')).toBeNull();
+  });
+
+  test('should store keys so only one of concurrent requests claims them', async () => {
+    const hash = idempotencyService.hashRequest('POST', '/orders', orderBody);
+    const lookups = await Promise.all(
+      [1, 2, 3].map(() => idempotencyService.beginRequest('tenant', 'user', 'racing-key', hash))
+    );
+    expect(lookups.map((lookup) => lookup.outcome).sort()).toEqual(['in_progress', 'in_progress', 'started']);
+
+    const first = await request(app).post('/orders').set('Idempotency-Key', 'stored-key').send(orderBody);
+    expect(await idempotencyKeysRepository.findByKey('default', 'anonymous', 'stored-key')).toMatchObject({
+      status: 'completed',
+      responseStatus: 201,
+      responseBody: first.body,
+    });
+  });
+
+  test('should ignore the header on read-only routes', async () => {
+    const res = await request(app).get('/health').set('Idempotency-Key', 'read-key');
+    expect(res.status).toBe(200);
+    expect(res.headers['idempotent-replayed']).toBeUndefined();
+  });
+});
@@ -0,0 +1,170 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { inventoryReservationsRepository, ordersRepository, ticketInventoryRepository } from '../src/db/repositories';
+
+describe('Ticket inventory', () => {
+  const testUserId = 'user-inventory';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  beforeAll(async () => {
+    const tickets = ['arena', 'parking', 'merch', 'drop', 'club', 'stage', 'gallery', 'expiring', 'theatre'];
+    for (const ticket of tickets) await saveTicketSettings(`ticket-${ticket}`, { price: usd(5000) });
+  });
+
+  beforeEach(() => {
+    ticketInventoryRepository.clearMemoryStore();
+    inventoryReservationsRepository.clearMemoryStore();
+    ordersRepository.clearMemoryStore();
+  });
+
+  const supply = (ticketId: string, totalSupply: unknown) =>
+    request(app).put(`/admin/inventory/${ticketId}`).send({ totalSupply });
+
+  const inventory = async (ticketId: string) => (await request(app).get(`/admin/inventory/${ticketId}`)).body;
+
+  const order = (lineItems: { ticketId: string; quantity: number }[]) =>
+    request(app)
+      .post('/orders')
+      .send({
+        userId: testUserId,
+        lineItems: lineItems.map((item) => ({ ...item, unitPrice: usd(5000) })),
+      });
+
+  const pay = (orderId: string, amount: number) =>
+    request(app).post(`/orders/${orderId}/payments`).send({ amount: usd(amount), paymentMethod: 'pm_card_visa' });
+
+  test('should reserve seats when an order is created and refuse orders beyond the supply', async () => {
+    const created = await supply('ticket-arena', 5);
+    expect(created.status).toBe(200);
+    expect(created.body).toMatchObject({ ticketId: 'ticket-arena', totalSupply: 5, reserved: 0, available: 5 });
+    await supply('ticket-parking', 1);
+
+    expect((await order([{ ticketId: 'ticket-arena', quantity: 3 }])).status).toBe(201);
+    expect(await inventory('ticket-arena')).toMatchObject({ reserved: 3, sold: 0, available: 2 });
+
+    const tooMany = await order([{ ticketId: 'ticket-arena', quantity: 3 }]);
+    expect(tooMany.status).toBe(422);
+    expect(tooMany.body).toMatchObject({ code: 'TICKETS_SOLD_OUT', ticketId: 'ticket-arena', available: 2 });
+
+    // An order short on one ticket takes none of the others
+    const partial = await order([
+      { ticketId: 'ticket-arena', quantity: 1 },
+      { ticketId: 'ticket-parking', quantity: 2 },
+    ]);
+    expect(partial.body.code).toBe('TICKETS_SOLD_OUT');
+    expect(await inventory('ticket-arena')).toMatchObject({ reserved: 3, available: 2 });
+
+    // Tickets without inventory are not limited
+    expect((await order([{ ticketId: 'ticket-merch', quantity: 1000 }])).status).toBe(201);
+    expect((await request(app).get('/admin/inventory/ticket-merch')).status).toBe(404);
+
+    const lowered = await supply('ticket-arena', 2);
+    expect(lowered.status).toBe(422);
+    expect(lowered.body).toMatchObject({ code: 'SUPPLY_BELOW_COMMITTED', reserved: 3, sold: 0 });
+    expect((await supply('ticket-arena', 10)).body.available).toBe(7);
+    expect((await supply('ticket-arena', -1)).status).toBe(400);
+  });
+
+  test('should never oversell under concurrent orders', async () => {
+    await supply('ticket-drop', 5);
+
+    const results = await Promise.all(
+      Array.from({ length: 12 }, () => order([{ ticketId: 'ticket-drop', quantity: 1 }]))
+    );
+    expect(results.filter((res) => res.status === 201)).toHaveLength(5);
+    expect(results.filter((res) => res.body.code === 'TICKETS_SOLD_OUT')).toHaveLength(7);
+    expect(await inventory('ticket-drop')).toMatchObject({ reserved: 5, sold: 0, available: 0 });
+  });
+
+  test('should sell seats on payment and release them on cancellation', async () => {
+    await supply('ticket-club', 4);
+    const paid = await order([{ ticketId: 'ticket-club', quantity: 2 }]);
+    const cancelled = await order([{ ticketId: 'ticket-club', quantity: 2 }]);
+
+    // A partial payment keeps the seats reserved until the order is paid in full
+    await pay(paid.body.id, 4000);
+    expect(await inventory('ticket-club')).toMatchObject({ reserved: 4, sold: 0 });
+    await pay(paid.body.id, 6000);
+    expect(await inventory('ticket-club')).toMatchObject({ reserved: 2, sold: 2 });
+
+    await request(app).put(`/orders/${cancelled.body.id}/status`).send({ status: 'cancelled' });
+    expect(await inventory('ticket-club')).toMatchObject({ reserved: 0, sold: 2, available: 2 });
+    expect((await inventoryReservationsRepository.findByOrderId(cancelled.body.id))[0]).toMatchObject({
+      status: 'released',
+      quantity: 0,
+    });
+  });
+
+  test('should release the seats of failed orders and take them back when they are retried', async () => {
+    await supply('ticket-stage', 2);
+    const failed = await order([{ ticketId: 'ticket-stage', quantity: 2 }]);
+    const status = (orderId: string, to: string) => request(app).put(`/orders/${orderId}/status`).send({ status: to });
+
+    expect((await status(failed.body.id, 'failed')).status).toBe(200);
+    expect(await inventory('ticket-stage')).toMatchObject({ reserved: 0, available: 2 });
+
+    expect((await status(failed.body.id, 'pending')).status).toBe(200);
+    expect(await inventory('ticket-stage')).toMatchObject({ reserved: 2, available: 0 });
+
+    // Seats sold in the meantime keep the order failed, and cancelling it releases nothing more
+    await status(failed.body.id, 'failed');
+    const other = await order([{ ticketId: 'ticket-stage', quantity: 1 }]);
+    const retried = await status(failed.body.id, 'pending');
+    expect(retried.status).toBe(422);
+    expect(retried.body).toMatchObject({ code: 'TICKETS_SOLD_OUT', available: 1 });
+    expect((await ordersService.getOrder(failed.body.id))?.status).toBe('failed');
+    await status(failed.body.id, 'cancelled');
+    expect(await inventory('ticket-stage')).toMatchObject({ reserved: 1, available: 1 });
+    expect((await inventoryReservationsRepository.findByOrderId(other.body.id))[0].status).toBe('reserved');
+  });
+
+  test('should not release the seats of an order paid for while it was being cancelled', async () => {
+    await supply('ticket-gallery', 2);
+    const created = await order([{ ticketId: 'ticket-gallery', quantity: 2 }]);
+    const stale = await ordersRepository.findById(created.body.id);
+    await pay(created.body.id, 10000);
+
+    // The cancellation read the order before the payment completed it
+    const findById = jest.spyOn(ordersRepository, 'findById').mockResolvedValueOnce(stale);
+    await expect(
+      ordersService.updateOrderStatus(created.body.id, 'cancelled', { actor: 'user-inventory' })
+    ).rejects.toMatchObject({ statusCode: 409, code: 'ORDER_STATUS_CHANGED' });
+    findById.mockRestore();
+
+    expect((await ordersService.getOrder(created.body.id))?.status).toBe('completed');
+    expect(await inventory('ticket-gallery')).toMatchObject({ reserved: 0, sold: 2, available: 0 });
+  });
+
+  test('should release the seats of orders whose hold expires', async () => {
+    await supply('ticket-expiring', 2);
+    await order([{ ticketId: 'ticket-expiring', quantity: 2 }]);
+    expect((await order([{ ticketId: 'ticket-expiring', quantity: 1 }])).body.code).toBe('TICKETS_SOLD_OUT');
+
+    expect(await ordersService.expireOrders(Date.now() + 16 * 60 * 1000)).toBe(1);
+    expect(await inventory('ticket-expiring')).toMatchObject({ reserved: 0, available: 2 });
+    expect((await order([{ ticketId: 'ticket-expiring', quantity: 2 }])).status).toBe(201);
+  });
+
+  test('should put refunded tickets back on sale', async () => {
+    await supply('ticket-theatre', 3);
+    const created = await order([{ ticketId: 'ticket-theatre', quantity: 3 }]);
+    const paymentId = (await pay(created.body.id, 15000)).body.payment.id;
+    expect(await inventory('ticket-theatre')).toMatchObject({ sold: 3, available: 0 });
+
+    const refund = (body: Record<string, unknown>) =>
+      request(app)
+        .post(`/orders/${created.body.id}/refunds`)
+        .send({ paymentId, ...body });
+
+    await refund({ lineItems: [{ ticketId: 'ticket-theatre', quantity: 1 }] });
+    expect(await inventory('ticket-theatre')).toMatchObject({ sold: 2, available: 1 });
+
+    // Refunds by amount release nothing until the order is fully refunded
+    await refund({ amount: usd(2500) });
+    expect(await inventory('ticket-theatre')).toMatchObject({ sold: 2, available: 1 });
+    await refund({});
+    expect(await inventory('ticket-theatre')).toMatchObject({ reserved: 0, sold: 0, available: 3 });
+  });
+});
@@ -0,0 +1,161 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import * as ledgerService from '../src/services/ledgerService';
+import { ledgerRepository } from '../src/db/repositories';
+import { Money } from '../src/models/money';
+
+describe('Ledger', () => {
+  const testUserId = 'user-ledger';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  beforeEach(() => {
+    ledgerRepository.clearMemoryStore();
+  });
+
+  const pay = async (total: number, amount: number = total) => {
+    await saveTicketSettings('ticket-ledger', { price: usd(total) });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-ledger', quantity: 1, unitPrice: usd(total) },
+    ]);
+    const res = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .send({ amount: usd(amount), paymentMethod: 'pm_card_visa' });
+    return { orderId: order.id as string, paymentId: res.body.payment.id as string };
+  };
+
+  const balance = async (accountCode: string) => (await ledgerService.getAccountBalance(accountCode)).balances;
+
+  /**
+   * Every posting ever made, netted per currency, must come to zero
+   */
+  const expectLedgerBalanced = async () => {
+    const net = new Map<string, number>();
+    for (const posting of (await ledgerRepository.findAll()).flatMap((e) => e.postings)) {
+      const sign = posting.direction === 'debit' ? 1 : -1;
+      net.set(posting.amount.currency, (net.get(posting.amount.currency) || 0) + sign * posting.amount.amount);
+    }
+    [...net.values()].forEach((sum) => expect(sum).toBe(0));
+  };
+
+  test('should book the capture and the sale when an order is paid', async () => {
+    const { orderId, paymentId } = await pay(10000);
+
+    const entries = await ledgerService.getOrderEntries(orderId);
+    expect(entries.map((e) => [e.type, e.referenceId])).toEqual([
+      ['payment_capture', paymentId],
+      ['sale', orderId],
+    ]);
+    expect(await balance('processor_balance')).toEqual([Money.of(10000, 'USD')]);
+    expect(await balance('customer_receivable')).toEqual([Money.of(0, 'USD')]);
+    expect(await balance('organizer_payable')).toEqual([Money.of(10000, 'USD')]);
+    await expectLedgerBalanced();
+  });
+
+  test('should book authorized payments only once they are captured', async () => {
+    await saveTicketSettings('ticket-ledger', { price: usd(8000) });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-ledger', quantity: 1, unitPrice: usd(8000) },
+    ]);
+    const authorized = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .send({ amount: usd(8000), paymentMethod: 'pm_card_visa', captureMethod: 'manual' });
+    expect(await ledgerService.getOrderEntries(order.id)).toHaveLength(0);
+
+    await request(app).post(`/payments/${authorized.body.payment.id}/capture`).send({ amount: usd(6000) });
+    const [capture] = await ledgerService.getOrderEntries(order.id);
+    expect(capture.type).toBe('payment_capture');
+    expect(capture.postings).toEqual([
+      { accountCode: 'processor_balance', direction: 'debit', amount: Money.of(6000, 'USD') },
+      { accountCode: 'customer_receivable', direction: 'credit', amount: Money.of(6000, 'USD') },
+    ]);
+    // Prepaid but not yet sold: the customer holds a credit
+    expect(await balance('customer_receivable')).toEqual([Money.of(-6000, 'USD')]);
+  });
+
+  test('should take refunds out of the organizer payable once the order was sold', async () => {
+    const { orderId, paymentId } = await pay(10000);
+    await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId, amount: usd(2500) });
+
+    const refund = (await ledgerService.getOrderEntries(orderId)).find((e) => e.type === 'refund');
+    expect(refund?.postings.map((p) => [p.accountCode, p.direction])).toEqual([
+      ['organizer_payable', 'debit'],
+      ['processor_balance', 'credit'],
+    ]);
+    expect(await balance('organizer_payable')).toEqual([Money.of(7500, 'USD')]);
+    expect(await balance('processor_balance')).toEqual([Money.of(7500, 'USD')]);
+    await expectLedgerBalanced();
+  });
+
+  test('should return a prepayment on a cancelled order through the receivable', async () => {
+    const { orderId, paymentId } = await pay(10000, 4000);
+    await ordersService.updateOrderStatus(orderId, 'cancelled', { actor: 'test' });
+    await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId });
+
+    expect(await balance('customer_receivable')).toEqual([Money.of(0, 'USD')]);
+    expect(await balance('processor_balance')).toEqual([Money.of(0, 'USD')]);
+    expect(await balance('organizer_payable')).toEqual([]);
+  });
+
+  test('should reject unbalanced entries and keep entries append-only', async () => {
+    await expect(
+      ledgerService.postEntry({
+        type: 'fee',
+        referenceId: 'fee-unbalanced',
+        description: 'Broken fee',
+        postings: [
+          { accountCode: 'organizer_payable', direction: 'debit', amount: Money.of(100, 'USD') },
+          { accountCode: 'platform_revenue', direction: 'credit', amount: Money.of(90, 'USD') },
+        ],
+      })
+    ).rejects.toMatchObject({ code: 'LEDGER_ENTRY_UNBALANCED' });
+    await expect(
+      ledgerService.recordFee({
+        referenceId: 'fee-unknown',
+        amount: Money.of(100, 'USD'),
+        from: 'organizer_payable',
+        to: 'petty_cash',
+        description: 'Unknown account',
+      })
+    ).rejects.toMatchObject({ statusCode: 404 });
+
+    const fee = {
+      referenceId: 'fee-1',
+      amount: Money.of(300, 'USD'),
+      from: 'organizer_payable:org-1',
+      to: 'platform_revenue',
+      description: 'Platform fee',
+    };
+    const first = await ledgerService.recordFee(fee);
+    const retry = await ledgerService.recordFee(fee);
+    expect(retry.id).toBe(first.id);
+    expect(await balance('platform_revenue')).toEqual([Money.of(300, 'USD')]);
+    expect(await balance('organizer_payable:org-1')).toEqual([Money.of(-300, 'USD')]);
+
+    await expect(ledgerRepository.update()).rejects.toThrow(/append-only/);
+    await expect(ledgerRepository.delete()).rejects.toThrow(/append-only/);
+  });
+
+  test('should expose balances and entries to admins', async () => {
+    const { orderId } = await pay(5000);
+
+    const accounts = await request(app).get('/admin/ledger/accounts');
+    expect(accounts.status).toBe(200);
+    expect(accounts.body.map((a: any) => a.code)).toEqual([
+      'customer_receivable',
+      'organizer_payable',
+      'processor_balance',
+    ]);
+
+    const payable = await request(app).get('/admin/ledger/accounts/organizer_payable');
+    expect(payable.body).toMatchObject({ type: 'liability', balances: [usd(5000)] });
+    expect(payable.body.entries).toHaveLength(1);
+
+    const orderLedger = await request(app).get(`/admin/ledger/orders/${orderId}`);
+    expect(orderLedger.body.map((e: any) => e.type)).toEqual(['payment_capture', 'sale']);
+
+    const unknown = await request(app).get('/admin/ledger/accounts/petty_cash');
+    expect(unknown.status).toBe(404);
+  });
+});
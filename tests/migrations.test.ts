@@ -0,0 +1,92 @@
+import { MIGRATIONS, MigrationQuery } from '../src/db/migrations';
+
+describe('Schema migrations', () => {
+  /**
+   * Runs every migration against tables whose columns have the given types, recording the statements
+   */
+  const migrate = async (columns: Record<string, string>, currencies: Record<string, string[]> = {}) => {
+    const statements: string[] = [];
+    const db: MigrationQuery = async (text, values) => {
+      statements.push(text.replace(/\s+/g, ' ').trim());
+      if (text.includes('information_schema.columns')) {
+        const type = columns[`${values![0]}.${values![1]}`];
+        return { rows: type ? [{ data_type: type }] : [] } as any;
+      }
+      const distinct = text.match(/SELECT DISTINCT \w+ AS currency FROM (\w+)/);
+      if (distinct) return { rows: (currencies[distinct[1]] || []).map((currency) => ({ currency })) } as any;
+      return { rows: [] } as any;
+    };
+    for (const migration of MIGRATIONS) await migration.up(db);
+    return statements.filter((text) => !text.includes('information_schema'));
+  };
+
+  test('should convert decimal amounts to minor units of each row currency', async () => {
+    const statements = await migrate(
+      { 'orders.total_amount': 'numeric', 'payments.amount': 'numeric' },
+      { orders: ['USD'], payments: ['USD', 'JPY'] }
+    );
+    expect(statements).toContain('ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency VARCHAR(3)');
+    expect(statements).toContain(
+      "ALTER TABLE orders ALTER COLUMN total_amount TYPE BIGINT USING round(total_amount * power(10, " +
+        "CASE currency WHEN 'USD' THEN 2 END))::BIGINT"
+    );
+    expect(statements).toContain(
+      "ALTER TABLE payments ALTER COLUMN amount TYPE BIGINT USING round(amount * power(10, " +
+        "CASE currency WHEN 'USD' THEN 2 WHEN 'JPY' THEN 0 END))::BIGINT"
+    );
+  });
+
+  test('should turn the ticket and quantity of existing orders into a line item', async () => {
+    const legacy = { 'orders.id': 'uuid', 'orders.ticket_id': 'uuid', 'orders.total_amount': 'bigint' };
+    const statements = await migrate(legacy);
+    expect(statements).toContain('ALTER TABLE orders ADD COLUMN line_items JSONB');
+    expect(statements.find((text) => text.startsWith('UPDATE orders SET line_items'))).toContain(
+      "'unitPrice', jsonb_build_object('amount', total_amount / quantity, 'currency', currency)"
+    );
+    expect(statements).toContain(
+      'ALTER TABLE orders ALTER COLUMN ticket_id DROP NOT NULL, ALTER COLUMN quantity DROP NOT NULL'
+    );
+    expect(statements).toContain('UPDATE orders SET organizer_net = total_amount WHERE organizer_net IS NULL');
+  });
+
+  test('should widen user ids stored as UUIDs', async () => {
+    const statements = await migrate({ 'orders.user_id': 'uuid', 'payments.user_id': 'character varying' });
+    expect(statements).toContain('ALTER TABLE orders ALTER COLUMN user_id TYPE VARCHAR(255)');
+    expect(statements.filter((text) => text.includes('ALTER COLUMN user_id'))).toHaveLength(1);
+  });
+
+  test('should add prices to existing ticket settings', async () => {
+    const statements = await migrate({ 'ticket_settings.ticket_id': 'character varying' });
+    expect(statements).toEqual([
+      'ALTER TABLE ticket_settings ADD COLUMN IF NOT EXISTS price BIGINT, ADD COLUMN IF NOT EXISTS currency VARCHAR(3)',
+    ]);
+  });
+
+  test('should drop the prices waitlist entries were quoted', async () => {
+    const statements = await migrate({ 'waitlist_entries.unit_price': 'bigint' });
+    expect(statements).toEqual(['ALTER TABLE waitlist_entries DROP COLUMN unit_price, DROP COLUMN currency']);
+  });
+
+  test('should leave tables already in the current shape alone', async () => {
+    const statements = await migrate({
+      'orders.id': 'uuid',
+      'orders.total_amount': 'bigint',
+      'orders.line_items': 'jsonb',
+      'payments.id': 'uuid',
+      'payments.amount': 'bigint',
+    });
+    // Only the additions that find their columns there already run
+    const changes = statements.filter((text) => text.startsWith('ALTER') && !text.includes('ADD COLUMN IF NOT EXISTS'));
+    expect(changes).toEqual(['ALTER TABLE orders ALTER COLUMN organizer_net SET NOT NULL']);
+  });
+
+  test('should leave a new database to schema.sql', async () => {
+    expect(await migrate({})).toEqual([]);
+  });
+
+  test('should refuse amounts in currencies it cannot scale', async () => {
+    await expect(migrate({ 'payments.amount': 'numeric' }, { payments: ['XXX'] })).rejects.toThrow(
+      'Unsupported currency: XXX'
+    );
+  });
+});
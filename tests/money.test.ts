@@ -0,0 +1,40 @@
+import { Money, CurrencyMismatchError } from '../src/models/money';
+
+describe('Money', () => {
+  test('should know each currency exponent', () => {
+    expect(Money.fromDecimal('1999', 'JPY').amount).toBe(1999);
+    expect(Money.fromDecimal('19.99', 'USD').amount).toBe(1999);
+    expect(Money.fromDecimal('1.999', 'KWD').amount).toBe(1999);
+    expect(Money.of(1999, 'KWD').toDecimalString()).toBe('1.999');
+    expect(Money.of(5, 'USD').toDecimalString()).toBe('0.05');
+    expect(Money.of(-1999, 'JPY').toDecimalString()).toBe('-1999');
+  });
+
+  test('should reject invalid amounts and currencies', () => {
+    expect(() => Money.of(1.5, 'USD')).toThrow();
+    expect(() => Money.of(100, 'XYZ')).toThrow();
+    expect(() => Money.fromDecimal('1.999', 'USD')).toThrow();
+    expect(() => Money.fromDecimal('1.5', 'JPY')).toThrow();
+    expect(() => Money.fromDecimal('abc', 'USD')).toThrow();
+    expect(() => Money.fromJSON({ amount: '200', currency: 'USD' })).toThrow();
+  });
+
+  test('should add and subtract in the same currency only', () => {
+    const total = Money.of(1000, 'USD').add(Money.of(250, 'USD')).subtract(Money.of(2000, 'USD'));
+    expect(total.equals(Money.of(-750, 'USD'))).toBe(true);
+    expect(() => Money.of(1000, 'USD').add(Money.of(1000, 'EUR'))).toThrow(CurrencyMismatchError);
+  });
+
+  test('should allocate without losing minor units', () => {
+    expect(Money.of(100, 'USD').allocate([1, 1, 1]).map((m) => m.amount)).toEqual([34, 33, 33]);
+    expect(Money.of(5, 'USD').allocate([70, 30]).map((m) => m.amount)).toEqual([4, 1]);
+    expect(Money.of(-100, 'USD').allocate([1, 1, 1]).map((m) => m.amount)).toEqual([-34, -33, -33]);
+    expect(() => Money.of(100, 'USD').allocate([0, 0])).toThrow();
+  });
+
+  test('should serialize as integer minor units with a currency', () => {
+    expect(JSON.parse(JSON.stringify({ total: Money.of(1999, 'USD') }))).toEqual({
+      total: { amount: 1999, currency: 'USD' },
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import {
+  orderHoldRulesRepository,
+  ordersRepository,
+  promoCodesRepository,
+  promoRedemptionsRepository,
+} from '../src/db/repositories';
+
+describe('Order expiry', () => {
+  const testUserId = 'user-expiry';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const minutes = (count: number) => count * 60 * 1000;
+
+  beforeAll(async () => {
+    for (const ticketId of ['ticket-expiry', 'ticket-ga', 'ticket-vip']) {
+      await saveTicketSettings(ticketId, { price: usd(10000) });
+    }
+  });
+
+  beforeEach(() => {
+    orderHoldRulesRepository.clearMemoryStore();
+    ordersRepository.clearMemoryStore();
+    promoCodesRepository.clearMemoryStore();
+    promoRedemptionsRepository.clearMemoryStore();
+  });
+
+  const holdRule = (body: Record<string, unknown>) => request(app).post('/admin/order-hold-rules').send(body);
+
+  const createOrder = (lineItems: unknown[], extra: Record<string, unknown> = {}, tenantId = 'default') =>
+    request(app)
+      .post('/orders')
+      .set('x-tenant-id', tenantId)
+      .send({ userId: testUserId, lineItems, ...extra });
+
+  const single = (ticketId: string = 'ticket-expiry') => [{ ticketId, quantity: 1, unitPrice: usd(10000) }];
+
+  const pay = (orderId: string, body: Record<string, unknown> = {}) =>
+    request(app)
+      .post(`/orders/${orderId}/payments`)
+      .send({ amount: usd(10000), paymentMethod: 'pm_card_visa', ...body });
+
+  test('should hold orders for their shortest-held ticket under the most specific rule', async () => {
+    await holdRule({ holdMinutes: 30 });
+    await holdRule({ tenantId: 'tenant-fest', holdMinutes: 20 });
+    const vip = await holdRule({ tenantId: 'tenant-fest', ticketId: 'ticket-vip', holdMinutes: 10 });
+    expect(vip.status).toBe(201);
+    expect(vip.body).toMatchObject({ tenantId: 'tenant-fest', ticketId: 'ticket-vip', holdMinutes: 10 });
+
+    const before = Date.now();
+    const global = await createOrder(single());
+    expect(global.body.expiresAt - before).toBeGreaterThanOrEqual(minutes(30));
+    expect(global.body.expiresAt - Date.now()).toBeLessThanOrEqual(minutes(30));
+
+    const mixed = await createOrder([...single('ticket-ga'), ...single('ticket-vip')], {}, 'tenant-fest');
+    expect(mixed.body.expiresAt - mixed.body.createdAt).toBe(minutes(10));
+
+    // Rule changes apply to new orders only
+    await request(app).patch(`/admin/order-hold-rules/${vip.body.id}`).send({ holdMinutes: 45 });
+    const longer = await createOrder(single('ticket-vip'), {}, 'tenant-fest');
+    expect(longer.body.expiresAt - longer.body.createdAt).toBe(minutes(45));
+    expect((await ordersService.getOrder(mixed.body.id))?.expiresAt).toBe(mixed.body.expiresAt);
+
+    expect((await holdRule({ holdMinutes: 0 })).status).toBe(400);
+    expect((await request(app).delete(`/admin/order-hold-rules/${vip.body.id}`)).status).toBe(204);
+    expect((await request(app).get('/admin/order-hold-rules')).body).toHaveLength(2);
+  });
+
+  test('should cancel unpaid orders once their hold lapses and give back promo codes', async () => {
+    const promo = await request(app)
+      .post('/admin/promo-codes')
+      .send({ code: 'ONCE', kind: 'percentage', percentage: 10, maxRedemptions: 1 });
+    const expiring = await createOrder(single(), { promoCodes: ['ONCE'] });
+    await holdRule({ holdMinutes: 60 });
+    const later = await createOrder(single());
+
+    const now = Date.now() + minutes(16);
+    expect(await ordersService.expireOrders(now)).toBe(1);
+    expect(await ordersService.expireOrders(now)).toBe(0);
+
+    const cancelled = await ordersService.getOrder(expiring.body.id);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.statusHistory.at(-1)).toMatchObject({ actor: 'system', reason: 'Hold expired' });
+    expect((await ordersService.getOrder(later.body.id))?.status).toBe('pending');
+    expect((await request(app).get(`/admin/promo-codes/${promo.body.id}`)).body.redemptionCount).toBe(0);
+  });
+
+  test('should void open authorizations and leave orders that took money alone', async () => {
+    const authorized = await createOrder(single());
+    const held = await pay(authorized.body.id, { captureMethod: 'manual' });
+    expect(held.body.order.status).toBe('processing');
+
+    const partlyPaid = await createOrder(single());
+    await pay(partlyPaid.body.id, { amount: usd(4000) });
+    const paid = await createOrder(single());
+    await pay(paid.body.id);
+
+    expect(await ordersService.expireOrders(Date.now() + minutes(16))).toBe(1);
+    expect((await ordersService.getPayment(held.body.payment.id))?.status).toBe('voided');
+    expect((await ordersService.getOrder(authorized.body.id))?.status).toBe('cancelled');
+    expect((await ordersService.getOrder(partlyPaid.body.id))?.status).toBe('processing');
+    expect((await ordersService.getOrder(paid.body.id))?.status).toBe('completed');
+
+    // A partly paid order can still be settled after its hold
+    await ordersRepository.update(partlyPaid.body.id, { expiresAt: Date.now() - 1 });
+    expect((await pay(partlyPaid.body.id, { amount: usd(6000) })).body.order.status).toBe('completed');
+  });
+
+  test('should reject payments and captures after the hold lapses', async () => {
+    const created = await createOrder(single());
+    const held = await pay(created.body.id, { captureMethod: 'manual', amount: usd(5000) });
+    await ordersRepository.update(created.body.id, { expiresAt: Date.now() - 1 });
+
+    // Before the sweeper has run
+    const late = await pay(created.body.id, { amount: usd(5000) });
+    expect(late.status).toBe(422);
+    expect(late.body).toMatchObject({ code: 'ORDER_EXPIRED', expiresAt: expect.any(Number) });
+    const capture = await request(app).post(`/payments/${held.body.payment.id}/capture`).send({});
+    expect(capture.body.code).toBe('ORDER_EXPIRED');
+
+    // And after it cancelled the order
+    await ordersService.expireOrders();
+    const afterSweep = await pay(created.body.id);
+    expect(afterSweep.status).toBe(422);
+    expect(afterSweep.body.code).toBe('ORDER_EXPIRED');
+    expect((await ordersService.getOrderPayments(created.body.id)).map((p) => p.status)).toEqual(['voided']);
+  });
+
+  test('should let only one sweeper expire an order at a time', async () => {
+    const created = await createOrder(single());
+    const now = Date.now() + minutes(16);
+
+    const counts = await Promise.all([ordersService.expireOrders(now), ordersService.expireOrders(now)]);
+    expect(counts.sort()).toEqual([0, 1]);
+    const order = await ordersService.getOrder(created.body.id);
+    expect(order?.statusHistory.filter((change) => change.to === 'cancelled')).toHaveLength(1);
+
+    // A claim holds until its lease runs out
+    const other = await createOrder(single());
+    expect(await ordersRepository.claimExpiry(other.body.id, now, minutes(5))).toBe(true);
+    expect(await ordersService.expireOrders(now + minutes(1))).toBe(0);
+    expect(await ordersService.expireOrders(now + minutes(6))).toBe(1);
+  });
+});
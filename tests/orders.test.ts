@@ -1,24 +1,105 @@
 import request from 'supertest';
 import app from '../src/app';
+import * as database from '../src/config/database';
 import * as ordersService from '../src/services/ordersService';
+import { Money } from '../src/models/money';
+import { ordersRepository } from '../src/db/repositories';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
 
 describe('Payments Orders Service', () => {
   const testUserId = 'user-456';
   const testTicketId = 'ticket-789';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const lineItems = (quantity: number, unitPrice: number) => [
+    { ticketId: testTicketId, quantity, unitPrice: usd(unitPrice) },
+  ];
+
+  beforeAll(async () => {
+    const prices = { 'ticket-vip': 15000, 'ticket-ga': 4999, 'ticket-a': 1000, 'ticket-b': 3000, 'ticket-c': 4000 };
+    for (const [ticketId, price] of Object.entries({ [testTicketId]: 10000, ...prices })) {
+      await saveTicketSettings(ticketId, { price: usd(price) });
+    }
+    await saveTicketSettings('ticket-eur', { price: { amount: 5000, currency: 'EUR' } });
+  });
 
   describe('POST /orders - Create Order', () => {
     test('should create a new order', async () => {
       const res = await request(app).post('/orders').send({
         userId: testUserId,
-        ticketId: testTicketId,
-        quantity: 2,
-        totalAmount: '200',
+        lineItems: lineItems(2, 10000),
       });
       expect(res.status).toBe(201);
       expect(res.body).toHaveProperty('id');
       expect(res.body.userId).toBe(testUserId);
       expect(res.body.status).toBe('pending');
-      expect(res.body.quantity).toBe(2);
+      expect(res.body.lineItems[0].quantity).toBe(2);
+      expect(res.body.totalAmount).toEqual(usd(20000));
+    });
+
+    test('should compute the total from several line items', async () => {
+      const res = await request(app)
+        .post('/orders')
+        .send({
+          userId: testUserId,
+          totalAmount: usd(1),
+          lineItems: [
+            { ticketId: 'ticket-vip', quantity: 2, unitPrice: usd(15000) },
+            { ticketId: 'ticket-ga', quantity: 3, unitPrice: usd(4999) },
+          ],
+        });
+      expect(res.status).toBe(201);
+      expect(res.body.lineItems).toEqual([
+        { ticketId: 'ticket-vip', quantity: 2, unitPrice: usd(15000), lineTotal: usd(30000), taxCategory: 'standard' },
+        { ticketId: 'ticket-ga', quantity: 3, unitPrice: usd(4999), lineTotal: usd(14997), taxCategory: 'standard' },
+      ]);
+      expect(res.body.totalAmount).toEqual(usd(44997));
+    });
+
+    test('should return 400 when line items use different currencies', async () => {
+      const res = await request(app)
+        .post('/orders')
+        .send({
+          userId: testUserId,
+          lineItems: [
+            { ticketId: 'ticket-vip', quantity: 1 },
+            { ticketId: 'ticket-eur', quantity: 1 },
+          ],
+        });
+      expect(res.status).toBe(400);
+    });
+
+    test('should price line items from the ticket settings', async () => {
+      const res = await request(app)
+        .post('/orders')
+        .send({ userId: testUserId, lineItems: [{ ticketId: 'ticket-vip', quantity: 2 }] });
+      expect(res.status).toBe(201);
+      expect(res.body.lineItems[0]).toMatchObject({ unitPrice: usd(15000), lineTotal: usd(30000) });
+      expect((await request(app).put('/admin/tickets/ticket-vip').send({ price: usd(-1) })).status).toBe(400);
+    });
+
+    test('should reject a unit price other than the ticket price', async () => {
+      const res = await request(app)
+        .post('/orders')
+        .send({ userId: testUserId, lineItems: [{ ticketId: 'ticket-vip', quantity: 1, unitPrice: usd(1) }] });
+      expect(res.status).toBe(422);
+      expect(res.body.code).toBe('PRICE_MISMATCH');
+      expect(res.body).toMatchObject({ ticketId: 'ticket-vip', price: usd(15000) });
+    });
+
+    test('should refuse tickets without a price', async () => {
+      const res = await request(app)
+        .post('/orders')
+        .send({ userId: testUserId, lineItems: [{ ticketId: 'ticket-unpriced', quantity: 1, unitPrice: usd(100) }] });
+      expect(res.status).toBe(422);
+      expect(res.body.code).toBe('TICKET_NOT_PRICED');
+    });
+
+    test('should return 400 for an invalid line item', async () => {
+      const res = await request(app)
+        .post('/orders')
+        .send({ userId: testUserId, lineItems: [{ ticketId: testTicketId, quantity: 0, unitPrice: 'abc' }] });
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('VALIDATION_ERROR');
     });
 
     test('should return 400 if required fields are missing', async () => {
@@ -30,7 +111,7 @@ describe('Payments Orders Service', () => {
 
   describe('GET /orders/:orderId - Get Order', () => {
     test('should retrieve an order by ID', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
       const res = await request(app).get(`/orders/${order.id}`);
       expect(res.status).toBe(200);
       expect(res.body.id).toBe(order.id);
@@ -46,8 +127,8 @@ describe('Payments Orders Service', () => {
 
   describe('GET /orders/user/:userId - Get User Orders', () => {
     test('should retrieve all orders for a user', async () => {
-      ordersService.createOrder(testUserId, testTicketId, 1, '100');
-      ordersService.createOrder(testUserId, testTicketId, 2, '200');
+      await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      await ordersService.createOrder(testUserId, lineItems(2, 10000));
       const res = await request(app).get(`/orders/user/${testUserId}`);
       expect(res.status).toBe(200);
       expect(Array.isArray(res.body)).toBe(true);
@@ -61,30 +142,168 @@ describe('Payments Orders Service', () => {
     });
   });
 
+  describe('GET /orders - Search Orders', () => {
+    const searchUserId = 'user-search';
+
+    beforeAll(async () => {
+      await ordersService.createOrder(searchUserId, [{ ticketId: 'ticket-a', quantity: 1 }]);
+      await ordersService.createOrder(searchUserId, [{ ticketId: 'ticket-b', quantity: 1 }]);
+      await ordersService.createOrder(searchUserId, [
+        { ticketId: 'ticket-a', quantity: 1 },
+        { ticketId: 'ticket-b', quantity: 2 },
+      ]);
+      const cancelled = await ordersService.createOrder(searchUserId, [{ ticketId: 'ticket-c', quantity: 1 }]);
+      await ordersService.updateOrderStatus(cancelled.id, 'cancelled', { actor: 'test' });
+    });
+
+    test('should filter by user, ticket and status', async () => {
+      const res = await request(app)
+        .get('/orders')
+        .query({ userId: searchUserId, ticketId: 'ticket-a', status: 'pending' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((o: any) => o.totalAmount.amount).sort()).toEqual([1000, 7000]);
+      expect(res.body.nextCursor).toBeNull();
+    });
+
+    test('should filter by amount range and sort by amount', async () => {
+      const res = await request(app)
+        .get('/orders')
+        .query({ userId: searchUserId, minAmount: 2000, maxAmount: 7000, sortBy: 'totalAmount', sortOrder: 'asc' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((o: any) => o.totalAmount.amount)).toEqual([3000, 4000, 7000]);
+    });
+
+    test('should filter by created-at range', async () => {
+      const res = await request(app).get('/orders').query({ userId: searchUserId, createdFrom: Date.now() + 60000 });
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual([]);
+    });
+
+    test('should page through results with an opaque cursor', async () => {
+      const seen: number[] = [];
+      let cursor: string | undefined;
+      do {
+        const res = await request(app)
+          .get('/orders')
+          .query({ userId: searchUserId, sortBy: 'totalAmount', limit: 3, ...(cursor ? { cursor } : {}) });
+        expect(res.status).toBe(200);
+        seen.push(...res.body.data.map((o: any) => o.totalAmount.amount));
+        cursor = res.body.nextCursor ?? undefined;
+      } while (cursor);
+      expect(seen).toEqual([7000, 4000, 3000, 1000]);
+    });
+
+    test('should page with cursors built from Postgres rows', async () => {
+      // BIGINT columns come back from pg as strings
+      const row = (id: string, createdAt: number) => ({
+        id,
+        user_id: searchUserId,
+        line_items: [{ ticketId: 'ticket-a', quantity: 1, unitPrice: usd(1000), lineTotal: usd(1000) }],
+        total_amount: '1000',
+        currency: 'USD',
+        status: 'pending',
+        platform_fee: '0',
+        processor_fee: '0',
+        tax_amount: '0',
+        organizer_net: '1000',
+        created_at: String(createdAt),
+        updated_at: String(createdAt),
+      });
+      jest.spyOn(database, 'getDatabaseStatus').mockReturnValue({ connected: true, type: 'postgres' });
+      const query = jest.spyOn(database, 'query').mockResolvedValue({
+        rows: [row('00000000-0000-4000-8000-000000000002', 2000), row('00000000-0000-4000-8000-000000000001', 1000)],
+      } as any);
+
+      try {
+        const filters = { userId: searchUserId };
+        const first = await ordersService.searchOrders(filters, { limit: 1 });
+        expect(first.data[0].createdAt).toBe(2000);
+        const next = await ordersService.searchOrders(filters, { limit: 1, cursor: first.nextCursor! });
+        expect(next.data).toHaveLength(1);
+        const [, values] = query.mock.calls[1];
+        expect(values).toEqual(expect.arrayContaining([2000, '00000000-0000-4000-8000-000000000002']));
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    test('should reject a cursor used with a different sort', async () => {
+      const first = await request(app).get('/orders').query({ userId: searchUserId, limit: 1 });
+      const res = await request(app)
+        .get('/orders')
+        .query({ userId: searchUserId, limit: 1, sortOrder: 'asc', cursor: first.body.nextCursor });
+      expect(res.status).toBe(400);
+    });
+
+    test('should return 400 for invalid filters', async () => {
+      const res = await request(app).get('/orders').query({ status: 'pending,shipped', limit: 500 });
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
   describe('PUT /orders/:orderId/status - Update Order Status', () => {
     test('should update order status', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
       const res = await request(app).put(`/orders/${order.id}/status`).send({ status: 'processing' });
       expect(res.status).toBe(200);
       expect(res.body.status).toBe('processing');
     });
 
     test('should return 400 if status is missing', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
       const res = await request(app).put(`/orders/${order.id}/status`).send({});
       expect(res.status).toBe(400);
       expect(res.body).toHaveProperty('error');
     });
+
+    test('should return 400 for an unknown status', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      const res = await request(app).put(`/orders/${order.id}/status`).send({ status: 'shipped' });
+      expect(res.status).toBe(400);
+    });
+
+    test('should record who made the transition and why', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      const res = await request(app)
+        .put(`/orders/${order.id}/status`)
+        .set('x-user-id', 'support-agent-1')
+        .send({ status: 'cancelled', reason: 'Customer request' });
+      expect(res.status).toBe(200);
+      expect(res.body.statusHistory).toEqual([
+        expect.objectContaining({
+          from: 'pending',
+          to: 'cancelled',
+          actor: 'support-agent-1',
+          reason: 'Customer request',
+        }),
+      ]);
+    });
+
+    test('should return 409 with allowed next states for an illegal transition', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      await ordersService.updateOrderStatus(order.id, 'cancelled', { actor: 'test' });
+      const res = await request(app).put(`/orders/${order.id}/status`).send({ status: 'pending' });
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('INVALID_ORDER_TRANSITION');
+      expect(res.body.allowedTransitions).toEqual([]);
+    });
+
+    test('should not complete an order that has not been paid', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      const res = await request(app).put(`/orders/${order.id}/status`).send({ status: 'completed' });
+      expect(res.status).toBe(409);
+      expect(res.body.allowedTransitions).toEqual(['processing', 'completed', 'failed', 'cancelled']);
+    });
   });
 
   describe('POST /orders/:orderId/payments - Process Payment', () => {
     test('should process a payment for an order', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
       const res = await request(app)
         .post(`/orders/${order.id}/payments`)
         .send({
-          amount: '100',
-          currency: 'USD',
+          amount: usd(10000),
           paymentMethod: 'card',
         });
       expect(res.status).toBe(201);
@@ -93,9 +312,67 @@ describe('Payments Orders Service', () => {
       expect(res.body.order.status).toBe('completed');
     });
 
+    test('should return 409 when paying for a cancelled order', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      await ordersService.updateOrderStatus(order.id, 'cancelled', { actor: 'test' });
+      const res = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: usd(10000), paymentMethod: 'card' });
+      expect(res.status).toBe(409);
+      expect(await ordersService.getOrderPayments(order.id)).toEqual([]);
+    });
+
+    test('should accept partial payments until the order total is covered', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+
+      const first = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: usd(4000), paymentMethod: 'card' });
+      expect(first.status).toBe(201);
+      expect(first.body.order.status).toBe('processing');
+      expect(first.body.order.balance).toEqual({ paid: usd(4000), outstanding: usd(6000), refunded: usd(0) });
+
+      const second = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: usd(6000), paymentMethod: 'card' });
+      expect(second.status).toBe(201);
+      expect(second.body.order.status).toBe('completed');
+
+      const res = await request(app).get(`/orders/${order.id}`);
+      expect(res.body.balance).toEqual({ paid: usd(10000), outstanding: usd(0), refunded: usd(0) });
+    });
+
+    test('should reject an overpayment', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      const res = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: usd(10001), paymentMethod: 'card' });
+      expect(res.status).toBe(422);
+      expect(res.body.code).toBe('OVERPAYMENT');
+      expect(res.body.outstanding).toEqual(usd(10000));
+    });
+
+    test('should reject a payment in a different currency', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      const res = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: { amount: 10000, currency: 'EUR' }, paymentMethod: 'card' });
+      expect(res.status).toBe(422);
+      expect(res.body.code).toBe('PAYMENT_CURRENCY_MISMATCH');
+      expect(await ordersService.getOrderPayments(order.id)).toEqual([]);
+    });
+
+    test('should return 400 for an invalid amount', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      const res = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: { amount: -5, currency: 'USD' }, paymentMethod: 'card' });
+      expect(res.status).toBe(400);
+    });
+
     test('should return 400 if payment details are missing', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
-      const res = await request(app).post(`/orders/${order.id}/payments`).send({ amount: '100' });
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      const res = await request(app).post(`/orders/${order.id}/payments`).send({ amount: usd(10000) });
       expect(res.status).toBe(400);
       expect(res.body).toHaveProperty('error');
     });
@@ -104,8 +381,7 @@ describe('Payments Orders Service', () => {
       const res = await request(app)
         .post('/orders/non-existent/payments')
         .send({
-          amount: '100',
-          currency: 'USD',
+          amount: usd(10000),
           paymentMethod: 'card',
         });
       expect(res.status).toBe(404);
@@ -114,8 +390,8 @@ describe('Payments Orders Service', () => {
 
   describe('GET /orders/:orderId/payments - Get Order Payments', () => {
     test('should retrieve all payments for an order', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
-      ordersService.createPayment(order.id, '100', 'USD', 'card');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      await ordersService.createPayment(order, Money.of(10000, 'USD'), 'card');
       const res = await request(app).get(`/orders/${order.id}/payments`);
       expect(res.status).toBe(200);
       expect(Array.isArray(res.body)).toBe(true);
@@ -124,7 +400,7 @@ describe('Payments Orders Service', () => {
 
   describe('POST /orders/:orderId/mint-nft - Mint NFT', () => {
     test('should record and mint NFT for an order', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
       const res = await request(app)
         .post(`/orders/${order.id}/mint-nft`)
         .send({
@@ -139,7 +415,7 @@ describe('Payments Orders Service', () => {
     });
 
     test('should return 400 if required fields are missing', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
       const res = await request(app)
         .post(`/orders/${order.id}/mint-nft`)
         .send({ contractAddress: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2' });
@@ -161,14 +437,35 @@ describe('Payments Orders Service', () => {
 
   describe('GET /orders/:orderId/mint-transactions - Get Order Mint Transactions', () => {
     test('should retrieve all mint transactions for an order', async () => {
-      const order = ordersService.createOrder(testUserId, testTicketId, 1, '100');
-      ordersService.recordNFTMintTransaction(order.id, '0xcontract', '0xrecipient', '1');
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      await ordersService.recordNFTMintTransaction(order, '0xcontract', '0xrecipient', '1');
       const res = await request(app).get(`/orders/${order.id}/mint-transactions`);
       expect(res.status).toBe(200);
       expect(Array.isArray(res.body)).toBe(true);
     });
   });
 
+  describe('OrdersRepository - Postgres', () => {
+    test('should bind NFT token ids as an array for the TEXT[] column', async () => {
+      const order = await ordersService.createOrder(testUserId, lineItems(1, 10000));
+      jest.spyOn(database, 'getDatabaseStatus').mockReturnValue({ connected: true, type: 'postgres' });
+      const query = jest.spyOn(database, 'query').mockResolvedValue({ rows: [] } as any);
+
+      try {
+        const { id, ...data } = order;
+        await ordersRepository.create(data);
+        await ordersRepository.update(id, { nftTokenIds: ['token-1'] });
+        const [insert, update] = query.mock.calls.map(([text, values]) => ({ text, values }));
+        const tokenIds = insert.text.split('(')[1].split(', ').indexOf('nft_token_ids');
+        expect(insert.values![tokenIds]).toEqual([]);
+        expect(update.text).toContain('nft_token_ids = $2');
+        expect(update.values![1]).toEqual(['token-1']);
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+  });
+
   describe('GET /health - Health Check', () => {
     test('should return service health status', async () => {
       const res = await request(app).get('/health');
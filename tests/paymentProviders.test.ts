@@ -0,0 +1,249 @@
+import request from 'supertest';
+import Stripe from 'stripe';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { Money } from '../src/models/money';
+import {
+  FakePaymentProvider,
+  getPaymentProvider,
+  PaymentProviderError,
+  setTenantPaymentProvider,
+  StripePaymentProvider,
+} from '../src/services/paymentProviders';
+
+describe('Payment Providers', () => {
+  const usd = (amount: number) => Money.of(amount, 'USD');
+  const failingStripe = (error: Error) =>
+    new StripePaymentProvider({ paymentIntents: { confirm: jest.fn().mockRejectedValue(error) } } as unknown as Stripe);
+
+  describe('FakePaymentProvider', () => {
+    test('should authorize, capture and refund deterministically', async () => {
+      const provider = new FakePaymentProvider();
+      const created = await provider.createCharge({
+        amount: usd(5000),
+        paymentMethod: 'pm_card_visa',
+        captureMethod: 'manual',
+      });
+      expect(created.id).toBe('fake_pi_000001');
+      expect(created.status).toBe('requires_confirmation');
+
+      const authorized = await provider.confirmCharge(created.id);
+      expect(authorized.status).toBe('requires_capture');
+
+      const captured = await provider.captureCharge(created.id, usd(4000));
+      expect(captured.status).toBe('succeeded');
+      expect(captured.amountCaptured.equals(usd(4000))).toBe(true);
+
+      const refund = await provider.refundCharge(created.id, usd(1000));
+      expect(refund.amount.equals(usd(1000))).toBe(true);
+      expect((await provider.retrieveCharge(created.id)).amountRefunded.equals(usd(1000))).toBe(true);
+      await expect(provider.refundCharge(created.id, usd(3001))).rejects.toThrow(PaymentProviderError);
+    });
+
+    test('should cancel an uncaptured authorization only', async () => {
+      const provider = new FakePaymentProvider();
+      const held = await provider.createCharge({
+        amount: usd(5000),
+        paymentMethod: 'pm_card_visa',
+        captureMethod: 'manual',
+      });
+      await provider.confirmCharge(held.id);
+      expect((await provider.cancelCharge(held.id)).status).toBe('canceled');
+      await expect(provider.captureCharge(held.id)).rejects.toThrow(PaymentProviderError);
+      await expect(provider.cancelCharge(held.id)).rejects.toThrow(PaymentProviderError);
+    });
+
+    test('should decline the Stripe test decline payment methods', async () => {
+      const provider = new FakePaymentProvider();
+      const charge = await provider.createCharge({
+        amount: usd(5000),
+        paymentMethod: 'pm_card_chargeDeclined',
+        captureMethod: 'automatic',
+      });
+      await expect(provider.confirmCharge(charge.id)).rejects.toMatchObject({ code: 'card_declined' });
+      expect((await provider.retrieveCharge(charge.id)).status).toBe('failed');
+    });
+  });
+
+  describe('StripePaymentProvider', () => {
+    test('should map PaymentIntents onto provider charges', async () => {
+      const client = {
+        paymentIntents: {
+          create: jest.fn().mockResolvedValue({
+            id: 'pi_123',
+            status: 'succeeded',
+            currency: 'usd',
+            amount: 2500,
+            amount_received: 2500,
+            latest_charge: 'ch_123',
+          }),
+        },
+      } as unknown as Stripe;
+
+      const charge = await new StripePaymentProvider(client).createCharge({
+        amount: usd(2500),
+        paymentMethod: 'pm_card_visa',
+        captureMethod: 'automatic',
+        idempotencyKey: 'payment-1',
+      });
+
+      expect(client.paymentIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 2500, currency: 'usd', capture_method: 'automatic' }),
+        { idempotencyKey: 'payment-1' }
+      );
+      expect(charge).toMatchObject({ id: 'pi_123', chargeId: 'ch_123', status: 'succeeded' });
+      expect(charge.amountCaptured.equals(usd(2500))).toBe(true);
+    });
+
+    test('should find the PaymentIntent created for a payment by its metadata', async () => {
+      const intent = { id: 'pi_456', status: 'processing', currency: 'usd', amount: 900, amount_received: 0 };
+      const search = jest.fn().mockResolvedValueOnce({ data: [intent] }).mockResolvedValueOnce({ data: [] });
+      const provider = new StripePaymentProvider({ paymentIntents: { search } } as unknown as Stripe);
+
+      expect(await provider.findCharge('payment-1')).toMatchObject({ id: 'pi_456', status: 'processing' });
+      expect(search).toHaveBeenCalledWith(expect.objectContaining({ query: "metadata['paymentId']:'payment-1'" }));
+      expect(await provider.findCharge('payment-2')).toBeNull();
+    });
+
+    test('should translate Stripe errors into PaymentProviderError', async () => {
+      const client = {
+        paymentIntents: {
+          confirm: jest.fn().mockRejectedValue(
+            Stripe.errors.StripeError.generate({
+              type: 'card_error',
+              message: 'Your card was declined.',
+              code: 'card_declined',
+              decline_code: 'generic_decline',
+            })
+          ),
+        },
+      } as unknown as Stripe;
+
+      await expect(new StripePaymentProvider(client).confirmCharge('pi_123')).rejects.toMatchObject({
+        name: 'PaymentProviderError',
+        provider: 'stripe',
+        code: 'generic_decline',
+        message: 'Your card was declined.',
+      });
+    });
+
+    test('should treat only declines and rejected requests as final', async () => {
+      const stripeError = (type: string) => Stripe.errors.StripeError.generate({ type, message: type } as any);
+      const rejected = failingStripe(stripeError('invalid_request_error')).confirmCharge('pi_123');
+      await expect(rejected).rejects.toMatchObject({ name: 'PaymentProviderError', retryable: false });
+
+      const unknownOutcomes = [
+        new Stripe.errors.StripeConnectionError({ message: 'Network down' } as any),
+        stripeError('api_error'),
+        stripeError('rate_limit_error'),
+      ];
+      for (const error of unknownOutcomes) {
+        await expect(failingStripe(error).confirmCharge('pi_123')).rejects.toMatchObject({ retryable: true });
+      }
+    });
+  });
+
+  describe('provider selection', () => {
+    test('should use the fake provider in tests and honor tenant overrides', () => {
+      expect(getPaymentProvider().name).toBe('fake');
+      setTenantPaymentProvider('tenant-live', 'stripe');
+      expect(() => getPaymentProvider('tenant-live')).toThrow('STRIPE_SECRET_KEY');
+      setTenantPaymentProvider('tenant-live', null);
+      expect(getPaymentProvider('tenant-live').name).toBe('fake');
+      expect(() => setTenantPaymentProvider('tenant-live', 'paypal')).toThrow();
+    });
+  });
+
+  describe('POST /orders/:orderId/payments', () => {
+    const lineItems = [{ ticketId: 'ticket-provider', quantity: 1, unitPrice: { amount: 5000, currency: 'USD' } }];
+
+    beforeAll(async () => {
+      await saveTicketSettings('ticket-provider', { price: { amount: 5000, currency: 'USD' } });
+    });
+
+    test('should record the provider references on a succeeded payment', async () => {
+      const order = await ordersService.createOrder('user-provider', lineItems);
+      const res = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: { amount: 5000, currency: 'USD' }, paymentMethod: 'pm_card_visa' });
+      expect(res.status).toBe(201);
+      expect(res.body.payment).toMatchObject({ status: 'succeeded', provider: 'fake' });
+      expect(res.body.payment.stripePaymentId).toMatch(/^fake_pi_/);
+      expect(res.body.payment.stripeChargeId).toMatch(/^fake_ch_/);
+    });
+
+    test('should mark the payment failed when the provider declines', async () => {
+      const order = await ordersService.createOrder('user-provider', lineItems);
+      const res = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: { amount: 5000, currency: 'USD' }, paymentMethod: 'pm_card_chargeDeclinedInsufficientFunds' });
+      expect(res.status).toBe(402);
+      expect(res.body.payment.status).toBe('failed');
+      expect(res.body.payment.errorMessage).toBe('Your card has insufficient funds.');
+      expect(res.body.order.status).toBe('pending');
+    });
+
+    test('should keep the payment pending when the provider cannot be reached', async () => {
+      const order = await ordersService.createOrder('user-provider', lineItems);
+      const unreachable = failingStripe(new Stripe.errors.StripeConnectionError({ message: 'Network down' } as any));
+      const confirm = jest
+        .spyOn(getPaymentProvider(), 'confirmCharge')
+        .mockImplementationOnce((chargeId) => unreachable.confirmCharge(chargeId));
+
+      const res = await request(app)
+        .post(`/orders/${order.id}/payments`)
+        .send({ amount: { amount: 5000, currency: 'USD' }, paymentMethod: 'pm_card_visa' });
+      confirm.mockRestore();
+
+      expect(res.status).toBe(502);
+      expect(res.body.code).toBe('PAYMENT_PROVIDER_ERROR');
+      const [payment] = await ordersService.getOrderPayments(order.id);
+      expect(payment).toMatchObject({ status: 'pending', errorMessage: 'Network down' });
+      expect((await ordersService.getOrder(order.id))?.status).toBe('pending');
+    });
+
+    test('should settle payments left pending from the provider once they are stale', async () => {
+      const provider = getPaymentProvider();
+      const networkDown = new PaymentProviderError('Network down', 'fake', undefined, true);
+      const pay = async () => {
+        const order = await ordersService.createOrder('user-provider', lineItems);
+        const res = await request(app)
+          .post(`/orders/${order.id}/payments`)
+          .send({ amount: { amount: 5000, currency: 'USD' }, paymentMethod: 'pm_card_visa' });
+        expect(res.status).toBe(502);
+        return order;
+      };
+
+      // Confirmed, but the response was lost
+      const confirm = jest.spyOn(provider, 'confirmCharge').mockImplementationOnce(async (chargeId) => {
+        await FakePaymentProvider.prototype.confirmCharge.call(provider, chargeId);
+        throw networkDown;
+      });
+      const confirmed = await pay();
+      // Never confirmed
+      confirm.mockRejectedValueOnce(networkDown);
+      const unconfirmed = await pay();
+      confirm.mockRestore();
+      // Never created
+      const create = jest.spyOn(provider, 'createCharge').mockRejectedValueOnce(networkDown);
+      const uncreated = await pay();
+      create.mockRestore();
+
+      expect(await ordersService.reconcilePendingPayments()).toBe(0);
+      await ordersService.reconcilePendingPayments(Date.now() + 6 * 60 * 1000);
+
+      const [succeeded] = await ordersService.getOrderPayments(confirmed.id);
+      expect(succeeded).toMatchObject({ status: 'succeeded' });
+      expect(succeeded.stripePaymentId).toMatch(/^fake_pi_/);
+      expect((await ordersService.getOrder(confirmed.id))?.status).toBe('completed');
+
+      const [cancelled] = await ordersService.getOrderPayments(unconfirmed.id);
+      expect(cancelled).toMatchObject({ status: 'failed', errorMessage: 'Charge canceled' });
+      expect((await provider.retrieveCharge(cancelled.stripePaymentId!)).status).toBe('canceled');
+      const [missing] = await ordersService.getOrderPayments(uncreated.id);
+      expect(missing).toMatchObject({ status: 'failed', errorMessage: 'Charge not created' });
+      expect((await ordersService.getOrder(uncreated.id))?.status).toBe('pending');
+    });
+  });
+});
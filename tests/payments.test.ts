@@ -0,0 +1,108 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+
+describe('Authorize and capture', () => {
+  const testUserId = 'user-capture';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  const authorize = async (total: number, amount: number = total) => {
+    await saveTicketSettings('ticket-capture', { price: usd(total) });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-capture', quantity: 1, unitPrice: usd(total) },
+    ]);
+    const res = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .send({ amount: usd(amount), paymentMethod: 'pm_card_visa', captureMethod: 'manual' });
+    return { res, orderId: order.id as string, paymentId: res.body.payment.id as string };
+  };
+
+  test('should hold the card without collecting anything', async () => {
+    const { res } = await authorize(10000);
+    expect(res.status).toBe(201);
+    expect(res.body.payment.status).toBe('authorized');
+    expect(res.body.payment.authorizedAt).toEqual(expect.any(Number));
+    expect(res.body.order.status).toBe('processing');
+    expect(res.body.order.balance).toEqual({ paid: usd(0), outstanding: usd(10000), refunded: usd(0) });
+  });
+
+  test('should complete the order once the authorization is captured', async () => {
+    const { orderId, paymentId } = await authorize(10000);
+    const res = await request(app).post(`/payments/${paymentId}/capture`).send({});
+
+    expect(res.status).toBe(200);
+    expect(res.body.payment.status).toBe('captured');
+    expect(res.body.payment.amountCaptured).toEqual(usd(10000));
+    expect(res.body.order.id).toBe(orderId);
+    expect(res.body.order.status).toBe('completed');
+  });
+
+  test('should allow capturing less than was authorized', async () => {
+    const { paymentId } = await authorize(10000);
+    const res = await request(app).post(`/payments/${paymentId}/capture`).send({ amount: usd(6000) });
+
+    expect(res.status).toBe(200);
+    expect(res.body.payment.amountCaptured).toEqual(usd(6000));
+    expect(res.body.order.status).toBe('processing');
+    expect(res.body.order.balance).toEqual({ paid: usd(6000), outstanding: usd(4000), refunded: usd(0) });
+  });
+
+  test('should reject capturing more than was authorized', async () => {
+    const { paymentId } = await authorize(10000);
+    const res = await request(app).post(`/payments/${paymentId}/capture`).send({ amount: usd(10001) });
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('CAPTURE_EXCEEDS_AUTHORIZED');
+    expect(res.body.authorized).toEqual(usd(10000));
+  });
+
+  test('should release a voided authorization and refuse to capture it', async () => {
+    const { orderId, paymentId } = await authorize(10000);
+    const voided = await request(app).post(`/payments/${paymentId}/void`).send({});
+    expect(voided.status).toBe(200);
+    expect(voided.body.payment.status).toBe('voided');
+    expect(voided.body.order.balance.outstanding).toEqual(usd(10000));
+
+    const capture = await request(app).post(`/payments/${paymentId}/capture`).send({});
+    expect(capture.status).toBe(409);
+    expect(capture.body.code).toBe('PAYMENT_NOT_AUTHORIZED');
+
+    const retry = await request(app)
+      .post(`/orders/${orderId}/payments`)
+      .send({ amount: usd(10000), paymentMethod: 'pm_card_visa' });
+    expect(retry.status).toBe(201);
+    expect(retry.body.order.status).toBe('completed');
+  });
+
+  test('should count open authorizations against the outstanding balance', async () => {
+    const { orderId } = await authorize(10000);
+    const res = await request(app)
+      .post(`/orders/${orderId}/payments`)
+      .send({ amount: usd(10000), paymentMethod: 'pm_card_visa' });
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('OVERPAYMENT');
+  });
+
+  test('should void authorizations older than the configured window', async () => {
+    const { paymentId: stale } = await authorize(10000);
+    const later = Date.now() + ordersService.AUTHORIZATION_TTL_MS + 1;
+
+    expect(await ordersService.voidStaleAuthorizations(later)).toBeGreaterThanOrEqual(1);
+    expect((await ordersService.getPayment(stale))?.status).toBe('voided');
+    expect(await ordersService.voidStaleAuthorizations(later)).toBe(0);
+  });
+
+  test('should validate capture requests', async () => {
+    const missing = await request(app).post('/payments/non-existent/capture').send({});
+    expect(missing.status).toBe(404);
+
+    const { paymentId } = await authorize(10000);
+    const negative = await request(app).post(`/payments/${paymentId}/capture`).send({ amount: usd(-1) });
+    expect(negative.status).toBe(400);
+
+    const badMethod = await request(app)
+      .post(`/orders/${paymentId}/payments`)
+      .send({ amount: usd(100), paymentMethod: 'pm_card_visa', captureMethod: 'later' });
+    expect(badMethod.status).toBe(400);
+  });
+});
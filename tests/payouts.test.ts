@@ -0,0 +1,184 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import * as payoutsService from '../src/services/payoutsService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { getAccountBalance } from '../src/services/ledgerService';
+import { FakeTransferProvider, getTransferProviderByName } from '../src/services/transferProviders';
+import { ledgerRepository, payoutSettingsRepository, payoutsRepository } from '../src/db/repositories';
+import { Money } from '../src/models/money';
+import * as database from '../src/config/database';
+
+describe('Organizer payouts', () => {
+  const testUserId = 'user-payouts';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    ledgerRepository.clearMemoryStore();
+    payoutsRepository.clearMemoryStore();
+    payoutSettingsRepository.clearMemoryStore();
+  });
+
+  const settle = (organizerId: string, body: Record<string, unknown>) =>
+    request(app).put(`/admin/organizers/${organizerId}/payout-settings`).send(body);
+
+  const sell = async (organizerId: string, amount: number) => {
+    await saveTicketSettings('ticket-payouts', { price: usd(amount) });
+    const order = await ordersService.createOrder(
+      testUserId,
+      [{ ticketId: 'ticket-payouts', quantity: 1, unitPrice: usd(amount) }],
+      { organizerId }
+    );
+    const res = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .send({ amount: usd(amount), paymentMethod: 'pm_card_visa' });
+    return { orderId: order.id as string, paymentId: res.body.payment.id as string };
+  };
+
+  test('should pay settled sales and hold back sales still in reserve', async () => {
+    expect((await settle('org-a', { destination: 'acct_org_a', schedule: 'manual', reserveDays: 7 })).status).toBe(200);
+    const sale = await sell('org-a', 10000);
+
+    const balance = await request(app).get('/admin/organizers/org-a/balance');
+    expect(balance.body).toEqual([
+      { currency: 'USD', balance: usd(10000), held: usd(10000), pending: usd(0), available: usd(0) },
+    ]);
+    expect((await request(app).post('/admin/organizers/org-a/payouts')).body).toEqual([]);
+
+    const [payout] = await payoutsService.createPayouts('org-a', Date.now() + 8 * DAY_MS);
+    expect(payout).toMatchObject({
+      organizerId: 'org-a',
+      status: 'paid',
+      amount: Money.of(10000, 'USD'),
+      salesTotal: Money.of(10000, 'USD'),
+      adjustments: Money.of(0, 'USD'),
+      orderIds: [sale.orderId],
+      paymentIds: [sale.paymentId],
+      provider: 'fake',
+      destination: 'acct_org_a',
+      paidAt: expect.any(Number),
+    });
+
+    const transfers = (getTransferProviderByName('fake') as FakeTransferProvider).getTransfers();
+    expect(transfers.find((t) => t.id === payout.providerTransferId)).toMatchObject({ destination: 'acct_org_a' });
+    expect((await getAccountBalance('organizer_payable:org-a')).balances).toEqual([Money.of(0, 'USD')]);
+    expect((await request(app).get(`/admin/payouts/${payout.id}`)).body.status).toBe('paid');
+
+    // Nothing left to pay
+    expect(await payoutsService.createPayouts('org-a', Date.now() + 8 * DAY_MS)).toEqual([]);
+  });
+
+  test('should carry refunds made after a payout forward as a negative balance', async () => {
+    await settle('org-b', { destination: 'acct_org_b', schedule: 'manual', reserveDays: 0 });
+    const first = await sell('org-b', 10000);
+    await payoutsService.createPayouts('org-b');
+
+    await request(app).post(`/orders/${first.orderId}/refunds`).send({ paymentId: first.paymentId, amount: usd(4000) });
+    const [owed] = await payoutsService.getOrganizerBalance('org-b');
+    expect(owed.available).toEqual(Money.of(-4000, 'USD'));
+    expect(await payoutsService.createPayouts('org-b')).toEqual([]);
+
+    const second = await sell('org-b', 6000);
+    const [payout] = await payoutsService.createPayouts('org-b');
+    expect(payout).toMatchObject({
+      amount: Money.of(2000, 'USD'),
+      salesTotal: Money.of(6000, 'USD'),
+      adjustments: Money.of(-4000, 'USD'),
+      orderIds: [second.orderId],
+    });
+
+    const listed = await request(app).get('/admin/organizers/org-b/payouts');
+    expect(listed.body.map((p: any) => p.amount)).toEqual([usd(10000), usd(2000)]);
+  });
+
+  test('should mark rejected transfers failed and include their sales in the next payout', async () => {
+    await settle('org-c', { destination: 'acct_closed', schedule: 'manual', reserveDays: 0 });
+    const sale = await sell('org-c', 5000);
+
+    const failed = await request(app).post('/admin/organizers/org-c/payouts');
+    expect(failed.status).toBe(201);
+    expect(failed.body[0]).toMatchObject({ status: 'failed', failureReason: 'The destination account is closed.' });
+    expect((await payoutsService.getOrganizerBalance('org-c'))[0].available).toEqual(Money.of(5000, 'USD'));
+
+    await settle('org-c', { destination: 'acct_org_c', schedule: 'manual', reserveDays: 0 });
+    const [retry] = await payoutsService.createPayouts('org-c');
+    expect(retry).toMatchObject({ status: 'paid', amount: Money.of(5000, 'USD'), orderIds: [sale.orderId] });
+  });
+
+  test('should pay scheduled organizers once per day or week', async () => {
+    await settle('org-daily', { destination: 'acct_daily', schedule: 'daily', reserveDays: 0 });
+    await settle('org-weekly', { destination: 'acct_weekly', schedule: 'weekly', reserveDays: 0 });
+    await settle('org-manual', { destination: 'acct_manual', schedule: 'manual', reserveDays: 0 });
+    await sell('org-daily', 1000);
+    await sell('org-weekly', 2000);
+    await sell('org-manual', 3000);
+
+    const monday = Date.UTC(2030, 0, 7, 9);
+    const firstRun = await payoutsService.runScheduledPayouts(monday);
+    expect(firstRun.map((p) => p.organizerId).sort()).toEqual(['org-daily', 'org-weekly']);
+
+    await sell('org-daily', 1500);
+    await sell('org-weekly', 2500);
+    expect(await payoutsService.runScheduledPayouts(monday + 2 * 60 * 60 * 1000)).toEqual([]);
+
+    const tuesday = await payoutsService.runScheduledPayouts(monday + DAY_MS);
+    expect(tuesday.map((p) => [p.organizerId, p.amount.amount])).toEqual([['org-daily', 1500]]);
+
+    const nextWeek = await payoutsService.runScheduledPayouts(monday + 7 * DAY_MS);
+    expect(nextWeek.map((p) => [p.organizerId, p.amount.amount])).toEqual([['org-weekly', 2500]]);
+  });
+
+  test('should leave organizers claimed by another run alone until the claim lapses', async () => {
+    await settle('org-claimed', { destination: 'acct_claimed', schedule: 'daily', reserveDays: 0 });
+    await sell('org-claimed', 1000);
+
+    const monday = Date.UTC(2030, 0, 7, 9);
+    expect(await payoutSettingsRepository.claimPayoutRun('org-claimed', monday, 10 * 60 * 1000)).toBe(true);
+    expect(await payoutsService.runScheduledPayouts(monday + 60 * 1000)).toEqual([]);
+
+    const retried = await payoutsService.runScheduledPayouts(monday + 15 * 60 * 1000);
+    expect(retried.map((p) => [p.organizerId, p.amount.amount])).toEqual([['org-claimed', 1000]]);
+  });
+
+  test('should lock the organizer before working out a manual payout on Postgres', async () => {
+    jest.spyOn(database, 'getDatabaseStatus').mockReturnValue({ connected: true, type: 'postgres' });
+    const settingsRow = {
+      organizer_id: 'org-locked',
+      destination: 'acct_locked',
+      schedule: 'manual',
+      reserve_days: '7',
+      created_at: '1',
+      updated_at: '1',
+    };
+    const query = jest.spyOn(database, 'query').mockImplementation(async (text) => {
+      return { rows: text.includes('FROM payout_settings') ? [settingsRow] : [] } as any;
+    });
+
+    try {
+      expect(await payoutsService.createPayouts('org-locked')).toEqual([]);
+      const [[lock, values]] = query.mock.calls;
+      expect(lock).toBe('SELECT * FROM payout_settings WHERE organizer_id = $1 FOR UPDATE');
+      expect(values).toEqual(['org-locked']);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('should validate payout settings and requests', async () => {
+    const missing = await request(app).post('/admin/organizers/org-unknown/payouts');
+    expect(missing.status).toBe(422);
+    expect(missing.body.code).toBe('PAYOUT_SETTINGS_MISSING');
+
+    expect((await settle('org-d', { destination: 'acct_d', schedule: 'hourly' })).status).toBe(400);
+    expect((await settle('org-d', { destination: '', schedule: 'daily' })).status).toBe(400);
+    expect((await settle('org-d', { destination: 'acct_d', schedule: 'daily', reserveDays: -1 })).status).toBe(400);
+    expect((await request(app).get('/admin/organizers/org-d/payout-settings')).status).toBe(404);
+
+    await settle('org-d', { destination: 'acct_d', schedule: 'weekly' });
+    const settings = await request(app).get('/admin/organizers/org-d/payout-settings');
+    expect(settings.body).toMatchObject({ destination: 'acct_d', schedule: 'weekly', reserveDays: 7 });
+
+    expect((await request(app).get('/admin/payouts/non-existent')).status).toBe(404);
+  });
+});
@@ -0,0 +1,178 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import * as database from '../src/config/database';
+import { feeRulesRepository, promoCodesRepository, promoRedemptionsRepository } from '../src/db/repositories';
+
+describe('Promo codes', () => {
+  const testUserId = 'user-promo';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  beforeAll(async () => {
+    await saveTicketSettings('ticket-vip', { price: usd(10000) });
+    await saveTicketSettings('ticket-ga', { price: usd(3000) });
+  });
+
+  beforeEach(() => {
+    feeRulesRepository.clearMemoryStore();
+    promoCodesRepository.clearMemoryStore();
+    promoRedemptionsRepository.clearMemoryStore();
+  });
+
+  const promo = (body: Record<string, unknown>) => request(app).post('/admin/promo-codes').send(body);
+
+  const order = (promoCodes: string[], userId: string = testUserId) =>
+    request(app)
+      .post('/orders')
+      .send({
+        userId,
+        promoCodes,
+        lineItems: [
+          { ticketId: 'ticket-vip', quantity: 2, unitPrice: usd(10000) },
+          { ticketId: 'ticket-ga', quantity: 3, unitPrice: usd(3000) },
+        ],
+      });
+
+  test('should apply percentage and fixed codes and record the discount per line', async () => {
+    await request(app).post('/admin/fee-rules').send({ kind: 'platform', percentage: 10 });
+    const vip = await promo({ code: 'vip20', kind: 'percentage', percentage: 20, ticketIds: ['ticket-vip'] });
+    expect(vip.status).toBe(201);
+    expect(vip.body).toMatchObject({ code: 'VIP20', redemptionCount: 0, stackable: false, active: true });
+
+    const res = await order(['Vip20']);
+    expect(res.status).toBe(201);
+    expect(res.body.discounts).toEqual([
+      { promoCodeId: vip.body.id, code: 'VIP20', amount: usd(4000), lineAmounts: [usd(4000), usd(0)] },
+    ]);
+    expect(res.body.totalAmount).toEqual(usd(25000));
+    // Fees are charged on what the buyer pays
+    expect(res.body.fees).toMatchObject({ gross: usd(25000), platformFee: usd(2500), organizerNet: usd(22500) });
+
+    await promo({ code: 'TENOFF', kind: 'fixed', amountOff: usd(1000) });
+    const fixed = await order(['TENOFF']);
+    // Split in proportion to the line totals: 20000 and 9000
+    expect(fixed.body.discounts[0].lineAmounts).toEqual([usd(690), usd(310)]);
+    expect(fixed.body.totalAmount).toEqual(usd(28000));
+    expect((await request(app).get(`/admin/promo-codes/${vip.body.id}`)).body.redemptionCount).toBe(1);
+  });
+
+  test('should enforce stacking rules and apply stacked codes to what is left', async () => {
+    await promo({ code: 'HALF', kind: 'percentage', percentage: 50, stackable: true });
+    await promo({ code: 'EXTRA', kind: 'fixed', amountOff: usd(50000), stackable: true, ticketIds: ['ticket-ga'] });
+    await promo({ code: 'SOLO', kind: 'percentage', percentage: 10 });
+
+    const stacked = await order(['HALF', 'EXTRA']);
+    expect(stacked.status).toBe(201);
+    expect(stacked.body.discounts.map((d: any) => d.amount)).toEqual([usd(14500), usd(4500)]);
+    expect(stacked.body.totalAmount).toEqual(usd(10000));
+
+    const solo = await order(['HALF', 'SOLO']);
+    expect(solo.status).toBe(422);
+    expect(solo.body).toMatchObject({ code: 'PROMO_CODE_NOT_STACKABLE', promoCode: 'SOLO' });
+    expect((await order(['HALF', 'half'])).status).toBe(400);
+  });
+
+  test('should check minimum spend, applicability and the validity window', async () => {
+    const now = Date.now();
+    await promo({ code: 'BIGSPEND', kind: 'fixed', amountOff: usd(500), minimumSpend: usd(50000) });
+    await promo({ code: 'OTHER', kind: 'percentage', percentage: 5, ticketIds: ['ticket-other'] });
+    await promo({ code: 'LATER', kind: 'percentage', percentage: 5, startsAt: new Date(now + 60000).toISOString() });
+    const ended = await promo({ code: 'ENDED', kind: 'percentage', percentage: 5, endsAt: now + 60000 });
+    await request(app).patch(`/admin/promo-codes/${ended.body.id}`).send({ startsAt: now - 120000, endsAt: now - 1 });
+
+    const codes = async (code: string) => (await order([code])).body.code;
+    expect(await codes('BIGSPEND')).toBe('PROMO_CODE_MINIMUM_SPEND');
+    expect(await codes('OTHER')).toBe('PROMO_CODE_NOT_APPLICABLE');
+    expect(await codes('LATER')).toBe('PROMO_CODE_NOT_STARTED');
+    expect(await codes('ENDED')).toBe('PROMO_CODE_EXPIRED');
+    expect(await codes('NOSUCHCODE')).toBe('PROMO_CODE_INVALID');
+    expect(await promoRedemptionsRepository.findAll()).toEqual([]);
+  });
+
+  test('should cap redemptions overall and per user, and give them back on cancellation', async () => {
+    const capped = await promo({
+      code: 'LIMITED',
+      kind: 'percentage',
+      percentage: 10,
+      maxRedemptions: 2,
+      maxRedemptionsPerUser: 1,
+    });
+
+    const first = await order(['LIMITED'], 'user-a');
+    expect(first.status).toBe(201);
+    const again = await order(['LIMITED'], 'user-a');
+    expect(again.body.code).toBe('PROMO_CODE_USER_LIMIT');
+
+    // Concurrent orders cannot take the code past its cap
+    const racing = await Promise.all([order(['LIMITED'], 'user-b'), order(['LIMITED'], 'user-c')]);
+    expect(racing.map((res) => res.status).sort()).toEqual([201, 422]);
+    expect((await request(app).get(`/admin/promo-codes/${capped.body.id}`)).body.redemptionCount).toBe(2);
+
+    await request(app).put(`/orders/${first.body.id}/status`).send({ status: 'cancelled' });
+    expect((await request(app).get(`/admin/promo-codes/${capped.body.id}`)).body.redemptionCount).toBe(1);
+    const retaken = await order(['LIMITED'], 'user-a');
+    expect(retaken.status).toBe(201);
+
+    // Failed orders give their redemption back too, until they are retried
+    await request(app).put(`/orders/${retaken.body.id}/status`).send({ status: 'failed' });
+    expect((await request(app).get(`/admin/promo-codes/${capped.body.id}`)).body.redemptionCount).toBe(1);
+    await request(app).put(`/orders/${retaken.body.id}/status`).send({ status: 'pending' });
+    expect((await request(app).get(`/admin/promo-codes/${capped.body.id}`)).body.redemptionCount).toBe(2);
+
+    await request(app).patch(`/admin/promo-codes/${capped.body.id}`).send({ active: false });
+    expect((await order(['LIMITED'], 'user-d')).body.code).toBe('PROMO_CODE_INVALID');
+  });
+
+  test('should refuse a code the tenant already has, also when created at the same time', async () => {
+    expect((await promo({ code: 'twice', kind: 'percentage', percentage: 5 })).status).toBe(201);
+    const duplicate = await promo({ code: 'TWICE', kind: 'percentage', percentage: 10 });
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body).toMatchObject({ code: 'PROMO_CODE_EXISTS', promoCode: 'TWICE' });
+    expect((await promo({ code: 'TWICE', tenantId: 'tenant-b', kind: 'percentage', percentage: 5 })).status).toBe(201);
+
+    // The other create got past the lookup, and Postgres refuses this one on the unique index
+    const violation = Object.assign(new Error('duplicate key'), { code: '23505', constraint: 'idx_promo_codes_code' });
+    jest.spyOn(database, 'getDatabaseStatus').mockReturnValue({ connected: true, type: 'postgres' });
+    jest.spyOn(database, 'query').mockImplementation(async (text) => {
+      if (text.startsWith('INSERT')) throw violation;
+      return { rows: [] } as any;
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      const raced = await promo({ code: 'RACED', kind: 'percentage', percentage: 5 });
+      expect(raced.status).toBe(409);
+      expect(raced.body).toMatchObject({ code: 'PROMO_CODE_EXISTS', promoCode: 'RACED' });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('should refund tickets at their discounted price', async () => {
+    await promo({ code: 'THIRD', kind: 'fixed', amountOff: usd(1000) });
+    const created = await ordersService.createOrder(
+      testUserId,
+      [{ ticketId: 'ticket-ga', quantity: 3, unitPrice: usd(3000) }],
+      { promoCodes: ['third'] }
+    );
+    expect(created.totalAmount).toEqual(usd(8000));
+    const payment = await request(app)
+      .post(`/orders/${created.id}/payments`)
+      .send({ amount: created.totalAmount, paymentMethod: 'pm_card_visa' });
+    const paymentId = payment.body.payment.id;
+    const refund = (body: Record<string, unknown>) =>
+      request(app).post(`/orders/${created.id}/refunds`).send({ paymentId, ...body });
+
+    const one = await refund({ lineItems: [{ ticketId: 'ticket-ga', quantity: 1 }] });
+    expect(one.status).toBe(201);
+    expect(one.body.refund).toMatchObject({ amount: usd(2667), lineItems: [{ ticketId: 'ticket-ga', quantity: 1 }] });
+
+    const tooMany = await refund({ lineItems: [{ ticketId: 'ticket-ga', quantity: 3 }] });
+    expect(tooMany.body).toMatchObject({ code: 'REFUND_EXCEEDS_TICKETS', refundable: 2 });
+    expect((await refund({ amount: usd(100), lineItems: [{ ticketId: 'ticket-ga', quantity: 1 }] })).status).toBe(400);
+
+    const rest = await refund({ lineItems: [{ ticketId: 'ticket-ga', quantity: 2 }] });
+    expect(rest.body.refund.amount).toEqual(usd(5333));
+    expect(rest.body.order.status).toBe('refunded');
+  });
+});
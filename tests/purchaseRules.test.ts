@@ -0,0 +1,205 @@
+import request from 'supertest';
+import app from '../src/app';
+import {
+  ordersRepository,
+  presalesRepository,
+  purchaseLimitsRepository,
+  ticketInventoryRepository,
+  ticketSettingsRepository,
+} from '../src/db/repositories';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+
+describe('Purchase rules', () => {
+  const testUserId = 'user-limits';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const hour = 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    ordersRepository.clearMemoryStore();
+    presalesRepository.clearMemoryStore();
+    purchaseLimitsRepository.clearMemoryStore();
+    ticketInventoryRepository.clearMemoryStore();
+    ticketSettingsRepository.clearMemoryStore();
+    for (const ticket of ['ga', 'vip', 'tour', 'other', 'merch', 'press']) {
+      await saveTicketSettings(`ticket-${ticket}`, { price: usd(5000) });
+    }
+  });
+
+  const limit = (body: Record<string, unknown>) => request(app).post('/admin/purchase-limits').send(body);
+  const presale = (body: Record<string, unknown>) => request(app).post('/admin/presales').send(body);
+  const ticketEvent = (ticketId: string, eventId: string) =>
+    request(app).put(`/admin/tickets/${ticketId}`).send({ eventId, price: usd(5000) });
+
+  const order = (
+    lineItems: { ticketId: string; quantity: number; eventId?: string }[],
+    extra: Record<string, unknown> = {}
+  ) =>
+    request(app)
+      .post('/orders')
+      .send({
+        userId: testUserId,
+        lineItems: lineItems.map((item) => ({ ...item, unitPrice: usd(5000) })),
+        ...extra,
+      });
+
+  test('should cap tickets per person across the orders they have not cancelled', async () => {
+    const created = await limit({ ticketId: 'ticket-ga', maxQuantity: 4 });
+    expect(created.status).toBe(201);
+
+    const first = await order([{ ticketId: 'ticket-ga', quantity: 3 }]);
+    expect(first.status).toBe(201);
+    const over = await order([{ ticketId: 'ticket-ga', quantity: 2 }]);
+    expect(over.status).toBe(422);
+    expect(over.body).toMatchObject({
+      code: 'PURCHASE_LIMIT_EXCEEDED',
+      ticketId: 'ticket-ga',
+      maxQuantity: 4,
+      purchased: 3,
+    });
+
+    // Other buyers and other tickets are not affected
+    expect((await order([{ ticketId: 'ticket-ga', quantity: 4 }], { userId: 'user-other' })).status).toBe(201);
+    expect((await order([{ ticketId: 'ticket-vip', quantity: 6 }])).status).toBe(201);
+
+    await request(app).put(`/orders/${first.body.id}/status`).send({ status: 'cancelled' });
+    expect((await order([{ ticketId: 'ticket-ga', quantity: 4 }])).status).toBe(201);
+  });
+
+  test('should count every ticket type of an event and hold under concurrent orders', async () => {
+    await limit({ eventId: 'event-final', maxQuantity: 4 });
+    await ticketEvent('ticket-lower', 'event-final');
+    await ticketEvent('ticket-upper', 'event-final');
+    const seat = (ticketId: string, quantity: number) => ({ ticketId, quantity });
+
+    const results = await Promise.all([
+      order([seat('ticket-lower', 2)]),
+      order([seat('ticket-upper', 2)]),
+      order([seat('ticket-lower', 1), seat('ticket-upper', 1)]),
+    ]);
+    expect(results.map((res) => res.status).sort()).toEqual([201, 201, 422]);
+    expect(results.find((res) => res.status === 422)?.body).toMatchObject({
+      code: 'PURCHASE_LIMIT_EXCEEDED',
+      eventId: 'event-final',
+      purchased: 4,
+    });
+  });
+
+  test('should work out the event of a ticket on the server', async () => {
+    await limit({ eventId: 'event-derby', maxQuantity: 2 });
+    await ticketEvent('ticket-derby', 'event-derby');
+    await ticketEvent('ticket-derby-vip', 'event-derby');
+    expect((await order([{ ticketId: 'ticket-derby', quantity: 2 }])).status).toBe(201);
+
+    // Leaving out the event, or naming another, does not get past the limit
+    const unnamed = await order([{ ticketId: 'ticket-derby-vip', quantity: 1 }]);
+    expect(unnamed.status).toBe(422);
+    expect(unnamed.body).toMatchObject({ code: 'PURCHASE_LIMIT_EXCEEDED', eventId: 'event-derby', purchased: 2 });
+    const misnamed = await order([{ ticketId: 'ticket-derby-vip', quantity: 1, eventId: 'event-other' }]);
+    expect(misnamed.body.code).toBe('PURCHASE_LIMIT_EXCEEDED');
+
+    // Nor past a presale of the event
+    const now = Date.now();
+    await presale({ accessCode: 'DERBYDAY', eventId: 'event-derby', startsAt: now - hour, onSaleAt: now + hour });
+    const gated = await order([{ ticketId: 'ticket-derby-vip', quantity: 1 }], { userId: 'user-other' });
+    expect(gated.status).toBe(422);
+    expect(gated.body.code).toBe('PRESALE_ACCESS_REQUIRED');
+  });
+
+  test('should gate tickets in presale behind an access code until general on-sale', async () => {
+    const now = Date.now();
+    const fanClub = await presale({
+      accessCode: 'fanclub',
+      eventId: 'event-tour',
+      startsAt: now - hour,
+      onSaleAt: now + hour,
+    });
+    expect(fanClub.status).toBe(201);
+    expect(fanClub.body).toMatchObject({ accessCode: 'FANCLUB', useCount: 0, active: true });
+    await presale({
+      accessCode: 'EARLYBIRD',
+      ticketIds: ['ticket-tour'],
+      startsAt: now + hour,
+      onSaleAt: now + 2 * hour,
+    });
+
+    await ticketEvent('ticket-tour', 'event-tour');
+    await ticketEvent('ticket-merch', 'event-tour');
+    const tour = [{ ticketId: 'ticket-tour', quantity: 1 }];
+    const locked = await order(tour);
+    expect(locked.status).toBe(422);
+    expect(locked.body).toMatchObject({
+      code: 'PRESALE_ACCESS_REQUIRED',
+      ticketId: 'ticket-tour',
+      onSaleAt: now + 2 * hour,
+    });
+    expect((await order(tour, { accessCode: 'WRONG' })).body.code).toBe('PRESALE_CODE_INVALID');
+    expect((await order(tour, { accessCode: 'earlybird' })).body).toMatchObject({
+      code: 'PRESALE_NOT_STARTED',
+      startsAt: now + hour,
+    });
+
+    const unlocked = await order(tour, { accessCode: 'FanClub' });
+    expect(unlocked.status).toBe(201);
+    expect(unlocked.body.presaleId).toBe(fanClub.body.id);
+    expect((await request(app).get(`/admin/presales/${fanClub.body.id}`)).body.useCount).toBe(1);
+
+    // Tickets no presale covers, and tickets past general on-sale, need no code
+    expect((await order([{ ticketId: 'ticket-other', quantity: 1 }])).status).toBe(201);
+    await request(app).patch(`/admin/presales/${fanClub.body.id}`).send({ active: false });
+    const general = await order([{ ticketId: 'ticket-merch', quantity: 1 }]);
+    expect(general.status).toBe(201);
+    expect(general.body.presaleId).toBeUndefined();
+  });
+
+  test('should cap access code uses and give them back when orders fall through', async () => {
+    const now = Date.now();
+    const code = await presale({
+      accessCode: 'PRESS',
+      ticketIds: ['ticket-press'],
+      startsAt: now - hour,
+      onSaleAt: now + hour,
+      maxUses: 2,
+    });
+    await request(app).put('/admin/inventory/ticket-press').send({ totalSupply: 3 });
+    const press = (userId: string, quantity: number = 1) =>
+      order([{ ticketId: 'ticket-press', quantity }], { userId, accessCode: 'PRESS' });
+
+    // An order refused for lack of seats does not use the code
+    expect((await press('user-greedy', 5)).body.code).toBe('TICKETS_SOLD_OUT');
+
+    const results = await Promise.all([press('user-a'), press('user-b'), press('user-c')]);
+    expect(results.map((res) => res.status).sort()).toEqual([201, 201, 422]);
+    expect(results.find((res) => res.status === 422)?.body.code).toBe('PRESALE_CODE_EXHAUSTED');
+    expect((await request(app).get(`/admin/presales/${code.body.id}`)).body.useCount).toBe(2);
+
+    const placed = results.find((res) => res.status === 201)!;
+    await request(app).put(`/orders/${placed.body.id}/status`).send({ status: 'cancelled' });
+    expect((await request(app).get(`/admin/presales/${code.body.id}`)).body.useCount).toBe(1);
+    expect((await press('user-c')).status).toBe(201);
+  });
+
+  test('should validate purchase limits and presales', async () => {
+    const now = Date.now();
+    expect((await limit({ ticketId: 'ticket-ga', eventId: 'event-a', maxQuantity: 2 })).status).toBe(400);
+    expect((await limit({ ticketId: 'ticket-ga', maxQuantity: 0 })).status).toBe(400);
+    const created = await limit({ ticketId: 'ticket-ga', maxQuantity: 2 });
+    const raised = await request(app).patch(`/admin/purchase-limits/${created.body.id}`).send({ maxQuantity: 6 });
+    expect(raised.body.maxQuantity).toBe(6);
+    expect((await request(app).delete(`/admin/purchase-limits/${created.body.id}`)).status).toBe(204);
+    expect((await request(app).get('/admin/purchase-limits')).body).toEqual([]);
+
+    const window = { startsAt: now, onSaleAt: now + hour };
+    expect((await presale({ accessCode: 'NOSCOPE', ...window })).status).toBe(400);
+    const backwards = await presale({ accessCode: 'BACKWARDS', eventId: 'event-a', startsAt: now, onSaleAt: now });
+    expect(backwards.status).toBe(400);
+    const first = await presale({ accessCode: 'vip-list', eventId: 'event-a', ...window });
+    const duplicate = await presale({ accessCode: 'VIP-LIST', eventId: 'event-b', ...window });
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body).toMatchObject({ code: 'PRESALE_CODE_EXISTS', accessCode: 'VIP-LIST' });
+
+    const moved = await request(app)
+      .patch(`/admin/presales/${first.body.id}`)
+      .send({ onSaleAt: new Date(now + 2 * hour).toISOString() });
+    expect(moved.body.onSaleAt).toBe(now + 2 * hour);
+  });
+});
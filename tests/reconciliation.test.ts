@@ -0,0 +1,129 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { parseSettlementReport, reconcileSettlementReport } from '../src/services/reconciliationService';
+import { parseCsv } from '../src/common/csv';
+import { Money } from '../src/models/money';
+
+describe('Settlement reconciliation', () => {
+  const testUserId = 'user-reconciliation';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const HEADER =
+    'id,Type,Source,Amount,Fee,Net,Currency,Created (UTC),Available On (UTC),Description,payment_intent_id';
+
+  const stripePayment = async (amount: number, stripePaymentId: string) => {
+    await saveTicketSettings('ticket-reconciliation', { price: usd(amount) });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-reconciliation', quantity: 1, unitPrice: usd(amount) },
+    ]);
+    const payment = await ordersService.createPayment(order, Money.of(amount, 'USD'), 'card', 'stripe');
+    await ordersService.updatePaymentStatus(payment.id, 'succeeded', {
+      stripePaymentId,
+      stripeChargeId: stripePaymentId.replace('pi_', 'ch_'),
+    });
+    return payment;
+  };
+
+  test('should report matches, missing payments, amount mismatches and fee totals', async () => {
+    const startedAt = Date.now();
+    const matched = await stripePayment(10000, 'pi_recon_matched');
+    const short = await stripePayment(5000, 'pi_recon_short');
+    const byCharge = await stripePayment(2500, 'pi_recon_by_charge');
+    const unsettled = await stripePayment(7500, 'pi_recon_unsettled');
+
+    const csv = [
+      HEADER,
+      'txn_1,charge,ch_recon_matched,100.00,3.20,96.80,usd,2024-03-01 10:00:00,2024-03-03 00:00:00,Order,pi_recon_matched',
+      'txn_2,charge,ch_recon_short,45.00,1.61,43.39,usd,2024-03-01 11:00:00,2024-03-03 00:00:00,Order,pi_recon_short',
+      'txn_3,charge,ch_recon_by_charge,25.00,1.03,23.97,usd,2024-03-01 12:00:00,2024-03-03 00:00:00,"Order, by charge",',
+      'txn_4,charge,ch_unknown,12.00,0.65,11.35,usd,2024-03-01 13:00:00,2024-03-03 00:00:00,Order,pi_recon_unknown',
+      'txn_5,refund,re_1,-10.00,0.00,-10.00,usd,2024-03-02 09:00:00,2024-03-04 00:00:00,Refund,pi_recon_matched',
+    ].join('\n');
+
+    const report = await reconcileSettlementReport(csv, { from: startedAt, to: Date.now() });
+
+    expect(report.summary).toEqual({
+      lines: 5,
+      paymentLines: 4,
+      matched: 2,
+      missingLocally: 1,
+      missingRemotely: 1,
+      amountMismatches: 1,
+    });
+    expect(report.discrepancies).toEqual(
+      expect.arrayContaining([
+        {
+          kind: 'missing_locally',
+          stripePaymentId: 'pi_recon_unknown',
+          balanceTransactionIds: ['txn_4'],
+          actual: Money.of(1200, 'USD'),
+        },
+        {
+          kind: 'amount_mismatch',
+          paymentId: short.id,
+          stripePaymentId: 'pi_recon_short',
+          balanceTransactionIds: ['txn_2'],
+          expected: Money.of(5000, 'USD'),
+          actual: Money.of(4500, 'USD'),
+        },
+        {
+          kind: 'missing_remotely',
+          paymentId: unsettled.id,
+          stripePaymentId: 'pi_recon_unsettled',
+          balanceTransactionIds: [],
+          expected: Money.of(7500, 'USD'),
+        },
+      ])
+    );
+    expect(report.discrepancies.map((d) => d.paymentId)).not.toContain(matched.id);
+    expect(report.discrepancies.map((d) => d.paymentId)).not.toContain(byCharge.id);
+    expect(report.totals).toEqual([
+      { currency: 'USD', gross: Money.of(17200, 'USD'), fees: Money.of(649, 'USD'), net: Money.of(16551, 'USD') },
+    ]);
+  });
+
+  test('should serve the report as JSON or CSV from the admin endpoint', async () => {
+    await stripePayment(3000, 'pi_recon_admin');
+    const csv = `${HEADER}\ntxn_admin,charge,ch_recon_admin,30.00,1.17,28.83,usd,2024-03-05 10:00:00,,,pi_recon_admin\n`;
+
+    const json = await request(app).post('/admin/reconciliation').set('Content-Type', 'text/csv').send(csv);
+    expect(json.status).toBe(200);
+    expect(json.body.summary.matched).toBe(1);
+    expect(json.body.totals[0].fees).toEqual(usd(117));
+    expect(json.body.period).toEqual({ from: Date.UTC(2024, 2, 5, 10), to: Date.UTC(2024, 2, 5, 10) });
+
+    const exported = await request(app)
+      .post('/admin/reconciliation?format=csv')
+      .set('Content-Type', 'text/csv')
+      .send(csv.replace('30.00', '31.00'));
+    expect(exported.status).toBe(200);
+    expect(exported.headers['content-type']).toMatch(/text\/csv/);
+    expect(parseCsv(exported.text)).toEqual([
+      ['kind', 'payment_id', 'stripe_payment_id', 'balance_transaction_ids', 'currency', 'expected', 'actual'],
+      ['amount_mismatch', expect.any(String), 'pi_recon_admin', 'txn_admin', 'USD', '30.00', '31.00'],
+      ['fee_total', '', '', '', 'USD', '', '1.17'],
+    ]);
+  });
+
+  test('should reject malformed reports', async () => {
+    expect(() => parseSettlementReport('id,Amount\ntxn_1,10.00')).toThrow(/missing columns: fee, currency, source/);
+    expect(() => parseSettlementReport(`${HEADER}\ntxn_1,charge,ch_1,ten,0,0,usd,,,,`)).toThrow(/line 2/);
+
+    const wrongType = await request(app).post('/admin/reconciliation').send({ csv: 'nope' });
+    expect(wrongType.status).toBe(415);
+
+    const badFormat = await request(app)
+      .post('/admin/reconciliation?format=xml')
+      .set('Content-Type', 'text/csv')
+      .send(HEADER);
+    expect(badFormat.status).toBe(400);
+  });
+
+  test('should parse quoted CSV fields', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n\r\n1,"multi\nline",3\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'multi\nline', '3'],
+    ]);
+  });
+});
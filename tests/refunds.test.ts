@@ -0,0 +1,127 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { getPaymentProviderByName } from '../src/services/paymentProviders';
+import { Money } from '../src/models/money';
+
+describe('Refunds', () => {
+  const testUserId = 'user-refunds';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  const paidOrder = async (total: number, paid: number = total) => {
+    await saveTicketSettings('ticket-refunds', { price: usd(total) });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-refunds', quantity: 1, unitPrice: usd(total) },
+    ]);
+    const res = await request(app)
+      .post(`/orders/${order.id}/payments`)
+      .send({ amount: usd(paid), paymentMethod: 'pm_card_visa' });
+    return { orderId: order.id as string, paymentId: res.body.payment.id as string };
+  };
+
+  test('should allow several partial refunds up to the captured amount', async () => {
+    const { orderId, paymentId } = await paidOrder(10000);
+
+    const first = await request(app)
+      .post(`/orders/${orderId}/refunds`)
+      .set('x-user-id', 'support-agent')
+      .send({ paymentId, amount: usd(3000), reason: 'Seat downgrade' });
+    expect(first.status).toBe(201);
+    expect(first.body.refund).toMatchObject({
+      paymentId,
+      amount: usd(3000),
+      reason: 'Seat downgrade',
+      status: 'succeeded',
+      requestedBy: 'support-agent',
+    });
+    expect(first.body.payment.status).toBe('partially_refunded');
+    expect(first.body.order.status).toBe('partially_refunded');
+    expect(first.body.order.balance.refunded).toEqual(usd(3000));
+
+    const second = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId, amount: usd(2000) });
+    expect(second.status).toBe(201);
+    expect(second.body.order.status).toBe('partially_refunded');
+
+    const rest = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId, reason: 'Event cancelled' });
+    expect(rest.status).toBe(201);
+    expect(rest.body.refund.amount).toEqual(usd(5000));
+    expect(rest.body.payment.status).toBe('refunded');
+    expect(rest.body.order.status).toBe('refunded');
+    expect(rest.body.order.balance).toEqual({ paid: usd(10000), outstanding: usd(0), refunded: usd(10000) });
+    expect(rest.body.order.statusHistory.map((c: any) => c.to)).toEqual([
+      'completed',
+      'partially_refunded',
+      'refunded',
+    ]);
+
+    const history = await request(app).get(`/orders/${orderId}/refunds`);
+    expect(history.status).toBe(200);
+    expect(history.body.map((r: any) => r.amount.amount)).toEqual([3000, 2000, 5000]);
+  });
+
+  test('should reject a refund larger than what is left', async () => {
+    const { orderId, paymentId } = await paidOrder(10000);
+    await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId, amount: usd(7000) });
+
+    const res = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId, amount: usd(3001) });
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('REFUND_EXCEEDS_CAPTURED');
+    expect(res.body.refundable).toEqual(usd(3000));
+  });
+
+  test('should require cancelling a partly paid order before refunding it', async () => {
+    const { orderId, paymentId } = await paidOrder(10000, 4000);
+
+    const blocked = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId });
+    expect(blocked.status).toBe(409);
+    expect(blocked.body.code).toBe('ORDER_NOT_REFUNDABLE');
+
+    await ordersService.updateOrderStatus(orderId, 'cancelled', { actor: 'test' });
+    const res = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId });
+    expect(res.status).toBe(201);
+    expect(res.body.payment.status).toBe('refunded');
+    expect(res.body.order.status).toBe('cancelled');
+    expect(res.body.order.balance.refunded).toEqual(usd(4000));
+  });
+
+  test('should record provider failures on the refund', async () => {
+    const { orderId, paymentId } = await paidOrder(10000);
+    const payment = await ordersService.getPayment(paymentId);
+    // Refunded behind the service's back, so the provider has nothing left to refund
+    await getPaymentProviderByName('fake').refundCharge(payment!.stripePaymentId!, Money.of(10000, 'USD'));
+
+    const res = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId, amount: usd(1000) });
+    expect(res.status).toBe(502);
+    expect(res.body.refund.status).toBe('failed');
+    expect(res.body.refund.errorMessage).toMatch(/cannot be refunded/);
+    expect(res.body.payment.status).toBe('succeeded');
+    expect(res.body.order.status).toBe('completed');
+  });
+
+  test('should validate the refund request', async () => {
+    const { orderId, paymentId } = await paidOrder(10000);
+
+    const missing = await request(app).post(`/orders/${orderId}/refunds`).send({ amount: usd(100) });
+    expect(missing.status).toBe(400);
+
+    const negative = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId, amount: usd(-100) });
+    expect(negative.status).toBe(400);
+
+    const otherCurrency = await request(app)
+      .post(`/orders/${orderId}/refunds`)
+      .send({ paymentId, amount: { amount: 100, currency: 'EUR' } });
+    expect(otherCurrency.status).toBe(422);
+    expect(otherCurrency.body.code).toBe('REFUND_CURRENCY_MISMATCH');
+
+    const unknown = await request(app).post(`/orders/${orderId}/refunds`).send({ paymentId: 'missing' });
+    expect(unknown.status).toBe(404);
+  });
+
+  test('should only move a refunded order through the lifecycle once fully refunded', async () => {
+    const { orderId } = await paidOrder(10000);
+    const res = await request(app).put(`/orders/${orderId}/status`).send({ status: 'refunded' });
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('INVALID_ORDER_TRANSITION');
+  });
+});
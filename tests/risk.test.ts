@@ -0,0 +1,144 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { riskRulesRepository } from '../src/db/repositories';
+
+describe('Risk rules', () => {
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  beforeEach(() => {
+    riskRulesRepository.clearMemoryStore();
+  });
+
+  const configure = (tenantId: string, body: Record<string, unknown>) =>
+    request(app).put(`/admin/risk-rules/${tenantId}`).send(body);
+
+  const review = (paymentId: string, body: Record<string, unknown>) =>
+    request(app).post(`/admin/risk/reviews/${paymentId}`).send(body);
+
+  const pay = async (
+    tenantId: string,
+    userId: string,
+    amount: number,
+    { paymentMethod = 'pm_card_visa', headers = {} }: { paymentMethod?: string; headers?: Record<string, string> } = {}
+  ) => {
+    await saveTicketSettings('ticket-risk', { price: usd(amount) });
+    const order = await ordersService.createOrder(userId, [
+      { ticketId: 'ticket-risk', quantity: 1, unitPrice: usd(amount) },
+    ]);
+    return request(app)
+      .post(`/orders/${order.id}/payments`)
+      .set({ 'x-tenant-id': tenantId, ...headers })
+      .send({ amount: usd(amount), paymentMethod });
+  };
+
+  test('should block payments over the velocity limit without calling the provider', async () => {
+    await configure('tenant-velocity', { velocity: { maxPerUser: 2, windowMs: 60000 } });
+
+    expect((await pay('tenant-velocity', 'user-velocity', 1000)).status).toBe(201);
+    expect((await pay('tenant-velocity', 'user-velocity', 1000)).status).toBe(201);
+    const blocked = await pay('tenant-velocity', 'user-velocity', 1000);
+    expect(blocked.status).toBe(402);
+    expect(blocked.body.payment).toMatchObject({
+      status: 'failed',
+      errorMessage: 'Blocked by risk rules',
+      risk: { outcome: 'block', reasons: [{ rule: 'velocity_user', action: 'block' }] },
+    });
+    expect(blocked.body.payment.stripePaymentId).toBeUndefined();
+
+    // Other tenants keep the disabled defaults
+    expect((await pay('tenant-other', 'user-velocity', 1000)).status).toBe(201);
+  });
+
+  test('should hold large payments for review and charge them once approved', async () => {
+    await configure('tenant-amount', { amount: { reviewAbove: { USD: 50000 }, blockAbove: { USD: 200000 } } });
+
+    const held = await pay('tenant-amount', 'user-amount', 60000);
+    expect(held.status).toBe(202);
+    expect(held.body.payment).toMatchObject({ status: 'pending', risk: { outcome: 'review' } });
+    expect(held.body.order.status).toBe('pending');
+
+    const queue = await request(app).get('/admin/risk/reviews');
+    expect(queue.body.map((p: any) => p.id)).toContain(held.body.payment.id);
+
+    const approved = await request(app)
+      .post(`/admin/risk/reviews/${held.body.payment.id}`)
+      .set('x-user-id', 'analyst-1')
+      .send({ decision: 'approve', note: 'Known buyer' });
+    expect(approved.status).toBe(200);
+    expect(approved.body.payment).toMatchObject({
+      status: 'succeeded',
+      risk: { outcome: 'review', review: { decision: 'approved', reviewer: 'analyst-1', note: 'Known buyer' } },
+    });
+    expect(approved.body.order.status).toBe('completed');
+
+    const again = await review(held.body.payment.id, { decision: 'reject' });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('PAYMENT_NOT_IN_REVIEW');
+    expect((await request(app).get('/admin/risk/reviews')).body.map((p: any) => p.id)).not.toContain(
+      held.body.payment.id
+    );
+
+    expect((await pay('tenant-amount', 'user-amount', 250000)).body.payment.risk.outcome).toBe('block');
+  });
+
+  test('should fail rejected payments', async () => {
+    await configure('tenant-reject', { amount: { reviewAbove: { USD: 100 } } });
+    const held = await pay('tenant-reject', 'user-reject', 5000);
+
+    const rejected = await review(held.body.payment.id, { decision: 'reject' });
+    expect(rejected.status).toBe(200);
+    expect(rejected.body.payment).toMatchObject({
+      status: 'failed',
+      errorMessage: 'Rejected in risk review',
+      risk: { review: { decision: 'rejected', reviewer: 'anonymous' } },
+    });
+  });
+
+  test('should flag card country mismatches and new accounts', async () => {
+    await configure('tenant-signals', {
+      countryMismatch: { enabled: true, action: 'review' },
+      newAccount: { minAgeMs: 24 * 60 * 60 * 1000, action: 'review' },
+    });
+
+    const mismatch = await pay('tenant-signals', 'user-signals', 1000, {
+      paymentMethod: 'pm_card_br',
+      headers: { 'x-ip-country': 'us' },
+    });
+    expect(mismatch.status).toBe(202);
+    expect(mismatch.body.payment.risk.reasons).toEqual([
+      { rule: 'country_mismatch', action: 'review', message: 'Card issued in BR but the request came from US' },
+    ]);
+    expect(mismatch.body.payment.cardFingerprint).toBe('fake_fp_pm_card_br');
+
+    const local = await pay('tenant-signals', 'user-signals', 1000, { headers: { 'x-ip-country': 'US' } });
+    expect(local.status).toBe(201);
+    expect(local.body.payment.risk).toMatchObject({ outcome: 'allow', reasons: [] });
+
+    const fresh = await pay('tenant-signals', 'user-signals', 1000, {
+      headers: { 'x-user-created-at': String(Date.now() - 5 * 60 * 1000) },
+    });
+    expect(fresh.status).toBe(202);
+    expect(fresh.body.payment.risk.reasons).toMatchObject([
+      { rule: 'new_account', message: 'Account is 5 minutes old' },
+    ]);
+  });
+
+  test('should validate and merge rule changes', async () => {
+    expect((await configure('tenant-rules', { velocity: { maxPerIp: -1 } })).status).toBe(400);
+    expect((await configure('tenant-rules', { velocity: { action: 'alert' } })).status).toBe(400);
+    expect((await configure('tenant-rules', { amount: { reviewAbove: { XYZ: 100 } } })).status).toBe(400);
+    expect((await configure('tenant-rules', { countryMismatch: { enabled: 'yes' } })).status).toBe(400);
+
+    await configure('tenant-rules', { velocity: { maxPerIp: 5 } });
+    const saved = await configure('tenant-rules', { velocity: { action: 'review' } });
+    expect(saved.status).toBe(200);
+    expect(saved.body.velocity).toMatchObject({ maxPerIp: 5, action: 'review', maxPerUser: 0 });
+    expect((await request(app).get('/admin/risk-rules/tenant-rules')).body).toEqual(saved.body);
+    expect((await request(app).get('/admin/risk-rules/tenant-none')).body.countryMismatch.enabled).toBe(false);
+
+    expect((await review('non-existent', { decision: 'approve' })).status).toBe(404);
+    expect((await review('non-existent', { decision: 'maybe' })).status).toBe(400);
+  });
+});
@@ -0,0 +1,162 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ledgerService from '../src/services/ledgerService';
+import {
+  feeRulesRepository,
+  ledgerRepository,
+  taxRatesRepository,
+  ticketSettingsRepository,
+} from '../src/db/repositories';
+import { Money } from '../src/models/money';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+
+describe('Taxes', () => {
+  const testUserId = 'user-tax';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+  beforeEach(async () => {
+    feeRulesRepository.clearMemoryStore();
+    ledgerRepository.clearMemoryStore();
+    taxRatesRepository.clearMemoryStore();
+    ticketSettingsRepository.clearMemoryStore();
+    await saveTicketSettings('ticket-show', { price: usd(5000) });
+    await saveTicketSettings('ticket-hockey', { price: usd(10000) });
+    await saveTicketSettings('ticket-konzert', { price: eur(11900) });
+    await saveTicketSettings('ticket-opera', { price: eur(12000) });
+  });
+
+  const taxRate = (body: Record<string, unknown>) => request(app).post('/admin/tax-rates').send(body);
+
+  const order = (billingAddress: unknown, lineItems: unknown[]) =>
+    request(app).post('/orders').send({ userId: testUserId, billingAddress, lineItems });
+
+  test('should add exclusive sales tax on top of the ticket price', async () => {
+    const rate = await taxRate({
+      country: 'us',
+      region: 'ny',
+      name: 'NY sales tax',
+      rate: 8.875,
+      pricingMode: 'exclusive',
+    });
+    expect(rate.status).toBe(201);
+    expect(rate.body).toMatchObject({ country: 'US', region: 'NY', category: 'standard' });
+    const kids = await request(app).put('/admin/tickets/ticket-kids').send({ taxCategory: 'Exempt', price: usd(2000) });
+    expect(kids.body).toMatchObject({ ticketId: 'ticket-kids', taxCategory: 'exempt' });
+
+    // The category comes from the ticket's settings, whatever the client sends
+    const res = await order({ country: 'US', region: 'NY' }, [
+      { ticketId: 'ticket-show', quantity: 2, unitPrice: usd(5000), taxCategory: 'exempt' },
+      { ticketId: 'ticket-kids', quantity: 1, unitPrice: usd(2000) },
+    ]);
+    expect(res.status).toBe(201);
+    expect(res.body.lineItems.map((item: any) => item.taxCategory)).toEqual(['standard', 'exempt']);
+    expect(res.body.taxLines).toEqual([
+      {
+        lineIndex: 0,
+        ticketId: 'ticket-show',
+        taxRateId: rate.body.id,
+        name: 'NY sales tax',
+        jurisdiction: 'US-NY',
+        category: 'standard',
+        rate: 8.875,
+        pricingMode: 'exclusive',
+        taxableAmount: usd(10000),
+        amount: usd(888),
+      },
+    ]);
+    expect(res.body.totalAmount).toEqual(usd(12888));
+    expect(res.body.fees).toMatchObject({ gross: usd(12888), tax: usd(888), organizerNet: usd(12000) });
+
+    // Buyers elsewhere in the country, or without an address, are not taxed
+    const single = [{ ticketId: 'ticket-show', quantity: 1, unitPrice: usd(5000) }];
+    expect((await order({ country: 'US', region: 'NJ' }, single)).body.taxLines).toEqual([]);
+    expect((await order(undefined, single)).body.totalAmount).toEqual(usd(5000));
+    expect((await order({ country: 'USA' }, single)).status).toBe(400);
+  });
+
+  test('should back inclusive VAT out of the price and charge fees on the net', async () => {
+    await request(app).post('/admin/fee-rules').send({ kind: 'platform', percentage: 10 });
+    await taxRate({ country: 'DE', name: 'MwSt', rate: 19, pricingMode: 'inclusive' });
+
+    const res = await order({ country: 'DE' }, [{ ticketId: 'ticket-konzert', quantity: 1, unitPrice: eur(11900) }]);
+    expect(res.status).toBe(201);
+    expect(res.body.totalAmount).toEqual(eur(11900));
+    expect(res.body.taxLines[0]).toMatchObject({ jurisdiction: 'DE', taxableAmount: eur(10000), amount: eur(1900) });
+    expect(res.body.fees).toMatchObject({
+      gross: eur(11900),
+      tax: eur(1900),
+      platformFee: eur(1000),
+      organizerNet: eur(9000),
+    });
+  });
+
+  test('should apply national and regional rates together', async () => {
+    await taxRate({ country: 'CA', name: 'GST', rate: 5, pricingMode: 'exclusive' });
+    await taxRate({ country: 'CA', region: 'QC', name: 'QST', rate: 9.975, pricingMode: 'exclusive' });
+
+    const lineItems = [{ ticketId: 'ticket-hockey', quantity: 1, unitPrice: usd(10000) }];
+    const quebec = await order({ country: 'CA', region: 'QC' }, lineItems);
+    expect(quebec.body.taxLines.map((t: any) => [t.name, t.jurisdiction, t.amount])).toEqual([
+      ['GST', 'CA', usd(500)],
+      ['QST', 'CA-QC', usd(998)],
+    ]);
+    expect(quebec.body.totalAmount).toEqual(usd(11498));
+
+    const ontario = await order({ country: 'CA', region: 'ON' }, lineItems);
+    expect(ontario.body.taxLines.map((t: any) => t.name)).toEqual(['GST']);
+  });
+
+  test('should only charge rates in force and keep periods from overlapping', async () => {
+    const now = Date.now();
+    const tva = { country: 'FR', name: 'TVA', pricingMode: 'inclusive' };
+    const current = await taxRate({ ...tva, rate: 20, effectiveFrom: now - 60000 });
+    const overlap = await taxRate({ ...tva, rate: 5.5, effectiveFrom: now + 60000 });
+    expect(overlap.status).toBe(409);
+    expect(overlap.body).toMatchObject({ code: 'TAX_RATE_OVERLAP', taxRateId: current.body.id });
+
+    // Close the current rate and schedule the change
+    const ended = await request(app)
+      .patch(`/admin/tax-rates/${current.body.id}`)
+      .send({ effectiveTo: new Date(now + 60000).toISOString() });
+    expect(ended.body.effectiveTo).toBe(now + 60000);
+    expect((await taxRate({ ...tva, rate: 5.5, effectiveFrom: now + 60000 })).status).toBe(201);
+
+    const res = await order({ country: 'FR' }, [{ ticketId: 'ticket-opera', quantity: 1, unitPrice: eur(12000) }]);
+    expect(res.body.taxLines.map((t: any) => [t.rate, t.amount])).toEqual([[20, eur(2000)]]);
+
+    // A country's prices either all include tax or all exclude it
+    const mixed = await taxRate({ ...tva, category: 'reduced', rate: 10, pricingMode: 'exclusive' });
+    expect(mixed.status).toBe(400);
+    expect((await request(app).get('/admin/tax-rates?country=fr')).body).toHaveLength(2);
+  });
+
+  test('should return the tax on refunds and take it out of the tax payable', async () => {
+    await taxRate({ country: 'US', region: 'NY', name: 'NY sales tax', rate: 8.875, pricingMode: 'exclusive' });
+    const created = await order({ country: 'US', region: 'NY' }, [
+      { ticketId: 'ticket-show', quantity: 2, unitPrice: usd(5000) },
+    ]);
+    const payment = await request(app)
+      .post(`/orders/${created.body.id}/payments`)
+      .send({ amount: created.body.totalAmount, paymentMethod: 'pm_card_visa' });
+    const paymentId = payment.body.payment.id;
+    const balance = async (accountCode: string) => (await ledgerService.getAccountBalance(accountCode)).balances;
+    expect(await balance('tax_payable')).toEqual([Money.of(888, 'USD')]);
+
+    const one = await request(app)
+      .post(`/orders/${created.body.id}/refunds`)
+      .send({ paymentId, lineItems: [{ ticketId: 'ticket-show', quantity: 1 }] });
+    expect(one.body.refund).toMatchObject({ amount: usd(5444), tax: usd(444) });
+    const entry = (await ledgerService.getOrderEntries(created.body.id)).find((e) => e.type === 'refund');
+    expect(entry?.postings).toEqual([
+      { accountCode: 'organizer_payable', direction: 'debit', amount: Money.of(5000, 'USD') },
+      { accountCode: 'tax_payable', direction: 'debit', amount: Money.of(444, 'USD') },
+      { accountCode: 'processor_balance', direction: 'credit', amount: Money.of(5444, 'USD') },
+    ]);
+
+    // The last refund returns whatever tax is left
+    const rest = await request(app).post(`/orders/${created.body.id}/refunds`).send({ paymentId });
+    expect(rest.body.refund).toMatchObject({ amount: usd(5444), tax: usd(444) });
+    expect(await balance('tax_payable')).toEqual([Money.of(0, 'USD')]);
+  });
+});
@@ -0,0 +1,194 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import {
+  inventoryReservationsRepository,
+  ordersRepository,
+  purchaseLimitsRepository,
+  ticketInventoryRepository,
+  ticketSettingsRepository,
+  waitlistEntriesRepository,
+} from '../src/db/repositories';
+
+describe('Waitlist', () => {
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+  const minutes = (count: number) => count * 60 * 1000;
+
+  beforeEach(async () => {
+    ticketInventoryRepository.clearMemoryStore();
+    inventoryReservationsRepository.clearMemoryStore();
+    ordersRepository.clearMemoryStore();
+    purchaseLimitsRepository.clearMemoryStore();
+    ticketSettingsRepository.clearMemoryStore();
+    waitlistEntriesRepository.clearMemoryStore();
+    await saveTicketSettings('ticket-show', { price: usd(5000) });
+  });
+
+  const supply = (totalSupply: number, ticketId: string = 'ticket-show') =>
+    request(app).put(`/admin/inventory/${ticketId}`).send({ totalSupply });
+
+  const order = (userId: string, quantity: number, ticketId: string = 'ticket-show') =>
+    request(app)
+      .post('/orders')
+      .send({ userId, lineItems: [{ ticketId, quantity, unitPrice: usd(5000) }] });
+
+  const join = (userId: string, body: Record<string, unknown> = {}, ticketId: string = 'ticket-show') =>
+    request(app)
+      .post(`/tickets/${ticketId}/waitlist`)
+      .send({ userId, quantity: 1, ...body });
+
+  const entry = async (userId: string) => (await request(app).get(`/tickets/ticket-show/waitlist/${userId}`)).body;
+
+  const cancel = (orderId: string) => request(app).put(`/orders/${orderId}/status`).send({ status: 'cancelled' });
+
+  test('should queue users for sold-out tickets in the order they join', async () => {
+    await supply(2);
+    const onSale = await join('user-a');
+    expect(onSale.status).toBe(422);
+    expect(onSale.body).toMatchObject({ code: 'TICKETS_AVAILABLE', ticketId: 'ticket-show', available: 2 });
+    expect((await join('user-a', {}, 'ticket-untracked')).body.code).toBe('TICKETS_AVAILABLE');
+
+    await order('user-buyer', 2);
+    const first = await join('user-a');
+    expect(first.status).toBe(201);
+    expect(first.body).toMatchObject({ status: 'waiting', position: 1, quantity: 1 });
+    expect((await join('user-b', { quantity: 2 })).body.position).toBe(2);
+
+    const again = await join('user-a');
+    expect(again.status).toBe(409);
+    expect(again.body).toMatchObject({ code: 'WAITLIST_ALREADY_JOINED', entryId: first.body.id });
+    expect(await entry('user-b')).toMatchObject({ status: 'waiting', position: 2 });
+    expect((await request(app).get('/tickets/ticket-show/waitlist/user-nobody')).status).toBe(404);
+    expect((await join('user-c', { quantity: 0 })).status).toBe(400);
+  });
+
+  test('should offer freed seats to the head of the queue as orders holding them', async () => {
+    await supply(2);
+    const sold = await order('user-buyer', 2);
+    await join('user-a');
+    await join('user-b');
+    await join('user-c');
+
+    const before = Date.now();
+    await cancel(sold.body.id);
+    const offer = await entry('user-a');
+    expect(offer).toMatchObject({ status: 'offered', orderId: expect.any(String) });
+    expect(offer.offerExpiresAt - before).toBeGreaterThanOrEqual(minutes(30));
+    expect((await entry('user-b')).status).toBe('offered');
+    expect(await entry('user-c')).toMatchObject({ status: 'waiting', position: 1 });
+
+    const offered = await ordersService.getOrder(offer.orderId);
+    expect(offered).toMatchObject({ userId: 'user-a', status: 'pending', expiresAt: offer.offerExpiresAt });
+    expect(offered?.lineItems[0]).toMatchObject({ ticketId: 'ticket-show', quantity: 1 });
+    expect((await request(app).get('/admin/inventory/ticket-show')).body).toMatchObject({ reserved: 2, available: 0 });
+
+    await request(app)
+      .post(`/orders/${offer.orderId}/payments`)
+      .send({ amount: usd(5000), paymentMethod: 'pm_card_visa' });
+    expect((await entry('user-a')).status).toBe('claimed');
+    expect((await request(app).get('/admin/inventory/ticket-show')).body).toMatchObject({ sold: 1 });
+  });
+
+  test('should hold the seats users wait for instead of selling them directly', async () => {
+    await supply(3);
+    await order('user-buyer', 2);
+    const last = await order('user-last', 1);
+    await join('user-a', { quantity: 2 });
+
+    // One seat is not enough for the head of the queue, but it is not sold past them either
+    await cancel(last.body.id);
+    expect((await entry('user-a')).status).toBe('waiting');
+    const held = await order('user-c', 1);
+    expect(held.status).toBe(422);
+    expect(held.body).toMatchObject({ code: 'TICKETS_HELD_FOR_WAITLIST', ticketId: 'ticket-show', available: 0 });
+    expect((await request(app).get('/admin/inventory/ticket-show')).body.available).toBe(1);
+
+    // Seats added to the supply go to the queue first, and only the rest are on sale
+    expect((await supply(5)).body).toMatchObject({ reserved: 4, available: 1 });
+    expect((await entry('user-a')).status).toBe('offered');
+    expect((await order('user-c', 1)).status).toBe(201);
+  });
+
+  test('should price offers from the ticket when they are made', async () => {
+    await supply(1);
+    const sold = await order('user-buyer', 1);
+    await join('user-a', { unitPrice: usd(1) });
+    await saveTicketSettings('ticket-show', { price: usd(6000) });
+
+    await cancel(sold.body.id);
+    const offered = await ordersService.getOrder((await entry('user-a')).orderId);
+    expect(offered?.lineItems[0].unitPrice.toJSON()).toEqual(usd(6000));
+    expect(offered?.totalAmount.toJSON()).toEqual(usd(6000));
+  });
+
+  test('should roll offers that are not claimed in time to the next user in line', async () => {
+    await supply(1);
+    const sold = await order('user-buyer', 1);
+    await join('user-a');
+    await join('user-b');
+    await cancel(sold.body.id);
+
+    // Offers hold for the offer window, not the usual hold time
+    const now = Date.now();
+    expect(await ordersService.expireOrders(now + minutes(16))).toBe(0);
+    expect(await ordersService.expireOrders(now + minutes(31))).toBe(1);
+    expect((await entry('user-a')).status).toBe('lapsed');
+    const next = await entry('user-b');
+    expect(next.status).toBe('offered');
+
+    // Turning the offer down passes the seat on too, and with no one left it goes back on sale
+    await cancel(next.orderId);
+    expect((await entry('user-b')).status).toBe('lapsed');
+    expect((await request(app).get('/admin/inventory/ticket-show')).body.available).toBe(1);
+    expect((await join('user-c')).body.code).toBe('TICKETS_AVAILABLE');
+  });
+
+  test('should offer refunded seats and skip users the order is refused to', async () => {
+    await supply(2);
+    const sold = await order('user-buyer', 2);
+    const paymentId = (
+      await request(app)
+        .post(`/orders/${sold.body.id}/payments`)
+        .send({ amount: usd(10000), paymentMethod: 'pm_card_visa' })
+    ).body.payment.id;
+
+    await request(app).post('/admin/purchase-limits').send({ eventId: 'event-gala', maxQuantity: 1 });
+    await request(app).put('/admin/tickets/ticket-show').send({ eventId: 'event-gala', price: usd(5000) });
+    await request(app).put('/admin/tickets/ticket-afterparty').send({ eventId: 'event-gala', price: usd(5000) });
+    await order('user-a', 1, 'ticket-afterparty');
+    await join('user-a');
+    await join('user-b');
+
+    await request(app)
+      .post(`/orders/${sold.body.id}/refunds`)
+      .send({ paymentId, lineItems: [{ ticketId: 'ticket-show', quantity: 1 }] });
+    expect((await entry('user-a')).status).toBe('skipped');
+    const offer = await entry('user-b');
+    expect(offer.status).toBe('offered');
+    expect((await ordersService.getOrder(offer.orderId))?.lineItems[0].eventId).toBe('event-gala');
+  });
+
+  test('should let waiting users leave the queue', async () => {
+    await supply(1);
+    const sold = await order('user-buyer', 1);
+    await join('user-a');
+    await join('user-b');
+    await join('user-c');
+
+    const left = await request(app).delete('/tickets/ticket-show/waitlist/user-b');
+    expect(left.status).toBe(200);
+    expect(left.body.status).toBe('left');
+    expect((await entry('user-b')).position).toBeUndefined();
+    expect((await entry('user-c')).position).toBe(2);
+    expect((await request(app).delete('/tickets/ticket-show/waitlist/user-b')).status).toBe(404);
+
+    await cancel(sold.body.id);
+    const pending = await request(app).delete('/tickets/ticket-show/waitlist/user-a');
+    expect(pending.status).toBe(409);
+    expect(pending.body).toMatchObject({ code: 'WAITLIST_OFFER_PENDING', orderId: (await entry('user-a')).orderId });
+
+    // Users who left can join again, at the back of the queue
+    expect((await join('user-b')).body).toMatchObject({ status: 'waiting', position: 2 });
+  });
+});
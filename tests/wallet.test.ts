@@ -0,0 +1,175 @@
+import request from 'supertest';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { getAccountBalance } from '../src/services/ledgerService';
+import * as database from '../src/config/database';
+import {
+  ledgerRepository,
+  paymentsRepository,
+  walletsRepository,
+  walletTransactionsRepository,
+} from '../src/db/repositories';
+import { Money } from '../src/models/money';
+
+describe('Store credit wallet', () => {
+  const tenant = 'tenant-wallet';
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  beforeEach(() => {
+    ledgerRepository.clearMemoryStore();
+    walletsRepository.clearMemoryStore();
+    walletTransactionsRepository.clearMemoryStore();
+  });
+
+  const grant = (userId: string, amount: number, tenantId: string = tenant) =>
+    request(app)
+      .post(`/admin/wallets/${userId}/credits`)
+      .set({ 'x-tenant-id': tenantId, 'x-user-id': 'marketing' })
+      .send({ amount: usd(amount), description: 'Launch promotion' });
+
+  const order = async (userId: string, amount: number) => {
+    await saveTicketSettings('ticket-wallet', { price: usd(amount) });
+    return ordersService.createOrder(userId, [{ ticketId: 'ticket-wallet', quantity: 1, unitPrice: usd(amount) }]);
+  };
+
+  const pay = (orderId: string, amount: number, paymentMethod: string, body: Record<string, unknown> = {}) =>
+    request(app)
+      .post(`/orders/${orderId}/payments`)
+      .set('x-tenant-id', tenant)
+      .send({ amount: usd(amount), paymentMethod, ...body });
+
+  const wallet = (userId: string, tenantId: string = tenant) =>
+    request(app).get(`/wallets/${userId}`).set('x-tenant-id', tenantId);
+
+  test('should pay for an order from promotional credit', async () => {
+    const granted = await grant('user-w1', 5000);
+    expect(granted.status).toBe(201);
+    expect(granted.body).toMatchObject({ type: 'credit', reason: 'promotion', balanceAfter: usd(5000) });
+
+    const { id } = await order('user-w1', 4000);
+    const res = await pay(id, 4000, 'wallet');
+    expect(res.status).toBe(201);
+    expect(res.body.payment).toMatchObject({ status: 'succeeded', provider: 'wallet', paymentMethod: 'wallet' });
+    expect(res.body.order.status).toBe('completed');
+
+    expect((await wallet('user-w1')).body).toEqual({ tenantId: tenant, userId: 'user-w1', balances: [usd(1000)] });
+    const history = await request(app).get('/wallets/user-w1/transactions').set('x-tenant-id', tenant);
+    expect(history.body.map((t: any) => [t.type, t.reason, t.amount.amount, t.balanceAfter.amount])).toEqual([
+      ['debit', 'payment', 4000, 1000],
+      ['credit', 'promotion', 5000, 5000],
+    ]);
+    expect(history.body[0]).toMatchObject({ orderId: id, paymentId: res.body.payment.id });
+    expect(res.body.payment.transactionId).toBe(history.body[0].id);
+
+    expect((await getAccountBalance('store_credit')).balances).toEqual([Money.of(1000, 'USD')]);
+    expect((await getAccountBalance('promotions')).balances).toEqual([Money.of(5000, 'USD')]);
+  });
+
+  test('should combine wallet and card payments and fail short balances', async () => {
+    await grant('user-w2', 3000);
+    const { id } = await order('user-w2', 10000);
+
+    const short = await pay(id, 5000, 'wallet');
+    expect(short.status).toBe(402);
+    expect(short.body.payment).toMatchObject({ status: 'failed', errorMessage: 'Insufficient store credit' });
+
+    expect((await pay(id, 3000, 'wallet')).body.order.status).toBe('processing');
+    const card = await pay(id, 7000, 'pm_card_visa');
+    expect(card.body.order).toMatchObject({ status: 'completed', balance: { paid: usd(10000), outstanding: usd(0) } });
+    expect((await wallet('user-w2')).body.balances).toEqual([usd(0)]);
+  });
+
+  test('should refund card payments into store credit and wallet payments back to the wallet', async () => {
+    const cardOrder = await order('user-w3', 6000);
+    const card = await pay(cardOrder.id, 6000, 'pm_card_visa');
+    const refund = await request(app)
+      .post(`/orders/${cardOrder.id}/refunds`)
+      .set('x-tenant-id', tenant)
+      .send({ paymentId: card.body.payment.id, destination: 'store_credit', reason: 'Event cancelled' });
+    expect(refund.status).toBe(201);
+    expect(refund.body.refund).toMatchObject({ status: 'succeeded', destination: 'store_credit' });
+    expect(refund.body.order.status).toBe('refunded');
+    expect((await wallet('user-w3')).body.balances).toEqual([usd(6000)]);
+
+    const walletOrder = await order('user-w3', 2500);
+    const walletPayment = await pay(walletOrder.id, 2500, 'wallet');
+    const walletRefund = await request(app)
+      .post(`/orders/${walletOrder.id}/refunds`)
+      .send({ paymentId: walletPayment.body.payment.id, amount: usd(1000) });
+    expect(walletRefund.body.refund).toMatchObject({ status: 'succeeded', destination: 'store_credit' });
+    expect((await wallet('user-w3')).body.balances).toEqual([usd(4500)]);
+
+    const history = await request(app).get('/wallets/user-w3/transactions').set('x-tenant-id', tenant);
+    expect(history.body[0]).toMatchObject({ reason: 'refund', refundId: walletRefund.body.refund.id });
+    expect((await getAccountBalance('store_credit')).balances).toEqual([Money.of(4500, 'USD')]);
+  });
+
+  test('should store the wallet transaction a payment was made from on Postgres', async () => {
+    jest.spyOn(database, 'getDatabaseStatus').mockReturnValue({ connected: true, type: 'postgres' });
+    const query = jest.spyOn(database, 'query').mockResolvedValue({
+      rows: [
+        {
+          id: 'payment-wallet',
+          order_id: 'order-wallet',
+          amount: '2500',
+          currency: 'USD',
+          status: 'succeeded',
+          provider: 'wallet',
+          transaction_id: 'wallet-transaction-1',
+          metadata: { source: 'test' },
+          created_at: '1',
+          updated_at: '2',
+        },
+      ],
+    } as any);
+
+    try {
+      const payment = await paymentsRepository.update('payment-wallet', {
+        status: 'succeeded',
+        provider: 'wallet',
+        transactionId: 'wallet-transaction-1',
+        amountCaptured: Money.of(2500, 'USD'),
+      });
+      const [text, values] = query.mock.calls[0];
+      expect(text).toContain('status = $2, provider = $3, transaction_id = $4, amount_captured = $5');
+      expect(values).toEqual([
+        'payment-wallet',
+        'succeeded',
+        'wallet',
+        'wallet-transaction-1',
+        2500,
+        expect.any(Number),
+      ]);
+      expect(payment).toMatchObject({ transactionId: 'wallet-transaction-1', metadata: { source: 'test' } });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('should never overdraw a wallet under concurrent debits', async () => {
+    await grant('user-w4', 5000);
+    const orders = await Promise.all([order('user-w4', 4000), order('user-w4', 4000), order('user-w4', 4000)]);
+
+    const results = await Promise.all(orders.map((o) => pay(o.id, 4000, 'wallet')));
+    expect(results.map((r) => r.status).sort()).toEqual([201, 402, 402]);
+    expect((await wallet('user-w4')).body.balances).toEqual([usd(1000)]);
+  });
+
+  test('should scope wallets to the tenant and validate requests', async () => {
+    await grant('user-w5', 2000, 'tenant-other');
+    expect((await wallet('user-w5')).body.balances).toEqual([]);
+    expect((await wallet('user-w5', 'tenant-other')).body.balances).toEqual([usd(2000)]);
+
+    const { id } = await order('user-w5', 1000);
+    expect((await pay(id, 1000, 'wallet')).status).toBe(402);
+    expect((await pay(id, 1000, 'wallet', { captureMethod: 'manual' })).status).toBe(400);
+
+    expect((await grant('user-w5', -100)).status).toBe(400);
+    const card = await pay(id, 1000, 'pm_card_visa');
+    const badRefund = await request(app)
+      .post(`/orders/${id}/refunds`)
+      .send({ paymentId: card.body.payment.id, destination: 'voucher' });
+    expect(badRefund.status).toBe(400);
+  });
+});
@@ -0,0 +1,203 @@
+import request from 'supertest';
+import Stripe from 'stripe';
+import app from '../src/app';
+import * as ordersService from '../src/services/ordersService';
+import { saveTicketSettings } from '../src/services/ticketSettingsService';
+import { Money } from '../src/models/money';
+import { refundsRepository } from '../src/db/repositories';
+
+const WEBHOOK_SECRET = 'whsec_test_local';
+
+describe('Stripe Webhooks', () => {
+  const testUserId = 'user-webhooks';
+  let sequence = 0;
+
+  beforeAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+  });
+
+  const fixture = (type: string, object: Record<string, unknown>) => ({
+    id: `evt_test_${++sequence}`,
+    object: 'event',
+    type,
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    data: { object },
+  });
+
+  const post = (event: object, secret: string = WEBHOOK_SECRET) => {
+    const payload = JSON.stringify(event);
+    return request(app)
+      .post('/webhooks/stripe')
+      .set('Content-Type', 'application/json')
+      .set('Stripe-Signature', Stripe.webhooks.generateTestHeaderString({ payload, secret }))
+      .send(payload);
+  };
+
+  const pendingPayment = async (amount: number, stripePaymentId: string) => {
+    await saveTicketSettings('ticket-webhooks', { price: { amount: 10000, currency: 'USD' } });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-webhooks', quantity: 1, unitPrice: { amount: 10000, currency: 'USD' } },
+    ]);
+    const payment = await ordersService.createPayment(order, Money.of(amount, 'USD'), 'card', 'stripe');
+    await ordersService.updatePaymentStatus(payment.id, 'pending', { stripePaymentId });
+    return { order, payment };
+  };
+
+  test('should mark the payment succeeded and complete the order', async () => {
+    const { order, payment } = await pendingPayment(10000, 'pi_webhook_succeeded');
+    const res = await post(
+      fixture('payment_intent.succeeded', {
+        id: 'pi_webhook_succeeded',
+        object: 'payment_intent',
+        latest_charge: 'ch_webhook_succeeded',
+        metadata: {},
+      })
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ received: true, outcome: 'processed' });
+    const updated = await ordersService.getPayment(payment.id);
+    expect(updated?.status).toBe('succeeded');
+    expect(updated?.stripeChargeId).toBe('ch_webhook_succeeded');
+    expect((await ordersService.getOrder(order.id))?.status).toBe('completed');
+  });
+
+  test('should find the payment from intent metadata before the intent id is stored', async () => {
+    await saveTicketSettings('ticket-webhooks', { price: { amount: 5000, currency: 'USD' } });
+    const order = await ordersService.createOrder(testUserId, [
+      { ticketId: 'ticket-webhooks', quantity: 1, unitPrice: { amount: 5000, currency: 'USD' } },
+    ]);
+    const payment = await ordersService.createPayment(order, Money.of(5000, 'USD'), 'card', 'stripe');
+    const res = await post(
+      fixture('payment_intent.succeeded', {
+        id: 'pi_webhook_metadata',
+        object: 'payment_intent',
+        latest_charge: null,
+        metadata: { orderId: order.id, paymentId: payment.id },
+      })
+    );
+
+    expect(res.body.outcome).toBe('processed');
+    const updated = await ordersService.getPayment(payment.id);
+    expect(updated?.status).toBe('succeeded');
+    expect(updated?.stripePaymentId).toBe('pi_webhook_metadata');
+  });
+
+  test('should record failures with the processor message', async () => {
+    const { order, payment } = await pendingPayment(10000, 'pi_webhook_failed');
+    const res = await post(
+      fixture('payment_intent.payment_failed', {
+        id: 'pi_webhook_failed',
+        object: 'payment_intent',
+        last_payment_error: { message: 'Your card was declined.' },
+        metadata: {},
+      })
+    );
+
+    expect(res.status).toBe(200);
+    const updated = await ordersService.getPayment(payment.id);
+    expect(updated?.status).toBe('failed');
+    expect(updated?.errorMessage).toBe('Your card was declined.');
+    expect((await ordersService.getOrder(order.id))?.status).toBe('pending');
+  });
+
+  test('should record refunded amounts on the payment and order balance', async () => {
+    const { order } = await pendingPayment(10000, 'pi_webhook_refunded');
+    await post(
+      fixture('payment_intent.succeeded', { id: 'pi_webhook_refunded', object: 'payment_intent', metadata: {} })
+    );
+    const res = await post(
+      fixture('charge.refunded', {
+        id: 'ch_webhook_refunded',
+        object: 'charge',
+        payment_intent: 'pi_webhook_refunded',
+        amount: 10000,
+        amount_refunded: 2500,
+        currency: 'usd',
+      })
+    );
+
+    expect(res.body.outcome).toBe('processed');
+    const balance = await request(app).get(`/orders/${order.id}`);
+    expect(balance.body.balance.refunded).toEqual({ amount: 2500, currency: 'USD' });
+    expect(balance.body.status).toBe('partially_refunded');
+
+    const refunds = await request(app).get(`/orders/${order.id}/refunds`);
+    expect(refunds.body).toHaveLength(1);
+    expect(refunds.body[0]).toMatchObject({ amount: { amount: 2500, currency: 'USD' }, status: 'succeeded' });
+  });
+
+  test('should settle a pending refund when Stripe reports it succeeded', async () => {
+    const { order, payment } = await pendingPayment(10000, 'pi_webhook_refund_pending');
+    await post(
+      fixture('payment_intent.succeeded', { id: 'pi_webhook_refund_pending', object: 'payment_intent', metadata: {} })
+    );
+    const refund = await refundsRepository.create({
+      orderId: order.id,
+      paymentId: payment.id,
+      amount: Money.of(10000, 'USD'),
+      status: 'pending',
+      providerRefundId: 're_webhook_pending',
+      destination: 'payment_method',
+      requestedBy: 'support-agent',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    const res = await post(
+      fixture('charge.refund.updated', { id: 're_webhook_pending', object: 'refund', status: 'succeeded' })
+    );
+    expect(res.body.outcome).toBe('processed');
+    expect((await refundsRepository.findById(refund.id))?.status).toBe('succeeded');
+    expect((await ordersService.getPayment(payment.id))?.status).toBe('refunded');
+    expect((await ordersService.getOrder(order.id))?.status).toBe('refunded');
+  });
+
+  test('should process a redelivered event only once', async () => {
+    const { payment } = await pendingPayment(4000, 'pi_webhook_duplicate');
+    const event = fixture('payment_intent.succeeded', {
+      id: 'pi_webhook_duplicate',
+      object: 'payment_intent',
+      metadata: {},
+    });
+
+    const first = await post(event);
+    const retry = await post(event);
+    expect(first.body.outcome).toBe('processed');
+    expect(retry.status).toBe(200);
+    expect(retry.body.outcome).toBe('duplicate');
+    expect((await ordersService.getPayment(payment.id))?.status).toBe('succeeded');
+  });
+
+  test('should acknowledge events it does not handle', async () => {
+    const res = await post(fixture('customer.created', { id: 'cus_123', object: 'customer' }));
+    expect(res.status).toBe(200);
+    expect(res.body.outcome).toBe('ignored');
+  });
+
+  test('should reject a payload signed with another secret', async () => {
+    const { payment } = await pendingPayment(10000, 'pi_webhook_forged');
+    const res = await post(
+      fixture('payment_intent.succeeded', { id: 'pi_webhook_forged', object: 'payment_intent', metadata: {} }),
+      'whsec_someone_else'
+    );
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('INVALID_WEBHOOK_SIGNATURE');
+    expect((await ordersService.getPayment(payment.id))?.status).toBe('pending');
+  });
+
+  test('should reject a request without a signature', async () => {
+    const res = await request(app)
+      .post('/webhooks/stripe')
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify(fixture('customer.created', {})));
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('INVALID_WEBHOOK_SIGNATURE');
+  });
+});